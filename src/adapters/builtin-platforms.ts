@@ -0,0 +1,342 @@
+/**
+ * Built-in Platform Definitions
+ *
+ * The platforms shipped with the framework, as PlatformDefinition data.
+ * Array order is detection order: the first platform whose marker exists
+ * in the workspace wins, so the most specific markers come first.
+ */
+
+import type { BuiltinPlatformId } from '../types.js';
+import type { PlatformDefinition } from './platform-definition.js';
+
+/**
+ * Glob Copilot skills are attached to. Skills such as create-spec run before
+ * any spec file exists, so they apply to the whole repository.
+ */
+export const COPILOT_SKILL_APPLY_TO = '**';
+
+/**
+ * Instructions file shared by most platforms; only the closing line
+ * about where skills live differs.
+ */
+function sddFrameworkInstructions(workingWithSpecs: string): string[] {
+  return [
+    '# SDD Framework',
+    '',
+    '## Project Structure',
+    '',
+    'This project uses structured specs located in `{{specsPath}}`.',
+    '',
+    '## Available Specs',
+    '',
+    '{{specs}}',
+    '',
+    '## Working with Specs',
+    '',
+    workingWithSpecs,
+    '',
+  ];
+}
+
+export const BUILTIN_PLATFORMS: readonly PlatformDefinition[] = [
+  {
+    id: 'kiro',
+    name: 'Kiro',
+    skillsPath: '.kiro/skills/',
+    userSkillsPath: '~/.kiro/skills/',
+    // Kiro uses steering files instead of a single instructions file
+    instructionsFile: null,
+    skill: {
+      layout: 'file',
+      fields: { inclusion: 'auto' },
+      instructionsHeading: 'Instructions',
+    },
+    hooks: [
+      {
+        path: '.kiro/hooks/sdd-task-status.kiro.hook',
+        content: {
+          enabled: true,
+          name: 'SDD task status',
+          description: 'Show spec task progress when a prompt is submitted',
+          version: '1',
+          when: { type: 'promptSubmit' },
+          then: { type: 'runCommand', command: 'npx sdd status' },
+        },
+      },
+      {
+        path: '.kiro/hooks/sdd-verify.kiro.hook',
+        content: {
+          enabled: true,
+          name: 'SDD verify',
+          description: 'Verify specs and skills when the agent stops',
+          version: '1',
+          when: { type: 'agentStop' },
+          then: { type: 'runCommand', command: 'npx sdd verify --platform {{platform}}' },
+        },
+      },
+    ],
+    detection: { markers: ['.kiro/'], env: ['TERM_PROGRAM=kiro'] },
+  },
+  {
+    id: 'claude-code',
+    name: 'Claude Code',
+    skillsPath: '.claude/skills/',
+    instructionsFile: 'CLAUDE.md',
+    // Claude Code discovers skills as <name>/SKILL.md with name and description frontmatter
+    skill: {
+      layout: 'directory',
+      fileName: 'SKILL.md',
+      fields: { name: '{{name}}', description: '{{description|line|json}}' },
+      instructionsHeading: 'Usage',
+      legacyFiles: ['{{name}}.md'],
+      // The flat <name>.md files release 0.1.0 wrote
+      legacyHashes: {
+        'analyze-task-failure': ['sha256-3339ee63afd1c0664520e2e013365d8d298549f461d38f104d37860f249b259e'],
+        'create-spec': ['sha256-7dfca3255e5c3c2c5a0dfb4eb56915df720006173c51f49be0b647aed1065756'],
+        'install-skills': ['sha256-872677bcd8e9950750787724ee252c06570f3426032a39ad2cbbdb9a39c1718c'],
+        'refine-spec': ['sha256-ef802eeb84df9b447b1a8f2c6cfab18d83f860180065d46defefdf09634358ee'],
+        'run-task': ['sha256-c3568d88c56d35df2b5f4781893af23bef45395542375ce51e1f9df1741a6154'],
+        'start-task-group': ['sha256-7d45f56237f5544dfcfffca260bdc6d912237807349caee004377fc182b29d11'],
+        'workspace-init': ['sha256-46630329e1226f4de5ba7c337a098eb340ed42f0ea545db5fe5252339d13829b'],
+      },
+    },
+    instructions: {
+      template: [
+        '# Project Instructions',
+        '',
+        '## Specs',
+        '',
+        'This project uses structured specs located in `{{specsPath}}`.',
+        '',
+        '{{specs}}',
+        '',
+        '## Available Skills',
+        '',
+        'Use the skills in `{{skillsPath}}` for spec management.',
+        '',
+      ],
+    },
+    commands: {
+      path: '.claude/commands/',
+      fields: { description: '{{description|line|json}}', 'argument-hint': '{{arguments|json}}' },
+      template: [
+        'Use the {{name}} skill (`{{skillsPath}}{{name}}/SKILL.md`) with these arguments: $ARGUMENTS',
+        '',
+        '## Parameters',
+        '',
+        '{{parameters}}',
+        '',
+      ],
+    },
+    hooks: [
+      {
+        path: '.claude/settings.json',
+        content: {
+          hooks: {
+            SessionStart: [{ hooks: [{ type: 'command', command: 'npx sdd status' }] }],
+            Stop: [{ hooks: [{ type: 'command', command: 'npx sdd verify --platform {{platform}}' }] }],
+          },
+        },
+      },
+    ],
+    detection: { markers: ['.claude/', 'CLAUDE.md'], env: ['CLAUDECODE'] },
+  },
+  {
+    id: 'codex',
+    name: 'Codex',
+    skillsPath: '.codex/skills/',
+    instructionsFile: 'AGENTS.md',
+    skill: {
+      layout: 'directory',
+      fileName: 'SKILL.md',
+      instructionsHeading: 'Instructions',
+    },
+    instructions: {
+      template: [
+        '# Agent Instructions',
+        '',
+        '## Project Structure',
+        '',
+        'This project uses structured specs in `{{specsPath}}`.',
+        '',
+        '## Skills',
+        '',
+        'Skills are available in `{{skillsPath}}`. Each skill has a SKILL.md file.',
+        '',
+        '## Specs',
+        '',
+        '{{specs}}',
+        '',
+      ],
+      specLine: '- {{name}}: {{description}}',
+    },
+    detection: { markers: ['.codex/', 'AGENTS.md'] },
+  },
+  {
+    id: 'antigravity',
+    name: 'Antigravity',
+    skillsPath: '.agent/skills/',
+    instructionsFile: '.agent/rules/specs.md',
+    skill: {
+      layout: 'directory',
+      fileName: 'SKILL.md',
+    },
+    instructions: {
+      template: [
+        '# Specs Instructions',
+        '',
+        '## Project Structure',
+        '',
+        'This project uses structured specs located in `{{specsPath}}`.',
+        '',
+        '## Available Specs',
+        '',
+        '{{specs}}',
+        '',
+        '## Working with Specs',
+        '',
+        'Use the skills in `{{skillsPath}}` for spec management.',
+        '',
+      ],
+    },
+    detection: { markers: ['.agent/'] },
+  },
+  {
+    id: 'amazonq',
+    name: 'Amazon Q',
+    skillsPath: '.amazonq/rules/',
+    // Amazon Q auto-loads every rule, so there is no separate instructions file
+    instructionsFile: null,
+    skill: {
+      layout: 'file',
+    },
+    instructions: {
+      template: sddFrameworkInstructions('Rules in `{{skillsPath}}` are automatically loaded by Amazon Q Developer.'),
+    },
+    detection: { markers: ['.amazonq/'] },
+    workspaceChecks: [
+      {
+        path: '.amazonq',
+        code: 'MISSING_AMAZONQ_DIR',
+        message: '.amazonq/ directory does not exist',
+        suggestion: 'Create the .amazonq/ directory to configure Amazon Q Developer',
+      },
+      {
+        path: '.amazonq/rules',
+        code: 'MISSING_RULES_DIR',
+        message: '.amazonq/rules/ directory does not exist',
+        suggestion: 'Create the .amazonq/rules/ directory for Amazon Q project rules',
+      },
+    ],
+  },
+  {
+    id: 'cursor',
+    name: 'Cursor',
+    skillsPath: '.cursor/rules/',
+    instructionsFile: '.cursor/rules/specs.mdc',
+    skill: {
+      layout: 'file',
+      extension: '.mdc',
+      // Agent-requested rules: attached when the description matches the task
+      fields: { description: '{{description|line}}', globs: '', alwaysApply: 'false' },
+      descriptionInBody: false,
+    },
+    instructions: {
+      template: sddFrameworkInstructions(
+        'Rules in `{{skillsPath}}` describe the available skills; Cursor attaches them when their description matches the task.'
+      ),
+      fields: {
+        description: 'Spec-driven development: where specs live and how to work with them',
+        globs: '',
+        alwaysApply: 'true',
+      },
+    },
+    detection: { markers: ['.cursor/', '.cursorrules'], env: ['CURSOR_TRACE_ID'] },
+    workspaceChecks: [
+      {
+        path: '.cursor',
+        code: 'MISSING_CURSOR_DIR',
+        message: '.cursor/ directory does not exist',
+        suggestion: 'Create the .cursor/ directory to configure Cursor',
+      },
+      {
+        path: '.cursor/rules',
+        code: 'MISSING_RULES_DIR',
+        message: '.cursor/rules/ directory does not exist',
+        suggestion: 'Create the .cursor/rules/ directory for Cursor project rules',
+      },
+    ],
+  },
+  {
+    id: 'copilot',
+    name: 'Copilot',
+    skillsPath: '.github/instructions/',
+    instructionsFile: '.github/copilot-instructions.md',
+    skill: {
+      layout: 'file',
+      extension: '.instructions.md',
+      fields: { applyTo: `"${COPILOT_SKILL_APPLY_TO}"`, description: '{{description|line|json}}' },
+      descriptionInBody: false,
+    },
+    instructions: {
+      template: sddFrameworkInstructions('Skills are available in `{{skillsPath}}` as `*.instructions.md` files.'),
+    },
+    // .github/ alone is too common to count
+    detection: { markers: ['.github/copilot-instructions.md', '.github/instructions/'] },
+    workspaceChecks: [
+      {
+        path: '.github/copilot-instructions.md',
+        code: 'MISSING_INSTRUCTIONS_FILE',
+        message: '.github/copilot-instructions.md does not exist',
+        suggestion: 'Run workspace-init for copilot to create the repository instructions',
+      },
+      {
+        path: '.github/instructions',
+        code: 'MISSING_INSTRUCTIONS_DIR',
+        message: '.github/instructions/ directory does not exist',
+        suggestion: 'Create the .github/instructions/ directory for Copilot skill instructions',
+      },
+    ],
+  },
+  {
+    id: 'gemini-cli',
+    name: 'Gemini CLI',
+    skillsPath: '.gemini/commands/',
+    userSkillsPath: '~/.gemini/commands/',
+    instructionsFile: 'GEMINI.md',
+    skill: {
+      layout: 'file',
+      extension: '.toml',
+      format: 'toml',
+      fields: { description: '{{description}}', prompt: '{{body}}' },
+      descriptionInBody: false,
+    },
+    instructions: {
+      template: sddFrameworkInstructions(
+        'Skills are available as custom commands in `{{skillsPath}}`. Run `/<skill-name>` to use one.'
+      ),
+    },
+    detection: { markers: ['.gemini/', 'GEMINI.md'], env: ['GEMINI_CLI'] },
+    workspaceChecks: [
+      {
+        path: 'GEMINI.md',
+        code: 'MISSING_GEMINI_MD',
+        message: 'GEMINI.md does not exist',
+        suggestion: 'Run workspace-init for gemini-cli to create the project instructions',
+      },
+      {
+        path: '.gemini/commands',
+        code: 'MISSING_COMMANDS_DIR',
+        message: '.gemini/commands/ directory does not exist',
+        suggestion: 'Create the .gemini/commands/ directory for Gemini CLI custom commands',
+      },
+    ],
+  },
+];
+
+/**
+ * Look up a built-in platform's definition.
+ */
+export function getBuiltinPlatform(id: BuiltinPlatformId): PlatformDefinition {
+  return BUILTIN_PLATFORMS.find(p => p.id === id)!;
+}
@@ -0,0 +1,27 @@
+/**
+ * GitHub Copilot Platform Adapter
+ *
+ * Handles Copilot-specific skill formatting and workspace operations.
+ * Copilot reads repository-wide instructions from `.github/copilot-instructions.md`
+ * and path-specific instructions from `.github/instructions/*.instructions.md`,
+ * whose `applyTo` frontmatter glob decides which files they are attached to.
+ */
+
+import { DeclarativeAdapter } from './declarative-adapter.js';
+import { getBuiltinPlatform } from './builtin-platforms.js';
+
+export { COPILOT_SKILL_APPLY_TO } from './builtin-platforms.js';
+
+/**
+ * Adapter for the GitHub Copilot platform.
+ *
+ * Copilot uses:
+ * - `.github/instructions/` for skills (`{name}.instructions.md`)
+ * - `.kiro/specs/` for spec storage (unified location)
+ * - `.github/copilot-instructions.md` for repository-wide instructions
+ */
+export class CopilotAdapter extends DeclarativeAdapter {
+  constructor() {
+    super(getBuiltinPlatform('copilot'));
+  }
+}
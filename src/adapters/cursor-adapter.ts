@@ -0,0 +1,31 @@
+/**
+ * Cursor Platform Adapter
+ *
+ * Handles Cursor-specific skill formatting and workspace operations.
+ * Cursor uses `.cursor/rules/*.mdc` project rules: markdown with a small
+ * frontmatter block that controls when a rule is attached:
+ *
+ *   ---
+ *   description: When the agent should pull the rule in
+ *   globs: src/api/**,docs/**
+ *   alwaysApply: false
+ *   ---
+ */
+
+import { DeclarativeAdapter } from './declarative-adapter.js';
+import { getBuiltinPlatform } from './builtin-platforms.js';
+
+/**
+ * Adapter for the Cursor platform.
+ *
+ * Cursor uses:
+ * - `.cursor/rules/` for project rules (`.mdc` files)
+ * - `.kiro/specs/` for spec storage (unified location)
+ * - `.cursor/rules/specs.mdc` as an always-applied instructions rule
+ * - Skills as agent-requested rules: attached when the description matches the task
+ */
+export class CursorAdapter extends DeclarativeAdapter {
+  constructor() {
+    super(getBuiltinPlatform('cursor'));
+  }
+}
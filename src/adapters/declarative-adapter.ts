@@ -0,0 +1,285 @@
+/**
+ * Declarative Platform Adapter
+ *
+ * Generic PlatformAdapter driven by a PlatformDefinition. Every skill is
+ * rendered from the same markdown body:
+ *
+ *   # {title}
+ *
+ *   {description}        (unless descriptionInBody is false)
+ *
+ *   ## {heading}         (if instructionsHeading is set)
+ *
+ *   {instructions}
+ *
+ * wrapped in frontmatter or TOML fields when the definition has `fields`.
+ * Skills with parameters also get a command file when the definition has
+ * `commands`.
+ */
+
+import * as fs from 'fs';
+import type { PlatformAdapter } from './platform-adapter.js';
+import type { PlatformDefinition } from './platform-definition.js';
+import { formatFrontmatter, parseFrontmatter } from './frontmatter.js';
+import { formatToml, parseToml } from './toml.js';
+import type {
+  CanonicalSkill,
+  PlatformId,
+  PlatformSkill,
+  SkillCompanionFile,
+  SpecMetadata,
+  ValidationResult,
+  ValidationWarning,
+} from '../types.js';
+
+const DEFAULT_SPECS_PATH = '.kiro/specs/';
+const DEFAULT_SPEC_LINE = '- **{{name}}**: {{description}}';
+const DEFAULT_EMPTY_SPECS = '- No specs found';
+
+const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+  line: value => value.replace(/\s+/g, ' ').trim(),
+  json: value => JSON.stringify(value),
+};
+
+/**
+ * Substitute `{{name}}` and `{{name|filter|...}}` placeholders.
+ * Unknown names are left untouched.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)((?:\|\w+)*)\s*\}\}/g, (placeholder, name: string, filters: string) => {
+    if (!(name in values)) return placeholder;
+    return filters
+      .split('|')
+      .filter(Boolean)
+      .reduce((value, filter) => TEMPLATE_FILTERS[filter]?.(value) ?? value, values[name]);
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Adapter instantiated from a PlatformDefinition.
+ */
+export class DeclarativeAdapter implements PlatformAdapter {
+  readonly platformId: PlatformId;
+  readonly skillsPath: string;
+  readonly specsPath: string;
+  readonly instructionsFile: string | null;
+
+  /**
+   * @param definition The platform definition, with any `extends` already merged
+   * @param overrideFallbacks Platforms whose skill overrides apply when the skill has none for this one
+   */
+  constructor(
+    readonly definition: PlatformDefinition,
+    private readonly overrideFallbacks: PlatformId[] = []
+  ) {
+    this.platformId = definition.id;
+    this.skillsPath = definition.skillsPath;
+    this.specsPath = definition.specsPath ?? DEFAULT_SPECS_PATH;
+    this.instructionsFile = definition.instructionsFile;
+  }
+
+  getSkillsDirectory(): string {
+    return this.skillsPath;
+  }
+
+  getSpecsDirectory(): string {
+    return this.specsPath;
+  }
+
+  getUserSkillsDirectory(): string | null {
+    return this.definition.userSkillsPath ?? null;
+  }
+
+  formatSkill(skill: CanonicalSkill): PlatformSkill {
+    // Get platform-specific overrides if available
+    const overrides = [this.platformId, ...this.overrideFallbacks]
+      .map(id => skill.platformOverrides?.[id])
+      .find(Boolean);
+    const instructions = overrides?.instructions ?? skill.instructions;
+    const additionalContent = overrides?.additionalContent ?? '';
+    const layout = this.definition.skill;
+
+    const sections = [`# ${skill.title}`];
+    if (layout.descriptionInBody !== false) sections.push(skill.description);
+    if (layout.instructionsHeading) sections.push(`## ${layout.instructionsHeading}`);
+    sections.push(instructions);
+    const body = `${sections.join('\n\n')}\n${additionalContent ? `\n${additionalContent}` : ''}`;
+
+    const fields = Object.fromEntries(
+      Object.entries(layout.fields ?? {}).map(([key, template]) => [
+        key,
+        renderTemplate(template, { name: skill.name, title: skill.title, description: skill.description, body }),
+      ])
+    );
+    const command = this.formatCommand(skill);
+    const companions = command ? { companionFiles: [command] } : {};
+
+    let content = body;
+    if (layout.format === 'toml') {
+      content = formatToml(fields);
+    } else if (layout.fields) {
+      content = formatFrontmatter(fields, body);
+    }
+
+    if (layout.layout === 'directory') {
+      return {
+        directory: skill.name,
+        files: [{ filename: layout.fileName ?? 'SKILL.md', content }],
+        ...companions,
+      };
+    }
+    return {
+      filename: `${skill.name}${layout.extension ?? '.md'}`,
+      content,
+      ...(layout.format === 'toml' ? { format: 'toml' as const } : {}),
+      ...companions,
+    };
+  }
+
+  /**
+   * Render the command file for a skill that takes parameters.
+   * @returns null if the skill has none or the platform has no commands
+   */
+  private formatCommand(skill: CanonicalSkill): SkillCompanionFile | null {
+    const commands = this.definition.commands;
+    if (!commands || skill.parameters.length === 0) {
+      return null;
+    }
+
+    const values = {
+      name: skill.name,
+      title: skill.title,
+      description: skill.description,
+      skillsPath: this.skillsPath,
+      arguments: skill.parameters.map(p => p.required ? `<${p.name}>` : `[${p.name}]`).join(' '),
+      parameters: skill.parameters
+        .map(p => `- \`${p.name}\`${p.required ? ' (required)' : ''}: ${p.description}`)
+        .join('\n'),
+    };
+    const body = renderTemplate(commands.template.join('\n'), values);
+    const fields = Object.fromEntries(
+      Object.entries(commands.fields ?? {}).map(([key, template]) => [key, renderTemplate(template, values)])
+    );
+    return {
+      path: `${commands.path}${skill.name}${commands.extension ?? '.md'}`,
+      content: commands.fields ? formatFrontmatter(fields, body) : body,
+    };
+  }
+
+  parseSkill(content: string): CanonicalSkill {
+    const layout = this.definition.skill;
+    const templates = layout.fields ?? {};
+    const platformName = this.definition.name ?? this.platformId;
+
+    let fields = new Map<string, string>();
+    let body = content;
+    if (layout.format === 'toml') {
+      fields = parseToml(content);
+      const bodyKey = Object.keys(templates).find(key => templates[key] === '{{body}}') ?? 'prompt';
+      const value = fields.get(bodyKey);
+      if (value === undefined) {
+        throw new Error(`Invalid ${platformName} skill format: missing ${bodyKey}`);
+      }
+      body = value;
+    } else if (layout.fields) {
+      const parsed = parseFrontmatter(content);
+      if (!parsed) {
+        throw new Error(`Invalid ${platformName} skill format: missing frontmatter`);
+      }
+      fields = parsed.fields;
+      body = parsed.body;
+    }
+    body = body.replace(/^\s+/, '');
+
+    // Parse title from first heading
+    const titleMatch = body.match(/^#\s+(.+)$/m);
+    const title = titleMatch ? titleMatch[1].trim() : '';
+
+    let description = '';
+    let instructions: string;
+    if (layout.instructionsHeading) {
+      // Description sits between the title and the instructions heading
+      const heading = `## ${escapeRegExp(layout.instructionsHeading)}`;
+      const descriptionMatch = body.match(new RegExp(`^#\\s+.+\\n\\n([\\s\\S]*?)(?=\\n${heading})`));
+      description = descriptionMatch ? descriptionMatch[1].trim() : '';
+      const instructionsMatch = body.match(new RegExp(`${heading}\\n\\n([\\s\\S]*?)$`));
+      instructions = instructionsMatch ? instructionsMatch[1].trim() : '';
+    } else if (layout.descriptionInBody !== false) {
+      // No explicit sections: first paragraph is description, rest is instructions
+      const bodyMatch = body.match(/^#\s+.+\n\n([\s\S]*)$/);
+      const paragraphs = (bodyMatch ? bodyMatch[1].trim() : '').split(/\n\n/);
+      description = paragraphs[0] || '';
+      instructions = paragraphs.slice(1).join('\n\n');
+    } else {
+      // Everything after the title is the instructions
+      instructions = titleMatch
+        ? body.slice(body.indexOf(titleMatch[0]) + titleMatch[0].length).trim()
+        : body.trim();
+    }
+
+    if (layout.descriptionInBody === false) {
+      const descriptionKey = Object.keys(templates).find(key => /\{\{\s*description\b/.test(templates[key]));
+      description = descriptionKey ? fields.get(descriptionKey) ?? '' : '';
+      if (descriptionKey && /\|\s*json\b/.test(templates[descriptionKey]) && layout.format !== 'toml') {
+        // Frontmatter parsing strips the quotes; undo the JSON escapes inside them
+        description = description.replace(/\\(["\\])/g, '$1');
+      }
+    }
+
+    // Name from its field if the layout has one, otherwise the kebab-cased title
+    const nameKey = Object.keys(templates).find(key => /\{\{\s*name\b/.test(templates[key]));
+    const name = (nameKey ? fields.get(nameKey) : undefined) || title.toLowerCase().replace(/\s+/g, '-');
+
+    return {
+      name,
+      title,
+      description,
+      version: '1.0.0',
+      supportedPlatforms: [this.platformId],
+      instructions,
+      parameters: [],
+    };
+  }
+
+  generateInstructionsContent(specs: SpecMetadata[]): string {
+    const instructions = this.definition.instructions;
+    if (!instructions) {
+      return '';
+    }
+
+    const specsList = specs.length > 0
+      ? specs.map(s => renderTemplate(instructions.specLine ?? DEFAULT_SPEC_LINE, { name: s.name, description: s.description })).join('\n')
+      : instructions.emptySpecs ?? DEFAULT_EMPTY_SPECS;
+
+    const content = renderTemplate(instructions.template.join('\n'), {
+      specs: specsList,
+      skillsPath: this.skillsPath,
+      specsPath: this.specsPath,
+    });
+    return instructions.fields ? formatFrontmatter(instructions.fields, content) : content;
+  }
+
+  validateWorkspace(): ValidationResult {
+    const warnings: ValidationWarning[] = [];
+    const missing: string[] = [];
+
+    for (const check of this.definition.workspaceChecks ?? []) {
+      // Nothing more to say about paths inside a directory already reported missing
+      if (missing.some(parent => check.path.startsWith(`${parent}/`))) continue;
+      if (!fs.existsSync(check.path)) {
+        missing.push(check.path);
+        warnings.push({ code: check.code, message: check.message, suggestion: check.suggestion });
+      }
+    }
+
+    return {
+      valid: true,
+      errors: [],
+      warnings,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Frontmatter helpers for skill files that start with a flat `key: value`
+ * block between `---` lines (Kiro, Cursor, Copilot and declarative platforms).
+ */
+
+/**
+ * Render a frontmatter block followed by the body.
+ * Values are written as-is; pass pre-quoted strings where YAML needs them.
+ */
+export function formatFrontmatter(fields: Record<string, string>, body: string): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${value}`);
+  return `---\n${lines.join('\n')}\n---\n\n${body}`;
+}
+
+/**
+ * Split content into its frontmatter fields and body.
+ * Surrounding single or double quotes are stripped from values.
+ * @returns null if the content has no frontmatter block
+ */
+export function parseFrontmatter(content: string): { fields: Map<string, string>; body: string } | null {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return null;
+
+  const fields = new Map<string, string>();
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([\w-]+):\s*(.*?)\s*$/);
+    if (field) fields.set(field[1], field[2].replace(/^(["'])(.*)\1$/, '$2'));
+  }
+  return { fields, body: match[2] };
+}
@@ -0,0 +1,30 @@
+/**
+ * Gemini CLI Platform Adapter
+ *
+ * Handles Gemini CLI-specific skill formatting and workspace operations.
+ * Gemini CLI loads project context from `GEMINI.md` and custom slash commands
+ * from `.gemini/commands/*.toml`; each skill becomes a `/name` command:
+ *
+ *   description = "Run one task"
+ *   prompt = """
+ *   # Run Task
+ *   ...
+ *   """
+ */
+
+import { DeclarativeAdapter } from './declarative-adapter.js';
+import { getBuiltinPlatform } from './builtin-platforms.js';
+
+/**
+ * Adapter for the Gemini CLI platform.
+ *
+ * Gemini CLI uses:
+ * - `.gemini/commands/` for skills (TOML custom commands)
+ * - `.kiro/specs/` for spec storage (unified location)
+ * - `GEMINI.md` for project instructions
+ */
+export class GeminiCliAdapter extends DeclarativeAdapter {
+  constructor() {
+    super(getBuiltinPlatform('gemini-cli'));
+  }
+}
@@ -5,8 +5,24 @@
  */
 
 export type { PlatformAdapter } from './platform-adapter.js';
+export { DeclarativeAdapter } from './declarative-adapter.js';
+export { validatePlatformDefinition } from './platform-definition.js';
+export type {
+  PlatformDefinition,
+  PlatformExtension,
+  SkillLayoutDefinition,
+  CommandsDefinition,
+  HookFileDefinition,
+  InstructionsDefinition,
+  WorkspaceCheckDefinition,
+} from './platform-definition.js';
+export { BUILTIN_PLATFORMS, getBuiltinPlatform } from './builtin-platforms.js';
 export { KiroAdapter } from './kiro-adapter.js';
 export { ClaudeCodeAdapter } from './claude-code-adapter.js';
 export { CodexAdapter } from './codex-adapter.js';
 export { AntigravityAdapter } from './antigravity-adapter.js';
 export { AmazonQAdapter } from './amazonq-adapter.js';
+export { CursorAdapter } from './cursor-adapter.js';
+export { CopilotAdapter, COPILOT_SKILL_APPLY_TO } from './copilot-adapter.js';
+export { GeminiCliAdapter } from './gemini-cli-adapter.js';
+export { formatToml, formatTomlString, parseToml } from './toml.js';
@@ -0,0 +1,255 @@
+/**
+ * Platform Definitions
+ *
+ * A PlatformDefinition is plain data describing everything that differs
+ * between platforms: paths, skill file layout, frontmatter or TOML fields,
+ * section headings, the instructions file template and detection markers.
+ * DeclarativeAdapter turns a definition into a PlatformAdapter, so new
+ * platforms can be added from JSON (`.sdd/platforms/*.json`) without code.
+ */
+
+import type { SkillFileFormat, ValidationResult, ValidationError } from '../types.js';
+
+/**
+ * How a skill is written to disk.
+ *
+ * Field values are templates: `{{name}}`, `{{title}}`, `{{description}}` and
+ * `{{body}}` (the rendered markdown body) are substituted, and filters can follow the
+ * name: `{{description|line}}` collapses whitespace onto one line,
+ * `{{description|json}}` writes a JSON-quoted string.
+ */
+export interface SkillLayoutDefinition {
+  /** One file per skill, or a directory per skill holding `fileName` */
+  layout: 'file' | 'directory';
+  /** File extension for the `file` layout (default `.md`) */
+  extension?: string;
+  /** File written inside the skill directory for the `directory` layout (default `SKILL.md`) */
+  fileName?: string;
+  /** Markdown (optionally with frontmatter) or a TOML document (default `markdown`) */
+  format?: SkillFileFormat;
+  /** Frontmatter fields for markdown, or the top-level keys of a TOML document */
+  fields?: Record<string, string>;
+  /** Write the description as the first paragraph under the title (default true) */
+  descriptionInBody?: boolean;
+  /** Heading that introduces the instructions, e.g. `Instructions` for `## Instructions` */
+  instructionsHeading?: string;
+  /**
+   * Files an earlier layout wrote, relative to the skills directory, e.g. `{{name}}.md`.
+   * install-skills replaces them with the current layout; one edited since it was
+   * written is kept unless forced.
+   */
+  legacyFiles?: string[];
+  /**
+   * Hashes (`sha256-…`, as in the lock file) of the `legacyFiles` earlier releases
+   * wrote, by skill name. A legacy file is unedited if it has one of its skill's
+   * hashes or, ignoring trailing whitespace, is the skill's current markdown
+   * without frontmatter.
+   */
+  legacyHashes?: Record<string, string[]>;
+}
+
+/**
+ * Command files written for skills that take parameters, such as Claude Code
+ * slash commands.
+ *
+ * `fields` and `template` take `{{name}}`, `{{title}}`, `{{description}}` and
+ * `{{skillsPath}}`, plus `{{arguments}}` (e.g. `<featureName> [generationMode]`)
+ * and `{{parameters}}` (one line per parameter).
+ */
+export interface CommandsDefinition {
+  /** Directory relative to the workspace root */
+  path: string;
+  /** File extension (default `.md`) */
+  extension?: string;
+  /** Frontmatter fields */
+  fields?: Record<string, string>;
+  template: string[];
+}
+
+/**
+ * An agent hook configuration file written by `workspace-init --hooks`.
+ *
+ * `content` is merged into any JSON already at `path`, so user settings are
+ * kept. String values take `{{platform}}`, replaced with the platform id.
+ */
+export interface HookFileDefinition {
+  /** File relative to the workspace root */
+  path: string;
+  content: Record<string, unknown>;
+}
+
+/**
+ * Content of the platform's instructions file.
+ *
+ * `template` lines are joined with newlines; `{{specs}}` is replaced with
+ * one `specLine` per spec (or `emptySpecs`), and `{{skillsPath}}` and
+ * `{{specsPath}}` with the platform's paths.
+ */
+export interface InstructionsDefinition {
+  template: string[];
+  /** Line rendered per spec with `{{name}}` and `{{description}}` (default `- **{{name}}**: {{description}}`) */
+  specLine?: string;
+  /** Line rendered when there are no specs (default `- No specs found`) */
+  emptySpecs?: string;
+  /** Frontmatter written above the template, for platforms whose instructions are rules */
+  fields?: Record<string, string>;
+}
+
+/**
+ * A workspace path validateWorkspace warns about when it is missing.
+ * Paths nested under an earlier missing path are not reported again.
+ */
+export interface WorkspaceCheckDefinition {
+  path: string;
+  code: string;
+  message: string;
+  suggestion: string;
+}
+
+/**
+ * Declarative description of a platform.
+ */
+export interface PlatformDefinition {
+  /** Platform identifier used on the command line and in skill definitions */
+  id: string;
+  /** Display name used in messages (default: the id) */
+  name?: string;
+  /** Id of a registered platform whose definition this one starts from */
+  extends?: string;
+  /** Skills directory relative to the workspace root */
+  skillsPath: string;
+  /** Specs directory relative to the workspace root (default `.kiro/specs/`) */
+  specsPath?: string;
+  /** User-level skills directory, or null if the platform has none */
+  userSkillsPath?: string | null;
+  /** Instructions file relative to the workspace root, or null if the platform has none */
+  instructionsFile: string | null;
+  skill: SkillLayoutDefinition;
+  instructions?: InstructionsDefinition;
+  commands?: CommandsDefinition;
+  /** Hook files that run sdd on agent events such as session start and stop */
+  hooks?: HookFileDefinition[];
+  detection: {
+    /** Files or directories (trailing `/`) whose presence identifies the platform */
+    markers: string[];
+    /** Environment variables the running agent sets, as `NAME` (any value) or `NAME=value` */
+    env?: string[];
+  };
+  workspaceChecks?: WorkspaceCheckDefinition[];
+}
+
+/**
+ * A definition that starts from a registered platform and overrides part of it.
+ * `skill` and `instructions` are merged field by field; name, detection
+ * markers and commands are never inherited.
+ */
+export type PlatformExtension = Partial<Omit<PlatformDefinition, 'skill' | 'instructions'>> & {
+  id: string;
+  extends: string;
+  skill?: Partial<SkillLayoutDefinition>;
+  instructions?: Partial<InstructionsDefinition>;
+};
+
+const PLATFORM_ID_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * Check the shape of a definition, typically one parsed from JSON.
+ * Definitions using `extends` are checked after being merged with their parent.
+ */
+export function validatePlatformDefinition(definition: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  const fail = (path: string, message: string) => {
+    errors.push({ code: 'INVALID_PLATFORM_DEFINITION', message, path });
+  };
+
+  if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+    fail('definition', 'Platform definition must be an object');
+    return { valid: false, errors, warnings: [] };
+  }
+
+  const def = definition as Record<string, unknown>;
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+  const isStringRecord = (value: unknown) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'string');
+
+  if (typeof def.id !== 'string' || !PLATFORM_ID_PATTERN.test(def.id)) {
+    fail('id', 'Platform id must be kebab-case');
+  }
+  if (!isString(def.skillsPath)) {
+    fail('skillsPath', 'skillsPath must be a non-empty string');
+  }
+  if (def.instructionsFile !== null && !isString(def.instructionsFile)) {
+    fail('instructionsFile', 'instructionsFile must be a non-empty string or null');
+  }
+
+  const skill = def.skill as Record<string, unknown> | undefined;
+  if (typeof skill !== 'object' || skill === null) {
+    fail('skill', 'skill layout is required');
+  } else {
+    if (skill.layout !== 'file' && skill.layout !== 'directory') {
+      fail('skill.layout', "skill.layout must be 'file' or 'directory'");
+    }
+    if (skill.format !== undefined && skill.format !== 'markdown' && skill.format !== 'toml') {
+      fail('skill.format', "skill.format must be 'markdown' or 'toml'");
+    }
+    if (skill.fields !== undefined && !isStringRecord(skill.fields)) {
+      fail('skill.fields', 'skill.fields must map names to template strings');
+    }
+    if (skill.format === 'toml' && !Object.values((skill.fields ?? {}) as Record<string, string>).includes('{{body}}')) {
+      fail('skill.fields', 'TOML skills need a field set to {{body}}');
+    }
+    if (skill.legacyFiles !== undefined && !(Array.isArray(skill.legacyFiles) && skill.legacyFiles.every(isString))) {
+      fail('skill.legacyFiles', 'skill.legacyFiles must be an array of paths');
+    }
+    if (skill.legacyHashes !== undefined && !(
+      typeof skill.legacyHashes === 'object' && skill.legacyHashes !== null && !Array.isArray(skill.legacyHashes) &&
+      Object.values(skill.legacyHashes).every(hashes => Array.isArray(hashes) && hashes.every(isString))
+    )) {
+      fail('skill.legacyHashes', 'skill.legacyHashes must map skill names to arrays of hashes');
+    }
+  }
+
+  const instructions = def.instructions as Record<string, unknown> | undefined;
+  if (instructions !== undefined) {
+    if (!Array.isArray(instructions.template) || !instructions.template.every(l => typeof l === 'string')) {
+      fail('instructions.template', 'instructions.template must be an array of lines');
+    }
+    if (instructions.fields !== undefined && !isStringRecord(instructions.fields)) {
+      fail('instructions.fields', 'instructions.fields must map names to strings');
+    }
+  }
+
+  const commands = def.commands as Record<string, unknown> | undefined;
+  if (commands !== undefined) {
+    if (!isString(commands.path)) {
+      fail('commands.path', 'commands.path must be a non-empty string');
+    }
+    if (!Array.isArray(commands.template) || !commands.template.every(l => typeof l === 'string')) {
+      fail('commands.template', 'commands.template must be an array of lines');
+    }
+    if (commands.fields !== undefined && !isStringRecord(commands.fields)) {
+      fail('commands.fields', 'commands.fields must map names to template strings');
+    }
+  }
+
+  if (def.hooks !== undefined) {
+    const hooks = def.hooks;
+    if (!Array.isArray(hooks) || !hooks.every(h =>
+      typeof h === 'object' && h !== null && isString(h.path) &&
+      typeof h.content === 'object' && h.content !== null && !Array.isArray(h.content))) {
+      fail('hooks', 'hooks must be an array of { path, content } objects');
+    }
+  }
+
+  const detection = def.detection as Record<string, unknown> | undefined;
+  if (typeof detection !== 'object' || detection === null ||
+      !Array.isArray(detection.markers) || !detection.markers.every(isString)) {
+    fail('detection.markers', 'detection.markers must be an array of paths');
+  } else if (detection.env !== undefined &&
+      (!Array.isArray(detection.env) || !detection.env.every(isString))) {
+    fail('detection.env', 'detection.env must be an array of environment variable names');
+  }
+
+  return { valid: errors.length === 0, errors, warnings: [] };
+}
@@ -0,0 +1,184 @@
+/**
+ * Minimal TOML support for skill files made of top-level string keys,
+ * such as Gemini CLI custom commands:
+ *
+ *   description = "Run one task"
+ *   prompt = """
+ *   ...
+ *   """
+ *
+ * Tables, arrays and inline tables are not supported; other scalar values
+ * (numbers, booleans, dates) are returned as their raw text.
+ */
+
+const BARE_KEY_RE = /^[A-Za-z0-9_-]+$/;
+const CONTROL_RE = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g;
+
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+function escapeControl(char: string): string {
+  return `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/**
+ * Render a string value: a basic string for single lines, a multi-line
+ * basic string (opening on its own line) otherwise.
+ */
+export function formatTomlString(value: string): string {
+  if (!value.includes('\n')) {
+    return JSON.stringify(value).replace(/\u007f/g, escapeControl);
+  }
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r/g, '\\r')
+    .replace(CONTROL_RE, escapeControl)
+    .replace(/"""/g, '""\\"');
+  // A trailing line-ending backslash keeps the closing delimiter on its own line
+  return value.endsWith('\n') ? `"""\n${escaped}"""` : `"""\n${escaped}\\\n"""`;
+}
+
+/**
+ * Render top-level `key = "value"` pairs in insertion order.
+ */
+export function formatToml(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([key, value]) => `${BARE_KEY_RE.test(key) ? key : JSON.stringify(key)} = ${formatTomlString(value)}`)
+    .join('\n') + '\n';
+}
+
+/**
+ * Parse top-level key/value pairs.
+ * @throws Error naming the line of the first syntax error
+ */
+export function parseToml(content: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let pos = 0;
+
+  const lineAt = (index: number) => content.slice(0, index).split('\n').length;
+  const fail = (message: string, index = pos): never => {
+    throw new Error(`Invalid TOML at line ${lineAt(index)}: ${message}`);
+  };
+  const skipSpaces = () => {
+    while (content[pos] === ' ' || content[pos] === '\t') pos++;
+  };
+
+  const readEscape = (): string => {
+    const char = content[++pos];
+    if (char in ESCAPES) {
+      pos++;
+      return ESCAPES[char];
+    }
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = content.slice(pos + 1, pos + 1 + length);
+      if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) fail(`bad unicode escape \\${char}${hex}`);
+      pos += 1 + length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    return fail(`unknown escape \\${char ?? ''}`);
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    const quote = content[pos];
+    const multiline = content.startsWith(quote.repeat(3), pos);
+    const literal = quote === "'";
+    pos += multiline ? 3 : 1;
+    if (multiline && content[pos] === '\n') pos++;
+    else if (multiline && content.startsWith('\r\n', pos)) pos += 2;
+
+    let value = '';
+    while (pos < content.length) {
+      const char = content[pos];
+
+      if (char === quote) {
+        if (!multiline) {
+          pos++;
+          return value;
+        }
+        let run = 0;
+        while (content[pos + run] === quote) run++;
+        if (run >= 3) {
+          // Up to two quotes may sit just inside the closing delimiter
+          value += quote.repeat(Math.min(run - 3, 2));
+          pos += Math.min(run, 5);
+          return value;
+        }
+        value += quote.repeat(run);
+        pos += run;
+        continue;
+      }
+
+      if (char === '\\' && !literal) {
+        if (multiline && /^\\[ \t]*\r?\n/.test(content.slice(pos))) {
+          // Line-ending backslash: drop the newline and following whitespace
+          pos++;
+          while (/[ \t\r\n]/.test(content[pos] ?? '')) pos++;
+          continue;
+        }
+        value += readEscape();
+        continue;
+      }
+
+      if (char === '\n' && !multiline) break;
+      value += char;
+      pos++;
+    }
+    return fail('unterminated string', start);
+  };
+
+  while (pos < content.length) {
+    skipSpaces();
+    const char = content[pos];
+    if (char === undefined) break;
+    if (char === '\n' || char === '\r') {
+      pos++;
+      continue;
+    }
+    if (char === '#') {
+      while (pos < content.length && content[pos] !== '\n') pos++;
+      continue;
+    }
+    if (char === '[') fail('tables are not supported');
+
+    // Key
+    let key: string;
+    if (char === '"' || char === "'") {
+      key = readString();
+    } else {
+      const match = content.slice(pos).match(/^[A-Za-z0-9_-]+/);
+      if (!match) fail(`unexpected character '${char}'`);
+      key = match![0];
+      pos += key.length;
+    }
+    if (fields.has(key)) fail(`duplicate key '${key}'`);
+
+    skipSpaces();
+    if (content[pos] !== '=') fail(`expected '=' after '${key}'`);
+    pos++;
+    skipSpaces();
+
+    // Value
+    let value: string;
+    if (content[pos] === '"' || content[pos] === "'") {
+      value = readString();
+    } else {
+      const match = content.slice(pos).match(/^[^\r\n#]*/)!;
+      value = match[0].trim();
+      if (!value || /^[[{]/.test(value)) fail(`unsupported value for '${key}'`);
+      pos += match[0].length;
+    }
+    fields.set(key, value);
+
+    skipSpaces();
+    if (content[pos] === '#') {
+      while (pos < content.length && content[pos] !== '\n') pos++;
+    }
+    if (pos < content.length && content[pos] !== '\n' && content[pos] !== '\r') {
+      fail(`unexpected text after '${key}'`);
+    }
+  }
+
+  return fields;
+}
@@ -14,15 +14,19 @@ import { createRequire } from 'module';
 import {
   PlatformId,
   TaskStatus,
-  KiroAdapter,
-  ClaudeCodeAdapter,
-  CodexAdapter,
-  AntigravityAdapter,
-  AmazonQAdapter,
   SkillRegistry,
+  platformRegistry,
+  loadPlatformDefinitions,
+  loadSkillFiles,
+  SKILL_FILES_DIR,
   TaskTracker,
   allSkills,
-  PlatformAdapter
+  PlatformAdapter,
+  PluginLoader,
+  registerPlugins,
+  collectPluginVerifiers,
+  type PluginVerifier,
+  type ValidationError
 } from './index.js';
 import {
   CreateSpecCommand,
@@ -32,10 +36,19 @@ import {
   VerifyCommand,
   getFormatter,
   ErrorCode,
-  type CommandResult
+  type CommandResult,
+  type RunTaskResult
 } from './commands/index.js';
 import { RefineCommand } from './commands/refine-command.js';
 import { StartGroupCommand } from './commands/start-group-command.js';
+import { StatusCommand, renderStatusDashboard, type StatusResult } from './commands/status-command.js';
+import { HistoryCommand, renderHistory, type HistoryResult } from './commands/history-command.js';
+import { TraceCommand, renderTraceabilityMatrix, type TraceResult } from './commands/trace-command.js';
+import { isPlatformSelection, parsePlatformSelection, runForPlatforms } from './commands/multi-platform.js';
+import { UpgradeCommand } from './commands/upgrade-command.js';
+import { UninstallSkillsCommand } from './commands/uninstall-skills-command.js';
+import { DetectCommand, renderDetection, type DetectResult } from './commands/detect-command.js';
+import { detectRunningPlatform } from './workspace/platform-detector.js';
 import { NodeVerifyFileSystem } from './verification/verify-file-system.js';
 import { SpecVerifier } from './verification/spec-verifier.js';
 import { TaskVerifier } from './verification/task-verifier.js';
@@ -58,12 +71,18 @@ const EXIT_CODES = {
 } as const;
 
 // Command definitions
-type Command = 'init' | 'install' | 'create-spec' | 'run-task' | 'refine' | 'start-group' | 'verify' | 'help' | 'version';
+type Command = 'init' | 'install' | 'create-spec' | 'run-task' | 'refine' | 'start-group' | 'verify' | 'status' | 'history' | 'trace' | 'detect' | 'upgrade' | 'uninstall' | 'help' | 'version';
 
 interface ParsedArgs {
   command: Command;
   unknownCommand?: string;
   platform?: PlatformId;
+  /** Set instead of `platform` by `--platform all` or a comma list */
+  platforms?: PlatformId[];
+  /** Whether --platform was passed with a platform or a selection */
+  platformGiven: boolean;
+  /** The --platform value when it names no platform (`''` when the value is missing) */
+  platformError?: string;
   specName?: string;
   taskId?: string;
   status?: TaskStatus;
@@ -71,21 +90,27 @@ interface ParsedArgs {
   mode?: 'requirements-first' | 'design-first';
   doc?: string;
   group?: string;
+  reason?: string;
+  hooks?: boolean;
+  dryRun?: boolean;
   force: boolean;
   json: boolean;
   help: boolean;
   verify: boolean;
 }
 
-const PLATFORMS: PlatformId[] = ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq'];
 const TASK_STATUSES: TaskStatus[] = ['not_started', 'in_progress', 'completed', 'failed'];
 
+/** Commands that accept --platform */
+const PLATFORM_COMMANDS: Command[] = ['init', 'install', 'uninstall', 'upgrade', 'create-spec', 'run-task', 'verify'];
+
 /**
  * Parse command line arguments
  */
 function parseArgs(args: string[]): ParsedArgs {
   const result: ParsedArgs = {
     command: 'help',
+    platformGiven: false,
     force: false,
     json: false,
     help: false,
@@ -110,11 +135,26 @@ function parseArgs(args: string[]): ParsedArgs {
     case 'workspace-init':
       result.command = 'init';
       result.platform = parsePlatform(args);
+      result.platforms = parsePlatforms(args);
+      result.hooks = args.includes('--hooks');
       break;
     case 'install':
     case 'install-skills':
       result.command = 'install';
       result.platform = parsePlatform(args);
+      result.platforms = parsePlatforms(args);
+      result.skills = parseSkills(args);
+      break;
+    case 'uninstall':
+    case 'uninstall-skills':
+      result.command = 'uninstall';
+      result.platform = parsePlatform(args);
+      result.skills = parseSkills(args);
+      result.dryRun = args.includes('--dry-run');
+      break;
+    case 'upgrade':
+      result.command = 'upgrade';
+      result.platform = parsePlatform(args);
       result.skills = parseSkills(args);
       break;
     case 'create-spec':
@@ -128,6 +168,8 @@ function parseArgs(args: string[]): ParsedArgs {
       result.specName = parseSpecName(args);
       result.taskId = parseTaskId(args);
       result.status = parseStatus(args);
+      result.platform = parsePlatform(args);
+      result.reason = parseReason(args);
       break;
     case 'verify':
       result.command = 'verify';
@@ -145,6 +187,22 @@ function parseArgs(args: string[]): ParsedArgs {
       result.specName = parseSpecName(args);
       result.group = parseGroup(args);
       break;
+    case 'status':
+      result.command = 'status';
+      result.specName = parseSpecName(args);
+      break;
+    case 'detect':
+      result.command = 'detect';
+      break;
+    case 'history':
+      result.command = 'history';
+      result.specName = parseSpecName(args);
+      result.taskId = parseTaskId(args);
+      break;
+    case 'trace':
+      result.command = 'trace';
+      result.specName = parseSpecName(args);
+      break;
     case 'version':
     case '--version':
     case '-v':
@@ -162,6 +220,18 @@ function parseArgs(args: string[]): ParsedArgs {
       break;
   }
 
+  // Only a usable value counts as given; anything else is reported instead of defaulted
+  result.platformGiven = result.platform !== undefined || result.platforms !== undefined;
+  const platformIndex = args.findIndex(a => a === '--platform' || a === '-p');
+  if (platformIndex !== -1 && !result.platformGiven && PLATFORM_COMMANDS.includes(result.command)) {
+    const value = args[platformIndex + 1];
+    if (!value || value.startsWith('-')) {
+      result.platformError = '';
+    } else if (!isPlatformSelection(value)) {
+      result.platformError = value;
+    }
+  }
+
   return result;
 }
 
@@ -171,14 +241,27 @@ function parseArgs(args: string[]): ParsedArgs {
 function parsePlatform(args: string[]): PlatformId | undefined {
   const platformIndex = args.findIndex(a => a === '--platform' || a === '-p');
   if (platformIndex !== -1 && args[platformIndex + 1]) {
-    const platform = args[platformIndex + 1] as PlatformId;
-    if (PLATFORMS.includes(platform)) {
+    const platform = args[platformIndex + 1];
+    if (platformRegistry.has(platform)) {
       return platform;
     }
   }
   return undefined;
 }
 
+/**
+ * Parse a multi-platform selection (`all` or a comma list) from arguments
+ */
+function parsePlatforms(args: string[]): PlatformId[] | undefined {
+  const platformIndex = args.findIndex(a => a === '--platform' || a === '-p');
+  const value = platformIndex !== -1 ? args[platformIndex + 1] : undefined;
+  if (value && isPlatformSelection(value)) {
+    const platforms = parsePlatformSelection(value);
+    return platforms.length > 0 ? platforms : undefined;
+  }
+  return undefined;
+}
+
 /**
  * Parse spec name from arguments
  */
@@ -206,6 +289,17 @@ function parseTaskId(args: string[]): string | undefined {
   return undefined;
 }
 
+/**
+ * Parse failure reason from arguments
+ */
+function parseReason(args: string[]): string | undefined {
+  const reasonIndex = args.findIndex(a => a === '--reason' || a === '-r');
+  if (reasonIndex !== -1 && args[reasonIndex + 1] !== undefined) {
+    return args[reasonIndex + 1];
+  }
+  return undefined;
+}
+
 /**
  * Parse task status from arguments
  */
@@ -268,16 +362,63 @@ function parseGroup(args: string[]): string | undefined {
 }
 
 /**
- * Create platform adapters map
+ * Create platform adapters map (built-in and workspace-defined platforms)
  */
 function createAdapters(): Map<PlatformId, PlatformAdapter> {
-  const adapters = new Map<PlatformId, PlatformAdapter>();
-  adapters.set('kiro', new KiroAdapter());
-  adapters.set('claude-code', new ClaudeCodeAdapter());
-  adapters.set('codex', new CodexAdapter());
-  adapters.set('antigravity', new AntigravityAdapter());
-  adapters.set('amazonq', new AmazonQAdapter());
-  return adapters;
+  return platformRegistry.createAdapters();
+}
+
+/**
+ * Register platforms defined in the workspace's `.sdd/platforms/*.json`.
+ * Invalid definition files are reported and skipped.
+ */
+async function loadWorkspacePlatforms(): Promise<void> {
+  const { errors } = await loadPlatformDefinitions({
+    exists: async (p: string) => fs.existsSync(p),
+    readdir: async (p: string) => fs.readdirSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
+  }, process.cwd());
+  for (const error of errors) {
+    console.error(`Warning: ${error.message}`);
+  }
+}
+
+/** Skills install-skills can install: the built-ins from the package's `skills/` plus any from plugins */
+const skillRegistry = new SkillRegistry();
+allSkills.forEach(skill => skillRegistry.register(skill));
+
+/**
+ * Register markdown skills from the workspace's `.sdd/skills/`, after the
+ * package's `skills/`, replacing same-named built-in skills. Invalid skill
+ * files are skipped.
+ * @returns A warning for each skill file that could not be loaded
+ */
+async function loadMarkdownSkills(): Promise<string[]> {
+  const skillFs = {
+    exists: async (p: string) => fs.existsSync(p),
+    readdir: async (p: string) => fs.readdirSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
+  };
+  const { errors } = await loadSkillFiles(skillFs, SKILL_FILES_DIR, skillRegistry);
+  return errors.map(error => `Skipped skill file ${error.message}`);
+}
+
+/** Verifiers contributed by workspace plugins, run by verify */
+let pluginVerifiers: PluginVerifier[] = [];
+
+/**
+ * Load and register the plugins listed in the workspace's `sdd.config.json`.
+ * @returns Errors from plugins that failed to load or register
+ */
+async function loadWorkspacePlugins(): Promise<ValidationError[]> {
+  const loader = new PluginLoader({
+    exists: async (p: string) => fs.existsSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
+  });
+  const { plugins, errors } = await loader.load(process.cwd());
+  errors.push(...registerPlugins(plugins, { skills: skillRegistry }));
+  pluginVerifiers = collectPluginVerifiers(plugins);
+  return errors;
 }
 
 /**
@@ -322,7 +463,52 @@ function createInstallSkillsFileSystem(): import('./commands/install-skills-comm
   return {
     exists: async (p: string) => fs.existsSync(p),
     mkdir: async (p: string) => { fs.mkdirSync(p, { recursive: true }); },
-    writeFile: async (p: string, content: string) => { fs.writeFileSync(p, content, 'utf-8'); }
+    writeFile: async (p: string, content: string) => { fs.writeFileSync(p, content, 'utf-8'); },
+    remove: async (p: string) => { fs.rmSync(p, { force: true }); },
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
+  };
+}
+
+/**
+ * Create file system implementation for StatusCommand
+ */
+function createStatusFileSystem(): import('./commands/status-command.js').StatusFileSystem {
+  return {
+    exists: async (p: string) => fs.existsSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8'),
+    readdir: async (p: string) => fs.readdirSync(p),
+    isDirectory: async (p: string) => fs.existsSync(p) && fs.statSync(p).isDirectory()
+  };
+}
+
+/**
+ * Create file system implementation for DetectCommand
+ */
+function createDetectFileSystem(): import('./commands/detect-command.js').DetectFileSystem {
+  return {
+    exists: async (p: string) => fs.existsSync(p),
+    readdir: async (p: string) => fs.readdirSync(p),
+    isDirectory: async (p: string) => fs.existsSync(p) && fs.statSync(p).isDirectory()
+  };
+}
+
+/**
+ * Create file system implementation for HistoryCommand
+ */
+function createHistoryFileSystem(): import('./commands/history-command.js').HistoryFileSystem {
+  return {
+    exists: async (p: string) => fs.existsSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
+  };
+}
+
+/**
+ * Create file system implementation for TraceCommand
+ */
+function createTraceFileSystem(): import('./commands/trace-command.js').TraceFileSystem {
+  return {
+    exists: async (p: string) => fs.existsSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8')
   };
 }
 
@@ -341,8 +527,11 @@ function getExitCode(result: CommandResult): number {
       errorCode === ErrorCode.INVALID_PLATFORM ||
       errorCode === ErrorCode.INVALID_TASK_STATUS ||
       errorCode === ErrorCode.INVALID_TASK_ID ||
+      errorCode === ErrorCode.INVALID_TRANSITION ||
+      errorCode === ErrorCode.INVALID_PARTIAL ||
       errorCode === ErrorCode.MISSING_ARGUMENT ||
-      errorCode === ErrorCode.UNKNOWN_COMMAND) {
+      errorCode === ErrorCode.UNKNOWN_COMMAND ||
+      errorCode === ErrorCode.PLUGIN_LOAD_FAILED) {
     return EXIT_CODES.VALIDATION_ERROR;
   }
 
@@ -395,11 +584,17 @@ Usage: npx sdd <command> [options]
 Commands:
   workspace-init    Initialize workspace for a target platform
   install-skills    Install framework skills to workspace
+  upgrade           Upgrade installed skills, merging local edits
+  uninstall-skills  Remove framework-generated files for a platform
   create-spec       Create a new spec folder
   run-task          Update task status in tasks.md
   refine            Compose a refine instruction and copy to clipboard
   start-group       Compose a start-task-group instruction and copy to clipboard
   verify            Verify workspace/spec state
+  status            Show task progress for all specs
+  history           Show recorded task status changes for a spec
+  trace             Show the requirements traceability matrix for a spec
+  detect            Show the platforms the workspace is set up for
   help              Show this help message
   version           Show version information
 
@@ -413,22 +608,62 @@ Command: workspace-init
   
   Options:
     -p, --platform <platform>  Target platform (required)
-                               Values: kiro, claude-code, codex, antigravity, amazonq
+                               Values: kiro, claude-code, codex, antigravity, amazonq, cursor, copilot, gemini-cli,
+                               or a platform defined in .sdd/platforms/*.json;
+                               'all' or a comma list initializes several platforms
+    --hooks                    Also add agent hooks that show task status on session
+                               start and run verify on stop (claude-code, kiro);
+                               existing settings are merged, not overwritten
   
   Example:
     npx sdd workspace-init --platform claude-code
+    npx sdd workspace-init --platform claude-code --hooks
+    npx sdd workspace-init --platform kiro,claude-code,codex --verify
 
 Command: install-skills
   Install framework skills to workspace
   
   Options:
-    -p, --platform <platform>  Target platform (required)
+    -p, --platform <platform>  Target platform (required); 'all' or a comma list
+                               installs for several platforms
     --skills <list>            Comma-separated list of skills to install
     -f, --force                Overwrite existing skills
   
   Example:
     npx sdd install-skills --platform kiro
     npx sdd install-skills --platform kiro --skills create-spec,run-task
+    npx sdd install-skills --platform all
+
+Command: upgrade
+  Upgrade the skills recorded in .sdd/lock.json to this version. Unedited
+  files are replaced; edited ones are merged three ways with the copy kept
+  in .sdd/base/, and overlapping edits are written between <<<<<<< markers.
+  Each skill is reported as upgraded, merged, conflicted or unchanged.
+  
+  Options:
+    -p, --platform <platform>  Platform whose skills to upgrade (required)
+    --skills <list>            Comma-separated list of skills (default: all installed)
+  
+  Example:
+    npx sdd upgrade --platform claude-code
+    npx sdd upgrade --platform kiro --skills run-task
+
+Command: uninstall-skills
+  Remove the skill files install-skills wrote for a platform: those recorded
+  in .sdd/lock.json and unchanged since, or identical to the skill's output.
+  Without --skills the sdd region of the instructions file and the sdd agent
+  hooks are removed too. Edited files are kept unless --force is given, and
+  .kiro/specs/ is never touched.
+  
+  Options:
+    -p, --platform <platform>  Platform to uninstall (required)
+    --skills <list>            Comma-separated list of skills (default: all)
+    --dry-run                  List what would be removed without removing it
+    -f, --force                Also remove skill files edited since install
+  
+  Example:
+    npx sdd uninstall-skills --platform codex --dry-run
+    npx sdd uninstall-skills --platform claude-code --skills run-task
 
 Command: create-spec
   Create a new spec folder with template files
@@ -448,12 +683,22 @@ Command: run-task
   
   Options:
     --spec <name>              Spec name (required)
-    -t, --task <id>            Task ID, e.g., "1.1" (required)
+    -t, --task <id>            Task ID, e.g., "1.1" or "1.1.1" (required)
+                               Also accepts wildcards ("1.2.*"), sibling
+                               ranges ("1.1.1..1.1.4") and comma lists
     -s, --status <status>      New status (required)
                                Values: not_started, in_progress, completed, failed
+    -f, --force                Apply even if the spec's transition policy
+                               (taskTransitions in .config.kiro) rejects it
+    -r, --reason <text>        Failure reason, written under the task as
+                               _Failure: <text>_ (with --status failed)
+    -p, --platform <platform>  Platform recorded in the spec's history log
   
   Example:
     npx sdd run-task --spec my-feature --task 1.1 --status in_progress
+    npx sdd run-task --spec my-feature --task "1.2.*" --status in_progress
+    npx sdd run-task --spec my-feature --task "1.2.*" --status completed
+    npx sdd run-task --spec my-feature --task 1.3 --status failed --reason "tests failed"
 
 Command: refine
   Compose a refine instruction and copy to clipboard
@@ -488,6 +733,51 @@ Command: verify
     npx sdd verify --spec my-feature
     npx sdd verify --platform claude-code
     npx sdd verify --spec my-feature --json
+
+Command: status
+  Show group/subgroup progress, blocked tasks and the next executable task
+  
+  Options:
+    --spec <name>              Limit the dashboard to one spec
+  
+  Example:
+    npx sdd status
+    npx sdd status --spec my-feature --json
+
+Command: detect
+  Show every platform the workspace is set up for, with its evidence
+  (skills directory and skill count, instructions file, markers) and the
+  running agent found through environment variables (SDD_PLATFORM, CLAUDECODE, ...).
+  workspace-init, install-skills, upgrade and run-task default --platform to
+  the running agent; install-skills and upgrade fall back to the single most
+  confident detected platform.
+  
+  Example:
+    npx sdd detect
+    SDD_PLATFORM=codex npx sdd detect --json
+
+Command: history
+  Show task status changes recorded in .kiro/specs/<name>/.history.jsonl
+  
+  Options:
+    --spec <name>              Spec name (required)
+    -t, --task <id>            Only show this task and its subtasks
+  
+  Example:
+    npx sdd history --spec my-feature
+    npx sdd history --spec my-feature --task 1.2 --json
+
+Command: trace
+  Link each requirement to the design sections and tasks that cover it,
+  flagging requirements without tasks, tasks without requirements and
+  requirements whose tasks are all completed
+  
+  Options:
+    --spec <name>              Spec name (required)
+  
+  Example:
+    npx sdd trace --spec my-feature
+    npx sdd trace --spec my-feature --json
 `.trim();
 
 /**
@@ -495,6 +785,9 @@ Command: verify
  * Requirements: 1.1, 1.2
  */
 async function executeWorkspaceInit(parsed: ParsedArgs): Promise<CommandResult> {
+  if (parsed.platforms) {
+    return executeForPlatforms('workspace-init', 'init', parsed, executeWorkspaceInit);
+  }
   if (!parsed.platform) {
     return {
       success: false,
@@ -502,7 +795,7 @@ async function executeWorkspaceInit(parsed: ParsedArgs): Promise<CommandResult>
       error: {
         code: ErrorCode.MISSING_ARGUMENT,
         message: '--platform is required for workspace-init command',
-        details: { validPlatforms: PLATFORMS }
+        details: { validPlatforms: platformRegistry.ids() }
       }
     };
   }
@@ -513,7 +806,8 @@ async function executeWorkspaceInit(parsed: ParsedArgs): Promise<CommandResult>
 
   return command.execute({
     platform: parsed.platform,
-    force: parsed.force
+    force: parsed.force,
+    hooks: parsed.hooks
   });
 }
 
@@ -522,6 +816,9 @@ async function executeWorkspaceInit(parsed: ParsedArgs): Promise<CommandResult>
  * Requirements: 1.1, 1.2
  */
 async function executeInstallSkills(parsed: ParsedArgs): Promise<CommandResult> {
+  if (parsed.platforms) {
+    return executeForPlatforms('install-skills', 'install', parsed, executeInstallSkills);
+  }
   if (!parsed.platform) {
     return {
       success: false,
@@ -529,23 +826,108 @@ async function executeInstallSkills(parsed: ParsedArgs): Promise<CommandResult>
       error: {
         code: ErrorCode.MISSING_ARGUMENT,
         message: '--platform is required for install-skills command',
-        details: { validPlatforms: PLATFORMS }
+        details: { validPlatforms: platformRegistry.ids() }
       }
     };
   }
 
   const adapters = createAdapters();
-  const registry = new SkillRegistry();
   const installSkillsFs = createInstallSkillsFileSystem();
 
-  // Register all skills
-  allSkills.forEach(skill => registry.register(skill));
+  const command = new InstallSkillsCommand(skillRegistry, adapters, installSkillsFs);
 
-  const command = new InstallSkillsCommand(registry, adapters, installSkillsFs);
+  return command.execute({
+    platform: parsed.platform,
+    skills: parsed.skills,
+    force: parsed.force,
+    frameworkVersion: VERSION
+  });
+}
 
+/**
+ * Run init or install once per selected platform, with per-platform
+ * verification when --verify is set, continuing past failures.
+ */
+async function executeForPlatforms(
+  commandName: string,
+  verifyCommand: string,
+  parsed: ParsedArgs,
+  execute: (parsed: ParsedArgs) => Promise<CommandResult>
+): Promise<CommandResult> {
+  return runForPlatforms(commandName, parsed.platforms ?? [], async platform => {
+    const single: ParsedArgs = { ...parsed, platform, platforms: undefined };
+    const result = await execute(single);
+    if (parsed.verify && result.success) {
+      return await runPostVerification(verifyCommand, result, single) ?? result;
+    }
+    return result;
+  });
+}
+
+/**
+ * Execute upgrade command using UpgradeCommand
+ */
+async function executeUpgrade(parsed: ParsedArgs): Promise<CommandResult> {
+  if (!parsed.platform) {
+    return {
+      success: false,
+      command: 'upgrade',
+      error: {
+        code: ErrorCode.MISSING_ARGUMENT,
+        message: '--platform is required for upgrade command',
+        details: { validPlatforms: platformRegistry.ids() }
+      }
+    };
+  }
+
+  const command = new UpgradeCommand(skillRegistry, createAdapters(), createInstallSkillsFileSystem());
   return command.execute({
     platform: parsed.platform,
     skills: parsed.skills,
+    frameworkVersion: VERSION
+  });
+}
+
+/**
+ * Create file system implementation for UninstallSkillsCommand
+ */
+function createUninstallSkillsFileSystem(): import('./commands/uninstall-skills-command.js').UninstallSkillsFileSystem {
+  return {
+    exists: async (p: string) => fs.existsSync(p),
+    readFile: async (p: string) => fs.readFileSync(p, 'utf-8'),
+    writeFile: async (p: string, content: string) => { fs.writeFileSync(p, content, 'utf-8'); },
+    readdir: async (p: string) => fs.readdirSync(p),
+    remove: async (p: string) => {
+      if (fs.statSync(p).isDirectory()) {
+        fs.rmdirSync(p);
+      } else {
+        fs.rmSync(p, { force: true });
+      }
+    }
+  };
+}
+
+/**
+ * Execute uninstall-skills command using UninstallSkillsCommand
+ */
+async function executeUninstallSkills(parsed: ParsedArgs): Promise<CommandResult> {
+  if (!parsed.platform) {
+    return {
+      success: false,
+      command: 'uninstall-skills',
+      error: {
+        code: ErrorCode.MISSING_ARGUMENT,
+        message: '--platform is required for uninstall-skills command',
+        details: { validPlatforms: platformRegistry.ids() }
+      }
+    };
+  }
+
+  const command = new UninstallSkillsCommand(skillRegistry, createAdapters(), createUninstallSkillsFileSystem());
+  return command.execute({
+    platform: parsed.platform,
+    skills: parsed.skills,
+    dryRun: parsed.dryRun,
     force: parsed.force
   });
 }
@@ -622,13 +1004,15 @@ async function executeRunTask(parsed: ParsedArgs): Promise<CommandResult> {
   }
 
   const runTaskFs = createRunTaskFileSystem();
-  const tracker = new TaskTracker();
+  const tracker = new TaskTracker({ platform: parsed.platform ?? null });
   const command = new RunTaskCommand(runTaskFs, tracker);
 
   return command.execute({
     spec: parsed.specName,
     taskId: parsed.taskId,
-    status: parsed.status
+    status: parsed.status,
+    force: parsed.force,
+    reason: parsed.reason
   });
 }
 
@@ -657,7 +1041,7 @@ async function executeVerify(parsed: ParsedArgs): Promise<CommandResult> {
   }
 
   const verifyFs = createVerifyFileSystem();
-  const command = new VerifyCommand(verifyFs);
+  const command = new VerifyCommand(verifyFs, pluginVerifiers, skillRegistry);
 
   return command.execute({
     spec: parsed.specName,
@@ -691,6 +1075,106 @@ async function executeStartGroup(parsed: ParsedArgs): Promise<CommandResult> {
   });
 }
 
+/**
+ * Execute status command using StatusCommand
+ */
+async function executeStatus(parsed: ParsedArgs): Promise<CommandResult> {
+  const command = new StatusCommand(createStatusFileSystem());
+  return command.execute({
+    spec: parsed.specName,
+    workspaceRoot: process.cwd()
+  });
+}
+
+/**
+ * Execute history command using HistoryCommand
+ */
+async function executeHistory(parsed: ParsedArgs): Promise<CommandResult> {
+  if (!parsed.specName) {
+    return {
+      success: false,
+      command: 'history',
+      error: {
+        code: ErrorCode.MISSING_ARGUMENT,
+        message: '--spec is required for history command',
+        details: { usage: 'npx sdd history --spec <name> [--task <id>]' }
+      }
+    };
+  }
+
+  const command = new HistoryCommand(createHistoryFileSystem());
+  return command.execute({
+    spec: parsed.specName,
+    taskId: parsed.taskId,
+    workspaceRoot: process.cwd()
+  });
+}
+
+/**
+ * Execute trace command using TraceCommand
+ */
+async function executeTrace(parsed: ParsedArgs): Promise<CommandResult> {
+  if (!parsed.specName) {
+    return {
+      success: false,
+      command: 'trace',
+      error: {
+        code: ErrorCode.MISSING_ARGUMENT,
+        message: '--spec is required for trace command',
+        details: { usage: 'npx sdd trace --spec <name>' }
+      }
+    };
+  }
+
+  const command = new TraceCommand(createTraceFileSystem());
+  return command.execute({
+    spec: parsed.specName,
+    workspaceRoot: process.cwd()
+  });
+}
+
+/**
+ * Execute detect command using DetectCommand
+ */
+async function executeDetect(): Promise<CommandResult> {
+  const command = new DetectCommand(createDetectFileSystem());
+  return command.execute({ workspaceRoot: process.cwd(), env: process.env });
+}
+
+/**
+ * Default --platform when it is not passed: init, install, upgrade and run-task
+ * use the running agent; install and upgrade fall back to the platform
+ * detected in the workspace.
+ * @returns A warning saying which platform was chosen, if one was
+ */
+async function applyDefaultPlatform(parsed: ParsedArgs): Promise<string | undefined> {
+  if (parsed.platformGiven || !['init', 'install', 'upgrade', 'run-task'].includes(parsed.command)) {
+    return undefined;
+  }
+  const running = detectRunningPlatform(process.env);
+  if (running) {
+    parsed.platform = running.platform;
+    return `Using --platform ${running.platform} (running agent, ${running.variable})`;
+  }
+  if (parsed.command === 'install' || parsed.command === 'upgrade') {
+    const detection = await new DetectCommand(createDetectFileSystem()).execute({ workspaceRoot: process.cwd() });
+    const platform = detection.data?.defaultPlatform;
+    if (platform) {
+      parsed.platform = platform;
+      return `Using --platform ${platform} (detected in workspace)`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Add warnings to a result, ahead of its own.
+ */
+function withWarnings(result: CommandResult, ...warnings: Array<string | undefined>): CommandResult {
+  const added = warnings.filter((w): w is string => w !== undefined);
+  return added.length > 0 ? { ...result, warnings: [...added, ...(result.warnings ?? [])] } : result;
+}
+
 /**
  * Run post-command verification based on the command that was executed.
  * Returns null if no verification is needed, or a failed CommandResult if verification fails.
@@ -719,11 +1203,14 @@ async function runPostVerification(
       break;
     }
     case 'run-task': {
-      // Req 2.2 — verify task status was updated
-      if (parsed.specName && parsed.taskId && parsed.status) {
+      // Req 2.2 — verify task status was updated for every affected task
+      if (parsed.specName && parsed.status) {
         const tv = new TaskVerifier(verifyFs);
-        const checks = await tv.verifyTaskStatus(parsed.specName, parsed.taskId, parsed.status, workspaceRoot);
-        allChecks.push(checks);
+        const updates = (result.data as RunTaskResult | undefined)?.updates ?? [];
+        for (const update of updates) {
+          const checks = await tv.verifyTaskStatus(parsed.specName, update.taskId, parsed.status, workspaceRoot);
+          allChecks.push(checks);
+        }
       }
       break;
     }
@@ -775,6 +1262,12 @@ async function runPostVerification(
  * Main entry point
  */
 async function main(): Promise<void> {
+  await loadWorkspacePlatforms();
+  // Plugins load before parsing so their platforms are accepted by --platform
+  const pluginErrors = await loadWorkspacePlugins();
+  // Reported by the commands that use skills: install, upgrade, uninstall and verify
+  const skillWarnings = await loadMarkdownSkills();
+
   const args = process.argv.slice(2);
   const parsed = parseArgs(args);
 
@@ -787,7 +1280,7 @@ async function main(): Promise<void> {
         code: ErrorCode.UNKNOWN_COMMAND,
         message: `Unknown command: "${parsed.unknownCommand}"`,
         details: {
-          validCommands: ['workspace-init', 'install-skills', 'create-spec', 'run-task', 'refine', 'start-group', 'verify', 'help', 'version']
+          validCommands: ['workspace-init', 'install-skills', 'create-spec', 'run-task', 'refine', 'start-group', 'verify', 'status', 'history', 'trace', 'detect', 'upgrade', 'uninstall-skills', 'help', 'version']
         }
       }
     };
@@ -808,6 +1301,41 @@ async function main(): Promise<void> {
     return;
   }
 
+  // A broken plugin fails every command except help and version
+  if (pluginErrors.length > 0 && parsed.command !== 'help' && parsed.command !== 'version') {
+    const result: CommandResult = {
+      success: false,
+      command: args[0],
+      error: {
+        code: ErrorCode.PLUGIN_LOAD_FAILED,
+        message: `Failed to load plugins: ${pluginErrors.map(e => e.message).join('; ')}`,
+        details: { errors: pluginErrors }
+      }
+    };
+    outputAndExit(result, parsed.json);
+  }
+
+  // A --platform flag without a usable value fails rather than falling back to a default
+  if (parsed.platformError !== undefined) {
+    const result: CommandResult = {
+      success: false,
+      command: args[0],
+      error: parsed.platformError
+        ? {
+          code: ErrorCode.INVALID_PLATFORM,
+          message: `Platform "${parsed.platformError}" is not valid. Expected one of: ${platformRegistry.ids().join(', ')}`,
+          details: { platform: parsed.platformError, validPlatforms: platformRegistry.ids() }
+        }
+        : {
+          code: ErrorCode.MISSING_ARGUMENT,
+          message: '--platform needs a value',
+          details: { validPlatforms: platformRegistry.ids() }
+        }
+    };
+    outputAndExit(result, parsed.json);
+  }
+
+  const platformWarning = await applyDefaultPlatform(parsed);
   let result: CommandResult;
 
   switch (parsed.command) {
@@ -827,20 +1355,31 @@ async function main(): Promise<void> {
 
     case 'init':
       result = await executeWorkspaceInit(parsed);
-      if (parsed.verify && result.success) {
+      // Multi-platform runs verify each platform as they go
+      if (parsed.verify && result.success && !parsed.platforms) {
         const verifyResult = await runPostVerification('init', result, parsed);
         if (verifyResult) result = verifyResult;
       }
-      outputAndExit(result, parsed.json);
+      outputAndExit(withWarnings(result, platformWarning), parsed.json);
       break;
 
     case 'install':
       result = await executeInstallSkills(parsed);
-      if (parsed.verify && result.success) {
+      if (parsed.verify && result.success && !parsed.platforms) {
         const verifyResult = await runPostVerification('install', result, parsed);
         if (verifyResult) result = verifyResult;
       }
-      outputAndExit(result, parsed.json);
+      outputAndExit(withWarnings(result, platformWarning, ...skillWarnings), parsed.json);
+      break;
+
+    case 'uninstall':
+      result = await executeUninstallSkills(parsed);
+      outputAndExit(withWarnings(result, ...skillWarnings), parsed.json);
+      break;
+
+    case 'upgrade':
+      result = await executeUpgrade(parsed);
+      outputAndExit(withWarnings(result, platformWarning, ...skillWarnings), parsed.json);
       break;
 
     case 'create-spec':
@@ -858,7 +1397,7 @@ async function main(): Promise<void> {
         const verifyResult = await runPostVerification('run-task', result, parsed);
         if (verifyResult) result = verifyResult;
       }
-      outputAndExit(result, parsed.json);
+      outputAndExit(withWarnings(result, platformWarning), parsed.json);
       break;
 
     case 'refine':
@@ -873,6 +1412,42 @@ async function main(): Promise<void> {
 
     case 'verify':
       result = await executeVerify(parsed);
+      outputAndExit(withWarnings(result, ...skillWarnings), parsed.json);
+      break;
+
+    case 'status':
+      result = await executeStatus(parsed);
+      if (result.success && !parsed.json) {
+        console.log(renderStatusDashboard(result.data as StatusResult));
+        return;
+      }
+      outputAndExit(result, parsed.json);
+      break;
+
+    case 'history':
+      result = await executeHistory(parsed);
+      if (result.success && !parsed.json) {
+        console.log(renderHistory(result.data as HistoryResult));
+        return;
+      }
+      outputAndExit(result, parsed.json);
+      break;
+
+    case 'detect':
+      result = await executeDetect();
+      if (result.success && !parsed.json) {
+        console.log(renderDetection(result.data as DetectResult));
+        return;
+      }
+      outputAndExit(result, parsed.json);
+      break;
+
+    case 'trace':
+      result = await executeTrace(parsed);
+      if (result.success && !parsed.json) {
+        console.log(renderTraceabilityMatrix(result.data as TraceResult));
+        return;
+      }
       outputAndExit(result, parsed.json);
       break;
   }
@@ -14,6 +14,8 @@ export enum ErrorCode {
   INVALID_PLATFORM = 'INVALID_PLATFORM',
   INVALID_TASK_STATUS = 'INVALID_TASK_STATUS',
   INVALID_TASK_ID = 'INVALID_TASK_ID',
+  INVALID_TRANSITION = 'INVALID_TRANSITION',
+  INVALID_PARTIAL = 'INVALID_PARTIAL',
 
   // Resource errors
   SPEC_EXISTS = 'SPEC_EXISTS',
@@ -30,6 +32,9 @@ export enum ErrorCode {
   VERIFICATION_FAILED = 'VERIFICATION_FAILED',
   VERIFICATION_READ_ERROR = 'VERIFICATION_READ_ERROR',
 
+  // Plugin errors
+  PLUGIN_LOAD_FAILED = 'PLUGIN_LOAD_FAILED',
+
   // General errors
   UNKNOWN_COMMAND = 'UNKNOWN_COMMAND',
   MISSING_ARGUMENT = 'MISSING_ARGUMENT',
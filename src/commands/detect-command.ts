@@ -0,0 +1,130 @@
+/**
+ * DetectCommand - Report every platform the workspace is set up for
+ *
+ * Lists each detected platform with its evidence and the agent running the
+ * CLI, and picks the platform commands should default `--platform` to.
+ */
+
+import * as path from 'path';
+import type { PlatformId } from '../types.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
+import {
+  detectPlatforms,
+  detectRunningPlatform,
+  type DetectedPlatform,
+  type DetectionFileSystem,
+  type Environment,
+  type RunningPlatform,
+} from '../workspace/platform-detector.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for the detect command
+ */
+export interface DetectOptions {
+  workspaceRoot?: string;
+  /** Environment to find the running agent in (default: none) */
+  env?: Environment;
+}
+
+/**
+ * Result data from the detect command
+ */
+export interface DetectResult {
+  /** Platform `--platform` defaults to, or null when detection is ambiguous */
+  defaultPlatform: PlatformId | null;
+  running: RunningPlatform | null;
+  /** Detected platforms, most confident first */
+  platforms: DetectedPlatform[];
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export type DetectFileSystem = DetectionFileSystem;
+
+/**
+ * The platform to use when none is given: the running agent, otherwise the
+ * single most confident detected platform.
+ */
+export function selectDefaultPlatform(
+  platforms: DetectedPlatform[],
+  running: RunningPlatform | null
+): PlatformId | null {
+  if (running) {
+    return running.platform;
+  }
+  const [first, second] = platforms;
+  if (!first || second?.confidence === first.confidence) {
+    return null;
+  }
+  return first.platform;
+}
+
+/**
+ * DetectCommand reports detected platforms and the default platform
+ */
+export class DetectCommand {
+  private readonly commandName = 'detect';
+
+  constructor(
+    private fs: DetectFileSystem,
+    private platforms: PlatformRegistry = platformRegistry
+  ) {}
+
+  /**
+   * Execute the detect command
+   * @param options - Detect options
+   * @returns CommandResult with detected platforms or error
+   */
+  async execute(options: DetectOptions = {}): Promise<CommandResult<DetectResult>> {
+    const { workspaceRoot = process.cwd(), env } = options;
+
+    // Detection works on workspace-relative paths
+    const rooted: DetectionFileSystem = {
+      exists: p => this.fs.exists(path.join(workspaceRoot, p)),
+      readdir: p => this.fs.readdir(path.join(workspaceRoot, p)),
+      isDirectory: p => this.fs.isDirectory(path.join(workspaceRoot, p)),
+    };
+
+    try {
+      const running = env ? detectRunningPlatform(env, this.platforms) : null;
+      const platforms = await detectPlatforms(rooted, { env, platforms: this.platforms });
+      return successResult(this.commandName, {
+        defaultPlatform: selectDefaultPlatform(platforms, running),
+        running,
+        platforms,
+      });
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.READ_FAILED,
+        `Failed to detect platforms: ${err instanceof Error ? err.message : String(err)}`,
+        { workspaceRoot }
+      );
+    }
+  }
+}
+
+/**
+ * Render detected platforms as text, one line per platform.
+ */
+export function renderDetection(result: DetectResult): string {
+  const lines: string[] = [];
+  if (result.running) {
+    lines.push(`Running agent: ${result.running.platform} (${result.running.variable})`);
+  }
+  lines.push(`Default platform: ${result.defaultPlatform ?? 'none (pass --platform)'}`);
+  lines.push('');
+
+  if (result.platforms.length === 0) {
+    lines.push('No platforms detected');
+    return lines.join('\n');
+  }
+  for (const detected of result.platforms) {
+    const skills = detected.skillCount === 1 ? '1 skill' : `${detected.skillCount} skills`;
+    const evidence = detected.evidence.map(e => `${e.kind} ${e.source}`).join(', ');
+    lines.push(`${detected.platform}  [${detected.confidence}]  ${skills}  ${evidence}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,134 @@
+/**
+ * HistoryCommand - Query a spec's task status history
+ *
+ * Reads `.kiro/specs/<name>/.history.jsonl`, which TaskTracker appends
+ * to on every status change, optionally filtered to one task.
+ */
+
+import * as path from 'path';
+import { Validator } from '../validation/validator.js';
+import {
+  TASK_HISTORY_FILE,
+  parseTaskHistory,
+  filterTaskHistory,
+  type TaskHistoryEntry
+} from '../tasks/task-history.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for the history command
+ */
+export interface HistoryOptions {
+  spec: string;
+  /** Only show entries for this task and its subtasks */
+  taskId?: string;
+  workspaceRoot?: string;
+}
+
+/**
+ * Result data from the history command
+ */
+export interface HistoryResult {
+  spec: string;
+  taskId?: string;
+  filePath: string;
+  entries: TaskHistoryEntry[];
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export interface HistoryFileSystem {
+  exists(path: string): Promise<boolean>;
+  readFile(path: string): Promise<string>;
+}
+
+/**
+ * HistoryCommand lists recorded task status changes for a spec
+ */
+export class HistoryCommand {
+  private readonly commandName = 'history';
+
+  constructor(private fs: HistoryFileSystem) {}
+
+  /**
+   * Execute the history command
+   * @param options - History options
+   * @returns CommandResult with history entries in chronological order, or error
+   */
+  async execute(options: HistoryOptions): Promise<CommandResult<HistoryResult>> {
+    const { spec, taskId, workspaceRoot = process.cwd() } = options;
+
+    const specValidation = Validator.validateSpecName(spec);
+    if (!specValidation.valid) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.INVALID_SPEC_NAME,
+        specValidation.errors[0]?.message || 'Invalid spec name',
+        { spec, expectedFormat: 'kebab-case (e.g., my-feature, user-auth-v2)' }
+      );
+    }
+
+    if (taskId !== undefined && !/^\d+(\.\d+)*$/.test(taskId)) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.INVALID_TASK_ID,
+        `Invalid task ID "${taskId}"`,
+        { taskId, expectedFormat: 'dot-separated numbers (e.g., "1", "1.2", "1.2.3")' }
+      );
+    }
+
+    const specDir = path.join(workspaceRoot, '.kiro', 'specs', spec);
+    if (!await this.fs.exists(specDir)) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.SPEC_NOT_FOUND,
+        `Spec "${spec}" not found`,
+        { spec, path: specDir }
+      );
+    }
+
+    const historyPath = path.join(specDir, TASK_HISTORY_FILE);
+    let entries: TaskHistoryEntry[] = [];
+    if (await this.fs.exists(historyPath)) {
+      try {
+        entries = parseTaskHistory(await this.fs.readFile(historyPath));
+      } catch (err) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.READ_FAILED,
+          `Failed to read ${TASK_HISTORY_FILE}: ${err instanceof Error ? err.message : String(err)}`,
+          { spec, path: historyPath }
+        );
+      }
+    }
+
+    if (taskId !== undefined) {
+      entries = filterTaskHistory(entries, taskId);
+    }
+
+    return successResult(this.commandName, {
+      spec,
+      ...(taskId !== undefined ? { taskId } : {}),
+      filePath: historyPath,
+      entries,
+    });
+  }
+}
+
+/**
+ * Render history entries as one line per change
+ */
+export function renderHistory(result: HistoryResult): string {
+  if (result.entries.length === 0) {
+    return result.taskId
+      ? `No history recorded for task ${result.taskId} in spec "${result.spec}"`
+      : `No history recorded for spec "${result.spec}"`;
+  }
+
+  return result.entries.map(e => {
+    const platform = e.platform ?? 'unknown';
+    const error = e.error ? `  (${e.error})` : '';
+    return `${e.timestamp}  ${e.taskId}  ${e.oldStatus} → ${e.newStatus}  [${platform}, ${e.source}]${error}`;
+  }).join('\n');
+}
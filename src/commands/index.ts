@@ -38,7 +38,9 @@ export {
   WorkspaceInitCommand,
   WorkspaceInitOptions,
   WorkspaceInitResult,
-  WorkspaceInitFileSystem
+  WorkspaceInitFileSystem,
+  mergeSettings,
+  unmergeSettings
 } from './workspace-init-command.js';
 
 export {
@@ -64,3 +66,65 @@ export {
   StartGroupOptions,
   StartGroupResult
 } from './start-group-command.js';
+
+export {
+  StatusCommand,
+  StatusOptions,
+  StatusResult,
+  StatusFileSystem,
+  SpecStatus,
+  GroupProgress,
+  SubgroupProgress,
+  StatusTaskRef,
+  renderStatusDashboard
+} from './status-command.js';
+
+export {
+  HistoryCommand,
+  HistoryOptions,
+  HistoryResult,
+  HistoryFileSystem,
+  renderHistory
+} from './history-command.js';
+
+export {
+  TraceCommand,
+  TraceOptions,
+  TraceResult,
+  TraceFileSystem,
+  renderTraceabilityMatrix
+} from './trace-command.js';
+
+export {
+  ALL_PLATFORMS,
+  PlatformOutcome,
+  MultiPlatformResult,
+  isPlatformSelection,
+  parsePlatformSelection,
+  runForPlatforms
+} from './multi-platform.js';
+
+export {
+  UninstallSkillsCommand,
+  UninstallSkillsOptions,
+  UninstallSkillsResult,
+  UninstallSkillsFileSystem
+} from './uninstall-skills-command.js';
+
+export {
+  UpgradeCommand,
+  UpgradeOptions,
+  UpgradeOutcome,
+  SkillUpgrade,
+  UpgradeResult,
+  UpgradeFileSystem
+} from './upgrade-command.js';
+
+export {
+  DetectCommand,
+  DetectOptions,
+  DetectResult,
+  DetectFileSystem,
+  selectDefaultPlatform,
+  renderDetection
+} from './detect-command.js';
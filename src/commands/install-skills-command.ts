@@ -7,12 +7,27 @@
  * Requirements: 5.1, 5.2, 5.7, 5.8
  */
 
-import type { PlatformId } from '../types.js';
+import type { PlatformId, PlatformSkill } from '../types.js';
 import type { PlatformAdapter } from '../adapters/platform-adapter.js';
 import type { SkillRegistry } from '../registry/skill-registry.js';
 import { Validator } from '../validation/validator.js';
+import { platformRegistry } from '../registry/platform-registry.js';
 import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+import { renderTemplate } from '../adapters/declarative-adapter.js';
+import { parseFrontmatter } from '../adapters/frontmatter.js';
 import { isDirectorySkill } from '../types.js';
+import {
+  SKILL_LOCK_FILE,
+  baseCopyPath,
+  emptySkillLock,
+  hashContent,
+  parseSkillLock,
+  serializeSkillLock,
+  skillFiles,
+  updateSkillLock,
+  type SkillLock,
+  type SkillLockEntry,
+} from '../registry/skill-lock.js';
 
 /**
  * Options for installing skills
@@ -22,6 +37,8 @@ export interface InstallSkillsOptions {
   skills?: string[];
   force?: boolean;
   workspaceRoot?: string;
+  /** Framework version recorded in the lock file */
+  frameworkVersion?: string;
 }
 
 /**
@@ -31,7 +48,11 @@ export interface InstallSkillsResult {
   platform: PlatformId;
   installed: string[];
   skipped: string[];
+  /** Skills whose files from an earlier layout were replaced */
+  migrated: string[];
   targetPath: string;
+  /** Lock file recording the installed files */
+  lockFile: string;
 }
 
 /**
@@ -41,6 +62,8 @@ export interface InstallSkillsFileSystem {
   exists(path: string): Promise<boolean>;
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
   writeFile(path: string, content: string): Promise<void>;
+  remove(path: string): Promise<void>;
+  readFile(path: string): Promise<string>;
 }
 
 /**
@@ -62,7 +85,7 @@ export class InstallSkillsCommand {
    * Requirements: 5.1, 5.2, 5.7, 5.8
    */
   async execute(options: InstallSkillsOptions): Promise<CommandResult<InstallSkillsResult>> {
-    const { platform, skills, force = false, workspaceRoot = process.cwd() } = options;
+    const { platform, skills, force = false, workspaceRoot = process.cwd(), frameworkVersion } = options;
 
     // Validate platform (Requirements: 7.2)
     const platformValidation = Validator.validatePlatform(platform);
@@ -71,7 +94,7 @@ export class InstallSkillsCommand {
         this.commandName,
         ErrorCode.INVALID_PLATFORM,
         platformValidation.errors[0]?.message || 'Invalid platform',
-        { platform, validPlatforms: ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq'] }
+        { platform, validPlatforms: platformRegistry.ids() }
       );
     }
 
@@ -97,7 +120,7 @@ export class InstallSkillsCommand {
         const skill = this.registry.get(skillName);
         if (!skill) {
           invalidSkills.push(skillName);
-        } else if (!skill.supportedPlatforms.includes(platform)) {
+        } else if (!platformRegistry.supports(skill, platform)) {
           invalidSkills.push(`${skillName} (not supported on ${platform})`);
         }
       }
@@ -117,6 +140,23 @@ export class InstallSkillsCommand {
       skillsToInstall = allSkills.map(s => s.name);
     }
 
+    // Render every skill first, so an unresolvable partial fails before anything is written
+    const rendered = new Map<string, PlatformSkill>();
+    for (const skillName of skillsToInstall) {
+      const skill = this.registry.get(skillName);
+      if (!skill) continue;
+      try {
+        rendered.set(skillName, this.registry.render(skill, adapter));
+      } catch (err) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.INVALID_PARTIAL,
+          err instanceof Error ? err.message : String(err),
+          { skill: skillName, platform }
+        );
+      }
+    }
+
     // Build target path
     const targetPath = `${workspaceRoot}/${adapter.getSkillsDirectory()}`;
 
@@ -128,17 +168,19 @@ export class InstallSkillsCommand {
 
       const installed: string[] = [];
       const skipped: string[] = [];
+      const migrated: string[] = [];
+      const lockEntries: SkillLockEntry[] = [];
+      const { legacyFiles = [], legacyHashes = {} } = platformRegistry.get(platform)?.skill ?? {};
+      const legacyWarnings: string[] = [];
 
       // Install each skill (Requirements: 5.1, 5.2, 5.7)
       for (const skillName of skillsToInstall) {
         const skill = this.registry.get(skillName);
-        if (!skill) {
+        const platformSkill = rendered.get(skillName);
+        if (!skill || !platformSkill) {
           continue; // Already validated above
         }
 
-        // Transform skill to platform format
-        const platformSkill = adapter.formatSkill(skill);
-
         // Check if skill already exists (Requirements: 5.7)
         const skillPath = this.getSkillPath(targetPath, platformSkill);
         const exists = await this.fs.exists(skillPath);
@@ -150,15 +192,62 @@ export class InstallSkillsCommand {
 
         // Write the skill file(s)
         await this.writeSkill(targetPath, platformSkill);
+        for (const companion of platformSkill.companionFiles ?? []) {
+          await this.writeCompanion(workspaceRoot, companion.path, companion.content);
+        }
         installed.push(skillName);
+        for (const file of skillFiles(adapter.getSkillsDirectory(), platformSkill)) {
+          await this.writeCompanion(workspaceRoot, baseCopyPath(file.path), file.content);
+          lockEntries.push({
+            skill: skillName,
+            version: skill.version,
+            platform,
+            path: file.path,
+            hash: hashContent(file.content),
+            ...(frameworkVersion ? { frameworkVersion } : {}),
+          });
+        }
+
+        // Remove files an earlier layout wrote for this skill, unless edited since
+        let replacedLegacy = false;
+        for (const legacyFile of legacyFiles) {
+          const legacyRelativePath = `${adapter.getSkillsDirectory()}${renderTemplate(legacyFile, { name: skillName })}`;
+          const legacyPath = `${workspaceRoot}/${legacyRelativePath}`;
+          if (legacyPath === skillPath || !await this.fs.exists(legacyPath)) {
+            continue;
+          }
+          if (!force && !this.isUneditedLegacyFile(await this.fs.readFile(legacyPath), legacyHashes[skillName] ?? [], platformSkill)) {
+            legacyWarnings.push(`${legacyRelativePath} is from an earlier layout of ${skillName} but was edited, so it was kept; use --force to remove it`);
+            continue;
+          }
+          await this.fs.remove(legacyPath);
+          replacedLegacy = true;
+        }
+        if (replacedLegacy) {
+          migrated.push(skillName);
+        }
+      }
+
+      // Record what was written in the lock file
+      const lockFile = `${workspaceRoot}/${SKILL_LOCK_FILE}`;
+      const warnings: string[] = [...legacyWarnings];
+      if (installed.length > 0) {
+        const lock = await this.readLock(lockFile, warnings);
+        await this.writeCompanion(
+          workspaceRoot,
+          SKILL_LOCK_FILE,
+          serializeSkillLock(updateSkillLock(lock, platform, installed, lockEntries))
+        );
       }
 
       return successResult(this.commandName, {
         platform,
         installed,
         skipped,
+        migrated,
         targetPath,
-      });
+        lockFile,
+      }, warnings);
     } catch (err) {
       return errorResult(
         this.commandName,
@@ -183,6 +272,48 @@ export class InstallSkillsCommand {
     }
   }
 
+  /**
+   * Whether a file from an earlier layout is unedited: it has the hash of a file
+   * an earlier release wrote, or is the skill's current markdown with or without
+   * its frontmatter, ignoring trailing whitespace.
+   */
+  private isUneditedLegacyFile(content: string, legacyHashes: string[], platformSkill: PlatformSkill): boolean {
+    if (legacyHashes.includes(hashContent(content))) {
+      return true;
+    }
+    const current = isDirectorySkill(platformSkill) ? platformSkill.files[0]?.content ?? '' : platformSkill.content;
+    const body = parseFrontmatter(current)?.body.replace(/^\s+/, '') ?? current;
+    return [body, current].some(rendering => rendering.trimEnd() === content.trimEnd());
+  }
+
+  /**
+   * Read the lock file; an unreadable one is replaced with a warning
+   */
+  private async readLock(lockFile: string, warnings: string[]): Promise<SkillLock> {
+    if (!await this.fs.exists(lockFile)) {
+      return emptySkillLock();
+    }
+    try {
+      return parseSkillLock(await this.fs.readFile(lockFile));
+    } catch (err) {
+      warnings.push(`${SKILL_LOCK_FILE} was not a valid lock file and was rewritten: ${err instanceof Error ? err.message : String(err)}`);
+      return emptySkillLock();
+    }
+  }
+
+  /**
+   * Write a file that lives outside the skills directory, e.g. a slash command
+   * @param workspaceRoot - Workspace root the companion path is relative to
+   */
+  private async writeCompanion(workspaceRoot: string, relativePath: string, content: string): Promise<void> {
+    const filePath = `${workspaceRoot}/${relativePath}`;
+    const dir = filePath.slice(0, filePath.lastIndexOf('/') + 1);
+    if (!await this.fs.exists(dir)) {
+      await this.fs.mkdir(dir, { recursive: true });
+    }
+    await this.fs.writeFile(filePath, content);
+  }
+
   /**
    * Write a skill to the file system
    * @param targetPath - Base skills directory path
@@ -193,7 +324,7 @@ export class InstallSkillsCommand {
     platformSkill: ReturnType<PlatformAdapter['formatSkill']>
   ): Promise<void> {
     if (isDirectorySkill(platformSkill)) {
-      // Directory-based skill (e.g., Codex)
+      // Directory-based skill (e.g., Claude Code, Codex)
       const skillDir = `${targetPath}${platformSkill.directory}/`;
       
       if (!await this.fs.exists(skillDir)) {
@@ -204,7 +335,7 @@ export class InstallSkillsCommand {
         await this.fs.writeFile(`${skillDir}${file.filename}`, file.content);
       }
     } else {
-      // Single file skill (e.g., Kiro, Claude Code, Antigravity)
+      // Single file skill (e.g., Kiro, Cursor, Copilot)
       await this.fs.writeFile(`${targetPath}${platformSkill.filename}`, platformSkill.content);
     }
   }
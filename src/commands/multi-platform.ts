@@ -0,0 +1,104 @@
+/**
+ * Multi-platform runs - One command across several platforms
+ *
+ * `workspace-init` and `install-skills` accept `--platform all` or a comma
+ * list such as `kiro,claude-code,codex`. Each platform runs on its own: a
+ * failure is recorded in its outcome and the remaining platforms still run.
+ */
+
+import type { PlatformId } from '../types.js';
+import { platformRegistry, type PlatformRegistry } from '../registry/platform-registry.js';
+import { successResult, type CommandError, type CommandResult } from './command-result.js';
+
+/**
+ * `--platform` value selecting every registered platform
+ */
+export const ALL_PLATFORMS = 'all';
+
+/**
+ * What a command did for one platform
+ */
+export interface PlatformOutcome<T = unknown> {
+  platform: PlatformId;
+  success: boolean;
+  data?: T;
+  error?: CommandError;
+  warnings?: string[];
+}
+
+/**
+ * Result data of a command run across several platforms
+ */
+export interface MultiPlatformResult<T = unknown> {
+  succeeded: PlatformId[];
+  failed: PlatformId[];
+  /** One outcome per platform, in the order they ran */
+  platforms: PlatformOutcome<T>[];
+}
+
+/**
+ * Whether a `--platform` value selects more than one platform.
+ */
+export function isPlatformSelection(value: string): boolean {
+  return value === ALL_PLATFORMS || value.includes(',');
+}
+
+/**
+ * Expand a `--platform` value into platform ids: `all` is every registered
+ * platform in detection order, otherwise a comma list with duplicates removed.
+ * Unknown ids are kept so that their run reports INVALID_PLATFORM.
+ */
+export function parsePlatformSelection(value: string, registry: PlatformRegistry = platformRegistry): PlatformId[] {
+  if (value === ALL_PLATFORMS) {
+    return registry.ids();
+  }
+  return [...new Set(value.split(',').map(id => id.trim()).filter(id => id.length > 0))];
+}
+
+/**
+ * Run a command for each platform in turn and combine the results.
+ * The combined result succeeds only if every platform did; otherwise its
+ * error takes the code of the first failure and lists every failed platform.
+ * Warnings are prefixed with the platform they came from.
+ */
+export async function runForPlatforms<T>(
+  command: string,
+  platforms: PlatformId[],
+  run: (platform: PlatformId) => Promise<CommandResult<T>>
+): Promise<CommandResult<MultiPlatformResult<T>>> {
+  const outcomes: PlatformOutcome<T>[] = [];
+  for (const platform of platforms) {
+    const result = await run(platform);
+    outcomes.push({
+      platform,
+      success: result.success,
+      ...(result.data !== undefined ? { data: result.data } : {}),
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.warnings ? { warnings: result.warnings } : {}),
+    });
+  }
+
+  const failures = outcomes.filter(o => !o.success);
+  const data: MultiPlatformResult<T> = {
+    succeeded: outcomes.filter(o => o.success).map(o => o.platform),
+    failed: failures.map(o => o.platform),
+    platforms: outcomes,
+  };
+  const warnings = outcomes.flatMap(o => (o.warnings ?? []).map(w => `${o.platform}: ${w}`));
+
+  if (failures.length === 0) {
+    return successResult(command, data, warnings);
+  }
+  return {
+    success: false,
+    command,
+    data,
+    error: {
+      code: failures[0].error?.code ?? 'UNKNOWN',
+      message: `${command} failed for ${failures.length} of ${outcomes.length} platforms: ` +
+        failures.map(o => `${o.platform} (${o.error?.message ?? 'unknown error'})`).join('; '),
+      details: { failed: data.failed, succeeded: data.succeeded },
+    },
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
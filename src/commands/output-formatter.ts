@@ -135,7 +135,7 @@ export class TextFormatter implements OutputFormatter {
       if (value.length === 0) {
         return '[]';
       }
-      return value.join(', ');
+      return value.map(v => this.formatValue(v)).join(', ');
     }
 
     if (typeof value === 'object') {
@@ -8,9 +8,18 @@
  */
 
 import * as path from 'path';
-import type { TaskStatus } from '../types.js';
+import type { TaskStatus, TaskUpdate } from '../types.js';
 import { Validator } from '../validation/validator.js';
 import { TaskTracker } from '../tasks/task-tracker.js';
+import { TasksMarkdown } from '../tasks/tasks-markdown.js';
+import { isBulkSelector, expandTaskSelector } from '../tasks/task-selector.js';
+import {
+  resolveTransitionPolicy,
+  DEFAULT_TASK_TRANSITIONS,
+  isTransitionAllowed,
+  type TransitionPolicy,
+  type TransitionViolation
+} from '../tasks/task-transitions.js';
 import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
 
 /**
@@ -18,8 +27,13 @@ import { ErrorCode, successResult, errorResult, type CommandResult } from './com
  */
 export interface RunTaskOptions {
   spec: string;
+  /** A task ID, or a bulk selector such as "1.2.*", "1.1.1..1.1.4" or "1.1,1.2" */
   taskId: string;
   status: TaskStatus;
+  /** Apply the update even if the spec's transition policy rejects it */
+  force?: boolean;
+  /** Why the task failed; written as a `_Failure: ..._` line when status is failed */
+  reason?: string;
   workspaceRoot?: string;
 }
 
@@ -27,10 +41,14 @@ export interface RunTaskOptions {
  * Result data from task status update
  */
 export interface RunTaskResult {
+  /** The task ID or selector as requested */
   taskId: string;
+  /** Previous status of the first affected task */
   previousStatus: TaskStatus;
   newStatus: TaskStatus;
   filePath: string;
+  /** One update per affected task, in document order */
+  updates: TaskUpdate[];
 }
 
 /**
@@ -59,7 +77,7 @@ export class RunTaskCommand {
    * Requirements: 3.1, 3.2, 3.6, 3.7
    */
   async execute(options: RunTaskOptions): Promise<CommandResult<RunTaskResult>> {
-    const { spec, taskId, status, workspaceRoot = process.cwd() } = options;
+    const { spec, taskId, status, force = false, reason, workspaceRoot = process.cwd() } = options;
 
     // Validate spec name (Requirements: 7.1)
     const specValidation = Validator.validateSpecName(spec);
@@ -72,14 +90,19 @@ export class RunTaskCommand {
       );
     }
 
-    // Validate task ID (Requirements: 7.4)
-    const taskIdValidation = Validator.validateTaskId(taskId);
+    // Validate task ID or bulk selector (Requirements: 7.4)
+    const bulk = isBulkSelector(taskId);
+    const taskIdValidation = bulk
+      ? Validator.validateTaskSelector(taskId)
+      : Validator.validateTaskId(taskId);
     if (!taskIdValidation.valid) {
       return errorResult(
         this.commandName,
         ErrorCode.INVALID_TASK_ID,
         taskIdValidation.errors[0]?.message || 'Invalid task ID',
-        { taskId, expectedFormat: 'major.minor (e.g., "1.1", "2.3")' }
+        bulk
+          ? { taskId, expectedFormat: 'IDs, wildcards or ranges (e.g., "1.2.*", "1.1.1..1.1.4", "1.1,1.2")' }
+          : { taskId, expectedFormat: 'dotted numbers (e.g., "1.1", "1.1.1")' }
       );
     }
 
@@ -120,28 +143,90 @@ export class RunTaskCommand {
       );
     }
 
-    // Check if task exists in the file (Requirements: 3.4)
-    const taskExists = this.taskExistsInContent(content, taskId);
-    
-    if (!taskExists) {
+    // Resolve the task IDs to update (Requirements: 3.4)
+    let taskIds: string[];
+    if (bulk) {
+      const selection = expandTaskSelector(taskId, this.tracker.listTaskIds(content));
+      if (selection.unmatched.length > 0) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.TASK_NOT_FOUND,
+          `No tasks match ${selection.unmatched.map(t => `"${t}"`).join(', ')} in spec "${spec}"`,
+          { spec, taskId, unmatched: selection.unmatched, path: tasksFilePath }
+        );
+      }
+      taskIds = selection.taskIds;
+    } else {
+      if (!this.taskExistsInContent(content, taskId)) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.TASK_NOT_FOUND,
+          `Task "${taskId}" not found in spec "${spec}"`,
+          { spec, taskId, path: tasksFilePath }
+        );
+      }
+      taskIds = [taskId];
+    }
+
+    // Enforce the spec's transition policy (strict unless it opts out with "any")
+    const warnings: string[] = [];
+    const configPath = path.join(path.dirname(tasksFilePath), '.config.kiro');
+    let policy: TransitionPolicy | null | undefined;
+    try {
+      policy = await this.readTransitionPolicy(configPath, warnings);
+    } catch (err) {
       return errorResult(
         this.commandName,
-        ErrorCode.TASK_NOT_FOUND,
-        `Task "${taskId}" not found in spec "${spec}"`,
-        { spec, taskId, path: tasksFilePath }
+        ErrorCode.INVALID_TRANSITION,
+        `Invalid transition policy in .config.kiro: ${err instanceof Error ? err.message : String(err)}`,
+        { spec, path: configPath }
       );
     }
 
-    // Update task status using TaskTracker (Requirements: 3.1, 3.3, 3.7)
+    if (policy) {
+      const violations: TransitionViolation[] = taskIds
+        .map(id => ({ taskId: id, from: this.tracker.parseTaskStatus(content, id), to: status }))
+        .filter(t => !isTransitionAllowed(policy!, t.from, t.to));
+
+      if (violations.length > 0 && !force) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.INVALID_TRANSITION,
+          `Transition not allowed: ${violations.map(v => `${v.taskId} ${v.from} → ${v.to}`).join(', ')}`,
+          { spec, violations, hint: 'Pass --force to override the transition policy' }
+        );
+      }
+
+      for (const v of violations) {
+        warnings.push(`Forced disallowed transition for ${v.taskId}: ${v.from} → ${v.to}`);
+      }
+    } else if (policy === undefined) {
+      // Specs without a readable .config.kiro predate transition policies: allow, but flag
+      for (const id of taskIds) {
+        const from = this.tracker.parseTaskStatus(content, id);
+        if (!isTransitionAllowed(DEFAULT_TASK_TRANSITIONS, from, status)) {
+          warnings.push(`Transition ${id} ${from} → ${status} would be rejected by the default transition policy`);
+        }
+      }
+    }
+
+    if (reason !== undefined && status !== 'failed') {
+      warnings.push('--reason is only recorded when --status is failed');
+    }
+
+    // Update task statuses in a single atomic write (Requirements: 3.1, 3.3, 3.7)
     try {
-      const update = await this.tracker.updateTaskStatus(tasksFilePath, taskId, status);
+      const updates = await this.tracker.updateTaskStatuses(
+        tasksFilePath, taskIds, status, status === 'failed' ? reason : undefined
+      );
       
       return successResult(this.commandName, {
         taskId,
-        previousStatus: update.oldStatus,
-        newStatus: update.newStatus,
+        previousStatus: updates[0].oldStatus,
+        newStatus: status,
         filePath: tasksFilePath,
-      });
+        updates,
+      }, warnings);
     } catch (err) {
       return errorResult(
         this.commandName,
@@ -152,6 +237,32 @@ export class RunTaskCommand {
     }
   }
 
+  /**
+   * Read the transition policy declared in a spec's .config.kiro
+   * @param configPath - Path to .config.kiro
+   * @param warnings - Collects a warning if the config cannot be parsed
+   * @returns The policy, null if the spec opts out with "any", or undefined if it has no readable config
+   * @throws Error if the declared policy is malformed
+   */
+  private async readTransitionPolicy(configPath: string, warnings: string[]): Promise<TransitionPolicy | null | undefined> {
+    if (!await this.fs.exists(configPath)) {
+      return undefined;
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(await this.fs.readFile(configPath));
+    } catch {
+      config = undefined;
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      // Broken configs are reported by `sdd verify`; don't block status updates on them
+      warnings.push('.config.kiro could not be parsed; transition policy not enforced');
+      return undefined;
+    }
+    return resolveTransitionPolicy(config as Record<string, unknown>);
+  }
+
   /**
    * Check if a task ID exists in the file content
    * @param content - The tasks.md file content
@@ -159,11 +270,6 @@ export class RunTaskCommand {
    * @returns true if task exists, false otherwise
    */
   private taskExistsInContent(content: string, taskId: string): boolean {
-      // Escape special regex characters in taskId
-      const escapedId = taskId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      // Match task checkbox pattern with the task ID, including ~ (queued) for backward compat
-      const pattern = new RegExp(`- \\[[ x\\-!~]\\]\\*?\\s*${escapedId}\\b`);
-      return pattern.test(content);
-    }
-
+    return TasksMarkdown.parse(content).findTask(taskId) !== undefined;
+  }
 }
@@ -0,0 +1,320 @@
+/**
+ * StatusCommand - Whole-spec progress dashboard
+ *
+ * Reads every tasks.md under `.kiro/specs/` (or a single spec) and
+ * summarises group/subgroup progress, blocked tasks and the next
+ * executable task using TaskGroupResolver.
+ */
+
+import * as path from 'path';
+import { Validator } from '../validation/validator.js';
+import { TaskGroupResolver } from '../tasks/task-group-resolver.js';
+import type { TaskGroup, TaskGroupStatus } from '../tasks/task-group-resolver.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for the status command
+ */
+export interface StatusOptions {
+  spec?: string;
+  workspaceRoot?: string;
+}
+
+/**
+ * A task reference shown in the dashboard
+ */
+export interface StatusTaskRef {
+  id: string;
+  text: string;
+}
+
+/**
+ * Progress of a single subgroup
+ */
+export interface SubgroupProgress {
+  id: string;
+  title: string;
+  status: TaskGroupStatus;
+  totalTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+}
+
+/**
+ * Progress of a single top-level group
+ */
+export interface GroupProgress {
+  id: string;
+  title: string;
+  status: TaskGroupStatus;
+  isOptional: boolean;
+  totalTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  percentComplete: number;
+  subgroups: SubgroupProgress[];
+  blockedTasks: StatusTaskRef[];
+  nextTask: StatusTaskRef | null;
+}
+
+/**
+ * Progress of a whole spec
+ */
+export interface SpecStatus {
+  name: string;
+  hasTasks: boolean;
+  groups: GroupProgress[];
+  totalTasks: number;
+  completedTasks: number;
+  failedTasks: number;
+  percentComplete: number;
+  blockedTasks: StatusTaskRef[];
+  nextTask: (StatusTaskRef & { groupId: string }) | null;
+}
+
+/**
+ * Result data from the status command
+ */
+export interface StatusResult {
+  specs: SpecStatus[];
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export interface StatusFileSystem {
+  exists(path: string): Promise<boolean>;
+  readFile(path: string): Promise<string>;
+  readdir(path: string): Promise<string[]>;
+  isDirectory(path: string): Promise<boolean>;
+}
+
+/**
+ * Percentage of completed work items, rounded to the nearest integer.
+ */
+function percent(completed: number, total: number): number {
+  return total === 0 ? 0 : Math.round((completed / total) * 100);
+}
+
+/**
+ * StatusCommand builds a progress dashboard for one or all specs
+ */
+export class StatusCommand {
+  private readonly commandName = 'status';
+
+  constructor(
+    private fs: StatusFileSystem,
+    private resolver: TaskGroupResolver = new TaskGroupResolver()
+  ) {}
+
+  /**
+   * Execute the status command
+   * @param options - Status options
+   * @returns CommandResult with per-spec progress or error
+   */
+  async execute(options: StatusOptions = {}): Promise<CommandResult<StatusResult>> {
+    const { spec, workspaceRoot = process.cwd() } = options;
+    const specsDir = path.join(workspaceRoot, '.kiro', 'specs');
+
+    let specNames: string[];
+
+    if (spec !== undefined) {
+      const specValidation = Validator.validateSpecName(spec);
+      if (!specValidation.valid) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.INVALID_SPEC_NAME,
+          specValidation.errors[0]?.message || 'Invalid spec name',
+          { spec, expectedFormat: 'kebab-case (e.g., my-feature, user-auth-v2)' }
+        );
+      }
+
+      if (!await this.fs.isDirectory(path.join(specsDir, spec))) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.SPEC_NOT_FOUND,
+          `Spec "${spec}" not found`,
+          { spec, path: path.join(specsDir, spec) }
+        );
+      }
+
+      specNames = [spec];
+    } else {
+      specNames = await this.listSpecs(specsDir);
+    }
+
+    const specs: SpecStatus[] = [];
+    for (const name of specNames) {
+      const tasksPath = path.join(specsDir, name, 'tasks.md');
+      if (!await this.fs.exists(tasksPath)) {
+        specs.push(this.summarizeSpec(name, [], false));
+        continue;
+      }
+
+      try {
+        const content = await this.fs.readFile(tasksPath);
+        specs.push(this.summarizeSpec(name, this.resolver.parseGroups(content), true));
+      } catch (err) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.READ_FAILED,
+          `Failed to read tasks.md: ${err instanceof Error ? err.message : String(err)}`,
+          { spec: name, path: tasksPath }
+        );
+      }
+    }
+
+    return successResult(this.commandName, { specs });
+  }
+
+  /**
+   * Summarise parsed groups into a SpecStatus
+   * @param name - Spec name
+   * @param groups - Groups parsed from tasks.md
+   * @param hasTasks - Whether tasks.md exists
+   */
+  summarizeSpec(name: string, groups: TaskGroup[], hasTasks: boolean): SpecStatus {
+    const groupProgress = groups.map(g => this.summarizeGroup(g));
+
+    const totalTasks = groupProgress.reduce((n, g) => n + g.totalTasks, 0);
+    const completedTasks = groupProgress.reduce((n, g) => n + g.completedTasks, 0);
+    const failedTasks = groupProgress.reduce((n, g) => n + g.failedTasks, 0);
+
+    let nextTask: SpecStatus['nextTask'] = null;
+    for (const group of groupProgress) {
+      if (group.nextTask) {
+        nextTask = { ...group.nextTask, groupId: group.id };
+        break;
+      }
+    }
+
+    return {
+      name,
+      hasTasks,
+      groups: groupProgress,
+      totalTasks,
+      completedTasks,
+      failedTasks,
+      percentComplete: percent(completedTasks, totalTasks),
+      blockedTasks: groupProgress.flatMap(g => g.blockedTasks),
+      nextTask,
+    };
+  }
+
+  /**
+   * Summarise a single group. Work items are the leaf tasks of each
+   * subgroup, or the subgroup itself when it has no leaves.
+   */
+  private summarizeGroup(group: TaskGroup): GroupProgress {
+    let totalTasks = 0;
+    let completedTasks = 0;
+    let failedTasks = 0;
+
+    for (const subgroup of group.subgroups) {
+      if (subgroup.totalTasks > 0) {
+        totalTasks += subgroup.totalTasks;
+        completedTasks += subgroup.completedTasks;
+        failedTasks += subgroup.failedTasks;
+      } else {
+        const task = group.tasks.find(t => t.id === subgroup.id);
+        totalTasks += 1;
+        if (task?.status === 'completed') completedTasks += 1;
+        if (task?.status === 'failed') failedTasks += 1;
+      }
+    }
+
+    const next = this.resolver.findNextExecutableTask(group);
+
+    return {
+      id: group.id,
+      title: group.title,
+      status: group.status,
+      isOptional: group.isOptional,
+      totalTasks,
+      completedTasks,
+      failedTasks,
+      percentComplete: percent(completedTasks, totalTasks),
+      subgroups: group.subgroups.map(sg => ({
+        id: sg.id,
+        title: sg.title,
+        status: sg.status,
+        totalTasks: sg.totalTasks,
+        completedTasks: sg.completedTasks,
+        failedTasks: sg.failedTasks,
+      })),
+      blockedTasks: group.tasks
+        .filter(t => t.isBlocked)
+        .map(t => ({ id: t.id, text: t.text })),
+      nextTask: next ? { id: next.id, text: next.text } : null,
+    };
+  }
+
+  /**
+   * List spec folder names under the specs directory
+   * @param specsDir - Path to `.kiro/specs/`
+   * @returns Sorted spec names, empty if the directory is missing
+   */
+  private async listSpecs(specsDir: string): Promise<string[]> {
+    if (!await this.fs.exists(specsDir)) {
+      return [];
+    }
+
+    const names: string[] = [];
+    try {
+      for (const entry of await this.fs.readdir(specsDir)) {
+        if (await this.fs.isDirectory(path.join(specsDir, entry))) {
+          names.push(entry);
+        }
+      }
+    } catch {
+      // Directory exists but couldn't be read - report no specs
+    }
+
+    return names.sort();
+  }
+}
+
+/**
+ * Render a StatusResult as a human-readable dashboard
+ * @param result - The status data
+ * @returns Multi-line dashboard text
+ */
+export function renderStatusDashboard(result: StatusResult): string {
+  if (result.specs.length === 0) {
+    return 'No specs found in .kiro/specs/';
+  }
+
+  const bar = (pct: number): string => {
+    const filled = Math.round(pct / 10);
+    return `[${'#'.repeat(filled)}${'.'.repeat(10 - filled)}]`;
+  };
+
+  const sections = result.specs.map(spec => {
+    const lines: string[] = [];
+    lines.push(`${spec.name}  ${bar(spec.percentComplete)} ${spec.percentComplete}% (${spec.completedTasks}/${spec.totalTasks} tasks)`);
+
+    if (!spec.hasTasks) {
+      lines.push('  tasks.md not found');
+      return lines.join('\n');
+    }
+
+    for (const group of spec.groups) {
+      const optional = group.isOptional ? ' (optional)' : '';
+      lines.push(`  ${group.id}. ${group.title}${optional}  ${group.completedTasks}/${group.totalTasks} [${group.status}]`);
+      for (const sg of group.subgroups) {
+        lines.push(`    ${sg.id} ${sg.title}  ${sg.completedTasks}/${sg.totalTasks} [${sg.status}]`);
+      }
+    }
+
+    if (spec.blockedTasks.length > 0) {
+      lines.push(`  Blocked: ${spec.blockedTasks.map(t => t.id).join(', ')}`);
+    }
+    lines.push(spec.nextTask
+      ? `  Next: ${spec.nextTask.id} ${spec.nextTask.text}`
+      : '  Next: none');
+
+    return lines.join('\n');
+  });
+
+  return sections.join('\n\n');
+}
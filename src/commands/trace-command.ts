@@ -0,0 +1,150 @@
+/**
+ * TraceCommand - Requirements traceability matrix for a spec
+ *
+ * Reads requirements.md, design.md and tasks.md from
+ * `.kiro/specs/<name>/` and links each requirement to the design
+ * sections and tasks that cover it.
+ */
+
+import * as path from 'path';
+import { Validator } from '../validation/validator.js';
+import { buildTraceabilityMatrix, type TraceabilityMatrix } from '../documents/traceability.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for the trace command
+ */
+export interface TraceOptions {
+  spec: string;
+  workspaceRoot?: string;
+}
+
+/**
+ * Result data from the trace command
+ */
+export interface TraceResult extends TraceabilityMatrix {
+  spec: string;
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export interface TraceFileSystem {
+  exists(path: string): Promise<boolean>;
+  readFile(path: string): Promise<string>;
+}
+
+const SPEC_FILES = ['requirements.md', 'design.md', 'tasks.md'] as const;
+
+/**
+ * TraceCommand builds the traceability matrix for one spec
+ */
+export class TraceCommand {
+  private readonly commandName = 'trace';
+
+  constructor(private fs: TraceFileSystem) {}
+
+  /**
+   * Execute the trace command
+   * @param options - Trace options
+   * @returns CommandResult with the traceability matrix, or error.
+   *          Missing spec documents are treated as empty and reported as warnings.
+   */
+  async execute(options: TraceOptions): Promise<CommandResult<TraceResult>> {
+    const { spec, workspaceRoot = process.cwd() } = options;
+
+    const specValidation = Validator.validateSpecName(spec);
+    if (!specValidation.valid) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.INVALID_SPEC_NAME,
+        specValidation.errors[0]?.message || 'Invalid spec name',
+        { spec, expectedFormat: 'kebab-case (e.g., my-feature, user-auth-v2)' }
+      );
+    }
+
+    const specDir = path.join(workspaceRoot, '.kiro', 'specs', spec);
+    if (!await this.fs.exists(specDir)) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.SPEC_NOT_FOUND,
+        `Spec "${spec}" not found`,
+        { spec, path: specDir }
+      );
+    }
+
+    const warnings: string[] = [];
+    const contents: string[] = [];
+    for (const file of SPEC_FILES) {
+      const filePath = path.join(specDir, file);
+      if (!await this.fs.exists(filePath)) {
+        warnings.push(`${file} not found; treated as empty`);
+        contents.push('');
+        continue;
+      }
+      try {
+        contents.push(await this.fs.readFile(filePath));
+      } catch (err) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.READ_FAILED,
+          `Failed to read ${file}: ${err instanceof Error ? err.message : String(err)}`,
+          { spec, path: filePath }
+        );
+      }
+    }
+
+    const [requirements, design, tasks] = contents;
+    return successResult(this.commandName, {
+      spec,
+      ...buildTraceabilityMatrix(requirements, design, tasks),
+    }, warnings);
+  }
+}
+
+/**
+ * Escape a value for a markdown table cell
+ */
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|') || '—';
+}
+
+/**
+ * Render the matrix as a markdown table followed by the flagged items
+ */
+export function renderTraceabilityMatrix(result: TraceResult): string {
+  if (result.requirements.length === 0 && result.untracedTasks.length === 0) {
+    return `No requirements or tasks found for spec "${result.spec}"`;
+  }
+
+  const lines = [
+    `# Traceability: ${result.spec}`,
+    '',
+    '| Requirement | Title | Design | Tasks | Coverage |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+  for (const r of result.requirements) {
+    const design = r.designSections.map(s => s.heading).join(', ');
+    const tasks = r.tasks.map(t => `${t.id} (${t.status})`).join(', ');
+    lines.push(`| ${r.id} | ${cell(r.title)} | ${cell(design)} | ${cell(tasks)} | ${r.coverage} |`);
+  }
+
+  const flags: string[] = [];
+  if (result.uncoveredRequirements.length > 0) {
+    flags.push(`- Requirements with no tasks: ${result.uncoveredRequirements.join(', ')}`);
+  }
+  if (result.completedRequirements.length > 0) {
+    flags.push(`- Requirements with all tasks completed: ${result.completedRequirements.join(', ')}`);
+  }
+  if (result.untracedTasks.length > 0) {
+    flags.push(`- Tasks with no requirements: ${result.untracedTasks.map(t => t.id).join(', ')}`);
+  }
+  for (const ref of result.unknownReferences) {
+    flags.push(`- Task ${ref.taskId} cites unknown requirements: ${ref.requirementIds.join(', ')}`);
+  }
+  if (flags.length > 0) {
+    lines.push('', ...flags);
+  }
+
+  return lines.join('\n');
+}
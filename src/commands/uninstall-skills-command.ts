@@ -0,0 +1,355 @@
+/**
+ * UninstallSkillsCommand - Remove what install-skills and workspace-init wrote
+ *
+ * Skill files are found through `.sdd/lock.json`, or for skills the lock does
+ * not know, by matching the file content against the skill's rendering.
+ * A skill with a file edited since install is kept whole unless forced. Uninstalling a whole
+ * platform also strips the managed region from its instructions file and the
+ * sdd entries from its hook files. `.kiro/specs/` is never touched.
+ */
+
+import * as path from 'path';
+import type { PlatformId, PlatformSkill } from '../types.js';
+import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import type { SkillRegistry } from '../registry/skill-registry.js';
+import { Validator } from '../validation/validator.js';
+import { platformRegistry } from '../registry/platform-registry.js';
+import {
+  SKILL_LOCK_FILE,
+  baseCopyPath,
+  emptySkillLock,
+  hashContent,
+  parseSkillLock,
+  serializeSkillLock,
+  skillFiles,
+  updateSkillLock,
+  type SkillLock,
+} from '../registry/skill-lock.js';
+import { removeManagedRegion } from '../workspace/managed-region.js';
+import { renderHookContent, unmergeSettings } from './workspace-init-command.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for uninstalling skills
+ */
+export interface UninstallSkillsOptions {
+  platform: PlatformId;
+  /** Skills to remove (default: all, plus the instructions region and hooks) */
+  skills?: string[];
+  workspaceRoot?: string;
+  /** Report what would be removed without changing anything */
+  dryRun?: boolean;
+  /** Also remove skill files edited since install */
+  force?: boolean;
+}
+
+/**
+ * Result data from uninstalling skills; paths are relative to the workspace root
+ */
+export interface UninstallSkillsResult {
+  platform: PlatformId;
+  dryRun: boolean;
+  uninstalled: string[];
+  /** Files and emptied directories removed */
+  removed: string[];
+  /** Files the sdd content was stripped from */
+  updated: string[];
+  /** Generated files left in place because they were edited */
+  kept: string[];
+  /** Skills left installed because one of their files was edited */
+  keptSkills: string[];
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export interface UninstallSkillsFileSystem {
+  exists(path: string): Promise<boolean>;
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  /** Remove a file or an empty directory */
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * Directory uninstall never removes anything in, relative to the workspace root
+ */
+const PROTECTED_DIR = '.kiro/specs';
+
+/**
+ * UninstallSkillsCommand removes framework-generated files for a platform
+ */
+export class UninstallSkillsCommand {
+  private readonly commandName = 'uninstall-skills';
+
+  constructor(
+    private registry: SkillRegistry,
+    private adapters: Map<PlatformId, PlatformAdapter>,
+    private fs: UninstallSkillsFileSystem
+  ) {}
+
+  /**
+   * Execute the uninstall-skills command
+   * @param options - Uninstall options
+   * @returns CommandResult with the removed files or error
+   */
+  async execute(options: UninstallSkillsOptions): Promise<CommandResult<UninstallSkillsResult>> {
+    const { platform, skills, workspaceRoot = process.cwd(), dryRun = false, force = false } = options;
+
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.INVALID_PLATFORM,
+        `No adapter found for platform: ${platform}`,
+        { platform, validPlatforms: platformRegistry.ids() }
+      );
+    }
+
+    const lockFile = path.join(workspaceRoot, SKILL_LOCK_FILE);
+    let lock: SkillLock;
+    try {
+      lock = await this.fs.exists(lockFile) ? parseSkillLock(await this.fs.readFile(lockFile)) : emptySkillLock();
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.READ_FAILED,
+        `Failed to read ${SKILL_LOCK_FILE}: ${err instanceof Error ? err.message : String(err)}`,
+        { lockFile }
+      );
+    }
+
+    const unknown = (skills ?? []).filter(name => !this.registry.get(name) && !lock.skills.some(e => e.skill === name));
+    if (unknown.length > 0) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.SKILL_NOT_FOUND,
+        `Skills not found: ${unknown.join(', ')}`,
+        { invalidSkills: unknown, platform }
+      );
+    }
+
+    const result: UninstallSkillsResult = { platform, dryRun, uninstalled: [], removed: [], updated: [], kept: [], keptSkills: [] };
+    const warnings: string[] = [];
+    const removals: string[] = [];
+    const writes = new Map<string, string>();
+
+    try {
+      const wanted = (name: string) => !skills || skills.length === 0 || skills.includes(name);
+      const entries = lock.skills.filter(e => e.platform === platform && wanted(e.skill));
+      const lockedSkills = [...new Set(entries.map(e => e.skill))];
+
+      // Skills recorded in the lock: a skill with a file edited since install
+      // keeps all its files, so the lock still describes it and --force can remove it later
+      const keptSkills = new Set<string>();
+      const resolved = new Map(entries.map(e => [e.path, this.resolve(workspaceRoot, e.path, warnings)]));
+      for (const entry of entries) {
+        const filePath = resolved.get(entry.path);
+        if (filePath && !force && await this.fs.exists(filePath)
+          && hashContent(await this.fs.readFile(filePath)) !== entry.hash) {
+          result.kept.push(entry.path);
+          keptSkills.add(entry.skill);
+        }
+      }
+      const removedSkills = lockedSkills.filter(name => !keptSkills.has(name));
+      for (const entry of entries.filter(e => removedSkills.includes(e.skill))) {
+        // A base copy is only resolved when its file was, so an unsafe path is reported once
+        const filePath = resolved.get(entry.path);
+        if (!filePath) continue;
+        for (const file of [filePath, path.join(workspaceRoot, baseCopyPath(entry.path))]) {
+          if (await this.fs.exists(file)) removals.push(file);
+        }
+      }
+      result.uninstalled.push(...removedSkills);
+      result.keptSkills.push(...lockedSkills.filter(name => keptSkills.has(name)));
+
+      // Skills the lock does not know: remove files identical to their rendering
+      const candidates = skills && skills.length > 0
+        ? skills
+        : this.registry.listForPlatform(platform).map(s => s.name);
+      for (const name of candidates.filter(n => !lockedSkills.includes(n))) {
+        const skill = this.registry.get(name);
+        if (!skill) continue;
+        let platformSkill: PlatformSkill;
+        try {
+          platformSkill = this.registry.render(skill, adapter);
+        } catch (err) {
+          return errorResult(
+            this.commandName,
+            ErrorCode.INVALID_PARTIAL,
+            err instanceof Error ? err.message : String(err),
+            { skill: name, platform }
+          );
+        }
+        let matched = false;
+        for (const file of skillFiles(adapter.getSkillsDirectory(), platformSkill)) {
+          const filePath = this.resolve(workspaceRoot, file.path, warnings);
+          if (filePath && await this.fs.exists(filePath) && await this.fs.readFile(filePath) === file.content) {
+            removals.push(filePath);
+            matched = true;
+          }
+        }
+        if (matched) result.uninstalled.push(name);
+      }
+
+      // Forget the uninstalled skills
+      if (removedSkills.length > 0) {
+        const remaining = updateSkillLock(lock, platform, removedSkills, []);
+        if (remaining.skills.length === 0) {
+          removals.push(lockFile);
+        } else {
+          writes.set(lockFile, serializeSkillLock(remaining));
+        }
+      }
+
+      // Uninstalling the platform also takes back what workspace-init added
+      if (!skills || skills.length === 0) {
+        await this.planInstructions(workspaceRoot, adapter, removals, writes, warnings);
+        await this.planHooks(workspaceRoot, platform, removals, writes, warnings);
+      }
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.READ_FAILED,
+        `Failed to uninstall skills: ${err instanceof Error ? err.message : String(err)}`,
+        { platform }
+      );
+    }
+
+    const emptied = await this.findEmptiedDirectories(workspaceRoot, removals);
+    result.removed = [...removals, ...emptied].map(p => path.relative(workspaceRoot, p));
+    result.updated = [...writes.keys()].map(p => path.relative(workspaceRoot, p));
+    if (result.keptSkills.length > 0) {
+      warnings.push(`Kept skills with files edited since install: ${result.keptSkills.join(', ')}; use --force to remove them`);
+    }
+    if (dryRun) {
+      return successResult(this.commandName, result, warnings);
+    }
+
+    try {
+      for (const [filePath, content] of writes) {
+        await this.fs.writeFile(filePath, content);
+      }
+      // Files first, then directories from the deepest up
+      for (const target of [...removals, ...emptied]) {
+        await this.fs.remove(target);
+      }
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.WRITE_FAILED,
+        `Failed to uninstall skills: ${err instanceof Error ? err.message : String(err)}`,
+        { platform }
+      );
+    }
+    return successResult(this.commandName, result, warnings);
+  }
+
+  /**
+   * Resolve a workspace-relative path, refusing paths outside the workspace or in `.kiro/specs/`.
+   */
+  private resolve(workspaceRoot: string, relativePath: string, warnings: string[]): string | undefined {
+    const normalized = path.normalize(relativePath).replace(/\\/g, '/');
+    if (path.isAbsolute(relativePath) || !Validator.isPathSafe(relativePath, workspaceRoot)) {
+      warnings.push(`${relativePath} is outside the workspace and was skipped`);
+      return undefined;
+    }
+    if (normalized === PROTECTED_DIR || normalized.startsWith(`${PROTECTED_DIR}/`)) {
+      warnings.push(`${relativePath} is in ${PROTECTED_DIR}/ and was skipped`);
+      return undefined;
+    }
+    return path.join(workspaceRoot, relativePath);
+  }
+
+  /**
+   * Strip the managed region from the instructions file, removing the file
+   * when nothing else is in it.
+   */
+  private async planInstructions(
+    workspaceRoot: string,
+    adapter: PlatformAdapter,
+    removals: string[],
+    writes: Map<string, string>,
+    warnings: string[]
+  ): Promise<void> {
+    if (!adapter.instructionsFile) return;
+    const filePath = this.resolve(workspaceRoot, adapter.instructionsFile, warnings);
+    if (!filePath || !await this.fs.exists(filePath)) return;
+
+    let remaining: string | undefined;
+    try {
+      remaining = removeManagedRegion(await this.fs.readFile(filePath));
+    } catch (err) {
+      warnings.push(`${adapter.instructionsFile}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (remaining === undefined) {
+      warnings.push(`${adapter.instructionsFile} has no sdd markers and was left in place`);
+    } else if (remaining === '') {
+      removals.push(filePath);
+    } else {
+      writes.set(filePath, remaining);
+    }
+  }
+
+  /**
+   * Take the platform's hook entries out of its hook files, removing files
+   * that held nothing else.
+   */
+  private async planHooks(
+    workspaceRoot: string,
+    platform: PlatformId,
+    removals: string[],
+    writes: Map<string, string>,
+    warnings: string[]
+  ): Promise<void> {
+    for (const hook of platformRegistry.get(platform)?.hooks ?? []) {
+      const filePath = this.resolve(workspaceRoot, hook.path, warnings);
+      if (!filePath || !await this.fs.exists(filePath)) continue;
+
+      let existing: unknown;
+      try {
+        existing = JSON.parse(await this.fs.readFile(filePath));
+      } catch {
+        warnings.push(`${hook.path} is not valid JSON; remove the sdd hooks from it by hand`);
+        continue;
+      }
+      const remaining = unmergeSettings(existing, renderHookContent(hook.content, platform));
+      if (remaining === undefined) {
+        removals.push(filePath);
+      } else if (JSON.stringify(remaining) !== JSON.stringify(existing)) {
+        writes.set(filePath, `${JSON.stringify(remaining, null, 2)}\n`);
+      }
+    }
+  }
+
+  /**
+   * Find the directories left empty by the removals, deepest first.
+   * The workspace root and `.kiro/specs/` are never included.
+   */
+  private async findEmptiedDirectories(workspaceRoot: string, removals: string[]): Promise<string[]> {
+    const gone = new Set(removals);
+    const emptied: string[] = [];
+    const candidates = [...new Set(removals.map(p => path.dirname(p)))];
+
+    while (candidates.length > 0) {
+      // Deepest first, so a parent is checked after its children
+      candidates.sort((a, b) => b.length - a.length);
+      const dir = candidates.shift()!;
+      const relative = path.relative(workspaceRoot, dir).replace(/\\/g, '/');
+      if (!relative || relative.startsWith('..') || relative === PROTECTED_DIR || relative.startsWith(`${PROTECTED_DIR}/`)) {
+        continue;
+      }
+      if (gone.has(dir) || !await this.fs.exists(dir)) continue;
+      const entries = await this.fs.readdir(dir);
+      if (entries.every(entry => gone.has(path.join(dir, entry)))) {
+        gone.add(dir);
+        emptied.push(dir);
+        const parent = path.dirname(dir);
+        if (!candidates.includes(parent)) candidates.push(parent);
+      }
+    }
+    return emptied;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * UpgradeCommand - Upgrade installed skills without losing local edits
+ *
+ * For every skill in `.sdd/lock.json` the base copy under `.sdd/base/` (as
+ * installed), the workspace file (possibly edited) and the current canonical
+ * rendering are merged three ways. Unedited files are replaced, edited ones
+ * merged, and overlapping edits written between conflict markers.
+ */
+
+import type { PlatformId, PlatformSkill } from '../types.js';
+import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import type { SkillRegistry } from '../registry/skill-registry.js';
+import { platformRegistry } from '../registry/platform-registry.js';
+import {
+  SKILL_LOCK_FILE,
+  baseCopyPath,
+  emptySkillLock,
+  hashContent,
+  parseSkillLock,
+  serializeSkillLock,
+  skillFiles,
+  updateSkillLock,
+  type SkillLock,
+  type SkillLockEntry,
+} from '../registry/skill-lock.js';
+import { mergeThreeWay } from '../workspace/three-way-merge.js';
+import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
+
+/**
+ * Options for upgrading skills
+ */
+export interface UpgradeOptions {
+  platform: PlatformId;
+  /** Skills to upgrade (default: every skill locked for the platform) */
+  skills?: string[];
+  workspaceRoot?: string;
+  /** Framework version recorded in the lock file */
+  frameworkVersion?: string;
+}
+
+/**
+ * What happened to a skill, from least to most attention needed
+ */
+export type UpgradeOutcome = 'unchanged' | 'upgraded' | 'merged' | 'conflicted';
+
+/**
+ * Upgrade of one skill
+ */
+export interface SkillUpgrade {
+  skill: string;
+  outcome: UpgradeOutcome;
+  fromVersion: string;
+  toVersion: string;
+  /** Files written with conflict markers, relative to the workspace root */
+  conflicts: string[];
+}
+
+/**
+ * Result data from the upgrade command
+ */
+export interface UpgradeResult {
+  platform: PlatformId;
+  upgraded: string[];
+  merged: string[];
+  conflicted: string[];
+  unchanged: string[];
+  skills: SkillUpgrade[];
+}
+
+/**
+ * File system operations interface for dependency injection
+ */
+export interface UpgradeFileSystem {
+  exists(path: string): Promise<boolean>;
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  remove(path: string): Promise<void>;
+}
+
+const OUTCOME_ORDER: UpgradeOutcome[] = ['unchanged', 'upgraded', 'merged', 'conflicted'];
+
+/**
+ * UpgradeCommand merges new canonical skills into installed ones
+ */
+export class UpgradeCommand {
+  private readonly commandName = 'upgrade';
+
+  constructor(
+    private registry: SkillRegistry,
+    private adapters: Map<PlatformId, PlatformAdapter>,
+    private fs: UpgradeFileSystem
+  ) {}
+
+  /**
+   * Execute the upgrade command
+   * @param options - Upgrade options
+   * @returns CommandResult with per-skill outcomes or error
+   */
+  async execute(options: UpgradeOptions): Promise<CommandResult<UpgradeResult>> {
+    const { platform, skills, workspaceRoot = process.cwd(), frameworkVersion } = options;
+
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.INVALID_PLATFORM,
+        `No adapter found for platform: ${platform}`,
+        { platform, validPlatforms: platformRegistry.ids() }
+      );
+    }
+
+    const lockFile = `${workspaceRoot}/${SKILL_LOCK_FILE}`;
+    let lock: SkillLock;
+    try {
+      lock = await this.fs.exists(lockFile) ? parseSkillLock(await this.fs.readFile(lockFile)) : emptySkillLock();
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.READ_FAILED,
+        `Failed to read ${SKILL_LOCK_FILE}: ${err instanceof Error ? err.message : String(err)}`,
+        { lockFile }
+      );
+    }
+
+    // Locked entries by skill, in lock order
+    const locked = new Map<string, SkillLockEntry[]>();
+    for (const entry of lock.skills.filter(e => e.platform === platform)) {
+      locked.set(entry.skill, [...(locked.get(entry.skill) ?? []), entry]);
+    }
+    const notLocked = (skills ?? []).filter(name => !locked.has(name));
+    if (locked.size === 0 || notLocked.length > 0) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.SKILL_NOT_FOUND,
+        notLocked.length > 0
+          ? `Skills not installed on ${platform}: ${notLocked.join(', ')}`
+          : `No skills installed on ${platform} are recorded in ${SKILL_LOCK_FILE}; run install-skills first`,
+        { platform, lockFile }
+      );
+    }
+
+    // Render every skill first, so an unresolvable partial fails before anything is written
+    const rendered = new Map<string, PlatformSkill>();
+    for (const skillName of locked.keys()) {
+      const skill = this.registry.get(skillName);
+      if (!skill || (skills && skills.length > 0 && !skills.includes(skillName))) continue;
+      try {
+        rendered.set(skillName, this.registry.render(skill, adapter));
+      } catch (err) {
+        return errorResult(
+          this.commandName,
+          ErrorCode.INVALID_PARTIAL,
+          err instanceof Error ? err.message : String(err),
+          { skill: skillName, platform }
+        );
+      }
+    }
+
+    const result: UpgradeResult = { platform, upgraded: [], merged: [], conflicted: [], unchanged: [], skills: [] };
+    const warnings: string[] = [];
+    let updatedLock = lock;
+
+    try {
+      for (const [skillName, entries] of locked) {
+        if (skills && skills.length > 0 && !skills.includes(skillName)) continue;
+
+        const skill = this.registry.get(skillName);
+        const platformSkill = rendered.get(skillName);
+        if (!skill || !platformSkill) {
+          warnings.push(`${skillName} is no longer provided and was left in place`);
+          continue;
+        }
+
+        const files = skillFiles(adapter.getSkillsDirectory(), platformSkill);
+        const upgrade: SkillUpgrade = {
+          skill: skillName,
+          outcome: 'unchanged',
+          fromVersion: entries[0].version,
+          toVersion: skill.version,
+          conflicts: [],
+        };
+        const label = `${skillName} ${skill.version}`;
+
+        for (const file of files) {
+          const entry = entries.find(e => e.path === file.path);
+          const outcome = await this.upgradeFile(workspaceRoot, file.path, file.content, entry, label, warnings);
+          if (outcome === 'conflicted') {
+            upgrade.conflicts.push(file.path);
+          }
+          if (OUTCOME_ORDER.indexOf(outcome) > OUTCOME_ORDER.indexOf(upgrade.outcome)) {
+            upgrade.outcome = outcome;
+          }
+          await this.write(`${workspaceRoot}/${baseCopyPath(file.path)}`, file.content);
+        }
+
+        // Files the new rendering no longer has are removed unless edited
+        for (const entry of entries.filter(e => !files.some(f => f.path === e.path))) {
+          const filePath = `${workspaceRoot}/${entry.path}`;
+          if (await this.fs.exists(filePath) && hashContent(await this.fs.readFile(filePath)) !== entry.hash) {
+            warnings.push(`${entry.path} is no longer part of ${skillName} but was edited, so it was kept`);
+          } else {
+            await this.removeIfExists(filePath);
+            if (upgrade.outcome === 'unchanged') upgrade.outcome = 'upgraded';
+          }
+          await this.removeIfExists(`${workspaceRoot}/${baseCopyPath(entry.path)}`);
+        }
+
+        updatedLock = updateSkillLock(updatedLock, platform, [skillName], files.map(file => ({
+          skill: skillName,
+          version: skill.version,
+          platform,
+          path: file.path,
+          hash: hashContent(file.content),
+          ...(frameworkVersion ? { frameworkVersion } : {}),
+        })));
+        result[upgrade.outcome].push(skillName);
+        result.skills.push(upgrade);
+        if (upgrade.conflicts.length > 0) {
+          warnings.push(`${skillName} has conflicts in ${upgrade.conflicts.join(', ')}; resolve the <<<<<<< markers`);
+        }
+      }
+
+      await this.write(lockFile, serializeSkillLock(updatedLock));
+    } catch (err) {
+      return errorResult(
+        this.commandName,
+        ErrorCode.WRITE_FAILED,
+        `Failed to upgrade skills: ${err instanceof Error ? err.message : String(err)}`,
+        { platform }
+      );
+    }
+
+    return successResult(this.commandName, result, warnings);
+  }
+
+  /**
+   * Bring one file up to date with its new canonical content.
+   * @param entry - The file's lock entry; undefined for files new in this version
+   */
+  private async upgradeFile(
+    workspaceRoot: string,
+    relativePath: string,
+    theirs: string,
+    entry: SkillLockEntry | undefined,
+    label: string,
+    warnings: string[]
+  ): Promise<UpgradeOutcome> {
+    const filePath = `${workspaceRoot}/${relativePath}`;
+    if (!await this.fs.exists(filePath)) {
+      await this.write(filePath, theirs);
+      return 'upgraded';
+    }
+
+    const ours = await this.fs.readFile(filePath);
+    if (ours === theirs) {
+      return 'unchanged';
+    }
+    if (entry && hashContent(ours) === entry.hash) {
+      await this.write(filePath, theirs);
+      return 'upgraded';
+    }
+
+    const base = entry ? await this.readBase(workspaceRoot, entry) : undefined;
+    if (base === undefined) {
+      warnings.push(`${relativePath} has no base copy in .sdd/base/, so every local change is treated as a conflict`);
+    }
+    if (base === theirs) {
+      return 'unchanged';
+    }
+    const merged = mergeThreeWay(base ?? '', ours, theirs, { ours: 'local', theirs: label });
+    await this.write(filePath, merged.content);
+    return merged.conflicts > 0 ? 'conflicted' : 'merged';
+  }
+
+  /**
+   * Read the base copy of a locked file, if it is still the installed content
+   */
+  private async readBase(workspaceRoot: string, entry: SkillLockEntry): Promise<string | undefined> {
+    const basePath = `${workspaceRoot}/${baseCopyPath(entry.path)}`;
+    if (!await this.fs.exists(basePath)) {
+      return undefined;
+    }
+    const base = await this.fs.readFile(basePath);
+    return hashContent(base) === entry.hash ? base : undefined;
+  }
+
+  private async write(filePath: string, content: string): Promise<void> {
+    const dir = filePath.slice(0, filePath.lastIndexOf('/') + 1);
+    if (!await this.fs.exists(dir)) {
+      await this.fs.mkdir(dir, { recursive: true });
+    }
+    await this.fs.writeFile(filePath, content);
+  }
+
+  private async removeIfExists(filePath: string): Promise<void> {
+    if (await this.fs.exists(filePath)) {
+      await this.fs.remove(filePath);
+    }
+  }
+}
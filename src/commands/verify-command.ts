@@ -12,6 +12,9 @@ import { SpecVerifier } from '../verification/spec-verifier.js';
 import { TaskVerifier } from '../verification/task-verifier.js';
 import { PlatformVerifier } from '../verification/platform-verifier.js';
 import { SkillVerifier } from '../verification/skill-verifier.js';
+import { SkillLockVerifier } from '../verification/skill-lock-verifier.js';
+import type { SkillRegistry } from '../registry/skill-registry.js';
+import type { PluginVerifier } from '../plugins/plugin-loader.js';
 import { successResult, errorResult, type CommandResult } from './command-result.js';
 
 /**
@@ -29,11 +32,17 @@ export interface VerifyOptions {
 
 /**
  * VerifyCommand orchestrates verification across all verifiers.
+ * Plugin verifiers run after the built-in ones. The skill registry lets
+ * platform verification report skills that are stale against `.sdd/lock.json`.
  */
 export class VerifyCommand {
   private readonly commandName = 'verify';
 
-  constructor(private fs: VerifyFileSystem) {}
+  constructor(
+    private fs: VerifyFileSystem,
+    private verifiers: PluginVerifier[] = [],
+    private skills?: SkillRegistry
+  ) {}
 
   async execute(options: VerifyOptions): Promise<CommandResult<VerificationData>> {
     const { workspaceRoot = process.cwd() } = options;
@@ -63,6 +72,10 @@ export class VerifyCommand {
       const platformVerifier = new PlatformVerifier(this.fs);
       const checks = await platformVerifier.verify(options.platform, workspaceRoot);
       allChecks.push(checks);
+
+      // Installed skills against the lock file
+      const lockVerifier = new SkillLockVerifier(this.fs, this.skills);
+      allChecks.push(await lockVerifier.verify(options.platform, workspaceRoot));
     }
 
     // Skill verification — Req 1.7
@@ -72,6 +85,28 @@ export class VerifyCommand {
       allChecks.push(checks);
     }
 
+    // Plugin verification — a verifier that throws fails its own check
+    for (const verifier of this.verifiers) {
+      try {
+        allChecks.push(await verifier.verify({
+          fs: this.fs,
+          workspaceRoot,
+          spec: options.spec,
+          platform: options.platform,
+          skills: options.skills,
+        }));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        allChecks.push([{
+          name: `Plugin verifier ${verifier.name}`,
+          passed: false,
+          expected: 'verifier completes',
+          actual: `error: ${errMsg}`,
+          message: `Plugin verifier ${verifier.name} failed: ${errMsg}`,
+        }]);
+      }
+    }
+
     const durationMs = Date.now() - start;
     const checks = mergeChecks(...allChecks);
     const data = buildVerificationData(checks, durationMs);
@@ -10,7 +10,11 @@
 import * as path from 'path';
 import type { PlatformId, SpecMetadata } from '../types.js';
 import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import type { HookFileDefinition } from '../adapters/platform-definition.js';
+import { renderTemplate } from '../adapters/declarative-adapter.js';
+import { hasStaleInstructions, mergeManagedRegion } from '../workspace/managed-region.js';
 import { Validator } from '../validation/validator.js';
+import { platformRegistry } from '../registry/platform-registry.js';
 import { ErrorCode, successResult, errorResult, type CommandResult } from './command-result.js';
 
 /**
@@ -19,6 +23,8 @@ import { ErrorCode, successResult, errorResult, type CommandResult } from './com
 export interface WorkspaceInitOptions {
   platform: PlatformId;
   force?: boolean;
+  /** Also write the platform's agent hook configuration */
+  hooks?: boolean;
   workspaceRoot?: string;
 }
 
@@ -30,6 +36,8 @@ export interface WorkspaceInitResult {
   specsDir: string;
   instructionsFile?: string;
   specsFound: number;
+  /** Hook files written or already up to date, when `hooks` was requested */
+  hooksFiles?: string[];
 }
 
 /**
@@ -44,6 +52,82 @@ export interface WorkspaceInitFileSystem {
   isDirectory(path: string): Promise<boolean>;
 }
 
+type JsonObject = Record<string, unknown>;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge generated settings into a user's settings without losing anything:
+ * objects merge key by key, arrays gain the generated entries they lack, and
+ * existing scalar values win. Merging the same settings again changes nothing.
+ */
+export function mergeSettings(existing: unknown, generated: unknown): unknown {
+  if (isJsonObject(existing) && isJsonObject(generated)) {
+    const merged: JsonObject = { ...existing };
+    for (const [key, value] of Object.entries(generated)) {
+      merged[key] = key in existing ? mergeSettings(existing[key], value) : value;
+    }
+    return merged;
+  }
+  if (Array.isArray(existing) && Array.isArray(generated)) {
+    const present = new Set(existing.map(entry => JSON.stringify(entry)));
+    return [...existing, ...generated.filter(entry => !present.has(JSON.stringify(entry)))];
+  }
+  return existing;
+}
+
+function isEmptyJson(value: unknown): boolean {
+  return value === undefined ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isJsonObject(value) && Object.keys(value).length === 0);
+}
+
+/**
+ * Take generated settings back out of a user's settings: array entries equal
+ * to generated ones are dropped, equal scalars removed, and keys left empty
+ * deleted. Anything the user added or changed stays.
+ * @returns The remaining settings, or undefined when nothing is left
+ */
+export function unmergeSettings(existing: unknown, generated: unknown): unknown {
+  if (isJsonObject(existing) && isJsonObject(generated)) {
+    const remaining: JsonObject = { ...existing };
+    for (const [key, value] of Object.entries(generated)) {
+      if (!(key in existing)) continue;
+      const rest = unmergeSettings(existing[key], value);
+      if (isEmptyJson(rest)) {
+        delete remaining[key];
+      } else {
+        remaining[key] = rest;
+      }
+    }
+    return isEmptyJson(remaining) ? undefined : remaining;
+  }
+  if (Array.isArray(existing) && Array.isArray(generated)) {
+    const generatedEntries = new Set(generated.map(entry => JSON.stringify(entry)));
+    const rest = existing.filter(entry => !generatedEntries.has(JSON.stringify(entry)));
+    return rest.length === 0 ? undefined : rest;
+  }
+  return JSON.stringify(existing) === JSON.stringify(generated) ? undefined : existing;
+}
+
+/**
+ * Replace `{{platform}}` in every string of a hook file's content.
+ */
+export function renderHookContent(value: unknown, platform: PlatformId): unknown {
+  if (typeof value === 'string') {
+    return renderTemplate(value, { platform });
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => renderHookContent(entry, platform));
+  }
+  if (isJsonObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, renderHookContent(entry, platform)]));
+  }
+  return value;
+}
+
 /**
  * WorkspaceInitCommand handles deterministic workspace initialization
  */
@@ -71,7 +155,7 @@ export class WorkspaceInitCommand {
         this.commandName,
         ErrorCode.INVALID_PLATFORM,
         platformValidation.errors[0]?.message || 'Invalid platform',
-        { platform, validPlatforms: ['kiro', 'claude-code', 'codex', 'antigravity'] }
+        { platform, validPlatforms: platformRegistry.ids() }
       );
     }
 
@@ -98,6 +182,7 @@ export class WorkspaceInitCommand {
 
       // Create platform-specific instruction file (Requirements: 4.3, 4.4, 4.5)
       let instructionsFile: string | undefined;
+      const warnings: string[] = [];
       
       if (adapter.instructionsFile) {
         instructionsFile = path.join(workspaceRoot, adapter.instructionsFile);
@@ -108,9 +193,36 @@ export class WorkspaceInitCommand {
           await this.fs.mkdir(instructionsDir, { recursive: true });
         }
 
-        // Generate and write instructions content
-        const instructionsContent = adapter.generateInstructionsContent(specs);
+        // Generated content replaces only the sdd region, keeping hand-written text
+        const existing = await this.fs.exists(instructionsFile)
+          ? await this.fs.readFile(instructionsFile)
+          : undefined;
+        const generated = adapter.generateInstructionsContent(specs);
+        let instructionsContent: string;
+        try {
+          instructionsContent = mergeManagedRegion(existing, generated);
+        } catch (err) {
+          throw new Error(`${adapter.instructionsFile}: ${err instanceof Error ? err.message : String(err)}`);
+        }
         await this.fs.writeFile(instructionsFile, instructionsContent);
+        if (hasStaleInstructions(existing, generated)) {
+          warnings.push(`${adapter.instructionsFile} holds stale generated instructions outside the sdd markers; remove them, the current ones are in the sdd region`);
+        }
+      }
+
+      let hooksFiles: string[] | undefined;
+      if (options.hooks) {
+        const hooks = platformRegistry.get(platform)?.hooks ?? [];
+        if (hooks.length === 0) {
+          warnings.push(`${platform} has no agent hooks; --hooks was ignored`);
+        }
+        hooksFiles = [];
+        for (const hook of hooks) {
+          const hookFile = await this.writeHookFile(workspaceRoot, platform, hook, warnings);
+          if (hookFile) {
+            hooksFiles.push(hookFile);
+          }
+        }
       }
 
       return successResult(this.commandName, {
@@ -118,7 +230,8 @@ export class WorkspaceInitCommand {
         specsDir,
         instructionsFile,
         specsFound: specs.length,
-      });
+        ...(hooksFiles ? { hooksFiles } : {}),
+      }, warnings);
     } catch (err) {
       return errorResult(
         this.commandName,
@@ -129,6 +242,48 @@ export class WorkspaceInitCommand {
     }
   }
 
+  /**
+   * Merge a hook file into the workspace, leaving files that are not JSON objects alone.
+   * @returns The file's path, or undefined if it was skipped with a warning
+   */
+  private async writeHookFile(
+    workspaceRoot: string,
+    platform: PlatformId,
+    hook: HookFileDefinition,
+    warnings: string[]
+  ): Promise<string | undefined> {
+    if (path.isAbsolute(hook.path) || !Validator.isPathSafe(hook.path, workspaceRoot)) {
+      warnings.push(`Hook file ${hook.path} is outside the workspace and was skipped`);
+      return undefined;
+    }
+    const hookFile = path.join(workspaceRoot, hook.path);
+    const generated = renderHookContent(hook.content, platform);
+
+    let existing: unknown = {};
+    if (await this.fs.exists(hookFile)) {
+      try {
+        existing = JSON.parse(await this.fs.readFile(hookFile));
+      } catch {
+        existing = undefined;
+      }
+      if (!isJsonObject(existing)) {
+        warnings.push(`${hook.path} is not a JSON object; add the sdd hooks to it by hand`);
+        return undefined;
+      }
+    }
+
+    const merged = mergeSettings(existing, generated);
+    if (JSON.stringify(merged) === JSON.stringify(existing)) {
+      return hookFile;
+    }
+    const hookDir = path.dirname(hookFile);
+    if (!await this.fs.exists(hookDir)) {
+      await this.fs.mkdir(hookDir, { recursive: true });
+    }
+    await this.fs.writeFile(hookFile, `${JSON.stringify(merged, null, 2)}\n`);
+    return hookFile;
+  }
+
   /**
    * Find all specs in the specs directory
    * @param specsDir - Path to the specs directory
@@ -0,0 +1,201 @@
+/**
+ * DesignDocument - Typed model of design.md
+ *
+ * Parses the heading tree, fenced code blocks (including Mermaid diagrams)
+ * and the "Correctness Properties" section:
+ *
+ *   ## Correctness Properties
+ *   ### Property 1: Round trip
+ *   *For any* ... **Validates: Requirements 1.2**
+ *
+ * Each section is classified as filled, empty or still template text so
+ * SpecVerifier can report designs that were scaffolded but never written.
+ */
+
+import { TasksMarkdown } from '../tasks/tasks-markdown.js';
+
+/** Sections the refine-spec skill scaffolds for design.md */
+export const DESIGN_SECTIONS = ['Overview', 'Architecture', 'Components and Interfaces'] as const;
+
+/** Whether a section has real content */
+export type DesignSectionState = 'filled' | 'empty' | 'placeholder';
+
+/** A heading and everything under it */
+export interface DesignSection {
+  title: string;
+  level: number;
+  /** 1-based line number of the heading */
+  line: number;
+  /** Text between this heading and the next one, trimmed */
+  body: string;
+  children: DesignSection[];
+  /** Combined state of the body and all subsections */
+  state: DesignSectionState;
+}
+
+/** A fenced code block */
+export interface DesignCodeBlock {
+  /** Info string after the opening fence, or null */
+  language: string | null;
+  content: string;
+  /** 1-based line number of the opening fence */
+  line: number;
+}
+
+/** A numbered correctness property */
+export interface DesignProperty {
+  id: string;
+  title: string;
+  /** Requirement IDs from `Validates: Requirements ...` */
+  validates: string[];
+  line: number;
+}
+
+/** Parsed design.md */
+export interface DesignDocument {
+  /** Text of the first `#` heading */
+  title: string | null;
+  /** Top-level sections (the title heading itself is not a section) */
+  sections: DesignSection[];
+  codeBlocks: DesignCodeBlock[];
+  /** Code blocks with the `mermaid` info string */
+  diagrams: DesignCodeBlock[];
+  properties: DesignProperty[];
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)\s*([^\s`]*)/;
+const CORRECTNESS_RE = /^Correctness Properties$/i;
+const PROPERTY_RE = /^(?:#{2,6}\s+|\s*[-*]?\s*\**)Property\s+(\d+)\s*[:.-]?\s*(.*?)\**\s*$/i;
+const VALIDATES_RE = /Validates:?\**\s*Requirements?\s+([\d.,\s]+)/i;
+const TASK_PROPERTY_RE = /\bProperty\s+(\d+)\b/gi;
+
+/** Lines that only hold scaffold text: `{title}`, `[Describe ...]`, TODO, TBD, ... */
+const PLACEHOLDER_LINE_RE = /^\s*(?:[-*]\s*)?(?:\{[^}]*\}|\[[^\]]*\]|TODO\b.*|TBD\b.*|\.\.\.|…)\s*$/i;
+
+/**
+ * Classify a section body on its own.
+ */
+function bodyState(body: string): DesignSectionState {
+  const lines = body.replace(/<!--[\s\S]*?-->/g, '').split('\n').filter(l => l.trim());
+  if (lines.length === 0) return 'empty';
+  return lines.every(l => PLACEHOLDER_LINE_RE.test(l)) ? 'placeholder' : 'filled';
+}
+
+/**
+ * Combine a section's own state with its subsections'.
+ */
+function resolveState(section: DesignSection): DesignSectionState {
+  const states = [bodyState(section.body), ...section.children.map(resolveState)];
+  section.state = states.includes('filled') ? 'filled' : states.includes('placeholder') ? 'placeholder' : 'empty';
+  return section.state;
+}
+
+/**
+ * Parse design.md content. Never throws.
+ */
+export function parseDesignDocument(content: string): DesignDocument {
+  const document: DesignDocument = { title: null, sections: [], codeBlocks: [], diagrams: [], properties: [] };
+  const stack: DesignSection[] = [];
+  const bodies = new Map<DesignSection, string[]>();
+  let fence: { marker: string; block: DesignCodeBlock; lines: string[] } | undefined;
+  let correctnessLevel: number | undefined;
+  let property: DesignProperty | undefined;
+
+  const appendBody = (line: string) => {
+    const current = stack[stack.length - 1];
+    if (current) bodies.get(current)!.push(line);
+  };
+
+  content.split('\n').forEach((line, i) => {
+    if (fence) {
+      appendBody(line);
+      if (line.trim().startsWith(fence.marker)) {
+        fence.block.content = fence.lines.join('\n');
+        fence = undefined;
+      } else {
+        fence.lines.push(line);
+      }
+      return;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1].length;
+      const title = heading[2];
+
+      if (level === 1 && document.title === null && document.sections.length === 0) {
+        document.title = title;
+        return;
+      }
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      const section: DesignSection = { title, level, line: i + 1, body: '', children: [], state: 'empty' };
+      bodies.set(section, []);
+      (stack.length > 0 ? stack[stack.length - 1].children : document.sections).push(section);
+      stack.push(section);
+
+      if (correctnessLevel !== undefined && level <= correctnessLevel) correctnessLevel = undefined;
+      if (CORRECTNESS_RE.test(title)) correctnessLevel = level;
+    } else {
+      appendBody(line);
+
+      const opening = line.match(FENCE_RE);
+      if (opening) {
+        const block: DesignCodeBlock = { language: opening[2] || null, content: '', line: i + 1 };
+        document.codeBlocks.push(block);
+        if (block.language?.toLowerCase() === 'mermaid') document.diagrams.push(block);
+        fence = { marker: opening[1], block, lines: [] };
+        return;
+      }
+    }
+
+    if (correctnessLevel === undefined) return;
+
+    const match = line.match(PROPERTY_RE);
+    if (match) {
+      property = { id: match[1], title: match[2].replace(/\*+$/, '').trim(), validates: [], line: i + 1 };
+      document.properties.push(property);
+    }
+    const validates = line.match(VALIDATES_RE);
+    if (validates && property) {
+      property.validates.push(...validates[1].split(',').map(s => s.trim().replace(/\.$/, '')).filter(Boolean));
+    }
+  });
+
+  // An unterminated fence runs to the end of the document
+  if (fence) fence.block.content = fence.lines.join('\n');
+
+  for (const [section, lines] of bodies) section.body = lines.join('\n').trim();
+  document.sections.forEach(resolveState);
+  return document;
+}
+
+/**
+ * All sections in document order, depth first.
+ */
+export function flattenDesignSections(sections: DesignSection[]): DesignSection[] {
+  return sections.flatMap(s => [s, ...flattenDesignSections(s.children)]);
+}
+
+/**
+ * DESIGN_SECTIONS headings the document does not have, matched case-insensitively.
+ */
+export function missingDesignSections(document: DesignDocument): string[] {
+  const titles = new Set(flattenDesignSections(document.sections).map(s => s.title.toLowerCase()));
+  return DESIGN_SECTIONS.filter(title => !titles.has(title.toLowerCase()));
+}
+
+/**
+ * Property IDs mentioned as `Property N` in task titles or task detail lines.
+ */
+export function findTaskPropertyReferences(tasksContent: string): Set<string> {
+  const document = TasksMarkdown.parse(tasksContent);
+  const ids = new Set<string>();
+  for (const task of document.tasks()) {
+    for (const text of [task.text, ...document.detailsOf(task).map(d => d.raw)]) {
+      for (const match of text.matchAll(TASK_PROPERTY_RE)) ids.add(match[1]);
+    }
+  }
+  return ids;
+}
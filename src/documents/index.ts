@@ -5,3 +5,38 @@
  */
 
 export { TasksGenerator, TaskInput, TasksGeneratorOptions } from './tasks-generator.js';
+export { buildTraceabilityMatrix } from './traceability.js';
+export type {
+  TraceabilityMatrix,
+  RequirementTrace,
+  RequirementCoverage,
+  TraceDesignSection,
+  TraceTask
+} from './traceability.js';
+export {
+  parseRequirementsDocument,
+  classifyEarsCriterion,
+  hasRequirementId,
+  validateRequirementsDocument
+} from './requirements-document.js';
+export type {
+  RequirementsDocument,
+  Requirement,
+  AcceptanceCriterion,
+  EarsPattern,
+  RequirementsIssue
+} from './requirements-document.js';
+export {
+  DESIGN_SECTIONS,
+  parseDesignDocument,
+  flattenDesignSections,
+  missingDesignSections,
+  findTaskPropertyReferences
+} from './design-document.js';
+export type {
+  DesignDocument,
+  DesignSection,
+  DesignSectionState,
+  DesignCodeBlock,
+  DesignProperty
+} from './design-document.js';
@@ -0,0 +1,223 @@
+/**
+ * RequirementsDocument - Typed model of requirements.md
+ *
+ * Parses the structure scaffolded by the create-spec and refine-spec skills:
+ *
+ *   ### Requirement 1: Title
+ *   **User Story:** As a ..., I want ..., so that ...
+ *   #### Acceptance Criteria
+ *   1. WHEN ... THE system SHALL ...
+ *
+ * Acceptance criteria get IDs `<requirement>.<n>` and are classified by
+ * EARS pattern; criteria that fit none are reported as malformed.
+ */
+
+/** EARS (Easy Approach to Requirements Syntax) patterns */
+export type EarsPattern =
+  | 'ubiquitous'        // THE <system> SHALL ...
+  | 'event-driven'      // WHEN <trigger> ... SHALL ...
+  | 'state-driven'      // WHILE <state> ... SHALL ...
+  | 'unwanted-behavior' // IF <condition> THEN ... SHALL ...
+  | 'optional-feature'  // WHERE <feature> ... SHALL ...
+  | 'complex';          // more than one of WHEN/WHILE/IF/WHERE
+
+/** A numbered acceptance criterion */
+export interface AcceptanceCriterion {
+  /** `<requirement id>.<number>`, e.g. "2.3" */
+  id: string;
+  number: number;
+  text: string;
+  /** null when the text follows no EARS pattern */
+  pattern: EarsPattern | null;
+  /** 1-based line number */
+  line: number;
+}
+
+/** A `### Requirement N: Title` section */
+export interface Requirement {
+  id: string;
+  title: string;
+  userStory: string | null;
+  criteria: AcceptanceCriterion[];
+  /** 1-based line number of the heading */
+  line: number;
+}
+
+/** Parsed requirements.md */
+export interface RequirementsDocument {
+  /** Text of the first `#` heading */
+  title: string | null;
+  /** Body of the `## Introduction` section */
+  introduction: string | null;
+  requirements: Requirement[];
+}
+
+/** A structural problem found by validateRequirementsDocument */
+export interface RequirementsIssue {
+  kind: 'malformed-criterion' | 'duplicate-id' | 'numbering-gap';
+  id: string;
+  line: number;
+  message: string;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const REQUIREMENT_HEADING_RE = /^Requirement\s+(\d+(?:\.\d+)*)\b\s*:?\s*(.*)$/i;
+const SUBSECTION_RE = /^(Acceptance Criteria|User Story)\b/i;
+const USER_STORY_RE = /^\s*\**User Story:?\**:?\s*(.*)$/i;
+const CRITERION_RE = /^\s*(\d+)\.\s+(.*\S)\s*$/;
+const EARS_KEYWORDS: ReadonlyArray<[string, EarsPattern]> = [
+  ['WHEN', 'event-driven'],
+  ['WHILE', 'state-driven'],
+  ['IF', 'unwanted-behavior'],
+  ['WHERE', 'optional-feature'],
+];
+
+/**
+ * Classify an acceptance criterion by EARS pattern.
+ * Keywords are upper-case; the response must use SHALL.
+ * @returns The pattern, or null if the text is malformed
+ */
+export function classifyEarsCriterion(text: string): EarsPattern | null {
+  const plain = text.replace(/\*\*/g, '').trim();
+  const shall = plain.search(/\bSHALL\b/);
+  if (shall === -1) return null;
+
+  const precondition = plain.slice(0, shall);
+  const found = EARS_KEYWORDS.filter(([keyword]) => new RegExp(`\\b${keyword}\\b`).test(precondition));
+
+  if (found.length === 0) {
+    return /^THE\b/i.test(precondition) ? 'ubiquitous' : null;
+  }
+  if (!EARS_KEYWORDS.some(([keyword]) => precondition.startsWith(`${keyword} `))) {
+    return null;
+  }
+  return found.length === 1 ? found[0][1] : 'complex';
+}
+
+/**
+ * Parse requirements.md content. Never throws; unrecognised text is ignored.
+ */
+export function parseRequirementsDocument(content: string): RequirementsDocument {
+  const document: RequirementsDocument = { title: null, introduction: null, requirements: [] };
+  let current: { requirement: Requirement; level: number } | undefined;
+  let introduction: string[] | undefined;
+
+  content.split('\n').forEach((line, i) => {
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2];
+      introduction = undefined;
+
+      const requirement = text.match(REQUIREMENT_HEADING_RE);
+      if (requirement) {
+        current = {
+          requirement: { id: requirement[1], title: requirement[2].trim(), userStory: null, criteria: [], line: i + 1 },
+          level,
+        };
+        document.requirements.push(current.requirement);
+        return;
+      }
+      if (current && (level > current.level || SUBSECTION_RE.test(text))) return;
+      current = undefined;
+
+      if (level === 1 && document.title === null) {
+        document.title = text;
+      } else if (/^Introduction$/i.test(text)) {
+        introduction = [];
+      }
+      return;
+    }
+
+    if (introduction) {
+      introduction.push(line);
+      document.introduction = introduction.join('\n').trim();
+      return;
+    }
+    if (!current) return;
+
+    const { requirement } = current;
+    const story = line.match(USER_STORY_RE);
+    if (story && requirement.userStory === null) {
+      requirement.userStory = story[1].trim();
+      return;
+    }
+
+    const criterion = line.match(CRITERION_RE);
+    if (criterion) {
+      const number = parseInt(criterion[1], 10);
+      requirement.criteria.push({
+        id: `${requirement.id}.${number}`,
+        number,
+        text: criterion[2],
+        pattern: classifyEarsCriterion(criterion[2]),
+        line: i + 1,
+      });
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Whether an ID names a requirement or one of its acceptance criteria.
+ */
+export function hasRequirementId(document: RequirementsDocument, id: string): boolean {
+  return document.requirements.some(r => r.id === id || r.criteria.some(c => c.id === id));
+}
+
+/**
+ * Report malformed criteria, duplicate IDs and gaps in numbering.
+ * Sibling requirements and the criteria of each requirement are expected
+ * to be numbered 1, 2, 3, ... in document order.
+ */
+export function validateRequirementsDocument(document: RequirementsDocument): RequirementsIssue[] {
+  const issues: RequirementsIssue[] = [];
+
+  const checkSequence = (items: Array<{ id: string; line: number; number: number }>, label: string) => {
+    const seen = new Set<number>();
+    let expected = 1;
+    for (const item of items) {
+      if (seen.has(item.number)) {
+        issues.push({ kind: 'duplicate-id', id: item.id, line: item.line, message: `Duplicate ${label} ${item.id}` });
+        continue;
+      }
+      seen.add(item.number);
+      if (item.number !== expected) {
+        issues.push({
+          kind: 'numbering-gap',
+          id: item.id,
+          line: item.line,
+          message: `Expected ${label} ${item.id.replace(/\d+$/, String(expected))}, found ${item.id}`,
+        });
+      }
+      expected = item.number + 1;
+    }
+  };
+
+  // Requirements are numbered per parent: "1", "2" at the top; "2.1", "2.2" under 2
+  const siblings = new Map<string, Array<{ id: string; line: number; number: number }>>();
+  for (const r of document.requirements) {
+    const parent = r.id.split('.').slice(0, -1).join('.');
+    const list = siblings.get(parent) ?? [];
+    list.push({ id: r.id, line: r.line, number: parseInt(r.id.split('.').pop()!, 10) });
+    siblings.set(parent, list);
+  }
+  for (const list of siblings.values()) checkSequence(list, 'Requirement');
+
+  for (const r of document.requirements) {
+    checkSequence(r.criteria, 'criterion');
+    for (const c of r.criteria) {
+      if (c.pattern === null) {
+        issues.push({
+          kind: 'malformed-criterion',
+          id: c.id,
+          line: c.line,
+          message: `Criterion ${c.id} follows no EARS pattern (WHEN/IF/WHILE/WHERE ... SHALL, or THE ... SHALL)`,
+        });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
@@ -2,10 +2,11 @@
  * Tasks Document Generator
  * 
  * Generates tasks.md files with valid checkbox syntax for task tracking.
- * Supports all task statuses: not_started, in_progress, completed, failed.
+ * Supports all task statuses: not_started, queued, in_progress, completed, failed.
  */
 
 import { Task, TaskStatus } from '../types.js';
+import { STATUS_MARKERS, formatTaskLine } from '../tasks/tasks-markdown.js';
 
 /**
  * Options for generating a tasks document
@@ -38,13 +39,7 @@ export class TasksGenerator {
    * @returns The checkbox character
    */
   statusToCheckboxChar(status: TaskStatus): string {
-    switch (status) {
-      case 'completed': return 'x';
-      case 'in_progress': return '-';
-      case 'failed': return '!';
-      case 'not_started':
-      default: return ' ';
-    }
+    return STATUS_MARKERS[status] ?? ' ';
   }
 
   /**
@@ -54,10 +49,7 @@ export class TasksGenerator {
    * @returns The formatted task line
    */
   generateTaskLine(task: TaskInput, indent: number = 0): string {
-    const status = task.status ?? 'not_started';
-    const checkbox = this.statusToCheckboxChar(status);
-    const indentation = '  '.repeat(indent);
-    return `${indentation}- [${checkbox}] ${task.id} ${task.text}`;
+    return formatTaskLine({ ...task, indent: '  '.repeat(indent) });
   }
 
   /**
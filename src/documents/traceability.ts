@@ -0,0 +1,155 @@
+/**
+ * Traceability - Requirements → design → tasks matrix
+ *
+ * Links each requirement in requirements.md to the design.md sections
+ * that mention it and the tasks.md work items that cite it through
+ * `_Requirements: ..._` detail lines, with those tasks' statuses.
+ */
+
+import type { TaskStatus } from '../types.js';
+import { TaskGroupResolver, type ParsedTask } from '../tasks/task-group-resolver.js';
+import { parseRequirementsDocument, type Requirement } from './requirements-document.js';
+
+/** Coverage of a requirement by tasks */
+export type RequirementCoverage = 'uncovered' | 'pending' | 'complete';
+
+/** A design.md section that mentions a requirement */
+export interface TraceDesignSection {
+  heading: string;
+  /** 1-based line number of the heading */
+  line: number;
+}
+
+/** A task that implements a requirement */
+export interface TraceTask {
+  id: string;
+  text: string;
+  status: TaskStatus;
+  /** The IDs the task cites for this requirement ("1" or "1.2") */
+  references: string[];
+}
+
+/** One row of the matrix */
+export interface RequirementTrace {
+  id: string;
+  title: string;
+  /** Acceptance criterion IDs ("1.1", "1.2", ...) */
+  criteria: string[];
+  designSections: TraceDesignSection[];
+  tasks: TraceTask[];
+  coverage: RequirementCoverage;
+}
+
+/** Full traceability matrix for a spec */
+export interface TraceabilityMatrix {
+  requirements: RequirementTrace[];
+  /** Requirements with no implementing task */
+  uncoveredRequirements: string[];
+  /** Requirements whose tasks have all completed */
+  completedRequirements: string[];
+  /** Work items that cite no requirement, directly or through a parent */
+  untracedTasks: Array<{ id: string; text: string }>;
+  /** Cited IDs that match no requirement or acceptance criterion */
+  unknownReferences: Array<{ taskId: string; requirementIds: string[] }>;
+}
+
+/** Any markdown heading */
+const HEADING_RE = /^(#{1,6})\s+(.*)$/;
+
+/** Requirement IDs on a line that mentions requirements */
+const REQUIREMENT_MENTION_RE = /requirements?/i;
+const ID_RE = /\b\d+(?:\.\d+)*\b/g;
+
+/**
+ * Collect the requirement IDs mentioned under each design.md heading.
+ */
+function parseDesignMentions(content: string): Array<TraceDesignSection & { ids: Set<string> }> {
+  const sections: Array<TraceDesignSection & { ids: Set<string> }> = [];
+  let current: (TraceDesignSection & { ids: Set<string> }) | undefined;
+
+  content.split('\n').forEach((line, i) => {
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      current = { heading: heading[2].trim(), line: i + 1, ids: new Set() };
+      sections.push(current);
+    }
+    if (current && REQUIREMENT_MENTION_RE.test(line)) {
+      for (const id of line.match(ID_RE) ?? []) current.ids.add(id);
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Whether a cited ID refers to the requirement or one of its criteria.
+ */
+function refersTo(reference: string, requirement: Requirement): boolean {
+  return reference === requirement.id || reference.startsWith(`${requirement.id}.`);
+}
+
+/**
+ * Build the traceability matrix for a spec from its three documents.
+ * Tasks inherit the requirements cited on their group and subgroup.
+ */
+export function buildTraceabilityMatrix(
+  requirementsContent: string,
+  designContent: string,
+  tasksContent: string
+): TraceabilityMatrix {
+  const { requirements } = parseRequirementsDocument(requirementsContent);
+  const designSections = parseDesignMentions(designContent);
+  const allTasks = new TaskGroupResolver().parseGroups(tasksContent).flatMap(g => g.tasks);
+
+  // Work items are tasks without subtasks
+  const isAncestor = (ancestor: ParsedTask, task: ParsedTask) => task.id.startsWith(`${ancestor.id}.`);
+  const workItems = allTasks.filter(task => !allTasks.some(other => isAncestor(task, other)));
+  const citedBy = new Map(workItems.map(task => [
+    task.id,
+    [...new Set([...allTasks.filter(a => isAncestor(a, task)).flatMap(a => a.requirements), ...task.requirements])],
+  ]));
+
+  const rows: RequirementTrace[] = requirements.map(requirement => {
+    const tasks: TraceTask[] = [];
+    for (const task of workItems) {
+      const references = citedBy.get(task.id)!.filter(ref => refersTo(ref, requirement));
+      if (references.length > 0) {
+        tasks.push({ id: task.id, text: task.text, status: task.status, references });
+      }
+    }
+
+    const coverage: RequirementCoverage = tasks.length === 0
+      ? 'uncovered'
+      : tasks.every(t => t.status === 'completed') ? 'complete' : 'pending';
+
+    return {
+      id: requirement.id,
+      title: requirement.title,
+      criteria: requirement.criteria.map(c => c.id),
+      designSections: designSections
+        .filter(section => [...section.ids].some(id => refersTo(id, requirement)))
+        .map(({ heading, line }) => ({ heading, line })),
+      tasks,
+      coverage,
+    };
+  });
+
+  const knownIds = new Set(requirements.flatMap(r => [r.id, ...r.criteria.map(c => c.id)]));
+  const unknownReferences: TraceabilityMatrix['unknownReferences'] = [];
+  for (const task of allTasks) {
+    const unknown = task.requirements.filter(ref => !knownIds.has(ref));
+    if (unknown.length > 0) {
+      unknownReferences.push({ taskId: task.id, requirementIds: unknown });
+    }
+  }
+
+  return {
+    requirements: rows,
+    uncoveredRequirements: rows.filter(r => r.coverage === 'uncovered').map(r => r.id),
+    completedRequirements: rows.filter(r => r.coverage === 'complete').map(r => r.id),
+    untracedTasks: workItems
+      .filter(task => citedBy.get(task.id)!.length === 0)
+      .map(task => ({ id: task.id, text: task.text })),
+    unknownReferences,
+  };
+}
@@ -11,12 +11,15 @@
 // Core types
 export type {
   PlatformId,
+  BuiltinPlatformId,
   TaskStatus,
   SkillParameter,
   SkillMetadata,
   CanonicalSkill,
   SingleFileSkill,
+  SkillFileFormat,
   DirectorySkill,
+  SkillCompanionFile,
   PlatformSkill,
   SpecConfig,
   SpecDocument,
@@ -43,29 +46,138 @@ export {
   ClaudeCodeAdapter,
   CodexAdapter,
   AntigravityAdapter,
-  AmazonQAdapter
+  AmazonQAdapter,
+  CursorAdapter,
+  CopilotAdapter,
+  COPILOT_SKILL_APPLY_TO,
+  GeminiCliAdapter,
+  DeclarativeAdapter,
+  validatePlatformDefinition,
+  BUILTIN_PLATFORMS,
+  getBuiltinPlatform,
+  formatToml,
+  formatTomlString,
+  parseToml
+} from './adapters/index.js';
+export type {
+  PlatformDefinition,
+  PlatformExtension,
+  SkillLayoutDefinition,
+  CommandsDefinition,
+  HookFileDefinition,
+  InstructionsDefinition,
+  WorkspaceCheckDefinition
 } from './adapters/index.js';
 
 // Skill Registry
 export { SkillRegistry } from './registry/index.js';
 export type { FileSystem } from './registry/index.js';
+export { PlatformRegistry, platformRegistry, loadPlatformDefinitions, PLATFORM_DEFINITIONS_DIR } from './registry/index.js';
+export type { PlatformFileSystem, PlatformLoadResult } from './registry/index.js';
+export { parseSkillFile, loadSkillFiles, SKILL_FILES_DIR, PACKAGE_SKILLS_DIR } from './registry/index.js';
+export type { SkillFileSystem, SkillLoadResult } from './registry/index.js';
+export {
+  SKILL_LOCK_FILE,
+  SKILL_LOCK_VERSION,
+  SKILL_BASE_DIR,
+  baseCopyPath,
+  hashContent,
+  skillFiles,
+  emptySkillLock,
+  parseSkillLock,
+  serializeSkillLock,
+  updateSkillLock
+} from './registry/index.js';
+export type { SkillLock, SkillLockEntry, SkillFile } from './registry/index.js';
+
+// Plugins
+export { PluginLoader, registerPlugins, collectPluginVerifiers, SDD_CONFIG_FILE } from './plugins/index.js';
+export type {
+  PluginManifest,
+  SddConfig,
+  SddPlugin,
+  LoadedPlugin,
+  PluginLoadResult,
+  PluginFileSystem,
+  ModuleImporter,
+  PluginTargets,
+  PluginVerifier,
+  PluginVerifyContext
+} from './plugins/index.js';
 
 // Skill Transformer
-export { SkillTransformer } from './transformer/index.js';
+export { SkillTransformer, resolvePartials } from './transformer/index.js';
 export type { CreateSpecResult, FileSystemOperations } from './transformer/index.js';
 
 // Workspace Adapter
 export { WorkspaceAdapter, validateSpecConfig, validateSpecFolder, validateAllSpecs } from './workspace/index.js';
+export { mergeManagedRegion, removeManagedRegion, hasStaleInstructions, MANAGED_REGION_BEGIN, MANAGED_REGION_END } from './workspace/index.js';
 export type { WorkspaceFileSystem, SpecConfigSchema, SpecFolderSchema, ValidationFileSystem } from './workspace/index.js';
+export { mergeThreeWay } from './workspace/index.js';
+export type { MergeLabels, MergeResult } from './workspace/index.js';
+export { detectPlatforms, detectRunningPlatform, SDD_PLATFORM_ENV } from './workspace/index.js';
+export type {
+  DetectionFileSystem,
+  Environment,
+  DetectionConfidence,
+  PlatformEvidence,
+  DetectedPlatform,
+  RunningPlatform,
+  DetectionOptions
+} from './workspace/index.js';
 
 // Task Tracker
 export { TaskTracker } from './tasks/index.js';
+export type { TaskTrackerOptions } from './tasks/index.js';
 export { TaskGroupResolver } from './tasks/index.js';
-export type { TaskGroup, TaskSubgroup, ParsedTask, TaskGroupStatus, RequirementsValidation } from './tasks/index.js';
+export { TasksMarkdown, STATUS_MARKERS, markerToStatus, formatTaskLine } from './tasks/index.js';
+export type { TasksLine, TaskLine, CheckboxLine, DetailLine, ProseLine } from './tasks/index.js';
+export { isBulkSelector, parseTaskSelector, expandTaskSelector } from './tasks/index.js';
+export type { TaskSelectorTerm, TaskSelection } from './tasks/index.js';
+export { DEFAULT_TASK_TRANSITIONS, resolveTransitionPolicy, isTransitionAllowed } from './tasks/index.js';
+export type { TransitionPolicy, TransitionViolation } from './tasks/index.js';
+export { TASK_HISTORY_FILE, getTaskHistoryPath, parseTaskHistory, filterTaskHistory } from './tasks/index.js';
+export type { TaskHistoryEntry, TaskHistorySource } from './tasks/index.js';
+export type { TaskGroup, TaskSubgroup, ParsedTask, TaskGroupStatus, RequirementsValidation, DependencyValidation } from './tasks/index.js';
 
 // Document Generators
 export { TasksGenerator } from './documents/index.js';
 export type { TaskInput, TasksGeneratorOptions } from './documents/index.js';
+export { buildTraceabilityMatrix } from './documents/index.js';
+export type {
+  TraceabilityMatrix,
+  RequirementTrace,
+  RequirementCoverage,
+  TraceDesignSection,
+  TraceTask
+} from './documents/index.js';
+export {
+  parseRequirementsDocument,
+  classifyEarsCriterion,
+  hasRequirementId,
+  validateRequirementsDocument
+} from './documents/index.js';
+export type {
+  RequirementsDocument,
+  Requirement,
+  AcceptanceCriterion,
+  EarsPattern,
+  RequirementsIssue
+} from './documents/index.js';
+export {
+  DESIGN_SECTIONS,
+  parseDesignDocument,
+  flattenDesignSections,
+  missingDesignSections,
+  findTaskPropertyReferences
+} from './documents/index.js';
+export type {
+  DesignDocument,
+  DesignSection,
+  DesignSectionState,
+  DesignCodeBlock,
+  DesignProperty
+} from './documents/index.js';
 
 // Canonical Skills
 export {
@@ -76,7 +188,9 @@ export {
   refineSpecSkill,
   startTaskGroupSkill,
   allSkills,
-  getSkillByName
+  getSkillByName,
+  builtinPartials,
+  taskFormatPartial
 } from './skills/index.js';
 
 // Instruction Composer
@@ -95,3 +209,27 @@ export type { CreateSpecResult as CreateSpecCommandResult } from './commands/cre
 export { StartGroupCommand } from './commands/start-group-command.js';
 export type { StartGroupOptions, StartGroupResult } from './commands/start-group-command.js';
 
+
+export { StatusCommand, renderStatusDashboard } from './commands/status-command.js';
+export type {
+  StatusOptions,
+  StatusResult,
+  StatusFileSystem,
+  SpecStatus,
+  GroupProgress,
+  SubgroupProgress,
+  StatusTaskRef
+} from './commands/status-command.js';
+
+export { HistoryCommand, renderHistory } from './commands/history-command.js';
+export type { HistoryOptions, HistoryResult, HistoryFileSystem } from './commands/history-command.js';
+export { TraceCommand, renderTraceabilityMatrix } from './commands/trace-command.js';
+export type { TraceOptions, TraceResult, TraceFileSystem } from './commands/trace-command.js';
+export { ALL_PLATFORMS, isPlatformSelection, parsePlatformSelection, runForPlatforms } from './commands/multi-platform.js';
+export type { PlatformOutcome, MultiPlatformResult } from './commands/multi-platform.js';
+export { UninstallSkillsCommand } from './commands/uninstall-skills-command.js';
+export type { UninstallSkillsOptions, UninstallSkillsResult, UninstallSkillsFileSystem } from './commands/uninstall-skills-command.js';
+export { UpgradeCommand } from './commands/upgrade-command.js';
+export type { UpgradeOptions, UpgradeOutcome, SkillUpgrade, UpgradeResult, UpgradeFileSystem } from './commands/upgrade-command.js';
+export { DetectCommand, selectDefaultPlatform, renderDetection } from './commands/detect-command.js';
+export type { DetectOptions, DetectResult, DetectFileSystem } from './commands/detect-command.js';
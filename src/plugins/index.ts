@@ -0,0 +1,22 @@
+/**
+ * Plugins module exports
+ */
+
+export {
+  PluginLoader,
+  registerPlugins,
+  collectPluginVerifiers,
+  SDD_CONFIG_FILE
+} from './plugin-loader.js';
+export type {
+  PluginManifest,
+  SddConfig,
+  SddPlugin,
+  LoadedPlugin,
+  PluginLoadResult,
+  PluginFileSystem,
+  ModuleImporter,
+  PluginTargets,
+  PluginVerifier,
+  PluginVerifyContext
+} from './plugin-loader.js';
@@ -0,0 +1,300 @@
+/**
+ * Plugin Loader - Third-party platform adapters and skill packs
+ *
+ * A workspace lists plugins in `sdd.config.json`:
+ *
+ *   { "plugins": [{ "name": "my-pack", "module": "./sdd-plugins/my-pack.js" }] }
+ *
+ * Each module is a local ES module exporting an SddPlugin, either as its
+ * default export or as named exports (`adapters`, `platforms`, `skills`,
+ * `instructionTemplates`, `verifiers`). Loaded plugins are registered into
+ * the platform and skill registries before any command runs.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { CanonicalSkill, PlatformId, ValidationError } from '../types.js';
+import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import type { PlatformDefinition, PlatformExtension } from '../adapters/platform-definition.js';
+import type { InstructionTemplate } from '../instructions/instruction-composer.js';
+import { registerInstructionTemplate } from '../instructions/instruction-composer.js';
+import type { VerifyFileSystem } from '../verification/verify-file-system.js';
+import type { VerificationCheck } from '../verification/verification-data.js';
+import type { SkillRegistry } from '../registry/skill-registry.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
+import { Validator } from '../validation/validator.js';
+
+/**
+ * Workspace configuration file, relative to the workspace root.
+ */
+export const SDD_CONFIG_FILE = 'sdd.config.json';
+
+/**
+ * A plugin entry in `sdd.config.json`
+ */
+export interface PluginManifest {
+  /** Name used in error messages */
+  name: string;
+  /** Path of the plugin's ES module, relative to the workspace root */
+  module: string;
+}
+
+/**
+ * Shape of `sdd.config.json`
+ */
+export interface SddConfig {
+  plugins?: PluginManifest[];
+}
+
+/**
+ * What `sdd verify` passes to plugin verifiers
+ */
+export interface PluginVerifyContext {
+  fs: VerifyFileSystem;
+  workspaceRoot: string;
+  spec?: string;
+  platform?: PlatformId;
+  skills?: string[];
+}
+
+/**
+ * Extra checks run by `sdd verify` after the built-in verifiers.
+ */
+export interface PluginVerifier {
+  name: string;
+  verify(context: PluginVerifyContext): Promise<VerificationCheck[]>;
+}
+
+/**
+ * Everything a plugin module can contribute
+ */
+export interface SddPlugin {
+  /** Hand-written adapters, replacing the paths of any platform with the same id */
+  adapters?: PlatformAdapter[];
+  /** Declarative platforms, registered before the adapters */
+  platforms?: (PlatformDefinition | PlatformExtension)[];
+  skills?: CanonicalSkill[];
+  instructionTemplates?: InstructionTemplate[];
+  verifiers?: PluginVerifier[];
+}
+
+/**
+ * A plugin module that loaded and passed shape validation
+ */
+export interface LoadedPlugin {
+  manifest: PluginManifest;
+  plugin: SddPlugin;
+}
+
+/**
+ * Result of loading the plugins listed in `sdd.config.json`
+ */
+export interface PluginLoadResult {
+  plugins: LoadedPlugin[];
+  /** One error per plugin, or per config problem, that prevented loading */
+  errors: ValidationError[];
+}
+
+/**
+ * File system interface for reading `sdd.config.json`
+ */
+export interface PluginFileSystem {
+  exists(path: string): Promise<boolean>;
+  readFile(path: string): Promise<string>;
+}
+
+/**
+ * Imports a module by file URL; injectable so tests need no files on disk.
+ */
+export type ModuleImporter = (url: string) => Promise<Record<string, unknown>>;
+
+const PLUGIN_EXPORTS = ['adapters', 'platforms', 'skills', 'instructionTemplates', 'verifiers'] as const;
+
+const ADAPTER_METHODS = [
+  'getSkillsDirectory',
+  'getSpecsDirectory',
+  'getUserSkillsDirectory',
+  'formatSkill',
+  'parseSkill',
+  'generateInstructionsContent',
+  'validateWorkspace',
+] as const;
+
+function pluginError(message: string, path: string): ValidationError {
+  return { code: 'INVALID_PLUGIN', message, path };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Check that a module's exports form an SddPlugin.
+ * @returns The problems found, as messages
+ */
+function validatePluginExports(plugin: SddPlugin): string[] {
+  const problems: string[] = [];
+  const exported = PLUGIN_EXPORTS.filter(key => plugin[key] !== undefined);
+  if (exported.length === 0) {
+    return [`exports none of ${PLUGIN_EXPORTS.join(', ')}`];
+  }
+  for (const key of exported) {
+    if (!Array.isArray(plugin[key])) {
+      problems.push(`${key} must be an array`);
+    }
+  }
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  plugin.adapters?.forEach((adapter, i) => {
+    const candidate = adapter as unknown as Record<string, unknown>;
+    if (typeof candidate !== 'object' || candidate === null) {
+      problems.push(`adapters[${i}] must be an object`);
+      return;
+    }
+    if (typeof candidate.platformId !== 'string' || typeof candidate.skillsPath !== 'string' ||
+        typeof candidate.specsPath !== 'string' ||
+        (candidate.instructionsFile !== null && typeof candidate.instructionsFile !== 'string')) {
+      problems.push(`adapters[${i}] needs platformId, skillsPath, specsPath and instructionsFile`);
+    }
+    const missing = ADAPTER_METHODS.filter(method => typeof candidate[method] !== 'function');
+    if (missing.length > 0) {
+      problems.push(`adapters[${i}] is missing ${missing.join(', ')}`);
+    }
+  });
+  plugin.instructionTemplates?.forEach((template, i) => {
+    if (typeof template?.skillName !== 'string' || typeof template?.template !== 'string') {
+      problems.push(`instructionTemplates[${i}] needs skillName and template strings`);
+    }
+  });
+  plugin.verifiers?.forEach((verifier, i) => {
+    if (typeof verifier?.name !== 'string' || typeof verifier?.verify !== 'function') {
+      problems.push(`verifiers[${i}] needs a name and a verify function`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * PluginLoader reads `sdd.config.json` and imports the plugin modules it lists.
+ */
+export class PluginLoader {
+  constructor(
+    private fs: PluginFileSystem,
+    private importModule: ModuleImporter = url => import(url) as Promise<Record<string, unknown>>
+  ) {}
+
+  /**
+   * Load every plugin listed in the workspace's `sdd.config.json`.
+   * A workspace without the file has no plugins. Plugins that fail to load
+   * are reported and skipped; the rest still load.
+   */
+  async load(workspaceRoot: string): Promise<PluginLoadResult> {
+    const result: PluginLoadResult = { plugins: [], errors: [] };
+    const configPath = path.join(workspaceRoot, SDD_CONFIG_FILE);
+    if (!await this.fs.exists(configPath)) {
+      return result;
+    }
+
+    let config: SddConfig;
+    try {
+      config = JSON.parse(await this.fs.readFile(configPath)) as SddConfig;
+    } catch (err) {
+      result.errors.push(pluginError(`${SDD_CONFIG_FILE}: ${errorMessage(err)}`, SDD_CONFIG_FILE));
+      return result;
+    }
+    if (typeof config !== 'object' || config === null || config.plugins === undefined) {
+      return result;
+    }
+    if (!Array.isArray(config.plugins)) {
+      result.errors.push(pluginError(`${SDD_CONFIG_FILE}: plugins must be an array`, 'plugins'));
+      return result;
+    }
+
+    for (const [i, manifest] of config.plugins.entries()) {
+      const entryPath = `plugins[${i}]`;
+      if (typeof manifest?.name !== 'string' || typeof manifest?.module !== 'string') {
+        result.errors.push(pluginError(`${SDD_CONFIG_FILE}: ${entryPath} needs name and module strings`, entryPath));
+        continue;
+      }
+      // Plugins run with the CLI's permissions, so only workspace code is loaded
+      if (path.isAbsolute(manifest.module) || !Validator.isPathSafe(manifest.module, workspaceRoot)) {
+        result.errors.push(pluginError(
+          `Plugin ${manifest.name}: module ${manifest.module} must be a relative path inside the workspace`,
+          entryPath
+        ));
+        continue;
+      }
+
+      const modulePath = path.resolve(workspaceRoot, manifest.module);
+      let exports: Record<string, unknown>;
+      try {
+        exports = await this.importModule(pathToFileURL(modulePath).href);
+      } catch (err) {
+        result.errors.push(pluginError(`Plugin ${manifest.name}: failed to import: ${errorMessage(err)}`, entryPath));
+        continue;
+      }
+
+      const candidate = exports.default;
+      const plugin = (typeof candidate === 'object' && candidate !== null ? candidate : exports) as SddPlugin;
+      const problems = validatePluginExports(plugin);
+      if (problems.length > 0) {
+        result.errors.push(pluginError(`Plugin ${manifest.name}: ${problems.join('; ')}`, entryPath));
+        continue;
+      }
+      result.plugins.push({ manifest, plugin });
+    }
+    return result;
+  }
+}
+
+/**
+ * Registries that loaded plugins are registered into
+ */
+export interface PluginTargets {
+  skills: SkillRegistry;
+  platforms?: PlatformRegistry;
+}
+
+/**
+ * Register loaded plugins: platforms first, then adapters (which may replace
+ * them), skills and instruction templates. Contributions that are rejected
+ * are reported and skipped.
+ *
+ * @returns One error per rejected platform, adapter or skill
+ */
+export function registerPlugins(plugins: LoadedPlugin[], targets: PluginTargets): ValidationError[] {
+  const platforms = targets.platforms ?? platformRegistry;
+  const errors: ValidationError[] = [];
+  const attempt = (manifest: PluginManifest, label: string, register: () => void) => {
+    try {
+      register();
+    } catch (err) {
+      errors.push(pluginError(`Plugin ${manifest.name}: ${label}: ${errorMessage(err)}`, manifest.module));
+    }
+  };
+
+  for (const { manifest, plugin } of plugins) {
+    for (const definition of plugin.platforms ?? []) {
+      attempt(manifest, `platform ${definition?.id}`, () => platforms.register(definition));
+    }
+    for (const adapter of plugin.adapters ?? []) {
+      attempt(manifest, `adapter ${adapter.platformId}`, () => platforms.registerAdapter(adapter));
+    }
+    for (const skill of plugin.skills ?? []) {
+      attempt(manifest, `skill ${skill?.name}`, () => targets.skills.register(skill));
+    }
+    for (const template of plugin.instructionTemplates ?? []) {
+      registerInstructionTemplate(template);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Verifiers contributed by loaded plugins, in load order.
+ */
+export function collectPluginVerifiers(plugins: LoadedPlugin[]): PluginVerifier[] {
+  return plugins.flatMap(({ plugin }) => plugin.verifiers ?? []);
+}
@@ -4,3 +4,20 @@
 
 export { SkillRegistry } from './skill-registry.js';
 export type { FileSystem } from './skill-registry.js';
+export { PlatformRegistry, platformRegistry, loadPlatformDefinitions, PLATFORM_DEFINITIONS_DIR } from './platform-registry.js';
+export type { PlatformFileSystem, PlatformLoadResult } from './platform-registry.js';
+export { parseSkillFile, loadSkillFiles, SKILL_FILES_DIR, PACKAGE_SKILLS_DIR } from './skill-loader.js';
+export type { SkillFileSystem, SkillLoadResult } from './skill-loader.js';
+export {
+  SKILL_LOCK_FILE,
+  SKILL_LOCK_VERSION,
+  SKILL_BASE_DIR,
+  baseCopyPath,
+  hashContent,
+  skillFiles,
+  emptySkillLock,
+  parseSkillLock,
+  serializeSkillLock,
+  updateSkillLock,
+} from './skill-lock.js';
+export type { SkillLock, SkillLockEntry, SkillFile } from './skill-lock.js';
@@ -0,0 +1,235 @@
+/**
+ * Platform Registry - Catalog of platform definitions
+ *
+ * Holds the built-in platforms plus any registered at runtime, typically
+ * from `.sdd/platforms/*.json` in the workspace. Everything that needs to
+ * know about platforms (validation, detection, verification, adapters)
+ * reads from here instead of keeping its own list.
+ */
+
+import type { CanonicalSkill, PlatformId, ValidationError } from '../types.js';
+import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import type { PlatformDefinition, PlatformExtension } from '../adapters/platform-definition.js';
+import { validatePlatformDefinition } from '../adapters/platform-definition.js';
+import { DeclarativeAdapter } from '../adapters/declarative-adapter.js';
+import { BUILTIN_PLATFORMS } from '../adapters/builtin-platforms.js';
+
+/**
+ * Directory, relative to the workspace root, holding user platform definitions.
+ */
+export const PLATFORM_DEFINITIONS_DIR = '.sdd/platforms/';
+
+/**
+ * File system interface for loading platform definitions
+ */
+export interface PlatformFileSystem {
+  exists(path: string): Promise<boolean>;
+  readdir(path: string): Promise<string[]>;
+  readFile(path: string): Promise<string>;
+}
+
+/**
+ * Result of loading platform definition files
+ */
+export interface PlatformLoadResult {
+  /** Ids of the platforms registered, in load order */
+  loaded: PlatformId[];
+  /** One error per file that could not be read, parsed or registered */
+  errors: ValidationError[];
+}
+
+/**
+ * PlatformRegistry maps platform ids to their definitions, in detection order.
+ */
+export class PlatformRegistry {
+  /** Definitions with `extends` merged in; `extends` itself is kept for lineage */
+  private resolved: Map<PlatformId, PlatformDefinition> = new Map();
+  /** Hand-written adapters used instead of a DeclarativeAdapter */
+  private adapters: Map<PlatformId, PlatformAdapter> = new Map();
+
+  constructor(definitions: readonly PlatformDefinition[] = BUILTIN_PLATFORMS) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Register a platform, merging in the platform it `extends`.
+   * Re-registering an id replaces its definition but keeps its detection position;
+   * a definition may extend the one it replaces.
+   *
+   * @throws Error if the parent is unknown or the merged definition is invalid
+   */
+  register(definition: PlatformDefinition | PlatformExtension): void {
+    if (typeof definition !== 'object' || definition === null) {
+      throw new Error('Invalid platform definition: Platform definition must be an object');
+    }
+
+    let merged = definition as PlatformDefinition;
+    if (definition.extends !== undefined) {
+      const parent = this.resolved.get(definition.extends);
+      if (!parent) {
+        throw new Error(`Invalid platform definition: ${definition.id} extends unknown platform ${definition.extends}`);
+      }
+      merged = {
+        ...parent,
+        // Name and markers identify a platform, and commands live in its own
+        // directory, so they are never inherited
+        name: undefined,
+        detection: { markers: [] },
+        commands: undefined,
+        ...definition,
+        skill: { ...parent.skill, ...definition.skill },
+        instructions: definition.instructions
+          ? { ...parent.instructions, ...definition.instructions } as PlatformDefinition['instructions']
+          : parent.instructions,
+      } as PlatformDefinition;
+    }
+
+    const validation = validatePlatformDefinition(merged);
+    if (!validation.valid) {
+      const errorMessages = validation.errors.map(e => e.message).join(', ');
+      throw new Error(`Invalid platform definition: ${errorMessages}`);
+    }
+
+    this.resolved.set(definition.id, merged);
+  }
+
+  /**
+   * Register a hand-written adapter, e.g. one exported by a plugin.
+   * Its paths replace those of any definition registered under the same id;
+   * without one, the platform is a `.md` file layout with no detection markers.
+   *
+   * @throws Error if the adapter's paths do not make a valid definition
+   */
+  registerAdapter(adapter: PlatformAdapter): void {
+    const existing = this.resolved.get(adapter.platformId);
+    this.register({
+      ...(existing ?? { skill: { layout: 'file' }, detection: { markers: [] } }),
+      id: adapter.platformId,
+      skillsPath: adapter.skillsPath,
+      specsPath: adapter.specsPath,
+      instructionsFile: adapter.instructionsFile,
+    });
+    this.adapters.set(adapter.platformId, adapter);
+  }
+
+  /**
+   * Get a platform's definition with `extends` merged in.
+   */
+  get(id: PlatformId): PlatformDefinition | undefined {
+    return this.resolved.get(id);
+  }
+
+  has(id: string): id is PlatformId {
+    return this.resolved.has(id);
+  }
+
+  /**
+   * All platform ids, in detection order.
+   */
+  ids(): PlatformId[] {
+    return Array.from(this.resolved.keys());
+  }
+
+  /**
+   * All platform definitions, in detection order.
+   */
+  list(): PlatformDefinition[] {
+    return Array.from(this.resolved.values());
+  }
+
+  /**
+   * The platform followed by the platforms it extends, nearest first.
+   */
+  lineage(id: PlatformId): PlatformId[] {
+    const lineage: PlatformId[] = [];
+    let current: PlatformId | undefined = id;
+    while (current !== undefined && !lineage.includes(current) && this.resolved.has(current)) {
+      lineage.push(current);
+      current = this.resolved.get(current)!.extends;
+    }
+    return lineage;
+  }
+
+  /**
+   * Whether a skill can be installed on a platform: it lists the platform
+   * or one the platform extends.
+   */
+  supports(skill: Pick<CanonicalSkill, 'supportedPlatforms'>, id: PlatformId): boolean {
+    return skill.supportedPlatforms.includes(id) || this.lineage(id).some(p => skill.supportedPlatforms.includes(p));
+  }
+
+  /**
+   * Create an adapter for a registered platform, or return its hand-written one.
+   */
+  createAdapter(id: PlatformId): PlatformAdapter | undefined {
+    const adapter = this.adapters.get(id);
+    if (adapter) {
+      return adapter;
+    }
+    const definition = this.resolved.get(id);
+    return definition ? new DeclarativeAdapter(definition, this.lineage(id).slice(1)) : undefined;
+  }
+
+  /**
+   * Create adapters for every registered platform.
+   */
+  createAdapters(): Map<PlatformId, PlatformAdapter> {
+    return new Map(this.ids().map(id => [id, this.createAdapter(id)!]));
+  }
+
+  /**
+   * Detect the workspace's platform from detection markers alone.
+   * `detectPlatforms()` weighs all the evidence and reports every platform.
+   * @returns The first platform, in detection order, with a marker present
+   */
+  async detect(fs: { exists(path: string): Promise<boolean> }): Promise<PlatformId | null> {
+    for (const definition of this.resolved.values()) {
+      for (const marker of definition.detection.markers) {
+        if (await fs.exists(marker)) {
+          return definition.id;
+        }
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Registry shared by the CLI and the commands, verifiers and validators
+ * that are not given one explicitly.
+ */
+export const platformRegistry = new PlatformRegistry();
+
+/**
+ * Register every `*.json` definition in the workspace's `.sdd/platforms/`.
+ * Files load in name order, so a definition can extend one from an earlier file.
+ */
+export async function loadPlatformDefinitions(
+  fs: PlatformFileSystem,
+  workspaceRoot: string,
+  registry: PlatformRegistry = platformRegistry
+): Promise<PlatformLoadResult> {
+  const result: PlatformLoadResult = { loaded: [], errors: [] };
+  const dir = `${workspaceRoot}/${PLATFORM_DEFINITIONS_DIR}`;
+  if (!await fs.exists(dir)) {
+    return result;
+  }
+
+  const files = (await fs.readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  for (const file of files) {
+    try {
+      const definition = JSON.parse(await fs.readFile(`${dir}${file}`)) as PlatformDefinition | PlatformExtension;
+      registry.register(definition);
+      result.loaded.push(definition.id);
+    } catch (err) {
+      result.errors.push({
+        code: 'INVALID_PLATFORM_DEFINITION',
+        message: `${PLATFORM_DEFINITIONS_DIR}${file}: ${err instanceof Error ? err.message : String(err)}`,
+        path: `${PLATFORM_DEFINITIONS_DIR}${file}`,
+      });
+    }
+  }
+  return result;
+}
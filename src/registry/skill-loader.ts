@@ -0,0 +1,330 @@
+/**
+ * Skill Loader - Canonical skills authored as markdown files
+ *
+ * A skill file has a frontmatter block for its metadata and parameters, the
+ * instructions as its body, and optional per-platform override sections
+ * fenced as ```override <platform> [instructions|additionalContent|partial:<name>]:
+ *
+ * ```markdown
+ * ---
+ * name: review-spec
+ * title: Review Spec
+ * description: Review a spec for gaps
+ * version: 1.0.0
+ * supportedPlatforms: [kiro, claude-code]
+ * parameters:
+ *   - name: spec
+ *     type: string
+ *     required: true
+ *     description: Spec folder name
+ * ---
+ *
+ * Instructions...
+ * ```
+ *
+ * Files are read from `<dir>/<name>.md` or `<dir>/<name>/SKILL.md`, in the
+ * package's `skills/` (the built-in skills) and the workspace's `.sdd/skills/`;
+ * `<dir>/partials/<name>.md` files are partials skills include with `{{> name}}`.
+ */
+
+import { fileURLToPath } from 'url';
+import type { CanonicalSkill, PlatformId, SkillParameter, ValidationError } from '../types.js';
+import type { SkillRegistry } from './skill-registry.js';
+import { platformRegistry } from './platform-registry.js';
+
+/**
+ * Directory, relative to the workspace root, holding workspace skill files.
+ */
+export const SKILL_FILES_DIR = '.sdd/skills/';
+
+/**
+ * Directory of the skill files shipped with the package, next to package.json.
+ */
+export const PACKAGE_SKILLS_DIR = fileURLToPath(new URL('../../skills/', import.meta.url));
+
+/**
+ * File system interface for loading skill files
+ */
+export interface SkillFileSystem {
+  exists(path: string): Promise<boolean>;
+  readdir(path: string): Promise<string[]>;
+  readFile(path: string): Promise<string>;
+}
+
+/**
+ * Result of loading skill files
+ */
+export interface SkillLoadResult {
+  /** Names of the skills registered, in load order */
+  loaded: string[];
+  /** Names of the partials registered from `partials/` */
+  partials: string[];
+  /** One error per file that could not be read, parsed or registered */
+  errors: ValidationError[];
+}
+
+type OverrideField = 'instructions' | 'additionalContent';
+
+const METADATA_KEYS = ['name', 'title', 'description', 'version'] as const;
+const PARAMETER_TYPES: SkillParameter['type'][] = ['string', 'boolean', 'number'];
+const OVERRIDE_FENCE = /^(`{3,}|~{3,})\s*override\s+(\S+)(?:\s+(\S+))?\s*$/;
+
+/**
+ * Error at a line of the file being parsed
+ */
+function fail(line: number, message: string): never {
+  throw new Error(`line ${line}: ${message}`);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Parse a `[a, b]` flow list or a single value into strings.
+ */
+function parseList(value: string): string[] {
+  const match = value.match(/^\[(.*)\]$/);
+  const items = match ? match[1].split(',') : [value];
+  return items.map(unquote).filter(item => item !== '');
+}
+
+/**
+ * Parse one `- name: …` parameter block.
+ */
+function parseParameter(fields: Map<string, { value: string; line: number }>, line: number): SkillParameter {
+  for (const [key, field] of fields) {
+    if (!['name', 'type', 'required', 'description'].includes(key)) {
+      fail(field.line, `unknown parameter field "${key}"`);
+    }
+  }
+  const name = fields.get('name');
+  if (!name?.value) fail(line, 'parameter is missing "name"');
+  const type = fields.get('type') ?? { value: 'string', line };
+  if (!PARAMETER_TYPES.includes(type.value as SkillParameter['type'])) {
+    fail(type.line, `parameter type must be one of ${PARAMETER_TYPES.join(', ')}, got "${type.value}"`);
+  }
+  const required = fields.get('required') ?? { value: 'false', line };
+  if (required.value !== 'true' && required.value !== 'false') {
+    fail(required.line, `parameter "required" must be true or false, got "${required.value}"`);
+  }
+  return {
+    name: name.value,
+    type: type.value as SkillParameter['type'],
+    required: required.value === 'true',
+    description: fields.get('description')?.value ?? '',
+  };
+}
+
+/**
+ * Parse the frontmatter lines, numbered from `firstLine`.
+ */
+function parseSkillFrontmatter(lines: string[], firstLine: number): {
+  fields: Map<string, { value: string; line: number }>;
+  parameters: SkillParameter[];
+} {
+  const fields = new Map<string, { value: string; line: number }>();
+  const parameters: SkillParameter[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const lineNumber = firstLine + index;
+    const text = lines[index++];
+    if (text.trim() === '' || text.trim().startsWith('#')) continue;
+
+    const field = text.match(/^([\w-]+):\s*(.*?)\s*$/);
+    if (!field) fail(lineNumber, `expected "key: value", got "${text.trim()}"`);
+    const [, key, value] = field;
+    if (fields.has(key) || (key === 'parameters' && parameters.length > 0)) {
+      fail(lineNumber, `duplicate key "${key}"`);
+    }
+
+    if (key === 'parameters') {
+      if (value !== '' && value !== '[]') fail(lineNumber, 'parameters must be a list of "- name: …" entries');
+      // Indented "- key: value" items, each continued by deeper indented "key: value" lines
+      let current: { fields: Map<string, { value: string; line: number }>; line: number } | undefined;
+      while (index < lines.length && (lines[index].trim() === '' || /^\s/.test(lines[index]))) {
+        const itemLine = firstLine + index;
+        const itemText = lines[index++];
+        if (itemText.trim() === '') continue;
+        const item = itemText.match(/^\s+(-\s+)?([\w-]+):\s*(.*?)\s*$/);
+        if (!item) fail(itemLine, `expected "- key: value" in parameters, got "${itemText.trim()}"`);
+        if (item[1]) {
+          if (current) parameters.push(parseParameter(current.fields, current.line));
+          current = { fields: new Map(), line: itemLine };
+        } else if (!current) {
+          fail(itemLine, 'parameter fields must follow a "- name: …" line');
+        }
+        if (current.fields.has(item[2])) fail(itemLine, `duplicate parameter field "${item[2]}"`);
+        current.fields.set(item[2], { value: unquote(item[3]), line: itemLine });
+      }
+      if (current) parameters.push(parseParameter(current.fields, current.line));
+      continue;
+    }
+
+    if (![...METADATA_KEYS, 'supportedPlatforms'].includes(key)) {
+      fail(lineNumber, `unknown key "${key}"`);
+    }
+    fields.set(key, { value, line: lineNumber });
+  }
+  return { fields, parameters };
+}
+
+/**
+ * Split the body into the instructions and the fenced override sections.
+ */
+function parseSkillBody(lines: string[], firstLine: number): {
+  instructions: string;
+  overrides: NonNullable<CanonicalSkill['platformOverrides']>;
+} {
+  const instructions: string[] = [];
+  const overrides: NonNullable<CanonicalSkill['platformOverrides']> = {};
+  // One blank line separates the frontmatter from the body
+  let index = lines[0]?.trim() === '' ? 1 : 0;
+
+  // The instructions are every line before the first override, kept as written
+  while (index < lines.length && !OVERRIDE_FENCE.test(lines[index])) {
+    instructions.push(lines[index++]);
+  }
+
+  while (index < lines.length) {
+    const lineNumber = firstLine + index;
+    const text = lines[index++];
+    if (text.trim() === '') continue;
+    const fence = text.match(OVERRIDE_FENCE);
+    if (!fence) fail(lineNumber, 'instructions must come before the override sections');
+
+    const [, marker, platform, field = 'additionalContent'] = fence;
+    if (!platformRegistry.has(platform)) {
+      fail(lineNumber, `unknown platform "${platform}" in override (valid: ${platformRegistry.ids().join(', ')})`);
+    }
+    const partial = field.match(/^partial:([\w-]+)$/)?.[1];
+    if (field !== 'instructions' && field !== 'additionalContent' && !partial) {
+      fail(lineNumber, `override field must be instructions, additionalContent or partial:<name>, got "${field}"`);
+    }
+    const platformOverrides = overrides[platform] ?? {};
+    if (partial ? platformOverrides.partials?.[partial] !== undefined : platformOverrides[field as OverrideField] !== undefined) {
+      fail(lineNumber, `duplicate ${field} override for ${platform}`);
+    }
+
+    // A closing fence uses the same character, at least as many times
+    const content: string[] = [];
+    const closing = new RegExp(`^${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+    while (index < lines.length && !closing.test(lines[index])) {
+      content.push(lines[index++]);
+    }
+    if (index === lines.length) fail(lineNumber, `override for ${platform} is not closed with ${marker}`);
+    index++;
+
+    // Sections are kept as written: override instructions end in a newline like
+    // the body does, and additional content is set off by a blank line
+    const section = content.join('\n');
+    if (partial) {
+      platformOverrides.partials = { ...platformOverrides.partials, [partial]: section };
+    } else {
+      platformOverrides[field as OverrideField] = field === 'instructions' ? `${section}\n` : `\n${section}\n`;
+    }
+    overrides[platform] = platformOverrides;
+  }
+  return { instructions: instructions.join('\n'), overrides };
+}
+
+/**
+ * Parse a markdown skill file into a canonical skill.
+ * @throws Error naming the line of the first problem found
+ */
+export function parseSkillFile(content: string): CanonicalSkill {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  if (lines[0].trim() !== '---') fail(1, 'skill files must start with a "---" frontmatter block');
+  const close = lines.indexOf('---', 1);
+  if (close === -1) fail(1, 'frontmatter block is not closed with "---"');
+
+  const { fields, parameters } = parseSkillFrontmatter(lines.slice(1, close), 2);
+  for (const key of [...METADATA_KEYS, 'supportedPlatforms']) {
+    if (!fields.get(key)?.value) fail(1, `frontmatter is missing "${key}"`);
+  }
+  const platforms = fields.get('supportedPlatforms')!;
+  const supportedPlatforms = parseList(platforms.value);
+  const unknown = supportedPlatforms.filter(id => !platformRegistry.has(id));
+  if (unknown.length > 0) {
+    fail(platforms.line, `unknown platforms ${unknown.join(', ')} (valid: ${platformRegistry.ids().join(', ')})`);
+  }
+
+  const { instructions, overrides } = parseSkillBody(lines.slice(close + 1), close + 2);
+  if (instructions.trim() === '') fail(close + 1, 'skill has no instructions after the frontmatter');
+
+  return {
+    name: unquote(fields.get('name')!.value),
+    title: unquote(fields.get('title')!.value),
+    description: unquote(fields.get('description')!.value),
+    version: unquote(fields.get('version')!.value),
+    supportedPlatforms: supportedPlatforms as PlatformId[],
+    parameters,
+    instructions,
+    platformOverrides: overrides,
+  };
+}
+
+/**
+ * Register every skill file in a directory: `<name>.md` files and
+ * `<name>/SKILL.md` folders, in name order, after the partials in
+ * `partials/`. A later file replaces an earlier skill or partial of the
+ * same name, so workspace skills can replace built-ins. Partial includes
+ * are resolved when a skill is rendered, where a broken one fails the command.
+ * @param directory - Directory path ending in `/`, used as given in error messages
+ */
+export async function loadSkillFiles(
+  fs: SkillFileSystem,
+  directory: string,
+  registry: SkillRegistry
+): Promise<SkillLoadResult> {
+  const result: SkillLoadResult = { loaded: [], partials: [], errors: [] };
+  if (!await fs.exists(directory)) {
+    return result;
+  }
+
+  const partialsDir = `${directory}partials/`;
+  if (await fs.exists(partialsDir)) {
+    for (const entry of (await fs.readdir(partialsDir)).filter(f => f.endsWith('.md')).sort()) {
+      const name = entry.slice(0, -'.md'.length);
+      try {
+        registry.registerPartial(name, (await fs.readFile(`${partialsDir}${entry}`)).replace(/\r?\n$/, ''));
+        result.partials.push(name);
+      } catch (err) {
+        result.errors.push({
+          code: 'INVALID_SKILL_FILE',
+          message: `${partialsDir}${entry}: ${err instanceof Error ? err.message : String(err)}`,
+          path: `${partialsDir}${entry}`,
+        });
+      }
+    }
+  }
+
+  const files: string[] = [];
+  for (const entry of (await fs.readdir(directory)).sort()) {
+    if (entry === 'partials') {
+      continue;
+    } else if (entry.endsWith('.md')) {
+      files.push(`${directory}${entry}`);
+    } else if (await fs.exists(`${directory}${entry}/SKILL.md`)) {
+      files.push(`${directory}${entry}/SKILL.md`);
+    }
+  }
+
+  for (const file of files) {
+    try {
+      const skill = parseSkillFile(await fs.readFile(file));
+      registry.register(skill);
+      result.loaded.push(skill.name);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const line = message.match(/^line (\d+): ([\s\S]*)$/);
+      result.errors.push({
+        code: 'INVALID_SKILL_FILE',
+        message: line ? `${file}:${line[1]}: ${line[2]}` : `${file}: ${message}`,
+        path: file,
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+/**
+ * Skill Lock - Record of the skill files install-skills wrote
+ *
+ * `.sdd/lock.json` holds one entry per installed file: the skill, its
+ * version, the platform, the workspace-relative path and a hash of the
+ * content. `sdd verify --platform` compares it with the workspace (missing
+ * or edited files) and with the current canonical skills (stale files).
+ * A copy of each file as installed is kept under `.sdd/base/` as the base
+ * `sdd upgrade` merges local edits against.
+ */
+
+import { createHash } from 'crypto';
+import type { PlatformId, PlatformSkill } from '../types.js';
+import { isDirectorySkill } from '../types.js';
+
+/**
+ * Lock file path, relative to the workspace root
+ */
+export const SKILL_LOCK_FILE = '.sdd/lock.json';
+
+export const SKILL_LOCK_VERSION = 1;
+
+/**
+ * Directory holding the installed content of each locked file, relative to the workspace root
+ */
+export const SKILL_BASE_DIR = '.sdd/base/';
+
+/**
+ * One installed file
+ */
+export interface SkillLockEntry {
+  skill: string;
+  /** Skill `version` at install time */
+  version: string;
+  platform: PlatformId;
+  /** Path relative to the workspace root */
+  path: string;
+  /** `sha256-<hex>` of the content as installed */
+  hash: string;
+  /** Framework version that installed the file, when known */
+  frameworkVersion?: string;
+}
+
+export interface SkillLock {
+  lockfileVersion: number;
+  skills: SkillLockEntry[];
+}
+
+/**
+ * A file of a formatted skill, relative to the workspace root
+ */
+export interface SkillFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Hash file content the way the lock records it.
+ */
+export function hashContent(content: string): string {
+  return `sha256-${createHash('sha256').update(content).digest('hex')}`;
+}
+
+/**
+ * List the files a formatted skill is written to, companion files included.
+ * @param skillsDirectory - The platform's skills directory, e.g. `.claude/skills/`
+ */
+export function skillFiles(skillsDirectory: string, platformSkill: PlatformSkill): SkillFile[] {
+  const files = isDirectorySkill(platformSkill)
+    ? platformSkill.files.map(file => ({
+        path: `${skillsDirectory}${platformSkill.directory}/${file.filename}`,
+        content: file.content,
+      }))
+    : [{ path: `${skillsDirectory}${platformSkill.filename}`, content: platformSkill.content }];
+  const companions = (platformSkill.companionFiles ?? []).map(({ path, content }) => ({ path, content }));
+  return [...files, ...companions];
+}
+
+/**
+ * Path of the base copy of a locked file, relative to the workspace root.
+ */
+export function baseCopyPath(entryPath: string): string {
+  return `${SKILL_BASE_DIR}${entryPath}`;
+}
+
+export function emptySkillLock(): SkillLock {
+  return { lockfileVersion: SKILL_LOCK_VERSION, skills: [] };
+}
+
+/**
+ * Parse the content of `.sdd/lock.json`.
+ * @throws Error when it is not valid JSON or not a skill lock
+ */
+export function parseSkillLock(content: string): SkillLock {
+  const parsed = JSON.parse(content) as Partial<SkillLock> | null;
+  if (typeof parsed !== 'object' || parsed === null || !Array.isArray(parsed.skills)) {
+    throw new Error(`${SKILL_LOCK_FILE} has no skills array`);
+  }
+  parsed.skills.forEach((entry, index) => {
+    const fields = ['skill', 'version', 'platform', 'path', 'hash'] as const;
+    const missing = fields.filter(field => typeof entry?.[field] !== 'string');
+    if (missing.length > 0) {
+      throw new Error(`${SKILL_LOCK_FILE} entry ${index} is missing ${missing.join(', ')}`);
+    }
+  });
+  return { lockfileVersion: parsed.lockfileVersion ?? SKILL_LOCK_VERSION, skills: parsed.skills };
+}
+
+/**
+ * Serialize a lock with entries sorted by platform and path, so that
+ * reinstalling the same skills gives the same file.
+ */
+export function serializeSkillLock(lock: SkillLock): string {
+  const skills = [...lock.skills].sort((a, b) =>
+    a.platform === b.platform ? a.path.localeCompare(b.path) : a.platform.localeCompare(b.platform)
+  );
+  return `${JSON.stringify({ lockfileVersion: lock.lockfileVersion, skills }, null, 2)}\n`;
+}
+
+/**
+ * Replace the entries of the given skills on a platform with new ones.
+ */
+export function updateSkillLock(
+  lock: SkillLock,
+  platform: PlatformId,
+  skills: string[],
+  entries: SkillLockEntry[]
+): SkillLock {
+  const replaced = new Set(skills);
+  return {
+    lockfileVersion: SKILL_LOCK_VERSION,
+    skills: [...lock.skills.filter(e => e.platform !== platform || !replaced.has(e.skill)), ...entries],
+  };
+}
@@ -6,9 +6,12 @@
  * Requirements: 2.1, 2.2, 2.3, 2.4, 8.1, 8.7
  */
 
-import type { CanonicalSkill, PlatformId, SkillMetadata, ValidationResult, ValidationError, SkillInstallResult } from '../types.js';
+import type { CanonicalSkill, PlatformId, PlatformSkill, SkillMetadata, ValidationResult, ValidationError, SkillInstallResult } from '../types.js';
 import { isDirectorySkill } from '../types.js';
 import type { PlatformAdapter } from '../adapters/platform-adapter.js';
+import { platformRegistry } from './platform-registry.js';
+import { builtinPartials } from '../skills/partials.js';
+import { resolvePartials } from '../transformer/skill-partials.js';
 
 /**
  * File system interface for skill installation
@@ -26,6 +29,7 @@ export interface FileSystem {
  */
 export class SkillRegistry {
   private skills: Map<string, CanonicalSkill> = new Map();
+  private partials: Map<string, string> = new Map(Object.entries(builtinPartials));
 
   /**
    * Register a new skill with validation.
@@ -44,6 +48,34 @@ export class SkillRegistry {
     this.skills.set(skill.name, skill);
   }
 
+  /**
+   * Register a partial skills can include with `{{> name}}`,
+   * replacing any partial of the same name.
+   */
+  registerPartial(name: string, content: string): void {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(`Invalid partial name: ${name}`);
+    }
+    this.partials.set(name, content);
+  }
+
+  /**
+   * All registered partials by name, the built-in ones included.
+   */
+  getPartials(): Record<string, string> {
+    return Object.fromEntries(this.partials);
+  }
+
+  /**
+   * Format a skill for an adapter's platform with its partial includes
+   * resolved. Everything that writes or compares platform skills renders
+   * them here, so no caller can skip the includes.
+   * @throws Error naming the skill and the include chain of an unknown partial or a cycle
+   */
+  render(skill: CanonicalSkill, adapter: PlatformAdapter): PlatformSkill {
+    return adapter.formatSkill(resolvePartials(skill, adapter.platformId, this.getPartials()));
+  }
+
   /**
    * Retrieve a skill by name.
    * 
@@ -66,7 +98,7 @@ export class SkillRegistry {
    */
   listForPlatform(platform: PlatformId): SkillMetadata[] {
     return Array.from(this.skills.values())
-      .filter(skill => skill.supportedPlatforms.includes(platform))
+      .filter(skill => platformRegistry.supports(skill, platform))
       .map(({ name, title, description, version, supportedPlatforms }) => ({
         name,
         title,
@@ -95,7 +127,8 @@ export class SkillRegistry {
 
   /**
    * Validate a skill definition.
-   * Checks for required fields: name, instructions, and at least one supported platform.
+   * Checks for required fields: name, instructions, and at least one supported platform,
+   * and that the skill's file does not collide with a platform's instructions file.
    * 
    * @param skill - The skill to validate
    * @returns Validation result with any errors
@@ -125,6 +158,19 @@ export class SkillRegistry {
       });
     }
 
+    // A skill file must not replace a platform's instructions file kept beside it (Cursor's specs.mdc)
+    const platforms = Array.isArray(skill.supportedPlatforms) ? platformRegistry.ids().filter(id => platformRegistry.supports(skill, id)) : [];
+    for (const id of platforms) {
+      const definition = platformRegistry.get(id)!;
+      const skillFile = `${definition.skillsPath}${skill.name}${definition.skill.extension ?? '.md'}`;
+      if (definition.skill.layout === 'file' && skillFile === definition.instructionsFile) {
+        errors.push({
+          code: 'INVALID_SKILL',
+          message: `Skill name "${skill.name}" is reserved on ${id}: its file would replace ${definition.instructionsFile}`
+        });
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -159,7 +205,7 @@ export class SkillRegistry {
       };
     }
 
-    if (!skill.supportedPlatforms.includes(adapter.platformId)) {
+    if (!platformRegistry.supports(skill, adapter.platformId)) {
       return {
         success: false,
         skillName,
@@ -181,11 +227,20 @@ export class SkillRegistry {
       }
 
       // Format the skill for the target platform
-      const platformSkill = adapter.formatSkill(skill);
+      const platformSkill = this.render(skill, adapter);
+
+      // Files outside the skills directory, e.g. slash commands
+      for (const companion of platformSkill.companionFiles ?? []) {
+        const dir = companion.path.slice(0, companion.path.lastIndexOf('/') + 1);
+        if (dir && !await fs.exists(dir)) {
+          await fs.mkdir(dir, { recursive: true });
+        }
+        await fs.writeFile(companion.path, companion.content);
+      }
 
       // Write the skill file(s)
       if (isDirectorySkill(platformSkill)) {
-        // Directory-based skill (e.g., Codex)
+        // Directory-based skill (e.g., Claude Code, Codex)
         const skillDir = `${skillsDir}${platformSkill.directory}/`;
         const skillDirExists = await fs.exists(skillDir);
         if (!skillDirExists) {
@@ -206,7 +261,7 @@ export class SkillRegistry {
           directoryCreated
         };
       } else {
-        // Single file skill (e.g., Kiro, Claude Code, Antigravity)
+        // Single file skill (e.g., Kiro, Cursor, Copilot)
         const targetPath = `${skillsDir}${platformSkill.filename}`;
         await fs.writeFile(targetPath, platformSkill.content);
         
@@ -2,26 +2,38 @@
  * Canonical Skill Definitions
  * 
  * This module exports all canonical skill definitions for the
- * Context Engineering Framework.
+ * Context Engineering Framework. Each built-in skill is a markdown
+ * file in the package's `skills/` directory, in the same format as
+ * workspace skills in `.sdd/skills/`.
  */
 
-export { workspaceInitSkill } from './workspace-init.js';
-export { createSpecSkill } from './create-spec.js';
-export { runTaskSkill } from './run-task.js';
-export { installSkillsSkill } from './install-skills.js';
-export { refineSpecSkill } from './refine-spec.js';
-export { startTaskGroupSkill } from './start-task-group.js';
-export { analyzeTaskFailureSkill } from './analyze-task-failure.js';
-
-import { workspaceInitSkill } from './workspace-init.js';
-import { createSpecSkill } from './create-spec.js';
-import { runTaskSkill } from './run-task.js';
-import { installSkillsSkill } from './install-skills.js';
-import { refineSpecSkill } from './refine-spec.js';
-import { startTaskGroupSkill } from './start-task-group.js';
-import { analyzeTaskFailureSkill } from './analyze-task-failure.js';
+import * as fs from 'fs';
+import { parseSkillFile, PACKAGE_SKILLS_DIR } from '../registry/skill-loader.js';
 import { CanonicalSkill } from '../types.js';
 
+export { builtinPartials, taskFormatPartial } from './partials.js';
+
+/**
+ * Read a built-in skill from `skills/<name>.md`
+ * @throws Error naming the file and line if the skill file is invalid
+ */
+function readPackageSkill(name: string): CanonicalSkill {
+  const file = `${PACKAGE_SKILLS_DIR}${name}.md`;
+  try {
+    return parseSkillFile(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export const workspaceInitSkill = readPackageSkill('workspace-init');
+export const createSpecSkill = readPackageSkill('create-spec');
+export const runTaskSkill = readPackageSkill('run-task');
+export const installSkillsSkill = readPackageSkill('install-skills');
+export const refineSpecSkill = readPackageSkill('refine-spec');
+export const startTaskGroupSkill = readPackageSkill('start-task-group');
+export const analyzeTaskFailureSkill = readPackageSkill('analyze-task-failure');
+
 /**
  * All canonical skills available in the framework
  */
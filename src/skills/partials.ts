@@ -0,0 +1,23 @@
+/**
+ * Skill Partials - Instruction fragments shared between skills
+ *
+ * A skill includes a partial with `{{> name}}`; includes are resolved before
+ * the skill is formatted for a platform, and a skill's `platformOverrides`
+ * can replace individual partials for one platform. The built-in partials
+ * are the package's `skills/partials/<name>.md` files.
+ */
+
+import * as fs from 'fs';
+import { PACKAGE_SKILLS_DIR } from '../registry/skill-loader.js';
+
+/**
+ * The canonical tasks.md structure: two depth-1 groups, three levels
+ */
+export const taskFormatPartial = fs.readFileSync(`${PACKAGE_SKILLS_DIR}partials/task-format.md`, 'utf-8').replace(/\r?\n$/, '');
+
+/**
+ * Partials available to every skill, by name
+ */
+export const builtinPartials: Record<string, string> = {
+  'task-format': taskFormatPartial,
+};
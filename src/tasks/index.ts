@@ -3,11 +3,28 @@
  */
 
 export { TaskTracker } from './task-tracker.js';
+export type { TaskTrackerOptions } from './task-tracker.js';
 export { TaskGroupResolver } from './task-group-resolver.js';
+export { TasksMarkdown, STATUS_MARKERS, markerToStatus, formatTaskLine } from './tasks-markdown.js';
+export type { TasksLine, TaskLine, CheckboxLine, DetailLine, ProseLine } from './tasks-markdown.js';
+export { isBulkSelector, parseTaskSelector, expandTaskSelector } from './task-selector.js';
+export type { TaskSelectorTerm, TaskSelection } from './task-selector.js';
+export { DEFAULT_TASK_TRANSITIONS, resolveTransitionPolicy, isTransitionAllowed } from './task-transitions.js';
+export type { TransitionPolicy, TransitionViolation } from './task-transitions.js';
+export {
+  TASK_HISTORY_FILE,
+  getTaskHistoryPath,
+  toHistoryEntry,
+  appendTaskHistory,
+  parseTaskHistory,
+  filterTaskHistory
+} from './task-history.js';
+export type { TaskHistoryEntry, TaskHistorySource } from './task-history.js';
 export type {
   TaskGroup,
   TaskSubgroup,
   ParsedTask,
   TaskGroupStatus,
   RequirementsValidation,
+  DependencyValidation,
 } from './task-group-resolver.js';
@@ -5,11 +5,17 @@
  * requirements references, and dependency/blocking state. Consumed by
  * both the CLI (StartGroupCommand) and the sdd-studio extension.
  *
- * Parsing uses regex patterns consistent with TaskTracker to avoid
- * status drift between the two modules.
+ * Parsing goes through TasksMarkdown, the same model TaskTracker uses,
+ * so the two modules cannot drift apart on checkbox syntax.
  */
 
 import { TaskStatus } from '../types.js';
+import { TasksMarkdown } from './tasks-markdown.js';
+import {
+  parseRequirementsDocument,
+  hasRequirementId,
+  type RequirementsDocument
+} from '../documents/requirements-document.js';
 
 /** Aggregate status of a task group */
 export type TaskGroupStatus = 'not_started' | 'in_progress' | 'completed' | 'failed' | 'partial';
@@ -21,8 +27,12 @@ export interface ParsedTask {
   status: TaskStatus;
   isOptional: boolean;
   requirements: string[];
+  /** Task IDs from `_Depends: ..._` detail lines */
+  dependsOn: string[];
   isBlocked: boolean;
   depth: number; // 1 = group, 2 = subgroup, 3 = leaf
+  /** Reason recorded on a `_Failure: ..._` detail line, if any */
+  failureReason?: string;
 }
 
 /** A subgroup within a task group */
@@ -49,6 +59,18 @@ export interface TaskGroup {
   failedTasks: number;
 }
 
+/** Problems with `_Depends:_` references across a tasks.md document */
+export interface DependencyValidation {
+  valid: boolean;
+  /** References to task IDs that do not exist */
+  danglingReferences: Array<{
+    taskId: string;
+    dependencyIds: string[];
+  }>;
+  /** Each cycle as a path of task IDs, starting and ending with the same ID */
+  cycles: string[][];
+}
+
 /** Result of requirements validation */
 export interface RequirementsValidation {
   valid: boolean;
@@ -58,27 +80,6 @@ export interface RequirementsValidation {
   }>;
 }
 
-// ── Regex patterns (consistent with TaskTracker) ────────────────────────────
-
-/** Matches a task line: `- [x]* 1.2.3 Some text` */
-const TASK_LINE_RE = /^(\s*)- \[([ x\-!~])\](\*|\\?\*)?\s+(\d+(?:\.\d+)*)\s+(.*)/;
-
-/** Matches a requirements detail line: `_Requirements: 1.1, 1.2_` */
-const REQUIREMENTS_RE = /_Requirements:\s*(.+?)_/;
-
-/**
- * Map a checkbox character to a TaskStatus.
- */
-function charToStatus(ch: string): TaskStatus {
-  switch (ch) {
-    case 'x': return 'completed';
-    case '-': return 'in_progress';
-    case '!': return 'failed';
-    case '~': return 'queued';
-    default:  return 'not_started';
-  }
-}
-
 /**
  * Compute the aggregate TaskGroupStatus from a list of individual statuses.
  */
@@ -100,105 +101,149 @@ function computeAggregateStatus(statuses: TaskStatus[]): TaskGroupStatus {
   return 'not_started';
 }
 
-/**
- * Determine the depth of a task ID by counting its dot-separated segments.
- * "1" → 1, "1.1" → 2, "1.1.1" → 3
- */
-function idDepth(id: string): number {
-  return id.split('.').length;
-}
-
 export class TaskGroupResolver {
   /**
    * Parse tasks.md content into structured task groups.
    */
   parseGroups(content: string): TaskGroup[] {
-    const lines = content.split('\n');
+    const document = TasksMarkdown.parse(content);
     const groups: TaskGroup[] = [];
 
     let currentGroup: TaskGroup | undefined;
     let currentSubgroup: TaskSubgroup | undefined;
-    let lastParsedTask: ParsedTask | undefined;
-
-    for (const line of lines) {
-      // Try to match a task line
-      const taskMatch = line.match(TASK_LINE_RE);
-      if (taskMatch) {
-        const [, , statusChar, optionalMarker, id, text] = taskMatch;
-        const depth = idDepth(id);
-        const status = charToStatus(statusChar);
-        const isOptional = !!optionalMarker;
-
-        const task: ParsedTask = {
-          id,
-          text: text.trim(),
-          status,
-          isOptional,
-          requirements: [],
-          isBlocked: false,
-          depth,
-        };
 
-        if (depth === 1) {
-          // Top-level group
-          currentGroup = {
-            id,
-            title: text.trim(),
-            status: 'not_started',
-            isOptional,
-            tasks: [task],
-            subgroups: [],
-            totalTasks: 0,
-            completedTasks: 0,
-            failedTasks: 0,
-          };
-          groups.push(currentGroup);
-          currentSubgroup = undefined;
-        } else if (depth === 2 && currentGroup) {
-          // Subgroup
-          currentSubgroup = {
-            id,
-            title: text.trim(),
-            status: 'not_started',
-            tasks: [],
-            totalTasks: 0,
-            completedTasks: 0,
-            failedTasks: 0,
-          };
-          currentGroup.subgroups.push(currentSubgroup);
-          currentGroup.tasks.push(task);
-        } else if (depth >= 3 && currentGroup) {
-          // Leaf task (or deeper)
-          if (currentSubgroup) {
-            currentSubgroup.tasks.push(task);
-          }
-          currentGroup.tasks.push(task);
-        }
-
-        lastParsedTask = task;
-        continue;
+    for (const line of document.tasks()) {
+      const { id, text, status, isOptional, depth } = line;
+      const details = document.detailsOf(line);
+      const failureReason = details.reduce<string | null>((reason, d) => d.failureReason ?? reason, null);
+
+      const task: ParsedTask = {
+        id,
+        text,
+        status,
+        isOptional,
+        requirements: details.flatMap(d => d.requirements),
+        dependsOn: details.flatMap(d => d.dependsOn),
+        isBlocked: false,
+        depth,
+      };
+      if (failureReason !== null) {
+        task.failureReason = failureReason;
       }
 
-      // Check for requirements reference on non-task lines (detail lines)
-      if (lastParsedTask) {
-        const reqMatch = line.match(REQUIREMENTS_RE);
-        if (reqMatch) {
-          const refs = reqMatch[1].split(',').map(r => r.trim()).filter(r => r.length > 0);
-          lastParsedTask.requirements.push(...refs);
+      if (depth === 1) {
+        // Top-level group
+        currentGroup = {
+          id,
+          title: text,
+          status: 'not_started',
+          isOptional,
+          tasks: [task],
+          subgroups: [],
+          totalTasks: 0,
+          completedTasks: 0,
+          failedTasks: 0,
+        };
+        groups.push(currentGroup);
+        currentSubgroup = undefined;
+      } else if (depth === 2 && currentGroup) {
+        // Subgroup
+        currentSubgroup = {
+          id,
+          title: text,
+          status: 'not_started',
+          tasks: [],
+          totalTasks: 0,
+          completedTasks: 0,
+          failedTasks: 0,
+        };
+        currentGroup.subgroups.push(currentSubgroup);
+        currentGroup.tasks.push(task);
+      } else if (depth >= 3 && currentGroup) {
+        // Leaf task (or deeper)
+        if (currentSubgroup) {
+          currentSubgroup.tasks.push(task);
         }
+        currentGroup.tasks.push(task);
       }
     }
 
-    // Post-process: compute blocking, aggregate status, and counts
+    // Post-process: compute aggregate status and counts, then blocking,
+    // which needs the final status of every group a task may depend on
     for (const group of groups) {
-      this.computeBlocking(group);
       this.computeCounts(group);
       this.computeStatuses(group);
     }
+    const completion = this.buildCompletionMap(groups);
+    for (const group of groups) {
+      this.computeBlocking(group);
+      this.computeDependencyBlocking(group, groups, completion);
+    }
 
     return groups;
   }
 
+  /**
+   * Check `_Depends:_` references for unknown task IDs and cycles.
+   * A task inherits the dependencies of its group and subgroup, and a
+   * group or subgroup cannot complete before its children, so depending
+   * on your own ancestor is reported as a cycle.
+   */
+  validateDependencies(groups: TaskGroup[]): DependencyValidation {
+    const allTasks = groups.flatMap(g => g.tasks);
+    const ids = new Set(allTasks.map(t => t.id));
+
+    const danglingReferences: DependencyValidation['danglingReferences'] = [];
+    for (const task of allTasks) {
+      const unknown = task.dependsOn.filter(d => !ids.has(d));
+      if (unknown.length > 0) {
+        danglingReferences.push({ taskId: task.id, dependencyIds: unknown });
+      }
+    }
+
+    // Edges: task → its effective dependencies, and container → its children
+    const edges = new Map<string, string[]>();
+    for (const task of allTasks) {
+      const targets = this.effectiveDependencies(task, groups).filter(d => ids.has(d));
+      targets.push(...allTasks.filter(t => this.isAncestor(task.id, t.id)).map(t => t.id));
+      edges.set(task.id, targets);
+    }
+
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string): void => {
+      state.set(id, 'visiting');
+      stack.push(id);
+      for (const next of edges.get(id) ?? []) {
+        if (state.get(next) === 'visiting') {
+          const cycle = [...stack.slice(stack.indexOf(next)), next];
+          const key = [...cycle.slice(0, -1)].sort().join(',');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(cycle);
+          }
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      }
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    for (const task of allTasks) {
+      if (!state.has(task.id)) visit(task.id);
+    }
+
+    return {
+      valid: danglingReferences.length === 0 && cycles.length === 0,
+      danglingReferences,
+      cycles,
+    };
+  }
+
   /**
    * Get a specific group by its ID.
    */
@@ -211,12 +256,13 @@ export class TaskGroupResolver {
    */
   validateRequirements(group: TaskGroup, requirementsContent: string): RequirementsValidation {
     const unresolvedReferences: RequirementsValidation['unresolvedReferences'] = [];
+    const document = parseRequirementsDocument(requirementsContent);
 
     for (const task of group.tasks) {
       if (task.requirements.length === 0) continue;
 
       const unresolved = task.requirements.filter(
-        reqId => !this.requirementExists(reqId, requirementsContent)
+        reqId => !this.requirementExists(reqId, document, requirementsContent)
       );
 
       if (unresolved.length > 0) {
@@ -249,6 +295,56 @@ export class TaskGroupResolver {
 
   // ── Private helpers ─────────────────────────────────────────────────────
 
+  /**
+   * Map every task ID to whether it counts as completed. Groups and
+   * subgroups use their aggregate status; other tasks their own checkbox.
+   */
+  private buildCompletionMap(groups: TaskGroup[]): Map<string, boolean> {
+    const completion = new Map<string, boolean>();
+    for (const group of groups) {
+      for (const task of group.tasks) {
+        completion.set(task.id, task.status === 'completed');
+      }
+      for (const subgroup of group.subgroups) {
+        if (subgroup.tasks.length > 0) {
+          completion.set(subgroup.id, subgroup.status === 'completed');
+        }
+      }
+      if (group.subgroups.length > 0) {
+        completion.set(group.id, group.status === 'completed');
+      }
+    }
+    return completion;
+  }
+
+  /**
+   * Mark tasks whose dependencies (own or inherited) are not all completed
+   * as blocked. Unknown IDs count as unmet.
+   */
+  private computeDependencyBlocking(group: TaskGroup, groups: TaskGroup[], completion: Map<string, boolean>): void {
+    for (const task of group.tasks) {
+      if (this.effectiveDependencies(task, groups).some(d => completion.get(d) !== true)) {
+        task.isBlocked = true;
+      }
+    }
+  }
+
+  /**
+   * A task's own dependencies plus those declared on its group and subgroup.
+   */
+  private effectiveDependencies(task: ParsedTask, groups: TaskGroup[]): string[] {
+    const group = groups.find(g => g.id === task.id.split('.')[0]);
+    const ancestors = group ? group.tasks.filter(t => this.isAncestor(t.id, task.id)) : [];
+    return [...new Set([...ancestors.flatMap(a => a.dependsOn), ...task.dependsOn])];
+  }
+
+  /**
+   * Whether `ancestorId` is a strict ancestor of `id` ("1.2" of "1.2.3").
+   */
+  private isAncestor(ancestorId: string, id: string): boolean {
+    return id.startsWith(`${ancestorId}.`);
+  }
+
   /**
    * Within each subgroup, mark tasks after a failed sibling as blocked.
    */
@@ -357,12 +453,13 @@ export class TaskGroupResolver {
   }
 
   /**
-   * Check if a requirement ID exists in requirements.md content.
-   * Looks for headings or numbered items matching the ID pattern.
+   * Check if a requirement ID names a requirement or acceptance criterion.
+   * Documents without `Requirement N` headings fall back to a text search
+   * for the ID at a line start or as a standalone token.
    */
-  private requirementExists(reqId: string, content: string): boolean {
+  private requirementExists(reqId: string, document: RequirementsDocument, content: string): boolean {
+    if (document.requirements.length > 0) return hasRequirementId(document, reqId);
     if (!content) return false;
-    // Match patterns like "### Requirement 1.1" or "1.1 " or "1.1:" at line starts
     const escaped = reqId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const pattern = new RegExp(
       `(^|\\n).*(?:Requirement\\s+${escaped}|\\b${escaped}\\b)`,
@@ -0,0 +1,102 @@
+/**
+ * Task History - Append-only log of task status changes
+ *
+ * Every status change written by TaskTracker is appended as one JSON
+ * object per line to `.history.jsonl` next to the spec's tasks.md.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { PlatformId, TaskStatus, TaskUpdate } from '../types.js';
+
+/** File name of the per-spec history log */
+export const TASK_HISTORY_FILE = '.history.jsonl';
+
+/** The TaskTracker operation that produced a history entry */
+export type TaskHistorySource = 'update' | 'failure-cascade' | 'queue-group' | 'group-status';
+
+/**
+ * One recorded status change
+ */
+export interface TaskHistoryEntry {
+  taskId: string;
+  oldStatus: TaskStatus;
+  newStatus: TaskStatus;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  /** Platform that made the change, or null if unknown */
+  platform: PlatformId | null;
+  source: TaskHistorySource;
+  error?: string;
+}
+
+/**
+ * Get the history log path for a tasks.md file
+ */
+export function getTaskHistoryPath(tasksFilePath: string): string {
+  return path.join(path.dirname(tasksFilePath), TASK_HISTORY_FILE);
+}
+
+/**
+ * Convert a TaskUpdate into a history entry
+ */
+export function toHistoryEntry(
+  update: TaskUpdate,
+  platform: PlatformId | null,
+  source: TaskHistorySource
+): TaskHistoryEntry {
+  const entry: TaskHistoryEntry = {
+    taskId: update.taskId,
+    oldStatus: update.oldStatus,
+    newStatus: update.newStatus,
+    timestamp: update.timestamp.toISOString(),
+    platform,
+    source,
+  };
+  if (update.error !== undefined) {
+    entry.error = update.error;
+  }
+  return entry;
+}
+
+/**
+ * Append entries to the history log beside a tasks.md file
+ * @param tasksFilePath - Path to the tasks.md file
+ * @param entries - Entries to append, in order
+ */
+export async function appendTaskHistory(tasksFilePath: string, entries: TaskHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const lines = entries.map(e => JSON.stringify(e)).join('\n') + '\n';
+  await fs.appendFile(getTaskHistoryPath(tasksFilePath), lines, 'utf-8');
+}
+
+/**
+ * Parse history log content. Blank and malformed lines are skipped so a
+ * partially written line never hides the rest of the log.
+ * @param content - The .history.jsonl file content
+ * @returns Entries in file order
+ */
+export function parseTaskHistory(content: string): TaskHistoryEntry[] {
+  const entries: TaskHistoryEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<TaskHistoryEntry>;
+      if (typeof parsed.taskId === 'string' && typeof parsed.newStatus === 'string' && typeof parsed.timestamp === 'string') {
+        entries.push(parsed as TaskHistoryEntry);
+      }
+    } catch {
+      // Skip malformed line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Keep only entries for a task and its subtasks
+ * @param entries - Parsed history entries
+ * @param taskId - Task ID; entries for `taskId` and `taskId.*` are kept
+ */
+export function filterTaskHistory(entries: TaskHistoryEntry[], taskId: string): TaskHistoryEntry[] {
+  return entries.filter(e => e.taskId === taskId || e.taskId.startsWith(`${taskId}.`));
+}
@@ -0,0 +1,135 @@
+/**
+ * Task Selector - Expands bulk task selectors into concrete task IDs
+ *
+ * A selector is a comma-separated list of terms. Each term is one of:
+ * - an exact task ID: `1.2.3`
+ * - a wildcard matching every descendant of a task: `1.2.*`
+ * - a range of siblings sharing the same parent: `1.1.1..1.1.4`
+ *
+ * Selectors are expanded against the task IDs actually present in
+ * tasks.md, so the result is always in document order.
+ */
+
+/** A single parsed selector term */
+export type TaskSelectorTerm =
+  | { kind: 'id'; id: string }
+  | { kind: 'wildcard'; prefix: string }
+  | { kind: 'range'; parent: string; from: number; to: number };
+
+/** Result of expanding a selector against a document */
+export interface TaskSelection {
+  /** Matched task IDs in document order, without duplicates */
+  taskIds: string[];
+  /** Terms (as written) that matched no task */
+  unmatched: string[];
+}
+
+/** Dotted task ID with at least two segments: `1.1`, `1.1.1` */
+const TASK_ID_RE = /^\d+(?:\.\d+)+$/;
+
+/** Wildcard term: `1.*`, `1.2.*` */
+const WILDCARD_RE = /^(\d+(?:\.\d+)*)\.\*$/;
+
+/** Range term: `1.1.1..1.1.4` */
+const RANGE_RE = /^(\d+(?:\.\d+)+)\.\.(\d+(?:\.\d+)+)$/;
+
+/**
+ * Check whether a string is a single task ID, e.g. `1.1` or `1.1.1`.
+ */
+export function isTaskId(id: string): boolean {
+  return TASK_ID_RE.test(id);
+}
+
+/**
+ * Check whether a raw `--task` value uses bulk syntax (wildcard, range or list).
+ */
+export function isBulkSelector(selector: string): boolean {
+  return selector.includes(',') || selector.includes('*') || selector.includes('..');
+}
+
+/**
+ * Split an ID into its parent prefix and numeric last segment.
+ */
+function splitId(id: string): { parent: string; last: number } {
+  const idx = id.lastIndexOf('.');
+  return { parent: id.slice(0, idx), last: Number(id.slice(idx + 1)) };
+}
+
+/**
+ * Parse a single selector term.
+ * @throws Error with a descriptive message if the term is malformed
+ */
+function parseTerm(term: string): TaskSelectorTerm {
+  if (TASK_ID_RE.test(term)) {
+    return { kind: 'id', id: term };
+  }
+
+  const wildcard = term.match(WILDCARD_RE);
+  if (wildcard) {
+    return { kind: 'wildcard', prefix: wildcard[1] };
+  }
+
+  const range = term.match(RANGE_RE);
+  if (range) {
+    const start = splitId(range[1]);
+    const end = splitId(range[2]);
+    if (start.parent !== end.parent) {
+      throw new Error(`Range "${term}" must span siblings with the same parent`);
+    }
+    if (start.last > end.last) {
+      throw new Error(`Range "${term}" ends before it starts`);
+    }
+    return { kind: 'range', parent: start.parent, from: start.last, to: end.last };
+  }
+
+  throw new Error(`Invalid task selector term "${term}"`);
+}
+
+/**
+ * Parse a selector string into its terms.
+ * @param selector - Raw selector, e.g. `1.2.*,1.3.1..1.3.4`
+ * @returns Parsed terms in the order written
+ * @throws Error if the selector is empty or any term is malformed
+ */
+export function parseTaskSelector(selector: string): TaskSelectorTerm[] {
+  const terms = selector.split(',').map(t => t.trim()).filter(t => t.length > 0);
+  if (terms.length === 0) {
+    throw new Error('Task selector is empty');
+  }
+  return terms.map(parseTerm);
+}
+
+/**
+ * Check whether a task ID matches a selector term.
+ */
+function matchesTerm(id: string, term: TaskSelectorTerm): boolean {
+  switch (term.kind) {
+    case 'id':
+      return id === term.id;
+    case 'wildcard':
+      return id.startsWith(`${term.prefix}.`);
+    case 'range': {
+      const { parent, last } = splitId(id);
+      return parent === term.parent && last >= term.from && last <= term.to;
+    }
+  }
+}
+
+/**
+ * Expand a selector against the task IDs present in a document.
+ * @param selector - Raw selector string
+ * @param documentIds - All task IDs in tasks.md, in document order
+ * @returns Matched IDs (document order) and terms that matched nothing
+ * @throws Error if the selector is malformed
+ */
+export function expandTaskSelector(selector: string, documentIds: string[]): TaskSelection {
+  const rawTerms = selector.split(',').map(t => t.trim()).filter(t => t.length > 0);
+  const terms = parseTaskSelector(selector);
+
+  const unmatched = rawTerms.filter((_, i) => !documentIds.some(id => matchesTerm(id, terms[i])));
+  const taskIds = documentIds.filter(
+    (id, i) => documentIds.indexOf(id) === i && terms.some(term => matchesTerm(id, term))
+  );
+
+  return { taskIds, unmatched };
+}
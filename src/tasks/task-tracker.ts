@@ -7,10 +7,30 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TaskStatus, TaskUpdate } from '../types.js';
+import { PlatformId, TaskStatus, TaskUpdate } from '../types.js';
 import { TaskGroupResolver } from './task-group-resolver.js';
+import { appendTaskHistory, toHistoryEntry, type TaskHistorySource } from './task-history.js';
+import { STATUS_MARKERS, TasksMarkdown } from './tasks-markdown.js';
+
+/**
+ * Options for TaskTracker
+ */
+export interface TaskTrackerOptions {
+  /** Platform recorded in the spec's history log */
+  platform?: PlatformId | null;
+  /** Append status changes to `.history.jsonl` (default: true) */
+  recordHistory?: boolean;
+}
 
 export class TaskTracker {
+  private readonly platform: PlatformId | null;
+  private readonly recordHistory: boolean;
+
+  constructor(options: TaskTrackerOptions = {}) {
+    this.platform = options.platform ?? null;
+    this.recordHistory = options.recordHistory ?? true;
+  }
+
   /**
    * Parse the status of a task from file content
    * @param content - The tasks.md file content
@@ -18,20 +38,7 @@ export class TaskTracker {
    * @returns The current status of the task
    */
   parseTaskStatus(content: string, taskId: string): TaskStatus {
-    const escapedId = this.escapeRegex(taskId);
-    // Match checkbox with optional marker (*) after closing bracket for backward compatibility
-    const pattern = new RegExp(`- \\[([ x\\-!~])\\]\\*?\\s*${escapedId}`);
-    const match = content.match(pattern);
-
-    if (!match) return 'not_started';
-
-    switch (match[1]) {
-      case 'x': return 'completed';
-      case '-': return 'in_progress';
-      case '!': return 'failed';
-      case '~': return 'queued';
-      default: return 'not_started';
-    }
+    return TasksMarkdown.parse(content).findTask(taskId)?.status ?? 'not_started';
   }
 
   /**
@@ -42,13 +49,9 @@ export class TaskTracker {
    * @returns The updated file content
    */
   replaceTaskStatus(content: string, taskId: string, status: TaskStatus): string {
-    const statusChar = this.statusToChar(status);
-    const escapedId = this.escapeRegex(taskId);
-    // Match checkbox with optional marker (*) after closing bracket for backward compatibility
-    const pattern = new RegExp(
-      `(- \\[)[ x\\-!~](\\]\\*?\\s*${escapedId})`
-    );
-    return content.replace(pattern, `$1${statusChar}$2`);
+    const document = TasksMarkdown.parse(content);
+    document.setStatus(taskId, status);
+    return document.toString();
   }
 
   /**
@@ -57,13 +60,7 @@ export class TaskTracker {
    * @returns The single character for the checkbox
    */
   statusToChar(status: TaskStatus): string {
-    switch (status) {
-      case 'completed': return 'x';
-      case 'in_progress': return '-';
-      case 'failed': return '!';
-      case 'queued': return '~';
-      default: return ' ';
-    }
+    return STATUS_MARKERS[status] ?? ' ';
   }
 
   /**
@@ -75,6 +72,31 @@ export class TaskTracker {
     return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
 
+  /**
+   * Set or clear the `_Failure: ..._` detail line under a task
+   * @param content - The tasks.md file content
+   * @param taskId - The task identifier
+   * @param reason - Failure reason to record, or null to remove any existing line
+   * @returns The updated file content
+   */
+  setFailureReason(content: string, taskId: string, reason: string | null): string {
+    const document = TasksMarkdown.parse(content);
+    document.setFailureReason(taskId, reason);
+    return document.toString();
+  }
+
+  /**
+   * Record the reason for a failed task, or clear it once the task leaves failed.
+   * Failing again without a reason keeps the previous one.
+   */
+  private applyFailureReason(document: TasksMarkdown, taskId: string, status: TaskStatus, error?: string): void {
+    if (status === 'failed') {
+      if (error) document.setFailureReason(taskId, error);
+      return;
+    }
+    document.setFailureReason(taskId, null);
+  }
+
   /**
    * Update the status of a task in a tasks.md file
    * Reads the file, parses current status, replaces with new status, and writes atomically
@@ -90,19 +112,62 @@ export class TaskTracker {
     status: TaskStatus,
     error?: string
   ): Promise<TaskUpdate> {
-    const content = await fs.readFile(tasksFilePath, 'utf-8');
-    const oldStatus = this.parseTaskStatus(content, taskId);
+    const document = TasksMarkdown.parse(await fs.readFile(tasksFilePath, 'utf-8'));
+    const oldStatus = document.findTask(taskId)?.status ?? 'not_started';
     
-    const newContent = this.replaceTaskStatus(content, taskId, status);
-    await this.writeFileAtomic(tasksFilePath, newContent);
+    document.setStatus(taskId, status);
+    this.applyFailureReason(document, taskId, status, error);
+    await this.writeFileAtomic(tasksFilePath, document.toString());
     
-    return {
+    const update: TaskUpdate = {
       taskId,
       oldStatus,
       newStatus: status,
       timestamp: new Date(),
       error
     };
+    await this.appendHistory(tasksFilePath, [update], 'update');
+    return update;
+  }
+
+  /**
+   * List every task ID in file content, in document order
+   * @param content - The tasks.md file content
+   * @returns Task IDs of all checkbox lines
+   */
+  listTaskIds(content: string): string[] {
+    return TasksMarkdown.parse(content).tasks().map(task => task.id);
+  }
+
+  /**
+   * Update the status of several tasks in a tasks.md file
+   * Reads the file once, applies every change, and writes atomically
+   * @param tasksFilePath - Path to the tasks.md file
+   * @param taskIds - The task identifiers to update
+   * @param status - The new status to set
+   * @param error - Optional error message for failed tasks
+   * @returns One TaskUpdate per task, in the order given
+   */
+  async updateTaskStatuses(
+    tasksFilePath: string,
+    taskIds: string[],
+    status: TaskStatus,
+    error?: string
+  ): Promise<TaskUpdate[]> {
+    const document = TasksMarkdown.parse(await fs.readFile(tasksFilePath, 'utf-8'));
+    const timestamp = new Date();
+    const updates: TaskUpdate[] = [];
+
+    for (const taskId of taskIds) {
+      const oldStatus = document.findTask(taskId)?.status ?? 'not_started';
+      document.setStatus(taskId, status);
+      this.applyFailureReason(document, taskId, status, error);
+      updates.push({ taskId, oldStatus, newStatus: status, timestamp, error });
+    }
+
+    await this.writeFileAtomic(tasksFilePath, document.toString());
+    await this.appendHistory(tasksFilePath, updates, 'update');
+    return updates;
   }
 
   /**
@@ -126,19 +191,27 @@ export class TaskTracker {
       throw new Error(`Task "${failedTaskId}" not found in group "${groupId}"`);
     }
 
-    let updated = content;
+    const document = TasksMarkdown.parse(content);
+    const timestamp = new Date();
+    const changes: TaskUpdate[] = [];
 
     // Set group checkbox to failed
-    updated = this.replaceTaskStatus(updated, groupId, 'failed');
+    const groupStatus = document.findTask(groupId)?.status ?? 'not_started';
+    document.setStatus(groupId, 'failed');
+    if (groupStatus !== 'failed') {
+      changes.push({ taskId: groupId, oldStatus: groupStatus, newStatus: 'failed', timestamp });
+    }
 
     // Revert all queued tasks after the failed task to not_started
     for (let i = failedIndex + 1; i < leafTasks.length; i++) {
       if (leafTasks[i].status === 'queued') {
-        updated = this.replaceTaskStatus(updated, leafTasks[i].id, 'not_started');
+        document.setStatus(leafTasks[i].id, 'not_started');
+        changes.push({ taskId: leafTasks[i].id, oldStatus: 'queued', newStatus: 'not_started', timestamp });
       }
     }
 
-    await this.writeFileAtomic(tasksFilePath, updated);
+    await this.writeFileAtomic(tasksFilePath, document.toString());
+    await this.appendHistory(tasksFilePath, changes, 'failure-cascade');
   }
 
   /**
@@ -179,6 +252,13 @@ export class TaskTracker {
 
     const updated = this.replaceTaskStatus(content, groupId, aggregateStatus);
     await this.writeFileAtomic(tasksFilePath, updated);
+
+    const oldStatus = this.parseTaskStatus(content, groupId);
+    if (oldStatus !== aggregateStatus) {
+      await this.appendHistory(tasksFilePath, [
+        { taskId: groupId, oldStatus, newStatus: aggregateStatus, timestamp: new Date() }
+      ], 'group-status');
+    }
   }
 
   /**
@@ -195,12 +275,32 @@ export class TaskTracker {
     const leafTasks = group.tasks.filter(t => t.depth >= 3 && t.status === 'not_started');
     if (leafTasks.length === 0) return;
 
-    let updated = content;
+    const document = TasksMarkdown.parse(content);
     for (const task of leafTasks) {
-      updated = this.replaceTaskStatus(updated, task.id, 'queued');
+      document.setStatus(task.id, 'queued');
     }
 
-    await this.writeFileAtomic(tasksFilePath, updated);
+    await this.writeFileAtomic(tasksFilePath, document.toString());
+
+    const timestamp = new Date();
+    await this.appendHistory(tasksFilePath, leafTasks.map(task => (
+      { taskId: task.id, oldStatus: 'not_started' as TaskStatus, newStatus: 'queued' as TaskStatus, timestamp }
+    )), 'queue-group');
+  }
+
+  /**
+   * Append status changes to the spec's history log; updates that leave a
+   * task's status unchanged are not changes and are skipped.
+   * The log is an audit aid: failing to write it never fails the status update itself.
+   */
+  private async appendHistory(tasksFilePath: string, updates: TaskUpdate[], source: TaskHistorySource): Promise<void> {
+    if (!this.recordHistory) return;
+    try {
+      const changes = updates.filter(u => u.oldStatus !== u.newStatus);
+      await appendTaskHistory(tasksFilePath, changes.map(u => toHistoryEntry(u, this.platform, source)));
+    } catch {
+      // Ignore history write errors
+    }
   }
 
   /**
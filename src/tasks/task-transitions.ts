@@ -0,0 +1,82 @@
+/**
+ * Task Transitions - Status transition rules for tasks.md
+ *
+ * A transition policy maps each status to the statuses it may move to.
+ * Specs choose one through the `taskTransitions` key of `.config.kiro`:
+ *
+ * - `"strict"` (or key absent) — use DEFAULT_TASK_TRANSITIONS
+ * - `"any"` — no restrictions (explicit opt-out)
+ * - an object such as `{ "completed": ["in_progress"] }` — overrides the
+ *   listed statuses on top of the strict defaults
+ *
+ * Re-applying the current status is always allowed.
+ */
+
+import type { TaskStatus } from '../types.js';
+
+/** Allowed target statuses for each source status */
+export type TransitionPolicy = Record<TaskStatus, TaskStatus[]>;
+
+/** A transition rejected by a policy */
+export interface TransitionViolation {
+  taskId: string;
+  from: TaskStatus;
+  to: TaskStatus;
+}
+
+const ALL_STATUSES: readonly TaskStatus[] = ['not_started', 'queued', 'in_progress', 'completed', 'failed'];
+
+/**
+ * Strict lifecycle: work moves forward through queued/in_progress to
+ * completed or failed; completed tasks cannot be reopened and tasks
+ * cannot jump straight from not started to completed.
+ */
+export const DEFAULT_TASK_TRANSITIONS: TransitionPolicy = {
+  not_started: ['queued', 'in_progress'],
+  queued: ['not_started', 'in_progress'],
+  in_progress: ['completed', 'failed', 'not_started'],
+  failed: ['not_started', 'queued', 'in_progress'],
+  completed: [],
+};
+
+/**
+ * Resolve the transition policy declared by a spec config.
+ * @param config - Parsed `.config.kiro` contents
+ * @returns The policy to enforce, or null when the spec opts out with "any"
+ * @throws Error if `taskTransitions` is present but malformed
+ */
+export function resolveTransitionPolicy(config: Record<string, unknown>): TransitionPolicy | null {
+  const raw = config.taskTransitions;
+
+  if (raw === 'any') {
+    return null;
+  }
+
+  if (raw === undefined || raw === 'strict') {
+    return DEFAULT_TASK_TRANSITIONS;
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('taskTransitions must be "strict", "any" or an object of status lists');
+  }
+
+  const policy: TransitionPolicy = { ...DEFAULT_TASK_TRANSITIONS };
+  for (const [from, targets] of Object.entries(raw as Record<string, unknown>)) {
+    if (!ALL_STATUSES.includes(from as TaskStatus)) {
+      throw new Error(`taskTransitions has unknown status "${from}"`);
+    }
+    if (!Array.isArray(targets) || targets.some(t => !ALL_STATUSES.includes(t as TaskStatus))) {
+      throw new Error(`taskTransitions.${from} must be a list of task statuses`);
+    }
+    policy[from as TaskStatus] = targets as TaskStatus[];
+  }
+
+  return policy;
+}
+
+/**
+ * Check whether a policy allows moving from one status to another.
+ */
+export function isTransitionAllowed(policy: TransitionPolicy, from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || policy[from].includes(to);
+}
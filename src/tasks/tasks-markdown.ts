@@ -0,0 +1,294 @@
+/**
+ * TasksMarkdown - Lossless tasks.md document model
+ *
+ * Parses tasks.md into a flat list of classified lines: task lines
+ * (`- [x]* 1.2.3 Title`), other checkbox lines, detail lines belonging to
+ * a task (`_Requirements:_`, `_Depends:_`, `_Failure:_` and free notes) and
+ * prose. Serialising an unmodified document reproduces the input byte for
+ * byte; edits touch only the lines they change.
+ *
+ * This is the single source of truth for checkbox syntax — TaskTracker,
+ * TaskGroupResolver, the verifiers and TasksGenerator all go through it.
+ */
+
+import type { TaskStatus } from '../types.js';
+
+/** Checkbox marker for each status */
+export const STATUS_MARKERS: Readonly<Record<TaskStatus, string>> = {
+  not_started: ' ',
+  in_progress: '-',
+  completed: 'x',
+  failed: '!',
+  queued: '~',
+};
+
+/** A checkbox line with a recognised marker and a numeric task ID */
+export interface TaskLine {
+  kind: 'task';
+  indent: string;
+  /** Raw text between the brackets */
+  marker: string;
+  status: TaskStatus;
+  /** `*` (or escaped `\*`) after the checkbox, empty when not optional */
+  optionalMarker: string;
+  isOptional: boolean;
+  /** Whitespace between the checkbox and the ID */
+  spacing: string;
+  id: string;
+  /** `.` when written as `1. Title`, otherwise empty */
+  idSuffix: string;
+  /** Everything after the ID, verbatim */
+  rest: string;
+  /** Trimmed title */
+  text: string;
+  /** 1 = group, 2 = subgroup, 3+ = leaf */
+  depth: number;
+}
+
+/** A checkbox line that is not a task: no numeric ID or an unknown marker */
+export interface CheckboxLine {
+  kind: 'checkbox';
+  raw: string;
+  marker: string;
+  /** Whether the marker is one of STATUS_MARKERS */
+  validMarker: boolean;
+}
+
+/** A deeper-indented line under a task */
+export interface DetailLine {
+  kind: 'detail';
+  raw: string;
+  /** IDs from `_Requirements: ..._` */
+  requirements: string[];
+  /** IDs from `_Depends: ..._` */
+  dependsOn: string[];
+  /** Reason from `_Failure: ..._`, or null */
+  failureReason: string | null;
+}
+
+/** Headings, blank lines, code and any other free text */
+export interface ProseLine {
+  kind: 'prose';
+  raw: string;
+}
+
+export type TasksLine = TaskLine | CheckboxLine | DetailLine | ProseLine;
+
+/** `- [x]* 1.2.3 Title` — the marker is validated separately */
+const TASK_LINE_RE = /^(\s*)- \[([^\]]*)\](\\?\*)?(\s*)(\d+(?:\.\d+)*)(\.?)((?:\s[\s\S]*)?)$/;
+
+/** Any checkbox list item */
+const CHECKBOX_LINE_RE = /^\s*- \[([^\]]*)\]\\?\*?\s/;
+
+const REQUIREMENTS_RE = /_Requirements:\s*(.+?)_/;
+const DEPENDS_RE = /_Depends:\s*(.+?)_/;
+const FAILURE_RE = /_Failure:\s*(.*)_\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Map a checkbox marker to a status, or null if it is not recognised.
+ */
+export function markerToStatus(marker: string): TaskStatus | null {
+  for (const [status, ch] of Object.entries(STATUS_MARKERS)) {
+    if (ch === marker) return status as TaskStatus;
+  }
+  return null;
+}
+
+/**
+ * Format a new task line.
+ */
+export function formatTaskLine(task: {
+  id: string;
+  text: string;
+  status?: TaskStatus;
+  isOptional?: boolean;
+  indent?: string;
+}): string {
+  const marker = STATUS_MARKERS[task.status ?? 'not_started'];
+  return `${task.indent ?? ''}- [${marker}]${task.isOptional ? '*' : ''} ${task.id} ${task.text}`;
+}
+
+function splitIds(list: string): string[] {
+  return list.split(',').map(s => s.trim().replace(/\.$/, '')).filter(s => s.length > 0);
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+function createDetailLine(raw: string): DetailLine {
+  const requirements = raw.match(REQUIREMENTS_RE);
+  const depends = raw.match(DEPENDS_RE);
+  const failure = raw.match(FAILURE_RE);
+  return {
+    kind: 'detail',
+    raw,
+    requirements: requirements ? splitIds(requirements[1]) : [],
+    dependsOn: depends ? splitIds(depends[1]) : [],
+    failureReason: failure ? failure[1].trim() : null,
+  };
+}
+
+function renderLine(line: TasksLine): string {
+  if (line.kind === 'task') {
+    return `${line.indent}- [${line.marker}]${line.optionalMarker}${line.spacing}${line.id}${line.idSuffix}${line.rest}`;
+  }
+  return line.raw;
+}
+
+export class TasksMarkdown {
+  private constructor(readonly lines: TasksLine[]) {}
+
+  /**
+   * Parse tasks.md content. Never throws; unrecognised lines become prose.
+   */
+  static parse(content: string): TasksMarkdown {
+    const lines: TasksLine[] = [];
+    let owner: TaskLine | null = null;
+    let inFence = false;
+
+    for (const raw of content.split('\n')) {
+      if (FENCE_RE.test(raw) || inFence) {
+        if (FENCE_RE.test(raw)) inFence = !inFence;
+        lines.push({ kind: 'prose', raw });
+        owner = null;
+        continue;
+      }
+
+      const task = raw.match(TASK_LINE_RE);
+      const status = task ? markerToStatus(task[2]) : null;
+      if (task && status) {
+        const [, indent, marker, optionalMarker = '', spacing, id, idSuffix, rest] = task;
+        owner = {
+          kind: 'task',
+          indent,
+          marker,
+          status,
+          optionalMarker,
+          isOptional: optionalMarker !== '',
+          spacing,
+          id,
+          idSuffix,
+          rest,
+          text: rest.trim(),
+          depth: id.split('.').length,
+        };
+        lines.push(owner);
+        continue;
+      }
+
+      const checkbox = raw.match(CHECKBOX_LINE_RE);
+      if (checkbox) {
+        lines.push({ kind: 'checkbox', raw, marker: checkbox[1], validMarker: markerToStatus(checkbox[1]) !== null });
+        owner = null;
+        continue;
+      }
+
+      if (!raw.trim()) {
+        lines.push({ kind: 'prose', raw });
+        continue;
+      }
+
+      if (owner && leadingWhitespace(raw).length > owner.indent.length) {
+        lines.push(createDetailLine(raw));
+        continue;
+      }
+
+      lines.push({ kind: 'prose', raw });
+      owner = null;
+    }
+
+    return new TasksMarkdown(lines);
+  }
+
+  /**
+   * Serialise the document back to tasks.md content.
+   */
+  toString(): string {
+    return this.lines.map(renderLine).join('\n');
+  }
+
+  /**
+   * All task lines in document order.
+   */
+  tasks(): TaskLine[] {
+    return this.lines.filter((l): l is TaskLine => l.kind === 'task');
+  }
+
+  /**
+   * Find the first task with an exact ID.
+   */
+  findTask(taskId: string): TaskLine | undefined {
+    return this.tasks().find(t => t.id === taskId);
+  }
+
+  /**
+   * Detail lines belonging to a task, in order.
+   */
+  detailsOf(task: TaskLine): DetailLine[] {
+    const [start, end] = this.detailRange(task);
+    return this.lines.slice(start, end).filter((l): l is DetailLine => l.kind === 'detail');
+  }
+
+  /**
+   * 1-based line numbers of checkbox lines whose marker is not recognised.
+   */
+  invalidCheckboxLines(): number[] {
+    const result: number[] = [];
+    this.lines.forEach((line, i) => {
+      if (line.kind === 'checkbox' && !line.validMarker) result.push(i + 1);
+    });
+    return result;
+  }
+
+  /**
+   * Set a task's checkbox status.
+   * @returns false if the task does not exist
+   */
+  setStatus(taskId: string, status: TaskStatus): boolean {
+    const task = this.findTask(taskId);
+    if (!task) return false;
+    task.status = status;
+    task.marker = STATUS_MARKERS[status];
+    return true;
+  }
+
+  /**
+   * Set or clear the `_Failure: ..._` detail line under a task. A new
+   * reason becomes the task's first detail line.
+   * @returns false if the task does not exist
+   */
+  setFailureReason(taskId: string, reason: string | null): boolean {
+    const task = this.findTask(taskId);
+    if (!task) return false;
+
+    const [start, end] = this.detailRange(task);
+    const kept = this.lines.slice(start, end).filter(l => !(l.kind === 'detail' && l.failureReason !== null));
+    if (reason !== null) {
+      kept.unshift(createDetailLine(`${task.indent}  - _Failure: ${reason.replace(/\s+/g, ' ').trim()}_`));
+    }
+    this.lines.splice(start, end - start, ...kept);
+    return true;
+  }
+
+  /**
+   * Index range [start, end) of the lines after a task that belong to it:
+   * its detail lines and any blank lines between them.
+   */
+  private detailRange(task: TaskLine): [number, number] {
+    const start = this.lines.indexOf(task) + 1;
+    let end = start;
+    let lastDetail = start;
+    while (end < this.lines.length) {
+      const line = this.lines[end];
+      if (line.kind === 'detail') {
+        lastDetail = end + 1;
+      } else if (!(line.kind === 'prose' && !line.raw.trim())) {
+        break;
+      }
+      end++;
+    }
+    return [start, lastDetail];
+  }
+}
@@ -6,3 +6,4 @@
 
 export { SkillTransformer, type CreateSpecResult, type FileSystemOperations } from './skill-transformer.js';
 export { SkillCLIGenerator, type CLIInvocation } from './skill-cli-generator.js';
+export { resolvePartials } from './skill-partials.js';
@@ -0,0 +1,60 @@
+/**
+ * Skill Partials - Resolve `{{> name}}` includes in canonical skills
+ *
+ * A partial can include other partials. For a platform, a partial in the
+ * skill's `platformOverrides[platform].partials` (or that of a platform it
+ * extends) replaces the shared one of the same name.
+ */
+
+import type { CanonicalSkill, PlatformId } from '../types.js';
+import { platformRegistry } from '../registry/platform-registry.js';
+
+const PARTIAL_INCLUDE = /\{\{>\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Resolve every partial include in a skill's instructions and in the overrides of a
+ * platform and the platforms it extends.
+ * @param partials - Shared partials by name
+ * @throws Error naming the skill and the include chain of an unknown partial or a cycle
+ */
+export function resolvePartials(
+  skill: CanonicalSkill,
+  platform: PlatformId,
+  partials: Record<string, string>
+): CanonicalSkill {
+  const chain = [platform, ...platformRegistry.lineage(platform).slice(1)];
+  const lookup = (name: string): string | undefined => {
+    for (const id of chain) {
+      const override = skill.platformOverrides?.[id]?.partials?.[name];
+      if (override !== undefined) return override;
+    }
+    return partials[name];
+  };
+
+  const expand = (text: string, stack: string[]): string =>
+    text.replace(PARTIAL_INCLUDE, (_, name: string) => {
+      if (stack.includes(name)) {
+        throw new Error(`Partial include cycle in skill ${skill.name}: ${[...stack.slice(stack.indexOf(name)), name].join(' -> ')}`);
+      }
+      const content = lookup(name);
+      if (content === undefined) {
+        const chain = stack.length > 0 ? `: ${[...stack, name].join(' -> ')}` : '';
+        throw new Error(`Unknown partial "${name}" in skill ${skill.name}${chain}`);
+      }
+      return expand(content.trim(), [...stack, name]);
+    });
+
+  // Other platforms' overrides may include partials only they define; leave them as written
+  const platformOverrides = skill.platformOverrides && Object.fromEntries(
+    Object.entries(skill.platformOverrides).map(([id, override]) => [id, override && chain.includes(id) ? {
+      ...override,
+      ...(override.instructions !== undefined ? { instructions: expand(override.instructions, []) } : {}),
+      ...(override.additionalContent !== undefined ? { additionalContent: expand(override.additionalContent, []) } : {}),
+    } : override])
+  );
+  return {
+    ...skill,
+    instructions: expand(skill.instructions, []),
+    ...(platformOverrides ? { platformOverrides } : {}),
+  };
+}
@@ -10,6 +10,8 @@ import type { SkillRegistry } from '../registry/skill-registry.js';
 import type { PlatformId, PlatformSkill, SpecConfig } from '../types.js';
 import { isDirectorySkill, isSingleFileSkill } from '../types.js';
 import { SkillCLIGenerator } from './skill-cli-generator.js';
+import { formatToml, parseToml } from '../adapters/toml.js';
+import { platformRegistry } from '../registry/platform-registry.js';
 
 /**
  * Result of a spec folder creation operation
@@ -41,7 +43,7 @@ export class SkillTransformer {
    * @param skillName - The name of the skill to transform
    * @param targetPlatform - The platform to transform the skill for
    * @returns The platform-specific skill output
-   * @throws Error if skill not found or platform not supported
+   * @throws Error if skill not found, platform not supported, or a partial include cannot be resolved
    * Requirements: 7.1, 7.6
    */
   transformForPlatform(skillName: string, targetPlatform: PlatformId): PlatformSkill {
@@ -50,7 +52,7 @@ export class SkillTransformer {
       throw new Error(`Skill not found: ${skillName}`);
     }
 
-    if (!skill.supportedPlatforms.includes(targetPlatform)) {
+    if (!platformRegistry.supports(skill, targetPlatform)) {
       throw new Error(
         `Skill '${skillName}' does not support platform '${targetPlatform}'. ` +
         `Supported platforms: ${skill.supportedPlatforms.join(', ')}`
@@ -62,7 +64,7 @@ export class SkillTransformer {
       throw new Error(`No adapter found for platform: ${targetPlatform}`);
     }
 
-    const platformSkill = adapter.formatSkill(skill);
+    const platformSkill = this.registry.render(skill, adapter);
     return this.injectCLIInstructions(platformSkill, skillName, targetPlatform);
   }
 
@@ -85,7 +87,7 @@ export class SkillTransformer {
     for (const platform of skill.supportedPlatforms) {
       const adapter = this.adapters.get(platform);
       if (adapter) {
-        const platformSkill = adapter.formatSkill(skill);
+        const platformSkill = this.registry.render(skill, adapter);
         results.set(platform, this.injectCLIInstructions(platformSkill, skillName, platform));
       }
     }
@@ -114,9 +116,16 @@ export class SkillTransformer {
       return platformSkill;
     }
 
+    if (isSingleFileSkill(platformSkill) && platformSkill.format === 'toml') {
+      // Append to the prompt rather than after the TOML document
+      const fields = parseToml(platformSkill.content);
+      fields.set('prompt', (fields.get('prompt') ?? '') + cliSection);
+      return { ...platformSkill, content: formatToml(Object.fromEntries(fields)) };
+    }
+
     if (isSingleFileSkill(platformSkill)) {
       return {
-        filename: platformSkill.filename,
+        ...platformSkill,
         content: platformSkill.content + cliSection,
       };
     }
@@ -130,7 +139,7 @@ export class SkillTransformer {
         return file;
       });
       return {
-        directory: platformSkill.directory,
+        ...platformSkill,
         files,
       };
     }
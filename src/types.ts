@@ -2,8 +2,11 @@
  * Core type definitions for the Context Engineering Framework
  */
 
-// Platform identifiers for supported AI coding agent platforms
-export type PlatformId = 'kiro' | 'claude-code' | 'codex' | 'antigravity' | 'amazonq';
+// Platform identifiers for the AI coding agent platforms shipped with the framework
+export type BuiltinPlatformId = 'kiro' | 'claude-code' | 'codex' | 'antigravity' | 'amazonq' | 'cursor' | 'copilot' | 'gemini-cli';
+
+// Platform identifiers, including platforms registered from `.sdd/platforms/*.json`
+export type PlatformId = BuiltinPlatformId | (string & {});
 
 // Task status indicators matching checkbox syntax
 export type TaskStatus = 'not_started' | 'in_progress' | 'completed' | 'failed' | 'queued';
@@ -39,21 +42,41 @@ export interface CanonicalSkill extends SkillMetadata {
     [K in PlatformId]?: Partial<{
       instructions: string;
       additionalContent: string;
+      /** Partials replacing the shared ones of the same name */
+      partials: Record<string, string>;
     }>;
   };
 }
 
 
 /**
- * Single file skill output (Kiro, Claude Code)
+ * File format of a skill's content
+ */
+export type SkillFileFormat = 'markdown' | 'toml';
+
+/**
+ * A file installed alongside a skill but outside the skills directory,
+ * such as a Claude Code slash command
+ */
+export interface SkillCompanionFile {
+  /** Path relative to the workspace root */
+  path: string;
+  content: string;
+}
+
+/**
+ * Single file skill output (Kiro, Cursor, Copilot, Gemini CLI)
  */
 export interface SingleFileSkill {
   filename: string;
   content: string;
+  /** Defaults to 'markdown' */
+  format?: SkillFileFormat;
+  companionFiles?: SkillCompanionFile[];
 }
 
 /**
- * Directory-based skill output (Codex, Antigravity)
+ * Directory-based skill output (Claude Code, Codex, Antigravity)
  */
 export interface DirectorySkill {
   directory: string;
@@ -61,6 +84,7 @@ export interface DirectorySkill {
     filename: string;
     content: string;
   }>;
+  companionFiles?: SkillCompanionFile[];
 }
 
 /**
@@ -196,6 +220,8 @@ export interface TransformResult {
   targetDir: string;
   filesTransformed: number;
   errors: string[];
+  /** Problems that did not stop the transformation, e.g. stale instructions */
+  warnings?: string[];
 }
 
 /**
@@ -7,11 +7,8 @@
 
 import * as path from 'path';
 import type { PlatformId, TaskStatus, ValidationResult } from '../types.js';
-
-/**
- * Valid platforms for the SDD framework
- */
-const VALID_PLATFORMS: readonly PlatformId[] = ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq'] as const;
+import { isTaskId, parseTaskSelector } from '../tasks/task-selector.js';
+import { platformRegistry } from '../registry/platform-registry.js';
 
 /**
  * Valid task status values
@@ -24,11 +21,6 @@ const VALID_TASK_STATUSES: readonly TaskStatus[] = ['not_started', 'in_progress'
  */
 const KEBAB_CASE_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
 
-/**
- * Task ID pattern: major.minor format (e.g., "1.1", "2.3", "10.15")
- */
-const TASK_ID_PATTERN = /^\d+\.\d+$/;
-
 export class Validator {
   /**
    * Check if a string is valid kebab-case
@@ -41,12 +33,12 @@ export class Validator {
   }
 
   /**
-   * Check if a string is a valid platform identifier
+   * Check if a string is a valid platform identifier (a built-in or registered platform)
    * @param platform - The string to validate
    * @returns true if valid platform, false otherwise
    */
   static isValidPlatform(platform: string): platform is PlatformId {
-    return VALID_PLATFORMS.includes(platform as PlatformId);
+    return platformRegistry.has(platform);
   }
 
   /**
@@ -59,13 +51,13 @@ export class Validator {
   }
 
   /**
-   * Check if a string is a valid task ID (major.minor format)
+   * Check if a string is a valid task ID: two or more dotted numbers, as in task selectors
    * @param taskId - The string to validate
    * @returns true if valid task ID, false otherwise
    */
   static isValidTaskId(taskId: string): boolean {
     if (!taskId || typeof taskId !== 'string') return false;
-    return TASK_ID_PATTERN.test(taskId);
+    return isTaskId(taskId);
   }
 
   /**
@@ -150,7 +142,7 @@ export class Validator {
         valid: false,
         errors: [{
           code: 'INVALID_PLATFORM',
-          message: `Platform "${platform}" is not valid. Expected one of: ${VALID_PLATFORMS.join(', ')}`
+          message: `Platform "${platform}" is not valid. Expected one of: ${platformRegistry.ids().join(', ')}`
         }],
         warnings: []
       };
@@ -212,7 +204,40 @@ export class Validator {
         valid: false,
         errors: [{
           code: 'INVALID_TASK_ID',
-          message: `Task ID "${taskId}" is not valid. Expected format: major.minor (e.g., "1.1", "2.3")`
+          message: `Task ID "${taskId}" is not valid. Expected dotted numbers (e.g., "1.1", "1.1.1")`
+        }],
+        warnings: []
+      };
+    }
+
+    return { valid: true, errors: [], warnings: [] };
+  }
+
+  /**
+   * Validate a bulk task selector (ID list, wildcard or range) and return detailed result
+   * @param selector - The selector to validate, e.g. "1.2.*" or "1.1.1..1.1.4"
+   * @returns ValidationResult with error details if invalid
+   */
+  static validateTaskSelector(selector: string): ValidationResult {
+    if (!selector || typeof selector !== 'string') {
+      return {
+        valid: false,
+        errors: [{
+          code: 'INVALID_TASK_ID',
+          message: 'Task selector is required and must be a string'
+        }],
+        warnings: []
+      };
+    }
+
+    try {
+      parseTaskSelector(selector);
+    } catch (err) {
+      return {
+        valid: false,
+        errors: [{
+          code: 'INVALID_TASK_ID',
+          message: `${err instanceof Error ? err.message : String(err)}. Expected task IDs, wildcards or ranges (e.g., "1.2.*", "1.1.1..1.1.4", "1.1,1.2")`
         }],
         warnings: []
       };
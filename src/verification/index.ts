@@ -30,3 +30,7 @@ export {
 export {
   SkillVerifier,
 } from './skill-verifier.js';
+
+export {
+  SkillLockVerifier,
+} from './skill-lock-verifier.js';
@@ -6,26 +6,18 @@
 
 import * as path from 'path';
 import type { PlatformId } from '../types.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
 import type { VerifyFileSystem } from './verify-file-system.js';
 import type { VerificationCheck } from './verification-data.js';
 
-/**
- * Platform-to-instructions-file mapping, derived from PlatformAdapter.instructionsFile.
- * null means the platform has no separate instructions file (e.g. Kiro uses steering).
- */
-const PLATFORM_INSTRUCTIONS: Record<PlatformId, string | null> = {
-  kiro: null,
-  'claude-code': 'CLAUDE.md',
-  codex: 'AGENTS.md',
-  antigravity: '.agent/rules/specs.md',
-  amazonq: null,
-};
-
 /**
  * Verifies platform-specific workspace structure after workspace-init.
  */
 export class PlatformVerifier {
-  constructor(private fs: VerifyFileSystem) {}
+  constructor(
+    private fs: VerifyFileSystem,
+    private platforms: PlatformRegistry = platformRegistry
+  ) {}
 
   async verify(platform: PlatformId, workspaceRoot: string): Promise<VerificationCheck[]> {
     const checks: VerificationCheck[] = [];
@@ -44,7 +36,8 @@ export class PlatformVerifier {
     });
 
     // 2. Platform-specific instructions file — Req 5.2, 5.3, 5.4, 5.5
-    const instructionsFile = PLATFORM_INSTRUCTIONS[platform];
+    // null means the platform has no separate instructions file (e.g. Kiro uses steering)
+    const instructionsFile = this.platforms.get(platform)?.instructionsFile ?? null;
     if (instructionsFile !== null) {
       const instrPath = path.join(workspaceRoot, instructionsFile);
       const instrExists = await this.fs.exists(instrPath);
@@ -0,0 +1,118 @@
+/**
+ * SkillLockVerifier - Compares installed skills with `.sdd/lock.json`
+ *
+ * Reports skills whose files are missing, were edited after install
+ * (modified) or no longer match the canonical skill (stale).
+ */
+
+import * as path from 'path';
+import type { PlatformId } from '../types.js';
+import type { SkillRegistry } from '../registry/skill-registry.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
+import { SKILL_LOCK_FILE, hashContent, parseSkillLock, skillFiles, type SkillLockEntry } from '../registry/skill-lock.js';
+import type { VerifyFileSystem } from './verify-file-system.js';
+import type { VerificationCheck } from './verification-data.js';
+
+/**
+ * Verifies the skills a lock file records for a platform.
+ * Without a skill registry, stale skills are not detected.
+ */
+export class SkillLockVerifier {
+  constructor(
+    private fs: VerifyFileSystem,
+    private skills?: SkillRegistry,
+    private platforms: PlatformRegistry = platformRegistry
+  ) {}
+
+  /**
+   * @returns One check per locked skill; none when there is no lock file
+   */
+  async verify(platform: PlatformId, workspaceRoot: string): Promise<VerificationCheck[]> {
+    const lockPath = path.join(workspaceRoot, SKILL_LOCK_FILE);
+    if (!await this.fs.exists(lockPath)) {
+      return [];
+    }
+
+    let entries: SkillLockEntry[];
+    try {
+      entries = parseSkillLock(await this.fs.readFile(lockPath)).skills.filter(e => e.platform === platform);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      return [{
+        name: `${SKILL_LOCK_FILE} readable`,
+        passed: false,
+        expected: 'valid lock file',
+        actual: `invalid: ${errMsg}`,
+        message: `Failed to read ${SKILL_LOCK_FILE}: ${errMsg}`,
+      }];
+    }
+
+    const bySkill = new Map<string, SkillLockEntry[]>();
+    for (const entry of entries) {
+      bySkill.set(entry.skill, [...(bySkill.get(entry.skill) ?? []), entry]);
+    }
+
+    const checks: VerificationCheck[] = [];
+    for (const [skillName, skillEntries] of bySkill) {
+      const missing: string[] = [];
+      const modified: string[] = [];
+      for (const entry of skillEntries) {
+        const filePath = path.join(workspaceRoot, entry.path);
+        if (!await this.fs.exists(filePath)) {
+          missing.push(entry.path);
+        } else if (hashContent(await this.fs.readFile(filePath)) !== entry.hash) {
+          modified.push(entry.path);
+        }
+      }
+      const stale = this.findStale(platform, skillName, skillEntries);
+
+      const problems = [
+        ...(missing.length > 0 ? [`missing ${missing.join(', ')}`] : []),
+        ...(modified.length > 0 ? [`modified ${modified.join(', ')}`] : []),
+        ...(stale ? [`stale (${stale})`] : []),
+      ];
+      checks.push({
+        name: `Skill ${skillName} matches ${SKILL_LOCK_FILE}`,
+        passed: problems.length === 0,
+        expected: 'installed files unchanged and current',
+        actual: problems.length === 0 ? 'up to date' : problems.join('; '),
+        message: problems.length === 0
+          ? `Skill ${skillName} ${skillEntries[0].version} is installed as recorded`
+          : `Skill ${skillName} is ${problems.join('; ')}; run install-skills --force --skills ${skillName} to reinstall it`,
+      });
+    }
+    return checks;
+  }
+
+  /**
+   * Compare the locked hashes with what install-skills would write today.
+   * @returns Why the skill is stale, or undefined when it is current
+   */
+  private findStale(platform: PlatformId, skillName: string, entries: SkillLockEntry[]): string | undefined {
+    if (!this.skills) {
+      return undefined;
+    }
+    const skill = this.skills.get(skillName);
+    const adapter = this.platforms.createAdapter(platform);
+    if (!skill || !adapter) {
+      return 'no longer provided';
+    }
+
+    let platformSkill;
+    try {
+      platformSkill = this.skills.render(skill, adapter);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+    const current = new Map(
+      skillFiles(adapter.getSkillsDirectory(), platformSkill).map(f => [f.path, hashContent(f.content)])
+    );
+    const changed = current.size !== entries.length || entries.some(e => current.get(e.path) !== e.hash);
+    if (!changed) {
+      return undefined;
+    }
+    return skill.version === entries[0].version
+      ? 'canonical skill changed'
+      : `${entries[0].version} installed, ${skill.version} available`;
+  }
+}
@@ -6,25 +6,22 @@
 
 import * as path from 'path';
 import type { PlatformId } from '../types.js';
+import { parseToml } from '../adapters/toml.js';
+import { parseFrontmatter } from '../adapters/frontmatter.js';
+import { renderTemplate } from '../adapters/declarative-adapter.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
 import type { VerifyFileSystem } from './verify-file-system.js';
 import type { VerificationCheck } from './verification-data.js';
 
-/**
- * Platform-specific skills directory paths (from adapters).
- */
-const PLATFORM_SKILLS_PATH: Record<PlatformId, string> = {
-  kiro: '.kiro/skills/',
-  'claude-code': '.claude/skills/',
-  codex: '.codex/skills/',
-  antigravity: '.agent/skills/',
-  amazonq: '.amazonq/rules/',
-};
-
 /**
  * Verifies skill files were installed correctly for a platform.
+ * Skill paths and layout come from the platform's definition.
  */
 export class SkillVerifier {
-  constructor(private fs: VerifyFileSystem) {}
+  constructor(
+    private fs: VerifyFileSystem,
+    private platforms: PlatformRegistry = platformRegistry
+  ) {}
 
   async verify(
     platform: PlatformId,
@@ -32,32 +29,60 @@ export class SkillVerifier {
     workspaceRoot: string
   ): Promise<VerificationCheck[]> {
     const checks: VerificationCheck[] = [];
-    const skillsBase = path.join(workspaceRoot, PLATFORM_SKILLS_PATH[platform]);
-    const isCodex = platform === 'codex';
+    const definition = this.platforms.get(platform);
+    if (!definition) {
+      checks.push({
+        name: `Platform ${platform} registered`,
+        passed: false,
+        expected: 'registered platform',
+        actual: 'unknown platform',
+        message: `No platform definition found for ${platform}`,
+      });
+      return checks;
+    }
+
+    const skillsBase = path.join(workspaceRoot, definition.skillsPath);
+    const { layout, extension = '.md', fileName = 'SKILL.md', format, fields = {}, legacyFiles = [] } = definition.skill;
+    const isDirectory = layout === 'directory';
+    // TOML skills carry the instructions in the field rendered from the body
+    const tomlBodyKey = Object.keys(fields).find(key => fields[key] === '{{body}}') ?? 'prompt';
+    // Platforms that discover skills by a frontmatter name need it to match
+    const nameKey = format === 'toml' ? undefined : Object.keys(fields).find(key => fields[key] === '{{name}}');
 
     for (const skillName of skillNames) {
       // Determine skill file path based on platform — Req 6.1, 6.4
-      const skillPath = isCodex
-        ? path.join(skillsBase, skillName, 'SKILL.md')
-        : path.join(skillsBase, `${skillName}.md`);
+      const skillFile = isDirectory
+        ? `${skillName}/${fileName}`
+        : `${skillName}${extension}`;
+      const skillPath = path.join(skillsBase, skillFile);
 
       // Check existence — Req 6.1
       const exists = await this.fs.exists(skillPath);
+      const legacyFile = exists ? undefined : await this.findLegacyFile(skillsBase, skillName, legacyFiles);
       checks.push({
         name: `Skill ${skillName} exists`,
         passed: exists,
         expected: 'file present',
-        actual: exists ? 'file present' : 'file missing',
+        actual: exists ? 'file present' : legacyFile ? 'legacy layout' : 'file missing',
         message: exists
-          ? `Skill file found at ${isCodex ? `${skillName}/SKILL.md` : `${skillName}.md`}`
-          : `Skill file missing at ${isCodex ? `${skillName}/SKILL.md` : `${skillName}.md`}`,
+          ? `Skill file found at ${skillFile}`
+          : legacyFile
+            ? `Skill file missing at ${skillFile}; found ${legacyFile} from an earlier layout, run install-skills to migrate it`
+            : `Skill file missing at ${skillFile}`,
       });
 
       if (!exists) continue;
 
       // Check non-empty — Req 6.2
       try {
-        const content = await this.fs.readFile(skillPath);
+        let content = await this.fs.readFile(skillPath);
+
+        if (format === 'toml') {
+          content = this.checkTomlBody(skillName, content, tomlBodyKey, checks);
+        } else if (nameKey) {
+          this.checkFrontmatterName(skillName, content, nameKey, checks);
+        }
+
         const nonEmpty = content.trim().length > 0;
         checks.push({
           name: `Skill ${skillName} non-empty`,
@@ -91,8 +116,8 @@ export class SkillVerifier {
         });
       }
 
-      // For Codex: also verify directory structure — Req 6.4
-      if (isCodex) {
+      // For directory-based skills: also verify directory structure — Req 6.4
+      if (isDirectory) {
         const skillDir = path.join(skillsBase, skillName);
         const dirExists = await this.fs.isDirectory(skillDir);
         checks.push({
@@ -101,12 +126,68 @@ export class SkillVerifier {
           expected: 'skill directory present',
           actual: dirExists ? 'directory present' : 'directory missing',
           message: dirExists
-            ? `Codex skill directory ${skillName}/ found`
-            : `Codex skill directory ${skillName}/ missing`,
+            ? `Skill directory ${skillName}/ found`
+            : `Skill directory ${skillName}/ missing`,
         });
       }
     }
 
     return checks;
   }
+
+  /**
+   * Find a file an earlier layout wrote for the skill.
+   * @returns Its path relative to the skills directory, or undefined
+   */
+  private async findLegacyFile(skillsBase: string, skillName: string, legacyFiles: string[]): Promise<string | undefined> {
+    for (const legacyFile of legacyFiles) {
+      const file = renderTemplate(legacyFile, { name: skillName });
+      if (await this.fs.exists(path.join(skillsBase, file))) {
+        return file;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check that a skill's frontmatter names it, so the platform can discover it.
+   */
+  private checkFrontmatterName(skillName: string, content: string, key: string, checks: VerificationCheck[]): void {
+    const name = parseFrontmatter(content)?.fields.get(key);
+    checks.push({
+      name: `Skill ${skillName} frontmatter`,
+      passed: name === skillName,
+      expected: `${key}: ${skillName}`,
+      actual: name === undefined ? `${key} missing` : `${key}: ${name}`,
+      message: name === skillName
+        ? `Skill frontmatter names ${skillName}`
+        : `Skill frontmatter ${name === undefined ? `has no ${key}` : `names ${name}`}, expected ${skillName}`,
+    });
+  }
+
+  /**
+   * Check that a TOML skill parses and has its body field (e.g. `prompt`).
+   * @returns The body, or an empty string if missing
+   */
+  private checkTomlBody(skillName: string, content: string, key: string, checks: VerificationCheck[]): string {
+    let body: string | undefined;
+    let actual: string;
+    try {
+      body = parseToml(content).get(key);
+      actual = body !== undefined ? `${key} present` : `${key} missing`;
+    } catch (err) {
+      actual = err instanceof Error ? err.message : String(err);
+    }
+
+    checks.push({
+      name: `Skill ${skillName} TOML valid`,
+      passed: body !== undefined,
+      expected: `TOML with a ${key}`,
+      actual,
+      message: body !== undefined
+        ? `Skill TOML parsed with a ${key}`
+        : `Skill TOML invalid: ${actual}`,
+    });
+    return body ?? '';
+  }
 }
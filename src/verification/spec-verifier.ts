@@ -7,17 +7,50 @@
 import * as path from 'path';
 import type { VerifyFileSystem } from './verify-file-system.js';
 import type { VerificationCheck } from './verification-data.js';
-
-/** Valid checkbox markers for tasks.md validation (includes ~ for backward compat) */
-const VALID_CHECKBOX_MARKERS = [' ', 'x', '-', '!', '~'] as const;
-
-/** Matches lines like "- [ ] 1.1 Task text" or "- [x]* 2.1 Optional task" */
-const CHECKBOX_PATTERN = /^(\s*)- \[([^\]]*)\]\*?\s+/;
+import { TaskGroupResolver } from '../tasks/task-group-resolver.js';
+import { TasksMarkdown } from '../tasks/tasks-markdown.js';
+import {
+  parseRequirementsDocument,
+  validateRequirementsDocument,
+  type RequirementsIssue
+} from '../documents/requirements-document.js';
+import {
+  parseDesignDocument,
+  missingDesignSections,
+  findTaskPropertyReferences,
+  type DesignSection
+} from '../documents/design-document.js';
 
 const VALID_GENERATION_MODES = ['requirements-first', 'design-first'] as const;
 
 const REQUIRED_FILES = ['requirements.md', 'design.md', 'tasks.md'] as const;
 
+const DEPENDENCY_CHECKS = ['tasks.md dependencies resolve', 'tasks.md dependencies acyclic'] as const;
+
+/** One check per RequirementsIssue kind */
+const REQUIREMENTS_CHECKS: ReadonlyArray<{ name: string; kind: RequirementsIssue['kind']; expected: string; passMessage: string }> = [
+  {
+    name: 'requirements.md acceptance criteria well-formed',
+    kind: 'malformed-criterion',
+    expected: 'every criterion follows an EARS pattern',
+    passMessage: 'All acceptance criteria follow an EARS pattern',
+  },
+  {
+    name: 'requirements.md IDs unique',
+    kind: 'duplicate-id',
+    expected: 'no duplicate requirement or criterion numbers',
+    passMessage: 'Requirement and criterion numbers are unique',
+  },
+  {
+    name: 'requirements.md numbering sequential',
+    kind: 'numbering-gap',
+    expected: 'requirements and criteria numbered 1, 2, 3, ...',
+    passMessage: 'Requirement and criterion numbering has no gaps',
+  },
+];
+
+const DESIGN_CHECKS = ['design.md sections filled', 'design.md properties referenced by tasks'] as const;
+
 export interface SpecVerifierResult {
   checks: VerificationCheck[];
   warnings: string[];
@@ -110,12 +143,26 @@ export class SpecVerifier {
       });
     }
 
+    // requirements.md structure — skipped when the file is missing, which "requirements.md exists" already reports
+    const requirementsPath = path.join(specPath, 'requirements.md');
+    const requirementsExists = folderExists ? await this.fs.exists(requirementsPath) : false;
+    if (requirementsExists) {
+      try {
+        checks.push(...this.verifyRequirements(await this.fs.readFile(requirementsPath)));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        checks.push(...this.failedRequirementsChecks(`read error: ${errMsg}`, `Failed to read requirements.md: ${errMsg}`));
+      }
+    }
+
     // 8. tasks.md checkbox syntax — Req 3.5, 8.3
     const tasksPath = path.join(specPath, 'tasks.md');
     const tasksExists = folderExists ? await this.fs.exists(tasksPath) : false;
+    let tasksContent = '';
     if (tasksExists) {
       try {
         const content = await this.fs.readFile(tasksPath);
+        tasksContent = content;
         const { valid, invalidLines } = this.validateCheckboxSyntax(content);
         checks.push({
           name: 'tasks.md checkbox syntax valid',
@@ -126,39 +173,150 @@ export class SpecVerifier {
             ? 'All task entries use valid checkbox syntax'
             : `Invalid checkbox syntax on ${invalidLines.length} line(s)`,
         });
+        checks.push(...this.verifyDependencies(content));
       } catch (err) {
         const errMsg = err instanceof Error ? err.message : String(err);
-        checks.push({
-          name: 'tasks.md checkbox syntax valid',
+        for (const name of ['tasks.md checkbox syntax valid', ...DEPENDENCY_CHECKS]) {
+          checks.push({
+            name,
+            passed: false,
+            expected: 'readable file',
+            actual: `read error: ${errMsg}`,
+            message: `Failed to read tasks.md: ${errMsg}`,
+          });
+        }
+      }
+    }
+
+    // design.md completeness — skipped when the file is missing, which "design.md exists" already reports
+    const designPath = path.join(specPath, 'design.md');
+    const designExists = folderExists ? await this.fs.exists(designPath) : false;
+    if (designExists) {
+      try {
+        const design = parseDesignDocument(await this.fs.readFile(designPath));
+        checks.push(...this.verifyDesign(design.sections, design.properties.map(p => p.id), tasksContent));
+        // Only a design that has been started is expected to have every scaffolded section
+        if (design.sections.length > 0) {
+          warnings.push(...missingDesignSections(design).map(title => `design.md missing section: ${title}`));
+        }
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        checks.push(...DESIGN_CHECKS.map(name => ({
+          name,
           passed: false,
           expected: 'readable file',
           actual: `read error: ${errMsg}`,
-          message: `Failed to read tasks.md: ${errMsg}`,
-        });
+          message: `Failed to read design.md: ${errMsg}`,
+        })));
       }
     }
 
     return { checks, warnings };
   }
 
+  /**
+   * Check design.md for empty or template-only sections and for correctness
+   * properties that no task in tasks.md mentions as `Property N`.
+   */
+  private verifyDesign(sections: DesignSection[], propertyIds: string[], tasksContent: string): VerificationCheck[] {
+    // Report the outermost unfilled section only, not each of its empty subsections
+    const unfilled: string[] = [];
+    const collect = (list: DesignSection[]) => {
+      for (const section of list) {
+        if (section.state === 'filled') collect(section.children);
+        else unfilled.push(`${section.title} (${section.state}, line ${section.line})`);
+      }
+    };
+    collect(sections);
+
+    const referenced = findTaskPropertyReferences(tasksContent);
+    const unreferenced = propertyIds.filter(id => !referenced.has(id));
+
+    return [
+      {
+        name: DESIGN_CHECKS[0],
+        passed: unfilled.length === 0,
+        expected: 'every section has content beyond template text',
+        actual: unfilled.length === 0 ? 'all filled' : `unfilled: ${unfilled.join('; ')}`,
+        message: unfilled.length === 0
+          ? 'All design.md sections are filled in'
+          : `${unfilled.length} design.md section(s) empty or still template text`,
+      },
+      {
+        name: DESIGN_CHECKS[1],
+        passed: unreferenced.length === 0,
+        expected: 'every correctness property referenced by a task',
+        actual: unreferenced.length === 0 ? 'all referenced' : `unreferenced: ${unreferenced.map(id => `Property ${id}`).join(', ')}`,
+        message: unreferenced.length === 0
+          ? 'Every correctness property is covered by a task'
+          : `${unreferenced.length} correctness propert${unreferenced.length === 1 ? 'y is' : 'ies are'} not referenced in tasks.md`,
+      },
+    ];
+  }
+
+  /**
+   * Check requirements.md for malformed EARS criteria, duplicate IDs and numbering gaps.
+   */
+  private verifyRequirements(content: string): VerificationCheck[] {
+    const issues = validateRequirementsDocument(parseRequirementsDocument(content));
+
+    return REQUIREMENTS_CHECKS.map(({ name, kind, expected, passMessage }) => {
+      const found = issues.filter(i => i.kind === kind);
+      return {
+        name,
+        passed: found.length === 0,
+        expected,
+        actual: found.length === 0 ? 'none found' : found.map(i => `line ${i.line}: ${i.message}`).join('; '),
+        message: found.length === 0 ? passMessage : `${found.length} issue(s) in requirements.md`,
+      };
+    });
+  }
+
+  /**
+   * The requirements.md checks, all failed for the same reason.
+   */
+  private failedRequirementsChecks(actual: string, message: string): VerificationCheck[] {
+    return REQUIREMENTS_CHECKS.map(({ name, expected }) => ({ name, passed: false, expected, actual, message }));
+  }
+
+  /**
+   * Check `_Depends:_` references in tasks.md for unknown IDs and cycles.
+   */
+  private verifyDependencies(content: string): VerificationCheck[] {
+    const resolver = new TaskGroupResolver();
+    const { danglingReferences, cycles } = resolver.validateDependencies(resolver.parseGroups(content));
+
+    const dangling = danglingReferences.map(r => `${r.taskId} → ${r.dependencyIds.join(', ')}`);
+    const loops = cycles.map(c => c.join(' → '));
+
+    return [
+      {
+        name: DEPENDENCY_CHECKS[0],
+        passed: dangling.length === 0,
+        expected: 'every _Depends:_ ID exists in tasks.md',
+        actual: dangling.length === 0 ? 'all resolved' : `unknown IDs: ${dangling.join('; ')}`,
+        message: dangling.length === 0
+          ? 'All task dependencies reference existing tasks'
+          : `${dangling.length} task(s) depend on unknown task IDs`,
+      },
+      {
+        name: DEPENDENCY_CHECKS[1],
+        passed: loops.length === 0,
+        expected: 'no dependency cycles',
+        actual: loops.length === 0 ? 'no cycles' : `cycles: ${loops.join('; ')}`,
+        message: loops.length === 0
+          ? 'Task dependencies contain no cycles'
+          : `${loops.length} dependency cycle(s) found`,
+      },
+    ];
+  }
+
   /**
    * Validate checkbox syntax in tasks.md content.
    * Returns valid=true if all checkbox lines use valid markers.
    */
   private validateCheckboxSyntax(content: string): { valid: boolean; invalidLines: number[] } {
-    const lines = content.split('\n');
-    const invalidLines: number[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const match = CHECKBOX_PATTERN.exec(lines[i]);
-      if (match) {
-        const marker = match[2];
-        if (!(VALID_CHECKBOX_MARKERS as readonly string[]).includes(marker)) {
-          invalidLines.push(i + 1); // 1-based line numbers
-        }
-      }
-    }
-
+    const invalidLines = TasksMarkdown.parse(content).invalidCheckboxLines();
     return { valid: invalidLines.length === 0, invalidLines };
   }
 }
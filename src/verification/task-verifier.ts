@@ -8,15 +8,7 @@ import * as path from 'path';
 import type { TaskStatus } from '../types.js';
 import type { VerifyFileSystem } from './verify-file-system.js';
 import type { VerificationCheck } from './verification-data.js';
-
-/** Status character to TaskStatus mapping (consistent with TaskTracker) */
-const CHAR_TO_STATUS: Record<string, TaskStatus> = {
-  ' ': 'not_started',
-  'x': 'completed',
-  '-': 'in_progress',
-  '!': 'failed',
-  '~': 'not_started', // queued treated as not_started for backward compat
-};
+import { TasksMarkdown } from '../tasks/tasks-markdown.js';
 
 const STATUS_TO_LABEL: Record<TaskStatus, string> = {
   not_started: 'not_started',
@@ -68,11 +60,9 @@ export class TaskVerifier {
     const originalLineCount = content.split('\n').length;
 
     // 2. Task entry exists — Req 4.2
-    const escapedId = taskId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const pattern = new RegExp(`- \\[([ x\\-!~])\\]\\*?\\s*${escapedId}\\b`);
-    const match = content.match(pattern);
+    const task = TasksMarkdown.parse(content).findTask(taskId);
 
-    if (!match) {
+    if (!task) {
       checks.push({
         name: `Task ${taskId} exists`,
         passed: false,
@@ -92,8 +82,8 @@ export class TaskVerifier {
     });
 
     // 3. Status matches — Req 4.3, 4.4
-    const actualChar = match[1];
-    const actualStatus = CHAR_TO_STATUS[actualChar] ?? 'not_started';
+    // Queued still counts as not_started unless queued is what was expected
+    const actualStatus = task.status === 'queued' && expectedStatus !== 'queued' ? 'not_started' : task.status;
     const statusMatches = actualStatus === expectedStatus;
 
     checks.push({
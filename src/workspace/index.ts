@@ -5,6 +5,20 @@
  */
 
 export { WorkspaceAdapter, type WorkspaceFileSystem } from './workspace-adapter.js';
+export { mergeManagedRegion, removeManagedRegion, hasStaleInstructions, MANAGED_REGION_BEGIN, MANAGED_REGION_END } from './managed-region.js';
+export { mergeThreeWay, type MergeLabels, type MergeResult } from './three-way-merge.js';
+export {
+  detectPlatforms,
+  detectRunningPlatform,
+  SDD_PLATFORM_ENV,
+  type DetectionFileSystem,
+  type Environment,
+  type DetectionConfidence,
+  type PlatformEvidence,
+  type DetectedPlatform,
+  type RunningPlatform,
+  type DetectionOptions,
+} from './platform-detector.js';
 export {
   validateSpecConfig,
   validateSpecFolder,
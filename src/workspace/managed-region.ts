@@ -0,0 +1,108 @@
+/**
+ * Managed Region - Generated content inside hand-written instructions files
+ *
+ * CLAUDE.md, AGENTS.md and the other instructions files often carry project
+ * notes written by hand. The framework only owns the part between
+ * `<!-- sdd:begin -->` and `<!-- sdd:end -->`; re-generating replaces that
+ * region and leaves everything around it alone.
+ */
+
+export const MANAGED_REGION_BEGIN = '<!-- sdd:begin -->';
+export const MANAGED_REGION_END = '<!-- sdd:end -->';
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+/**
+ * Split content into its leading frontmatter block (if any) and the rest.
+ */
+function splitFrontmatter(content: string): { frontmatter: string; body: string } {
+  const match = content.match(FRONTMATTER);
+  return match
+    ? { frontmatter: match[0], body: content.slice(match[0].length) }
+    : { frontmatter: '', body: content };
+}
+
+/**
+ * Merge generated instructions into an instructions file.
+ *
+ * The generated body replaces the managed region, or is appended as a new
+ * region when the file has none. A file without markers that holds exactly
+ * the generated body, as earlier versions wrote it, is replaced instead.
+ * Frontmatter must stay first in the file, so generated frontmatter replaces
+ * the file's; otherwise the file's is kept.
+ *
+ * @param existing - Current file content, or undefined if the file does not exist
+ * @param generated - Output of `generateInstructionsContent`
+ * @throws Error if the file has only one of the markers, or they are out of order
+ */
+export function mergeManagedRegion(existing: string | undefined, generated: string): string {
+  const generatedParts = splitFrontmatter(generated);
+  const region = `${MANAGED_REGION_BEGIN}\n${generatedParts.body.trim()}\n${MANAGED_REGION_END}`;
+
+  const existingParts = splitFrontmatter(existing ?? '');
+  const frontmatter = generatedParts.frontmatter || existingParts.frontmatter;
+  const separator = frontmatter ? '\n' : '';
+  // formatFrontmatter puts a blank line after the block; it is re-added below
+  const body = existingParts.frontmatter ? existingParts.body.replace(/^\r?\n/, '') : existingParts.body;
+
+  const begin = body.indexOf(MANAGED_REGION_BEGIN);
+  const end = body.indexOf(MANAGED_REGION_END);
+  if (begin === -1 && end === -1) {
+    const generatedOnly = body.trim() === generatedParts.body.trim();
+    const userText = body.trim() && !generatedOnly ? `${body.trimEnd()}\n\n` : '';
+    return `${frontmatter}${separator}${userText}${region}\n`;
+  }
+  if (begin === -1 || end < begin) {
+    throw new Error(`Unmatched ${begin === -1 ? MANAGED_REGION_END : MANAGED_REGION_BEGIN} marker; fix or remove the sdd markers`);
+  }
+
+  const before = body.slice(0, begin);
+  const after = body.slice(end + MANAGED_REGION_END.length);
+  const leading = before.trim() ? `${separator}${before}` : separator;
+  return `${frontmatter}${leading}${region}${after}`;
+}
+
+/**
+ * Whether a file without sdd markers holds instructions an earlier version
+ * generated alongside other text: it has the generated content's first line,
+ * but is not the generated content alone. Merging keeps such instructions
+ * above the new region, where they go stale.
+ *
+ * @param existing - Current file content, or undefined if the file does not exist
+ * @param generated - Output of `generateInstructionsContent`
+ */
+export function hasStaleInstructions(existing: string | undefined, generated: string): boolean {
+  const { body } = splitFrontmatter(existing ?? '');
+  const generatedBody = splitFrontmatter(generated).body.trim();
+  if (body.includes(MANAGED_REGION_BEGIN) || body.includes(MANAGED_REGION_END) || body.trim() === generatedBody) {
+    return false;
+  }
+  const firstLine = generatedBody.split('\n')[0].trim();
+  return firstLine !== '' && body.split(/\r?\n/).some(line => line.trim() === firstLine);
+}
+
+/**
+ * Remove the managed region from an instructions file.
+ *
+ * @param existing - Current file content
+ * @returns The remaining content, '' when nothing but the region and
+ *   frontmatter was left, or undefined when the file has no region
+ * @throws Error if the file has only one of the markers, or they are out of order
+ */
+export function removeManagedRegion(existing: string): string | undefined {
+  const { frontmatter, body } = splitFrontmatter(existing);
+  const begin = body.indexOf(MANAGED_REGION_BEGIN);
+  const end = body.indexOf(MANAGED_REGION_END);
+  if (begin === -1 && end === -1) {
+    return undefined;
+  }
+  if (begin === -1 || end < begin) {
+    throw new Error(`Unmatched ${begin === -1 ? MANAGED_REGION_END : MANAGED_REGION_BEGIN} marker; fix or remove the sdd markers`);
+  }
+
+  const userText = `${body.slice(0, begin).trimEnd()}\n\n${body.slice(end + MANAGED_REGION_END.length).trimStart()}`.trim();
+  if (!userText) {
+    return '';
+  }
+  return `${frontmatter}${frontmatter ? '\n' : ''}${userText}\n`;
+}
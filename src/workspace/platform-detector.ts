@@ -0,0 +1,197 @@
+/**
+ * Platform Detector - Which platforms a workspace is set up for
+ *
+ * A repository is often opened in several agents at once, and every
+ * platform keeps its specs in `.kiro/specs/`, so the first marker found says
+ * little. Detection instead reports every platform with evidence (installed
+ * skills, instructions file, detection markers) and, optionally, the agent
+ * running the CLI as told by environment variables.
+ */
+
+import type { PlatformId } from '../types.js';
+import type { PlatformDefinition } from '../adapters/platform-definition.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
+
+/**
+ * Environment variable naming the platform explicitly, e.g. `SDD_PLATFORM=codex`.
+ * It takes precedence over the variables agents set themselves.
+ */
+export const SDD_PLATFORM_ENV = 'SDD_PLATFORM';
+
+/**
+ * File system operations detection needs; paths are relative to the workspace root.
+ */
+export interface DetectionFileSystem {
+  exists(path: string): Promise<boolean>;
+  readdir(path: string): Promise<string[]>;
+  isDirectory(path: string): Promise<boolean>;
+}
+
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * `high`: installed skills or the running agent; `medium`: an instructions
+ * file or detection marker; `low`: only an empty skills directory.
+ */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * One reason to believe a platform is in use
+ */
+export interface PlatformEvidence {
+  kind: 'env' | 'skills' | 'instructions' | 'marker';
+  /** Path relative to the workspace root, or an environment variable */
+  source: string;
+}
+
+/**
+ * A platform the workspace is set up for
+ */
+export interface DetectedPlatform {
+  platform: PlatformId;
+  confidence: DetectionConfidence;
+  /** Skill files or directories in the platform's skills directory */
+  skillCount: number;
+  evidence: PlatformEvidence[];
+}
+
+/**
+ * The agent running the CLI, from environment variables
+ */
+export interface RunningPlatform {
+  platform: PlatformId;
+  /** The variable that identified it, as `NAME` or `NAME=value` */
+  variable: string;
+}
+
+export interface DetectionOptions {
+  /** Environment to look for the running agent in; omit to ignore the environment */
+  env?: Environment;
+  platforms?: PlatformRegistry;
+}
+
+const CONFIDENCE_ORDER: DetectionConfidence[] = ['high', 'medium', 'low'];
+
+/**
+ * Whether an environment variable entry of `detection.env` matches:
+ * `NAME` matches any non-empty value, `NAME=value` that exact value.
+ */
+function envMatches(entry: string, env: Environment): boolean {
+  const separator = entry.indexOf('=');
+  if (separator === -1) {
+    return (env[entry] ?? '') !== '';
+  }
+  return env[entry.slice(0, separator)] === entry.slice(separator + 1);
+}
+
+/**
+ * Find the agent running the CLI: `SDD_PLATFORM` if it names a registered
+ * platform, otherwise the first platform whose `detection.env` matches.
+ */
+export function detectRunningPlatform(
+  env: Environment,
+  platforms: PlatformRegistry = platformRegistry
+): RunningPlatform | null {
+  const named = env[SDD_PLATFORM_ENV];
+  if (named && platforms.has(named)) {
+    return { platform: named, variable: `${SDD_PLATFORM_ENV}=${named}` };
+  }
+  for (const definition of platforms.list()) {
+    const variable = definition.detection.env?.find(entry => envMatches(entry, env));
+    if (variable) {
+      return { platform: definition.id, variable };
+    }
+  }
+  return null;
+}
+
+/**
+ * Count the skills in a platform's skills directory, ignoring its
+ * instructions file when that lives there too (Cursor's `specs.mdc`).
+ */
+async function countSkills(definition: PlatformDefinition, fs: DetectionFileSystem): Promise<number> {
+  const { layout, extension = '.md', fileName = 'SKILL.md' } = definition.skill;
+  let count = 0;
+  for (const entry of await fs.readdir(definition.skillsPath)) {
+    const entryPath = `${definition.skillsPath}${entry}`;
+    if (entryPath === definition.instructionsFile) continue;
+    const isSkill = layout === 'directory'
+      ? await fs.exists(`${entryPath}/${fileName}`)
+      : entry.endsWith(extension) && !await fs.isDirectory(entryPath);
+    if (isSkill) count++;
+  }
+  return count;
+}
+
+/**
+ * Whether a directory marker holds nothing but the shared specs directory,
+ * as `.kiro/` does in every initialized workspace.
+ */
+async function holdsOnlySpecs(marker: string, specsPath: string, fs: DetectionFileSystem): Promise<boolean> {
+  if (!marker.endsWith('/') || !specsPath.startsWith(marker) || !await fs.isDirectory(marker)) {
+    return false;
+  }
+  const specsDir = specsPath.slice(marker.length).split('/')[0];
+  const entries = await fs.readdir(marker);
+  return entries.length > 0 && entries.every(entry => entry === specsDir);
+}
+
+/**
+ * Gather the evidence for one platform.
+ * @returns null when there is none
+ */
+async function detectPlatform(
+  definition: PlatformDefinition,
+  fs: DetectionFileSystem,
+  running: RunningPlatform | null
+): Promise<DetectedPlatform | null> {
+  const evidence: PlatformEvidence[] = [];
+  let skillCount = 0;
+
+  if (running?.platform === definition.id) {
+    evidence.push({ kind: 'env', source: running.variable });
+  }
+  if (await fs.isDirectory(definition.skillsPath)) {
+    skillCount = await countSkills(definition, fs);
+    evidence.push({ kind: 'skills', source: definition.skillsPath });
+  }
+  if (definition.instructionsFile !== null && await fs.exists(definition.instructionsFile)) {
+    evidence.push({ kind: 'instructions', source: definition.instructionsFile });
+  }
+  const specsPath = definition.specsPath ?? '.kiro/specs/';
+  for (const marker of definition.detection.markers) {
+    if (await fs.exists(marker) && !await holdsOnlySpecs(marker, specsPath, fs)) {
+      evidence.push({ kind: 'marker', source: marker });
+    }
+  }
+
+  if (evidence.length === 0) {
+    return null;
+  }
+  const confidence: DetectionConfidence = evidence.some(e => e.kind === 'env') || skillCount > 0
+    ? 'high'
+    : evidence.some(e => e.kind === 'instructions' || e.kind === 'marker') ? 'medium' : 'low';
+  return { platform: definition.id, confidence, skillCount, evidence };
+}
+
+/**
+ * Detect every platform the workspace is set up for.
+ * @returns Platforms with evidence, most confident first, then in detection order
+ */
+export async function detectPlatforms(
+  fs: DetectionFileSystem,
+  options: DetectionOptions = {}
+): Promise<DetectedPlatform[]> {
+  const platforms = options.platforms ?? platformRegistry;
+  const running = options.env ? detectRunningPlatform(options.env, platforms) : null;
+
+  const detected: DetectedPlatform[] = [];
+  for (const definition of platforms.list()) {
+    const platform = await detectPlatform(definition, fs, running);
+    if (platform) {
+      detected.push(platform);
+    }
+  }
+  // Array.prototype.sort is stable, so ties keep detection order
+  return detected.sort((a, b) => CONFIDENCE_ORDER.indexOf(a.confidence) - CONFIDENCE_ORDER.indexOf(b.confidence));
+}
@@ -5,7 +5,9 @@
  * catching drift between platforms early.
  */
 
-import type { PlatformId, ValidationResult, ValidationError, ValidationWarning } from '../types.js';
+import type { PlatformId, TaskStatus, ValidationResult, ValidationError, ValidationWarning } from '../types.js';
+import { resolveTransitionPolicy } from '../tasks/task-transitions.js';
+import { platformRegistry } from '../registry/platform-registry.js';
 
 /**
  * Expected structure of a spec config file
@@ -14,6 +16,7 @@ export interface SpecConfigSchema {
   generationMode: 'requirements-first' | 'design-first';
   platform?: PlatformId;
   createdAt?: string;
+  taskTransitions?: 'strict' | 'any' | Partial<Record<TaskStatus, TaskStatus[]>>;
   [key: string]: unknown;
 }
 
@@ -67,7 +70,7 @@ export function validateSpecConfig(config: unknown): ValidationResult {
 
   // Optional but recommended: platform
   if ('platform' in configObj) {
-    const validPlatforms: PlatformId[] = ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq'];
+    const validPlatforms = platformRegistry.ids();
     if (!validPlatforms.includes(configObj.platform as PlatformId)) {
       errors.push({
         code: 'INVALID_PLATFORM',
@@ -82,6 +85,18 @@ export function validateSpecConfig(config: unknown): ValidationResult {
     });
   }
 
+  // Optional: taskTransitions (transition policy enforced by run-task)
+  if ('taskTransitions' in configObj) {
+    try {
+      resolveTransitionPolicy(configObj);
+    } catch (err) {
+      errors.push({
+        code: 'INVALID_TASK_TRANSITIONS',
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
   // Optional: createdAt (should be ISO date string if present)
   if ('createdAt' in configObj && typeof configObj.createdAt === 'string') {
     const date = new Date(configObj.createdAt);
@@ -0,0 +1,136 @@
+/**
+ * Three-Way Merge - Line-based merge of two edits of the same base text
+ *
+ * Each side is diffed against the base. Changes to different lines are
+ * combined; changes that overlap or touch are kept once when both sides
+ * made the same edit and written between conflict markers otherwise.
+ */
+
+/**
+ * Labels written after the opening and closing conflict markers
+ */
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  /** Number of conflict blocks written */
+  conflicts: number;
+}
+
+/**
+ * Lines `base[start, end)` replaced by `lines` on one side
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Diff two line arrays through their longest common subsequence.
+ */
+function diffLines(base: string[], other: string[]): Hunk[] {
+  // lcs[i][j]: length of the LCS of base[i..] and other[j..]
+  const lcs = Array.from({ length: base.length + 1 }, () => new Array<number>(other.length + 1).fill(0));
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lcs[i][j] = base[i] === other[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length || j < other.length) {
+    if (i < base.length && j < other.length && base[i] === other[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    const hunk: Hunk = { start: i, end: i, lines: [] };
+    while ((i < base.length || j < other.length) && !(i < base.length && j < other.length && base[i] === other[j])) {
+      if (j >= other.length || (i < base.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+        i++;
+      } else {
+        hunk.lines.push(other[j++]);
+      }
+    }
+    hunk.end = i;
+    hunks.push(hunk);
+  }
+  return hunks;
+}
+
+/**
+ * Apply one side's hunks to `base[start, end)`.
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Merge `ours` and `theirs`, both edited from `base`.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'ours', theirs: 'theirs' }
+): MergeResult {
+  if (ours === theirs || theirs === base) {
+    return { content: ours, conflicts: 0 };
+  }
+  if (ours === base) {
+    return { content: theirs, conflicts: 0 };
+  }
+
+  const baseLines = base.split('\n');
+  const changes = [
+    ...diffLines(baseLines, ours.split('\n')).map(hunk => ({ side: 'ours' as const, hunk })),
+    ...diffLines(baseLines, theirs.split('\n')).map(hunk => ({ side: 'theirs' as const, hunk })),
+  ].sort((a, b) => a.hunk.start - b.hunk.start || a.hunk.end - b.hunk.end);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+  while (index < changes.length) {
+    // Group hunks whose base ranges overlap or touch
+    const group = [changes[index++]];
+    let end = group[0].hunk.end;
+    while (index < changes.length && changes[index].hunk.start <= end) {
+      end = Math.max(end, changes[index].hunk.end);
+      group.push(changes[index++]);
+    }
+    const start = group[0].hunk.start;
+    merged.push(...baseLines.slice(position, start));
+    position = end;
+
+    const oursHunks = group.filter(c => c.side === 'ours').map(c => c.hunk);
+    const theirsHunks = group.filter(c => c.side === 'theirs').map(c => c.hunk);
+    const oursLines = applyHunks(baseLines, start, end, oursHunks);
+    const theirsLines = applyHunks(baseLines, start, end, theirsHunks);
+
+    if (theirsHunks.length === 0 || oursLines.join('\n') === theirsLines.join('\n')) {
+      merged.push(...oursLines);
+    } else if (oursHunks.length === 0) {
+      merged.push(...theirsLines);
+    } else {
+      conflicts++;
+      merged.push(`<<<<<<< ${labels.ours}`, ...oursLines, '=======', ...theirsLines, `>>>>>>> ${labels.theirs}`);
+    }
+  }
+  merged.push(...baseLines.slice(position));
+
+  return { content: merged.join('\n'), conflicts };
+}
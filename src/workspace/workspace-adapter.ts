@@ -9,6 +9,9 @@
 
 import type { PlatformAdapter } from '../adapters/platform-adapter.js';
 import type { PlatformId, SpecMetadata, SpecLocation, TransformResult } from '../types.js';
+import { PlatformRegistry, platformRegistry } from '../registry/platform-registry.js';
+import { hasStaleInstructions, mergeManagedRegion } from './managed-region.js';
+import { detectPlatforms, type DetectedPlatform, type Environment } from './platform-detector.js';
 
 /**
  * File system operations interface for dependency injection and testing.
@@ -36,46 +39,35 @@ const KNOWN_SPEC_LOCATIONS = [
  * workspace transformation between different AI coding agent platforms.
  */
 export class WorkspaceAdapter {
-  constructor(private adapters: Map<PlatformId, PlatformAdapter>) {}
+  constructor(
+    private adapters: Map<PlatformId, PlatformAdapter>,
+    private platforms: PlatformRegistry = platformRegistry
+  ) {}
 
   /**
-   * Detect the current platform based on workspace markers.
-   * Checks for platform-specific directories and files in order of specificity.
+   * Detect the current platform: the most confident of `detectPlatforms`,
+   * ties going to registry order. A `.kiro/` holding only the shared specs
+   * directory does not count as Kiro.
    * 
    * @param fs - File system operations interface
    * @returns The detected platform ID, or null if no platform detected
    * Requirements: 9.1
    */
   async detectCurrentPlatform(fs: WorkspaceFileSystem): Promise<PlatformId | null> {
-    // Check for platform-specific markers in order of specificity
-    // Kiro has the most specific marker (.kiro/)
-    if (await fs.exists('.kiro/')) {
-      return 'kiro';
-    }
-
-    // Claude Code markers
-    if (await fs.exists('.claude/') || await fs.exists('CLAUDE.md')) {
-      return 'claude-code';
-    }
-
-    // Codex markers
-    if (await fs.exists('.codex/') || await fs.exists('AGENTS.md')) {
-      return 'codex';
-    }
-
-    // Antigravity markers
-    if (await fs.exists('.agent/')) {
-      return 'antigravity';
-    }
-
-    // Amazon Q markers
-    if (await fs.exists('.amazonq/')) {
-      return 'amazonq';
-    }
-
-    return null;
+    const [detected] = await this.detectPlatforms(fs);
+    return detected?.platform ?? null;
   }
 
+  /**
+   * Detect every platform the workspace is set up for, with evidence.
+   * 
+   * @param fs - File system operations interface
+   * @param env - Environment to find the running agent in, e.g. `process.env`
+   * @returns Detected platforms, most confident first
+   */
+  async detectPlatforms(fs: WorkspaceFileSystem, env?: Environment): Promise<DetectedPlatform[]> {
+    return detectPlatforms(fs, { env, platforms: this.platforms });
+  }
 
   /**
    * Find all specs across all known spec locations.
@@ -155,7 +147,8 @@ export class WorkspaceAdapter {
 
   /**
    * Transform workspace from source platform to target platform.
-   * Copies specs to the target location and generates instructions file.
+   * Copies specs to the target location and generates the instructions file's
+   * managed region, keeping any hand-written text around it.
    * 
    * @param sourcePlatform - The source platform
    * @param targetPlatform - The target platform
@@ -194,6 +187,7 @@ export class WorkspaceAdapter {
     const sourceDir = sourceAdapter.specsPath;
     const targetDir = targetAdapter.specsPath;
     const errors: string[] = [];
+    const warnings: string[] = [];
     let filesTransformed = 0;
 
     // Check if source directory exists
@@ -244,8 +238,13 @@ export class WorkspaceAdapter {
       // Generate instructions file for target platform (Requirements 1.1, 1.2, 1.3)
       if (targetAdapter.instructionsFile) {
         try {
-          const instructionsContent = targetAdapter.generateInstructionsContent(specs);
-          await fs.writeFile(targetAdapter.instructionsFile, instructionsContent);
+          const instructionsFile = targetAdapter.instructionsFile;
+          const existing = await fs.exists(instructionsFile) ? await fs.readFile(instructionsFile) : undefined;
+          const generated = targetAdapter.generateInstructionsContent(specs);
+          await fs.writeFile(instructionsFile, mergeManagedRegion(existing, generated));
+          if (hasStaleInstructions(existing, generated)) {
+            warnings.push(`${instructionsFile} holds stale generated instructions outside the sdd markers; remove them, the current ones are in the sdd region`);
+          }
         } catch (err) {
           errors.push(`Failed to generate instructions file: ${err instanceof Error ? err.message : String(err)}`);
         }
@@ -257,6 +256,7 @@ export class WorkspaceAdapter {
         targetDir,
         filesTransformed,
         errors,
+        ...(warnings.length > 0 ? { warnings } : {}),
       };
     } catch (err) {
       return {
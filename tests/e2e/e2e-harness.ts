@@ -10,155 +10,9 @@
 import * as path from 'path';
 import type { PlatformId } from '../../src/types';
 import type { PlatformAdapter } from '../../src/adapters/platform-adapter';
-import type { WorkspaceInitFileSystem } from '../../src/commands/workspace-init-command';
-import type { CreateSpecFileSystem } from '../../src/commands/create-spec-command';
-import type { InstallSkillsFileSystem } from '../../src/commands/install-skills-command';
-import type { VerifyFileSystem } from '../../src/verification/verify-file-system';
+import { InMemoryFS } from '../helpers/in-memory-fs';
 
-/**
- * Normalize a path to forward slashes and resolve relative segments.
- */
-function normalizePath(p: string): string {
-  // Replace backslashes with forward slashes
-  let normalized = p.replace(/\\/g, '/');
-  // Remove trailing slash unless it's the root
-  if (normalized.length > 1 && normalized.endsWith('/')) {
-    normalized = normalized.slice(0, -1);
-  }
-  return normalized;
-}
-
-/**
- * InMemoryFS — satisfies WorkspaceInitFileSystem, CreateSpecFileSystem,
- * InstallSkillsFileSystem, and VerifyFileSystem interfaces.
- *
- * All paths are normalized to forward slashes.
- */
-export class InMemoryFS
-  implements WorkspaceInitFileSystem, CreateSpecFileSystem,
-             InstallSkillsFileSystem, VerifyFileSystem
-{
-  private files: Map<string, string> = new Map();
-  private dirs: Set<string> = new Set();
-  private _failOnNextWrite = false;
-
-  async exists(p: string): Promise<boolean> {
-    const np = normalizePath(p);
-    return this.files.has(np) || this.dirs.has(np);
-  }
-
-  async mkdir(p: string, options?: { recursive?: boolean }): Promise<void> {
-    const np = normalizePath(p);
-    if (options?.recursive) {
-      // Create all ancestor directories
-      const parts = np.split('/').filter(Boolean);
-      const prefix = np.startsWith('/') ? '/' : '';
-      let current = '';
-      for (const part of parts) {
-        current = current ? `${current}/${part}` : `${prefix}${part}`;
-        this.dirs.add(current);
-      }
-    }
-    this.dirs.add(np);
-  }
-
-  async writeFile(p: string, content: string): Promise<void> {
-    if (this._failOnNextWrite) {
-      this._failOnNextWrite = false;
-      throw new Error('Simulated write failure');
-    }
-    const np = normalizePath(p);
-    this.files.set(np, content);
-    // Implicitly create parent directories
-    const lastSlash = np.lastIndexOf('/');
-    if (lastSlash > 0) {
-      await this.mkdir(np.substring(0, lastSlash), { recursive: true });
-    }
-  }
-
-  async readFile(p: string): Promise<string> {
-    const np = normalizePath(p);
-    const content = this.files.get(np);
-    if (content === undefined) {
-      throw new Error(`ENOENT: no such file: ${np}`);
-    }
-    return content;
-  }
-
-  async readdir(p: string): Promise<string[]> {
-    const np = normalizePath(p);
-    const entries = new Set<string>();
-    const prefix = np + '/';
-
-    // Collect direct children from files
-    for (const filePath of this.files.keys()) {
-      if (filePath.startsWith(prefix)) {
-        const rest = filePath.slice(prefix.length);
-        const firstSegment = rest.split('/')[0];
-        entries.add(firstSegment);
-      }
-    }
-
-    // Collect direct children from dirs
-    for (const dirPath of this.dirs) {
-      if (dirPath.startsWith(prefix)) {
-        const rest = dirPath.slice(prefix.length);
-        const firstSegment = rest.split('/')[0];
-        entries.add(firstSegment);
-      }
-    }
-
-    return Array.from(entries);
-  }
-
-  async isDirectory(p: string): Promise<boolean> {
-    const np = normalizePath(p);
-    return this.dirs.has(np);
-  }
-
-  async listFiles(dirPath: string): Promise<string[]> {
-    const np = normalizePath(dirPath);
-    const result: string[] = [];
-    const prefix = np + '/';
-
-    for (const filePath of this.files.keys()) {
-      if (filePath.startsWith(prefix)) {
-        result.push(filePath);
-      }
-    }
-
-    return result;
-  }
-
-  // --- Test inspection helpers ---
-
-  getFile(p: string): string | undefined {
-    return this.files.get(normalizePath(p));
-  }
-
-  getAllFiles(): Map<string, string> {
-    return new Map(this.files);
-  }
-
-  getAllDirs(): Set<string> {
-    return new Set(this.dirs);
-  }
-
-  hasFile(p: string): boolean {
-    return this.files.has(normalizePath(p));
-  }
-
-  hasDir(p: string): boolean {
-    return this.dirs.has(normalizePath(p));
-  }
-
-  /**
-   * Configure the next writeFile call to throw an error.
-   */
-  failOnNextWrite(): void {
-    this._failOnNextWrite = true;
-  }
-}
+export { InMemoryFS };
 
 // --- Factory Functions ---
 
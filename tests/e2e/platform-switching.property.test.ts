@@ -359,7 +359,7 @@ describe('Edge case: Codex directory skill structure after switching from single
   it('single-file platforms have flat skill files after switching from Codex', async () => {
     const singleFileTargets: Array<{ platform: PlatformId; skillsPrefix: string }> = [
       { platform: 'kiro', skillsPrefix: '/workspace/.kiro/skills/' },
-      { platform: 'claude-code', skillsPrefix: '/workspace/.claude/skills/' },
+      { platform: 'amazonq', skillsPrefix: '/workspace/.amazonq/rules/' },
     ];
 
     for (const { platform, skillsPrefix } of singleFileTargets) {
@@ -378,6 +378,20 @@ describe('Edge case: Codex directory skill structure after switching from single
       expect(skillFiles.length).toBeGreaterThan(0);
     }
   });
+
+  it('Claude Code skills use {name}/SKILL.md with slash commands after switching from Codex', async () => {
+    const result = await runRoundTrip('codex', 'claude-code', 'test-spec');
+    expect(result.skillInstall.success).toBe(true);
+
+    const allFiles = [...result.fs.getAllFiles().keys()];
+    const skillsPrefix = '/workspace/.claude/skills/';
+    const skillFiles = allFiles.filter(p => p.startsWith(skillsPrefix));
+    for (const filePath of skillFiles) {
+      expect(filePath.slice(skillsPrefix.length)).toMatch(/^[^/]+\/SKILL\.md$/);
+    }
+    expect(skillFiles.length).toBeGreaterThan(0);
+    expect(allFiles.filter(p => p.startsWith('/workspace/.claude/commands/')).length).toBeGreaterThan(0);
+  });
 });
 
 // Feature: 004-e2e-platform-switching-tests, Edge case: Kiro no-instructions-file
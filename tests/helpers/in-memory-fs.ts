@@ -0,0 +1,195 @@
+/**
+ * In-memory file system shared by the test suites
+ *
+ * Satisfies the file system interfaces commands, verifiers, loaders and the
+ * workspace adapter take. Seeded and written files create their parent
+ * directories, so `exists`, `isDirectory` and `readdir` see them.
+ */
+
+import type { WorkspaceInitFileSystem } from '../../src/commands/workspace-init-command';
+import type { CreateSpecFileSystem } from '../../src/commands/create-spec-command';
+import type { InstallSkillsFileSystem } from '../../src/commands/install-skills-command';
+import type { UninstallSkillsFileSystem } from '../../src/commands/uninstall-skills-command';
+import type { VerifyFileSystem } from '../../src/verification/verify-file-system';
+import type { WorkspaceFileSystem } from '../../src/workspace/workspace-adapter';
+
+/**
+ * Normalize a path to forward slashes and resolve relative segments.
+ */
+function normalizePath(p: string): string {
+  // Replace backslashes with forward slashes
+  let normalized = p.replace(/\\/g, '/');
+  // Remove trailing slash unless it's the root
+  if (normalized.length > 1 && normalized.endsWith('/')) {
+    normalized = normalized.slice(0, -1);
+  }
+  return normalized;
+}
+
+/**
+ * Prefix shared by every path inside a normalized directory path
+ */
+function childPrefix(np: string): string {
+  return np === '' || np === '.' ? '' : np.endsWith('/') ? np : `${np}/`;
+}
+
+/**
+ * InMemoryFS — satisfies WorkspaceInitFileSystem, CreateSpecFileSystem,
+ * InstallSkillsFileSystem, UninstallSkillsFileSystem, VerifyFileSystem and
+ * WorkspaceFileSystem interfaces.
+ *
+ * All paths are normalized to forward slashes.
+ */
+export class InMemoryFS
+  implements WorkspaceInitFileSystem, CreateSpecFileSystem,
+             InstallSkillsFileSystem, UninstallSkillsFileSystem,
+             VerifyFileSystem, WorkspaceFileSystem
+{
+  private files: Map<string, string> = new Map();
+  private dirs: Set<string> = new Set();
+  private _failOnNextWrite = false;
+
+  /**
+   * @param files - Initial file contents by path
+   * @param dirs - Initial (possibly empty) directories
+   */
+  constructor(files: Record<string, string> = {}, dirs: string[] = []) {
+    for (const dir of dirs) {
+      this.addDirectories(normalizePath(dir));
+    }
+    for (const [p, content] of Object.entries(files)) {
+      this.setFile(normalizePath(p), content);
+    }
+  }
+
+  async exists(p: string): Promise<boolean> {
+    const np = normalizePath(p);
+    return this.files.has(np) || this.dirs.has(np);
+  }
+
+  async mkdir(p: string, options?: { recursive?: boolean }): Promise<void> {
+    const np = normalizePath(p);
+    if (options?.recursive) {
+      this.addDirectories(np);
+    }
+    this.dirs.add(np);
+  }
+
+  async writeFile(p: string, content: string): Promise<void> {
+    if (this._failOnNextWrite) {
+      this._failOnNextWrite = false;
+      throw new Error('Simulated write failure');
+    }
+    this.setFile(normalizePath(p), content);
+  }
+
+  /**
+   * Remove a file or an empty directory
+   */
+  async remove(p: string): Promise<void> {
+    const np = normalizePath(p);
+    if (this.files.delete(np)) {
+      return;
+    }
+    if ((await this.readdir(np)).length > 0) {
+      throw new Error(`ENOTEMPTY: directory not empty: ${np}`);
+    }
+    this.dirs.delete(np);
+  }
+
+  async readFile(p: string): Promise<string> {
+    const np = normalizePath(p);
+    const content = this.files.get(np);
+    if (content === undefined) {
+      throw new Error(`ENOENT: no such file: ${np}`);
+    }
+    return content;
+  }
+
+  async readdir(p: string): Promise<string[]> {
+    const prefix = childPrefix(normalizePath(p));
+    const entries = new Set<string>();
+
+    // Collect direct children from files and dirs
+    for (const entryPath of [...this.files.keys(), ...this.dirs]) {
+      if (entryPath.startsWith(prefix) && entryPath !== prefix) {
+        entries.add(entryPath.slice(prefix.length).split('/')[0]);
+      }
+    }
+
+    return Array.from(entries);
+  }
+
+  async isDirectory(p: string): Promise<boolean> {
+    const np = normalizePath(p);
+    return this.dirs.has(np);
+  }
+
+  async listFiles(dirPath: string): Promise<string[]> {
+    const prefix = childPrefix(normalizePath(dirPath));
+    return [...this.files.keys()].filter(filePath => filePath.startsWith(prefix));
+  }
+
+  async copyDirectory(source: string, target: string): Promise<void> {
+    const prefix = childPrefix(normalizePath(source));
+    const targetPath = normalizePath(target);
+    for (const [filePath, content] of [...this.files]) {
+      if (filePath.startsWith(prefix)) {
+        this.setFile(`${targetPath}/${filePath.slice(prefix.length)}`, content);
+      }
+    }
+  }
+
+  // --- Test inspection helpers ---
+
+  getFile(p: string): string | undefined {
+    return this.files.get(normalizePath(p));
+  }
+
+  getAllFiles(): Map<string, string> {
+    return new Map(this.files);
+  }
+
+  getAllDirs(): Set<string> {
+    return new Set(this.dirs);
+  }
+
+  hasFile(p: string): boolean {
+    return this.files.has(normalizePath(p));
+  }
+
+  hasDir(p: string): boolean {
+    return this.dirs.has(normalizePath(p));
+  }
+
+  /**
+   * Configure the next writeFile call to throw an error.
+   */
+  failOnNextWrite(): void {
+    this._failOnNextWrite = true;
+  }
+
+  /**
+   * Store a file and implicitly create its parent directories
+   */
+  private setFile(np: string, content: string): void {
+    this.files.set(np, content);
+    const lastSlash = np.lastIndexOf('/');
+    if (lastSlash > 0) {
+      this.addDirectories(np.substring(0, lastSlash));
+    }
+  }
+
+  /**
+   * Create a directory and all its ancestors
+   */
+  private addDirectories(np: string): void {
+    const parts = np.split('/').filter(Boolean);
+    const prefix = np.startsWith('/') ? '/' : '';
+    let current = '';
+    for (const part of parts) {
+      current = current ? `${current}/${part}` : `${prefix}${part}`;
+      this.dirs.add(current);
+    }
+  }
+}
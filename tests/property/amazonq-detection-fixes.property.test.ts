@@ -19,6 +19,9 @@ import { ClaudeCodeAdapter } from '../../src/adapters/claude-code-adapter';
 import { CodexAdapter } from '../../src/adapters/codex-adapter';
 import { AntigravityAdapter } from '../../src/adapters/antigravity-adapter';
 import { AmazonQAdapter } from '../../src/adapters/amazonq-adapter';
+import { CursorAdapter } from '../../src/adapters/cursor-adapter';
+import { CopilotAdapter } from '../../src/adapters/copilot-adapter';
+import { GeminiCliAdapter } from '../../src/adapters/gemini-cli-adapter';
 import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
 import type { InstallSkillsFileSystem } from '../../src/commands/install-skills-command';
 import { SkillRegistry } from '../../src/registry/skill-registry';
@@ -73,10 +76,16 @@ const PLATFORM_MARKERS: Array<{ marker: string; isDir: boolean; expected: Platfo
   { marker: 'AGENTS.md', isDir: false, expected: 'codex' },
   { marker: '.agent/', isDir: true, expected: 'antigravity' },
   { marker: '.amazonq/', isDir: true, expected: 'amazonq' },
+  { marker: '.cursor/', isDir: true, expected: 'cursor' },
+  { marker: '.cursorrules', isDir: false, expected: 'cursor' },
+  { marker: '.github/instructions/', isDir: true, expected: 'copilot' },
+  { marker: '.github/copilot-instructions.md', isDir: false, expected: 'copilot' },
+  { marker: '.gemini/', isDir: true, expected: 'gemini-cli' },
+  { marker: 'GEMINI.md', isDir: false, expected: 'gemini-cli' },
 ];
 
 /** The expected priority order (highest to lowest) */
-const PRIORITY_ORDER: PlatformId[] = ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq'];
+const PRIORITY_ORDER: PlatformId[] = ['kiro', 'claude-code', 'codex', 'antigravity', 'amazonq', 'cursor', 'copilot', 'gemini-cli'];
 
 function createFullAdapterMap(): Map<PlatformId, PlatformAdapter> {
   const adapters = new Map<PlatformId, PlatformAdapter>();
@@ -85,6 +94,9 @@ function createFullAdapterMap(): Map<PlatformId, PlatformAdapter> {
   adapters.set('codex', new CodexAdapter());
   adapters.set('antigravity', new AntigravityAdapter());
   adapters.set('amazonq', new AmazonQAdapter());
+  adapters.set('cursor', new CursorAdapter());
+  adapters.set('copilot', new CopilotAdapter());
+  adapters.set('gemini-cli', new GeminiCliAdapter());
   return adapters;
 }
 
@@ -149,7 +161,7 @@ describe('Property 2.1.2: Priority ordering preserved with multiple markers', ()
    * **Validates: Requirements 2**
    *
    * When multiple platform markers exist, the higher-priority platform wins.
-   * Priority: kiro > claude-code > codex > antigravity > amazonq
+   * Priority: kiro > claude-code > codex > antigravity > amazonq > cursor > copilot > gemini-cli
    */
   it('higher-priority platform wins when multiple markers present', async () => {
     // Generate pairs of distinct platforms from the priority order
@@ -0,0 +1,248 @@
+/**
+ * Property-Based Tests for Claude Code native skills
+ *
+ * Feature: claude-code-native-skills
+ * Property 1: formatSkill/parseSkill round trip through `<name>/SKILL.md`
+ * Property 2: Skills with parameters, and only those, get a slash command
+ * Unit tests: install-skills migration, SkillVerifier, transformer, definition validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as nodeFs from 'fs';
+import { fileURLToPath } from 'url';
+import { ClaudeCodeAdapter } from '../../src/adapters/claude-code-adapter';
+import { getBuiltinPlatform } from '../../src/adapters/builtin-platforms';
+import { validatePlatformDefinition } from '../../src/adapters/platform-definition';
+import { parseFrontmatter } from '../../src/adapters/frontmatter';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { SkillTransformer } from '../../src/transformer/skill-transformer';
+import { SkillVerifier } from '../../src/verification/skill-verifier';
+import { allSkills, runTaskSkill } from '../../src/skills/index';
+import type { CanonicalSkill, PlatformId, SkillParameter } from '../../src/types';
+import { isDirectorySkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+const adapter = new ClaudeCodeAdapter();
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryText = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789 ,.:"\\'.split('')),
+  { minLength: 1, maxLength: 60 }
+).map(s => s.replace(/\s+/g, ' ').trim()).filter(s => s.length > 0);
+
+const arbitraryName = fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 3, maxLength: 20 })
+  .filter(name => /^[a-z]/.test(name));
+
+const arbitraryParameter: fc.Arbitrary<SkillParameter> = fc.record({
+  name: fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz'.split('')), { minLength: 1, maxLength: 12 }),
+  type: fc.constant('string' as const),
+  required: fc.boolean(),
+  description: arbitraryText,
+});
+
+const arbitrarySkill: fc.Arbitrary<CanonicalSkill> = fc.record({
+  name: arbitraryName,
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.constant('1.0.0'),
+  supportedPlatforms: fc.constant(['claude-code'] as PlatformId[]),
+  instructions: fc.array(arbitraryText, { minLength: 1, maxLength: 3 }).map(p => p.join('\n\n')),
+  parameters: fc.array(arbitraryParameter, { maxLength: 3 }),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+function createRegistry(): SkillRegistry {
+  const registry = new SkillRegistry();
+  allSkills.forEach(skill => registry.register(skill));
+  return registry;
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: formatSkill/parseSkill round trip through <name>/SKILL.md', () => {
+  it('writes name and description frontmatter and parses the skill back', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        const formatted = adapter.formatSkill(skill);
+        expect(isDirectorySkill(formatted)).toBe(true);
+        if (!isDirectorySkill(formatted)) return;
+
+        expect(formatted.directory).toBe(skill.name);
+        expect(formatted.files.map(f => f.filename)).toEqual(['SKILL.md']);
+
+        const content = formatted.files[0].content;
+        const fields = parseFrontmatter(content)!.fields;
+        expect(fields.get('name')).toBe(skill.name);
+        expect(JSON.parse(`"${fields.get('description')}"`)).toBe(skill.description);
+
+        const parsed = adapter.parseSkill(content);
+        expect(parsed.name).toBe(skill.name);
+        expect(parsed.title).toBe(skill.title);
+        expect(parsed.description).toBe(skill.description);
+        expect(parsed.instructions).toBe(skill.instructions);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Skills with parameters, and only those, get a slash command', () => {
+  it('writes .claude/commands/<name>.md with an argument hint built from the parameters', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        const companions = adapter.formatSkill(skill).companionFiles ?? [];
+
+        if (skill.parameters.length === 0) {
+          expect(companions).toEqual([]);
+          return;
+        }
+
+        expect(companions).toHaveLength(1);
+        expect(companions[0].path).toBe(`.claude/commands/${skill.name}.md`);
+
+        const command = parseFrontmatter(companions[0].content)!;
+        const hint = skill.parameters.map(p => p.required ? `<${p.name}>` : `[${p.name}]`).join(' ');
+        expect(command.fields.get('argument-hint')).toBe(hint);
+        expect(command.body).toContain('$ARGUMENTS');
+        expect(command.body).toContain(`.claude/skills/${skill.name}/SKILL.md`);
+        for (const parameter of skill.parameters) {
+          expect(command.body).toContain(`\`${parameter.name}\``);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('install-skills for Claude Code', () => {
+  it('writes SKILL.md directories and slash commands', async () => {
+    const fs = new InMemoryFS();
+    const command = new InstallSkillsCommand(createRegistry(), new Map([['claude-code', adapter]]), fs);
+
+    const result = await command.execute({ platform: 'claude-code', skills: ['run-task'], workspaceRoot: root });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.migrated).toEqual([]);
+    expect(fs.hasFile(`${root}/.claude/skills/run-task/SKILL.md`)).toBe(true);
+    expect(fs.hasFile(`${root}/.claude/commands/run-task.md`)).toBe(true);
+  });
+
+  // What the flat layout wrote: the SKILL.md body without frontmatter
+  const flatRunTask = `# ${runTaskSkill.title}\n\n${runTaskSkill.description}\n\n## Usage\n\n${runTaskSkill.instructions}\n`;
+
+  it('migrates flat .claude/skills/<name>.md files', async () => {
+    const fs = new InMemoryFS({ [`${root}/.claude/skills/run-task.md`]: flatRunTask });
+    const command = new InstallSkillsCommand(createRegistry(), new Map([['claude-code', adapter]]), fs);
+
+    const result = await command.execute({ platform: 'claude-code', skills: ['run-task', 'create-spec'], workspaceRoot: root });
+
+    expect(result.data).toMatchObject({ installed: ['run-task', 'create-spec'], migrated: ['run-task'] });
+    expect(result.warnings).toBeUndefined();
+    expect(fs.hasFile(`${root}/.claude/skills/run-task.md`)).toBe(false);
+    expect(fs.hasFile(`${root}/.claude/skills/run-task/SKILL.md`)).toBe(true);
+  });
+
+  it('migrates the unedited flat files release 0.1.0 wrote', async () => {
+    const fixtures = fileURLToPath(new URL('../fixtures/release-0.1.0/claude-code/skills/', import.meta.url));
+    const fs = new InMemoryFS(Object.fromEntries(nodeFs.readdirSync(fixtures).map(file =>
+      [`${root}/.claude/skills/${file}`, nodeFs.readFileSync(`${fixtures}${file}`, 'utf-8')]
+    )));
+    const command = new InstallSkillsCommand(createRegistry(), new Map([['claude-code', adapter]]), fs);
+
+    const result = await command.execute({ platform: 'claude-code', workspaceRoot: root });
+
+    expect(result.data!.installed).toHaveLength(allSkills.length);
+    expect(result.data!.migrated).toEqual(result.data!.installed);
+    expect(result.warnings).toBeUndefined();
+    expect([...fs.getAllFiles().keys()].filter(f => /^\/workspace\/\.claude\/skills\/[^/]+\.md$/.test(f))).toEqual([]);
+  });
+
+  it('ignores trailing whitespace when comparing a flat file with the current skill', async () => {
+    const fs = new InMemoryFS({ [`${root}/.claude/skills/run-task.md`]: `${flatRunTask.trimEnd()}\n\n\n` });
+    const command = new InstallSkillsCommand(createRegistry(), new Map([['claude-code', adapter]]), fs);
+
+    const result = await command.execute({ platform: 'claude-code', skills: ['run-task'], workspaceRoot: root });
+
+    expect(result.data).toMatchObject({ installed: ['run-task'], migrated: ['run-task'] });
+  });
+
+  it('keeps an edited flat file with a warning unless forced', async () => {
+    const edited = `${flatRunTask}\nTeam notes\n`;
+    const fs = new InMemoryFS({ [`${root}/.claude/skills/run-task.md`]: edited });
+    const command = new InstallSkillsCommand(createRegistry(), new Map([['claude-code', adapter]]), fs);
+
+    const result = await command.execute({ platform: 'claude-code', skills: ['run-task'], workspaceRoot: root });
+
+    expect(result.data).toMatchObject({ installed: ['run-task'], migrated: [] });
+    expect(result.warnings).toEqual([
+      '.claude/skills/run-task.md is from an earlier layout of run-task but was edited, so it was kept; use --force to remove it',
+    ]);
+    expect(fs.getFile(`${root}/.claude/skills/run-task.md`)).toBe(edited);
+
+    const forced = await command.execute({ platform: 'claude-code', skills: ['run-task'], force: true, workspaceRoot: root });
+
+    expect(forced.data).toMatchObject({ installed: ['run-task'], migrated: ['run-task'] });
+    expect(fs.hasFile(`${root}/.claude/skills/run-task.md`)).toBe(false);
+  });
+});
+
+describe('SkillVerifier for Claude Code', () => {
+  it('checks <name>/SKILL.md and its frontmatter name', async () => {
+    const skill = adapter.formatSkill(runTaskSkill);
+    const content = isDirectorySkill(skill) ? skill.files[0].content : '';
+    const fs = new InMemoryFS({
+      [`${root}/.claude/skills/run-task/SKILL.md`]: content,
+      [`${root}/.claude/skills/create-spec/SKILL.md`]: content,
+    });
+
+    const checks = await new SkillVerifier(fs).verify('claude-code', ['run-task', 'create-spec'], root);
+
+    expect(checks.filter(c => c.name.endsWith('frontmatter')).map(c => [c.name, c.passed])).toEqual([
+      ['Skill run-task frontmatter', true],
+      ['Skill create-spec frontmatter', false],
+    ]);
+    expect(checks.find(c => c.name === 'Skill create-spec frontmatter')!.message)
+      .toBe('Skill frontmatter names run-task, expected create-spec');
+  });
+
+  it('points flat files from the old layout at install-skills', async () => {
+    const fs = new InMemoryFS({ [`${root}/.claude/skills/run-task.md`]: '# Run Task' });
+
+    const checks = await new SkillVerifier(fs).verify('claude-code', ['run-task'], root);
+
+    expect(checks).toHaveLength(1);
+    expect(checks[0]).toMatchObject({ name: 'Skill run-task exists', passed: false, actual: 'legacy layout' });
+    expect(checks[0].message).toContain('run install-skills to migrate');
+  });
+});
+
+describe('Claude Code definition', () => {
+  it('keeps slash commands when the transformer injects CLI instructions', () => {
+    const transformer = new SkillTransformer(createRegistry(), new Map([['claude-code', adapter]]));
+    const skill = transformer.transformForPlatform('run-task', 'claude-code');
+
+    expect(skill.companionFiles?.map(f => f.path)).toEqual(['.claude/commands/run-task.md']);
+  });
+
+  it('validates commands, legacy files and legacy hashes', () => {
+    const definition = getBuiltinPlatform('claude-code');
+    expect(validatePlatformDefinition(definition).valid).toBe(true);
+
+    const invalid = validatePlatformDefinition({
+      ...definition,
+      skill: { ...definition.skill, legacyFiles: 'x.md', legacyHashes: { 'run-task': 'sha256-x' } },
+      commands: { path: '', template: 'x' },
+    });
+    expect(invalid.errors.map(e => e.path)).toEqual(['skill.legacyFiles', 'skill.legacyHashes', 'commands.path', 'commands.template']);
+  });
+});
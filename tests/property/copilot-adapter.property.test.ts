@@ -0,0 +1,153 @@
+/**
+ * Property-Based Tests for CopilotAdapter
+ *
+ * Feature: copilot-adapter
+ * Property 1: formatSkill/parseSkill round trip through `*.instructions.md`
+ * Property 2: generateInstructionsContent lists every spec
+ * Unit tests: overrides, detection, SkillVerifier and PlatformVerifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { CopilotAdapter, COPILOT_SKILL_APPLY_TO } from '../../src/adapters/copilot-adapter';
+import { WorkspaceAdapter } from '../../src/workspace/workspace-adapter';
+import { SkillVerifier } from '../../src/verification/skill-verifier';
+import { PlatformVerifier } from '../../src/verification/platform-verifier';
+import type { CanonicalSkill, PlatformId, SpecMetadata } from '../../src/types';
+import { isSingleFileSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+const adapter = new CopilotAdapter();
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryText = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789 ,.:"\\'.split('')),
+  { minLength: 1, maxLength: 60 }
+).map(s => s.replace(/\s+/g, ' ').trim()).filter(s => s.length > 0);
+
+const arbitraryName = fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 3, maxLength: 20 });
+
+const arbitrarySkill: fc.Arbitrary<CanonicalSkill> = fc.record({
+  name: arbitraryName,
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.constant('1.0.0'),
+  supportedPlatforms: fc.constant(['copilot'] as PlatformId[]),
+  instructions: fc.array(arbitraryText, { minLength: 1, maxLength: 3 }).map(p => p.join('\n\n')),
+  parameters: fc.constant([]),
+});
+
+const arbitrarySpecMetadata: fc.Arbitrary<SpecMetadata> = fc.record({
+  name: arbitraryName,
+  description: arbitraryText,
+  path: fc.constant('.kiro/specs/test-spec'),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: formatSkill/parseSkill round trip through `*.instructions.md`', () => {
+  it('writes applyTo frontmatter and parses back to the same skill', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        const formatted = adapter.formatSkill(skill);
+        expect(isSingleFileSkill(formatted)).toBe(true);
+        if (!isSingleFileSkill(formatted)) return;
+
+        expect(formatted.filename).toBe(`${skill.name}.instructions.md`);
+        expect(formatted.content.startsWith(`---\napplyTo: "${COPILOT_SKILL_APPLY_TO}"\n`)).toBe(true);
+
+        const parsed = adapter.parseSkill(formatted.content);
+        expect(parsed.title).toBe(skill.title);
+        expect(parsed.description).toBe(skill.description);
+        expect(parsed.instructions).toBe(skill.instructions);
+        expect(parsed.supportedPlatforms).toEqual(['copilot']);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: generateInstructionsContent lists every spec', () => {
+  it('includes each spec name and description', () => {
+    fc.assert(
+      fc.property(fc.array(arbitrarySpecMetadata, { minLength: 1, maxLength: 10 }), (specs) => {
+        const content = adapter.generateInstructionsContent(specs);
+        for (const spec of specs) {
+          expect(content).toContain(`- **${spec.name}**: ${spec.description}`);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('CopilotAdapter', () => {
+  it('applies copilot overrides', () => {
+    const { content } = adapter.formatSkill({
+      name: 'run-task',
+      title: 'Run Task',
+      description: 'Run one task',
+      version: '1.0.0',
+      supportedPlatforms: ['copilot'],
+      instructions: 'Default instructions',
+      parameters: [],
+      platformOverrides: { copilot: { instructions: 'Copilot instructions', additionalContent: 'Copilot extra' } },
+    }) as { content: string };
+
+    expect(content).toContain('Copilot instructions');
+    expect(content).toContain('Copilot extra');
+    expect(content).not.toContain('Default instructions');
+  });
+
+  it('writes the repository-wide instructions without frontmatter', () => {
+    const content = adapter.generateInstructionsContent([]);
+    expect(content.startsWith('# SDD Framework')).toBe(true);
+    expect(content).toContain('.kiro/specs/');
+    expect(() => adapter.parseSkill(content)).toThrow('missing frontmatter');
+  });
+});
+
+describe('Copilot detection and verification', () => {
+  const workspace = new WorkspaceAdapter(new Map());
+  const root = '/workspace';
+
+  it('detects Copilot instruction files but not a bare .github/', async () => {
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({ '.github/copilot-instructions.md': '' }))).toBe('copilot');
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({}, ['.github/instructions/']))).toBe('copilot');
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({}, ['.github/']))).toBeNull();
+  });
+
+  it('SkillVerifier looks for .instructions.md files under .github/instructions/', async () => {
+    const fs = new InMemoryFS({ [`${root}/.github/instructions/run-task.instructions.md`]: '## CLI Invocation' });
+
+    const checks = await new SkillVerifier(fs).verify('copilot', ['run-task', 'create-spec'], root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['Skill run-task exists', true],
+      ['Skill run-task non-empty', true],
+      ['Skill run-task CLI invocation section', true],
+      ['Skill create-spec exists', false],
+    ]);
+    expect(checks[3].message).toBe('Skill file missing at create-spec.instructions.md');
+  });
+
+  it('PlatformVerifier checks .github/copilot-instructions.md', async () => {
+    const fs = new InMemoryFS(
+      { [`${root}/.github/copilot-instructions.md`]: adapter.generateInstructionsContent([]) },
+      [`${root}/.kiro/specs`]
+    );
+
+    const checks = await new PlatformVerifier(fs).verify('copilot', root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['.kiro/specs/ exists', true],
+      ['.github/copilot-instructions.md exists', true],
+      ['.github/copilot-instructions.md references .kiro/specs/', true],
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Property-Based Tests for CursorAdapter
+ *
+ * Feature: cursor-adapter
+ * Property 1: formatSkill/parseSkill round trip
+ * Unit tests: overrides, instructions rule, reserved skill name, detection, SkillVerifier and PlatformVerifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { CursorAdapter } from '../../src/adapters/cursor-adapter';
+import { parseFrontmatter } from '../../src/adapters/frontmatter';
+import { WorkspaceAdapter } from '../../src/workspace/workspace-adapter';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { SkillVerifier } from '../../src/verification/skill-verifier';
+import { PlatformVerifier } from '../../src/verification/platform-verifier';
+import type { CanonicalSkill, PlatformId } from '../../src/types';
+import { isSingleFileSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+const adapter = new CursorAdapter();
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryText = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789 ,.:'.split('')),
+  { minLength: 1, maxLength: 60 }
+).map(s => s.replace(/\s+/g, ' ').trim()).filter(s => s.length > 0);
+
+const arbitrarySkill: fc.Arbitrary<CanonicalSkill> = fc.record({
+  name: fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 3, maxLength: 20 }),
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.constant('1.0.0'),
+  supportedPlatforms: fc.constant(['cursor'] as PlatformId[]),
+  instructions: fc.array(arbitraryText, { minLength: 1, maxLength: 3 }).map(p => p.join('\n\n')),
+  parameters: fc.constant([]),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: formatSkill/parseSkill round trip', () => {
+  it('writes an agent-requested .mdc rule that parses back to the same skill', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        const formatted = adapter.formatSkill(skill);
+        expect(isSingleFileSkill(formatted)).toBe(true);
+        if (!isSingleFileSkill(formatted)) return;
+
+        expect(formatted.filename).toBe(`${skill.name}.mdc`);
+        expect(Object.fromEntries(parseFrontmatter(formatted.content)!.fields)).toEqual({
+          description: skill.description,
+          globs: '',
+          alwaysApply: 'false',
+        });
+
+        const parsed = adapter.parseSkill(formatted.content);
+        expect(parsed.title).toBe(skill.title);
+        expect(parsed.description).toBe(skill.description);
+        expect(parsed.instructions).toBe(skill.instructions);
+        expect(parsed.supportedPlatforms).toEqual(['cursor']);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('CursorAdapter', () => {
+  const skill: CanonicalSkill = {
+    name: 'run-task',
+    title: 'Run Task',
+    description: 'Run one task\nfrom a spec',
+    version: '1.0.0',
+    supportedPlatforms: ['cursor'],
+    instructions: 'Default instructions',
+    parameters: [],
+    platformOverrides: { cursor: { instructions: 'Cursor instructions', additionalContent: 'Cursor extra' } },
+  };
+
+  it('applies cursor overrides and keeps the description on one line', () => {
+    const { content } = adapter.formatSkill(skill) as { content: string };
+
+    expect(content.startsWith('---\ndescription: Run one task from a spec\nglobs: \nalwaysApply: false\n---\n')).toBe(true);
+    expect(content).toContain('Cursor instructions');
+    expect(content).toContain('Cursor extra');
+    expect(content).not.toContain('Default instructions');
+  });
+
+  it('generates an always-applied instructions rule listing the specs', () => {
+    const content = adapter.generateInstructionsContent([
+      { name: 'user-auth', description: 'User authentication', path: '.kiro/specs/user-auth/' },
+    ]);
+    const { fields, body } = parseFrontmatter(content)!;
+
+    expect(fields.get('alwaysApply')).toBe('true');
+    expect(body).toContain('.kiro/specs/');
+    expect(body).toContain('- **user-auth**: User authentication');
+  });
+
+  it('rejects content without frontmatter', () => {
+    expect(() => adapter.parseSkill('# No frontmatter')).toThrow('missing frontmatter');
+  });
+
+  it('refuses to register a skill whose rule would replace specs.mdc', () => {
+    const registry = new SkillRegistry();
+
+    expect(() => registry.register({ ...skill, name: 'specs' }))
+      .toThrow('Skill name "specs" is reserved on cursor: its file would replace .cursor/rules/specs.mdc');
+    expect(() => registry.register({ ...skill, name: 'specs', supportedPlatforms: ['kiro'] })).not.toThrow();
+  });
+});
+
+describe('Cursor detection and verification', () => {
+  const workspace = new WorkspaceAdapter(new Map());
+  const root = '/workspace';
+
+  it('detects .cursor/ and .cursorrules, below the other platforms', async () => {
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({}, ['.cursor/']))).toBe('cursor');
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({ '.cursorrules': '' }))).toBe('cursor');
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({}, ['.cursor/', '.amazonq/']))).toBe('amazonq');
+  });
+
+  it('SkillVerifier looks for .mdc files under .cursor/rules/', async () => {
+    const { content } = adapter.formatSkill({
+      name: 'run-task',
+      title: 'Run Task',
+      description: 'Run one task',
+      version: '1.0.0',
+      supportedPlatforms: ['cursor'],
+      instructions: '## CLI Invocation\n\nsdd run-task',
+      parameters: [],
+    }) as { content: string };
+    const fs = new InMemoryFS({ [`${root}/.cursor/rules/run-task.mdc`]: content });
+
+    const checks = await new SkillVerifier(fs).verify('cursor', ['run-task', 'create-spec'], root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['Skill run-task exists', true],
+      ['Skill run-task non-empty', true],
+      ['Skill run-task CLI invocation section', true],
+      ['Skill create-spec exists', false],
+    ]);
+    expect(checks[3].message).toBe('Skill file missing at create-spec.mdc');
+  });
+
+  it('PlatformVerifier checks the specs.mdc instructions rule', async () => {
+    const fs = new InMemoryFS(
+      { [`${root}/.cursor/rules/specs.mdc`]: adapter.generateInstructionsContent([]) },
+      [`${root}/.kiro/specs`]
+    );
+
+    const checks = await new PlatformVerifier(fs).verify('cursor', root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['.kiro/specs/ exists', true],
+      ['.cursor/rules/specs.mdc exists', true],
+      ['.cursor/rules/specs.mdc references .kiro/specs/', true],
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Property-Based Tests for DeclarativeAdapter and PlatformRegistry
+ *
+ * Feature: declarative-platform-adapters
+ * Property 1: Built-in definitions survive JSON serialization unchanged in behavior
+ * Property 2: formatSkill/parseSkill round trip for any skill layout
+ * Unit tests: extends, skill support, detection, loading `.sdd/platforms/*.json`, verifiers
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { DeclarativeAdapter, renderTemplate } from '../../src/adapters/declarative-adapter';
+import { BUILTIN_PLATFORMS } from '../../src/adapters/builtin-platforms';
+import { validatePlatformDefinition } from '../../src/adapters/platform-definition';
+import type { PlatformDefinition, SkillLayoutDefinition } from '../../src/adapters/platform-definition';
+import { PlatformRegistry, loadPlatformDefinitions } from '../../src/registry/platform-registry';
+import { ClaudeCodeAdapter, GeminiCliAdapter, KiroAdapter } from '../../src/adapters';
+import { SkillVerifier } from '../../src/verification/skill-verifier';
+import { PlatformVerifier } from '../../src/verification/platform-verifier';
+import type { CanonicalSkill, PlatformSkill, SpecMetadata } from '../../src/types';
+import { isSingleFileSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryText = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789 ,.:"\\{}|'.split('')),
+  { minLength: 1, maxLength: 60 }
+).map(s => s.replace(/\s+/g, ' ').trim()).filter(s => s.length > 0);
+
+const arbitraryName = fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 3, maxLength: 20 });
+
+const arbitrarySkill = (platform: string): fc.Arbitrary<CanonicalSkill> => fc.record({
+  name: arbitraryName,
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.constant('1.0.0'),
+  supportedPlatforms: fc.constant([platform]),
+  instructions: fc.array(arbitraryText, { minLength: 1, maxLength: 3 }).map(p => p.join('\n\n')),
+  parameters: fc.constant([]),
+});
+
+const arbitrarySpecs: fc.Arbitrary<SpecMetadata[]> = fc.array(
+  fc.record({ name: arbitraryName, description: arbitraryText, path: fc.constant('.kiro/specs/x/') }),
+  { maxLength: 4 }
+);
+
+/** Skill layouts covering plain markdown, frontmatter and TOML, with and without headings */
+const arbitraryLayout: fc.Arbitrary<SkillLayoutDefinition> = fc.record({
+  layout: fc.constantFrom('file' as const, 'directory' as const),
+  instructionsHeading: fc.constantFrom(undefined, 'Instructions', 'Steps (v2)'),
+  variant: fc.constantFrom('plain', 'frontmatter', 'description-field', 'toml'),
+}).map(({ layout, instructionsHeading, variant }) => {
+  switch (variant) {
+    case 'frontmatter':
+      return { layout, instructionsHeading, fields: { inclusion: 'auto' } };
+    case 'description-field':
+      return { layout, instructionsHeading, fields: { description: '{{description|line|json}}' }, descriptionInBody: false };
+    case 'toml':
+      return { layout, instructionsHeading, format: 'toml' as const, fields: { description: '{{description}}', prompt: '{{body}}' }, descriptionInBody: false };
+    default:
+      return { layout, instructionsHeading };
+  }
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function contentOf(skill: PlatformSkill): string {
+  return isSingleFileSkill(skill) ? skill.content : skill.files[0].content;
+}
+
+function definition(overrides: Partial<PlatformDefinition> = {}): PlatformDefinition {
+  return {
+    id: 'windsurf',
+    name: 'Windsurf',
+    skillsPath: '.windsurf/rules/',
+    instructionsFile: '.windsurfrules',
+    skill: { layout: 'file' },
+    instructions: { template: ['# Rules', '', 'Specs live in `{{specsPath}}`.', '', '{{specs}}', ''] },
+    detection: { markers: ['.windsurf/', '.windsurfrules'] },
+    ...overrides,
+  };
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Built-in definitions survive JSON serialization unchanged in behavior', () => {
+  it('an adapter built from the JSON form writes the same skills and instructions', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...BUILTIN_PLATFORMS),
+        fc.constantFrom(...BUILTIN_PLATFORMS.map(p => p.id)).chain(id => arbitrarySkill(id)),
+        arbitrarySpecs,
+        (platform, skill, specs) => {
+          const builtin = new DeclarativeAdapter(platform);
+          const fromJson = new DeclarativeAdapter(JSON.parse(JSON.stringify(platform)) as PlatformDefinition);
+          const onPlatform = { ...skill, supportedPlatforms: [platform.id] };
+
+          expect(fromJson.formatSkill(onPlatform)).toEqual(builtin.formatSkill(onPlatform));
+          expect(fromJson.generateInstructionsContent(specs)).toBe(builtin.generateInstructionsContent(specs));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: formatSkill/parseSkill round trip for any skill layout', () => {
+  it('parses back the title, description and instructions that were written', () => {
+    fc.assert(
+      fc.property(arbitraryLayout, arbitrarySkill('windsurf'), (skillLayout, skill) => {
+        const adapter = new DeclarativeAdapter(definition({ skill: skillLayout }));
+        const formatted = adapter.formatSkill(skill);
+
+        if (skillLayout.layout === 'directory') {
+          expect(formatted).toMatchObject({ directory: skill.name, files: [{ filename: 'SKILL.md' }] });
+        } else {
+          expect(formatted).toMatchObject({ filename: `${skill.name}.md` });
+        }
+
+        const parsed = adapter.parseSkill(contentOf(formatted));
+        expect(parsed.title).toBe(skill.title);
+        expect(parsed.description).toBe(skill.description);
+        expect(parsed.instructions).toBe(skill.instructions);
+        expect(parsed.supportedPlatforms).toEqual(['windsurf']);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('renderTemplate', () => {
+  it('applies filters in order and leaves unknown placeholders alone', () => {
+    expect(renderTemplate('{{a|line|json}} {{b}} {{ a }}', { a: ' x \n y ' })).toBe('"x y" {{b}}  x \n y ');
+  });
+
+  it('does not expand placeholders inside substituted values', () => {
+    expect(renderTemplate('{{a}}', { a: '{{b}}', b: 'no' })).toBe('{{b}}');
+  });
+});
+
+describe('Built-in adapters', () => {
+  it('Kiro parses the description between the title and ## Instructions', () => {
+    const adapter = new KiroAdapter();
+    const content = contentOf(adapter.formatSkill({
+      name: 'run-task', title: 'Run Task', description: 'Run one task', version: '1.0.0',
+      supportedPlatforms: ['kiro'], instructions: 'Do it.', parameters: [],
+    }));
+
+    expect(adapter.parseSkill(content)).toMatchObject({ title: 'Run Task', description: 'Run one task', instructions: 'Do it.' });
+  });
+
+  it('keeps instructions-file and user-skills paths from the definitions', () => {
+    expect(new KiroAdapter().generateInstructionsContent([])).toBe('');
+    expect(new GeminiCliAdapter().getUserSkillsDirectory()).toBe('~/.gemini/commands/');
+    expect(new ClaudeCodeAdapter().getUserSkillsDirectory()).toBeNull();
+  });
+});
+
+describe('validatePlatformDefinition', () => {
+  it('accepts every built-in definition', () => {
+    for (const platform of BUILTIN_PLATFORMS) {
+      expect(validatePlatformDefinition(platform).errors).toEqual([]);
+    }
+  });
+
+  it('names each invalid field', () => {
+    const result = validatePlatformDefinition({
+      id: 'Not Kebab',
+      skillsPath: '',
+      instructionsFile: 3,
+      skill: { layout: 'folder', format: 'toml', fields: { description: '{{description}}' } },
+      detection: {},
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual([
+      'id', 'skillsPath', 'instructionsFile', 'skill.layout', 'skill.fields', 'detection.markers',
+    ]);
+  });
+});
+
+describe('PlatformRegistry', () => {
+  it('lists the built-in platforms in detection order', () => {
+    expect(new PlatformRegistry().ids()).toEqual([
+      'kiro', 'claude-code', 'codex', 'antigravity', 'amazonq', 'cursor', 'copilot', 'gemini-cli',
+    ]);
+  });
+
+  it('merges extends, without inheriting name, markers or commands', () => {
+    const registry = new PlatformRegistry();
+    registry.register({ id: 'windsurf', extends: 'claude-code', skillsPath: '.windsurf/skills/' });
+
+    const merged = registry.get('windsurf')!;
+    expect(merged.skill.instructionsHeading).toBe('Usage');
+    expect(merged.instructionsFile).toBe('CLAUDE.md');
+    expect(merged.name).toBeUndefined();
+    expect(merged.detection.markers).toEqual([]);
+    expect(merged.commands).toBeUndefined();
+    expect(registry.lineage('windsurf')).toEqual(['windsurf', 'claude-code']);
+  });
+
+  it('lets platforms that extend another install its skills and use its overrides', () => {
+    const registry = new PlatformRegistry();
+    registry.register({ id: 'windsurf', extends: 'claude-code', skillsPath: '.windsurf/skills/' });
+    const skill: CanonicalSkill = {
+      name: 'run-task', title: 'Run Task', description: 'Run one task', version: '1.0.0',
+      supportedPlatforms: ['claude-code'], instructions: 'Default', parameters: [],
+      platformOverrides: { 'claude-code': { instructions: 'Claude instructions' } },
+    };
+
+    expect(registry.supports(skill, 'windsurf')).toBe(true);
+    expect(registry.supports(skill, 'codex')).toBe(false);
+    expect(contentOf(registry.createAdapter('windsurf')!.formatSkill(skill))).toContain('Claude instructions');
+  });
+
+  it('rejects unknown parents and invalid merged definitions', () => {
+    const registry = new PlatformRegistry();
+    expect(() => registry.register({ id: 'x', extends: 'nope' })).toThrow('extends unknown platform nope');
+    expect(() => registry.register(definition({ skill: { layout: 'folder' as 'file' } }))).toThrow('Invalid platform definition');
+    expect(registry.has('x')).toBe(false);
+  });
+
+  it('detects registered platforms after the built-ins', async () => {
+    const registry = new PlatformRegistry();
+    registry.register(definition());
+
+    expect(await registry.detect(new InMemoryFS({ '.windsurfrules': '' }))).toBe('windsurf');
+    expect(await registry.detect(new InMemoryFS({ '.windsurfrules': '', 'CLAUDE.md': '' }))).toBe('claude-code');
+  });
+});
+
+describe('loadPlatformDefinitions', () => {
+  const root = '/workspace';
+
+  it('registers definitions in file name order and reports bad files', async () => {
+    const registry = new PlatformRegistry();
+    const fs = new InMemoryFS({
+      [`${root}/.sdd/platforms/a-windsurf.json`]: JSON.stringify(definition()),
+      [`${root}/.sdd/platforms/b-windsurf-next.json`]: JSON.stringify({ id: 'windsurf-next', extends: 'windsurf', skillsPath: '.next/' }),
+      [`${root}/.sdd/platforms/c-broken.json`]: '{ not json',
+      [`${root}/.sdd/platforms/notes.md`]: '# ignored',
+    }, [`${root}/.sdd/platforms/`]);
+
+    const result = await loadPlatformDefinitions(fs, root, registry);
+
+    expect(result.loaded).toEqual(['windsurf', 'windsurf-next']);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].path).toBe('.sdd/platforms/c-broken.json');
+    expect(registry.get('windsurf-next')!.instructionsFile).toBe('.windsurfrules');
+  });
+
+  it('does nothing without a .sdd/platforms/ directory', async () => {
+    const registry = new PlatformRegistry();
+    expect(await loadPlatformDefinitions(new InMemoryFS(), root, registry)).toEqual({ loaded: [], errors: [] });
+    expect(registry.ids()).toHaveLength(BUILTIN_PLATFORMS.length);
+  });
+});
+
+describe('Verifiers with a registered platform', () => {
+  const root = '/workspace';
+  const registry = new PlatformRegistry();
+  registry.register(definition({ skill: { layout: 'directory', fileName: 'RULE.md' } }));
+
+  it('SkillVerifier follows the definition layout', async () => {
+    const fs = new InMemoryFS(
+      { [`${root}/.windsurf/rules/run-task/RULE.md`]: '## CLI Invocation' },
+      [`${root}/.windsurf/rules/run-task`]
+    );
+
+    const checks = await new SkillVerifier(fs, registry).verify('windsurf', ['run-task'], root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['Skill run-task exists', true],
+      ['Skill run-task non-empty', true],
+      ['Skill run-task CLI invocation section', true],
+      ['Skill run-task directory structure', true],
+    ]);
+  });
+
+  it('SkillVerifier fails unknown platforms instead of guessing paths', async () => {
+    const checks = await new SkillVerifier(new InMemoryFS(), registry).verify('nope', ['run-task'], root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([['Platform nope registered', false]]);
+  });
+
+  it('PlatformVerifier checks the definition instructions file', async () => {
+    const adapter = registry.createAdapter('windsurf')!;
+    const fs = new InMemoryFS(
+      { [`${root}/.windsurfrules`]: adapter.generateInstructionsContent([]) },
+      [`${root}/.kiro/specs`]
+    );
+
+    const checks = await new PlatformVerifier(fs, registry).verify('windsurf', root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['.kiro/specs/ exists', true],
+      ['.windsurfrules exists', true],
+      ['.windsurfrules references .kiro/specs/', true],
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Property-Based Tests for the design.md model
+ *
+ * Feature: design-document
+ * Property 1: Each section's state follows its own body and its subsections
+ * Property 2: A property is unreferenced exactly when no task mentions it
+ * Unit tests: code blocks, Mermaid diagrams, properties, SpecVerifier checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  parseDesignDocument,
+  flattenDesignSections,
+  missingDesignSections,
+  findTaskPropertyReferences,
+  type DesignSectionState,
+} from '../../src/documents/design-document';
+import { SpecVerifier } from '../../src/verification/spec-verifier';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const BODIES: Record<DesignSectionState, string[]> = {
+  filled: ['The CLI parses arguments and calls a command class.', '```ts\nconst x = 1;\n```'],
+  empty: ['', '<!-- describe the architecture -->'],
+  placeholder: ['{description}', 'TODO', '- [Describe the components]\nTBD'],
+};
+
+const arbitraryBody = fc.constantFrom(...(Object.keys(BODIES) as DesignSectionState[]))
+  .chain(state => fc.constantFrom(...BODIES[state]).map(body => ({ state, body })));
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const DESIGN = [
+  '# Design Document: Auth',
+  '',
+  '## Overview',
+  '',
+  'Session-based login.',
+  '',
+  '## Architecture',
+  '',
+  '```mermaid',
+  'graph TD',
+  '  ## not a heading',
+  '```',
+  '',
+  '## Components and Interfaces',
+  '',
+  '### SessionStore',
+  '',
+  '```typescript',
+  'interface SessionStore {}',
+  '```',
+  '',
+  '## Correctness Properties',
+  '',
+  '### Property 1: Sessions round-trip',
+  '',
+  '*For any* session, saving then loading returns it.',
+  '',
+  '**Validates: Requirements 1.1, 2.1**',
+  '',
+  '**Property 2: Logout ends the session**',
+  '',
+  '**Validates: Requirements 2.1**',
+  '',
+  '## Error Handling',
+  '',
+  'TODO',
+].join('\n');
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Each section\'s state follows its own body and its subsections', () => {
+  it('filled wins over placeholder, which wins over empty', () => {
+    fc.assert(
+      fc.property(arbitraryBody, fc.array(arbitraryBody, { maxLength: 3 }), (parent, children) => {
+        const lines = ['# Design', '## Parent', parent.body];
+        children.forEach((c, i) => lines.push(`### Child ${i + 1}`, c.body));
+        const [section] = parseDesignDocument(lines.join('\n')).sections;
+
+        const states = [parent.state, ...children.map(c => c.state)];
+        const expected = states.includes('filled') ? 'filled' : states.includes('placeholder') ? 'placeholder' : 'empty';
+        expect(section.state).toBe(expected);
+        expect(section.children.map(c => c.state)).toEqual(children.map(c => c.state));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: A property is unreferenced exactly when no task mentions it', () => {
+  it('finds `Property N` in task titles and detail lines', () => {
+    fc.assert(
+      fc.property(fc.subarray([1, 2, 3, 4]), fc.boolean(), (ids, inDetails) => {
+        const lines = ['- [ ] 1 Tests', '  - [ ] 1.1 Property tests'];
+        ids.forEach((id, i) => {
+          if (inDetails) lines.push(`    - [ ] 1.1.${i + 1} Write test`, `      - **Property ${id}: name**`);
+          else lines.push(`    - [ ] 1.1.${i + 1} Write property test for Property ${id}`);
+        });
+        lines.push('', 'Property 9 is mentioned outside any task');
+
+        expect([...findTaskPropertyReferences(lines.join('\n'))].sort()).toEqual(ids.map(String).sort());
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('parseDesignDocument', () => {
+  const document = parseDesignDocument(DESIGN);
+
+  it('builds the heading tree, ignoring headings inside code blocks', () => {
+    expect(document.title).toBe('Design Document: Auth');
+    expect(flattenDesignSections(document.sections).map(s => [s.level, s.title, s.state])).toEqual([
+      [2, 'Overview', 'filled'],
+      [2, 'Architecture', 'filled'],
+      [2, 'Components and Interfaces', 'filled'],
+      [3, 'SessionStore', 'filled'],
+      [2, 'Correctness Properties', 'filled'],
+      [3, 'Property 1: Sessions round-trip', 'filled'],
+      [2, 'Error Handling', 'placeholder'],
+    ]);
+    expect(missingDesignSections(document)).toEqual([]);
+  });
+
+  it('collects code blocks and Mermaid diagrams', () => {
+    expect(document.codeBlocks.map(b => [b.language, b.line])).toEqual([['mermaid', 9], ['typescript', 18]]);
+    expect(document.diagrams.map(d => d.content)).toEqual(['graph TD\n  ## not a heading']);
+  });
+
+  it('parses correctness properties from headings and bold lines', () => {
+    expect(document.properties.map(p => [p.id, p.title, p.validates])).toEqual([
+      ['1', 'Sessions round-trip', ['1.1', '2.1']],
+      ['2', 'Logout ends the session', ['2.1']],
+    ]);
+  });
+});
+
+describe('SpecVerifier design checks', () => {
+  const root = '/workspace';
+  const specPath = `${root}/.kiro/specs/auth`;
+
+  async function verify(design: string | undefined, tasks: string) {
+    const files: Record<string, string> = {
+      [`${specPath}/requirements.md`]: '# Requirements',
+      [`${specPath}/tasks.md`]: tasks,
+    };
+    if (design !== undefined) files[`${specPath}/design.md`] = design;
+    const result = await new SpecVerifier(new InMemoryFS(files, [specPath])).verify('auth', root);
+    return {
+      filled: result.checks.find(c => c.name === 'design.md sections filled')!,
+      referenced: result.checks.find(c => c.name === 'design.md properties referenced by tasks')!,
+      warnings: result.warnings,
+      checks: result.checks,
+    };
+  }
+
+  it('reports template sections and unreferenced properties', async () => {
+    const { filled, referenced } = await verify(DESIGN, '- [ ] 1 Tests\n  - [ ] 1.1 Test Property 2');
+
+    expect(filled.passed).toBe(false);
+    expect(filled.actual).toBe('unfilled: Error Handling (placeholder, line 34)');
+    expect(referenced.passed).toBe(false);
+    expect(referenced.actual).toBe('unreferenced: Property 1');
+  });
+
+  it('passes a freshly created design and only warns about missing sections once started', async () => {
+    const fresh = await verify('# Design', '');
+    expect([fresh.filled.passed, fresh.referenced.passed]).toEqual([true, true]);
+    expect(fresh.warnings.filter(w => w.startsWith('design.md'))).toEqual([]);
+
+    const started = await verify('# Design\n\n## Overview\n\nLogin flow.', '');
+    expect(started.filled.passed).toBe(true);
+    expect(started.warnings.filter(w => w.startsWith('design.md'))).toEqual([
+      'design.md missing section: Architecture',
+      'design.md missing section: Components and Interfaces',
+    ]);
+  });
+
+  it('reports a missing design.md once, without the content checks', async () => {
+    const { checks, filled, referenced } = await verify(undefined, '');
+
+    expect(checks.filter(c => !c.passed && c.name.startsWith('design.md')).map(c => c.name)).toEqual(['design.md exists']);
+    expect([filled, referenced]).toEqual([undefined, undefined]);
+  });
+});
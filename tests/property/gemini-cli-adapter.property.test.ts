@@ -0,0 +1,182 @@
+/**
+ * Property-Based Tests for GeminiCliAdapter and the TOML helpers
+ *
+ * Feature: gemini-cli-adapter
+ * Property 1: Any string value round-trips through formatToml/parseToml
+ * Property 2: formatSkill/parseSkill round trip through a TOML custom command
+ * Unit tests: TOML syntax, CLI section injection, detection, SkillVerifier and PlatformVerifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { GeminiCliAdapter } from '../../src/adapters/gemini-cli-adapter';
+import { formatToml, parseToml } from '../../src/adapters/toml';
+import { SkillTransformer } from '../../src/transformer/skill-transformer';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { runTaskSkill } from '../../src/skills';
+import { WorkspaceAdapter } from '../../src/workspace/workspace-adapter';
+import { SkillVerifier } from '../../src/verification/skill-verifier';
+import { PlatformVerifier } from '../../src/verification/platform-verifier';
+import type { PlatformAdapter } from '../../src/adapters/platform-adapter';
+import type { CanonicalSkill, PlatformId } from '../../src/types';
+import { isSingleFileSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+const adapter = new GeminiCliAdapter();
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+/** Strings heavy in the characters TOML has to escape */
+const arbitraryTomlValue = fc.stringOf(
+  fc.oneof(
+    fc.constantFrom('"', '""', '"""', "'''", '\\', '\n', '\r\n', '\t', '\u0001', '\u007f', '#', '=', ' '),
+    fc.char(),
+    fc.fullUnicode()
+  ),
+  { maxLength: 40 }
+);
+
+const arbitraryText = fc.stringOf(
+  fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz0123456789 ,."\\'.split('')),
+  { minLength: 1, maxLength: 60 }
+).map(s => s.replace(/\s+/g, ' ').trim()).filter(s => s.length > 0);
+
+const arbitrarySkill: fc.Arbitrary<CanonicalSkill> = fc.record({
+  name: fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 3, maxLength: 20 }),
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.constant('1.0.0'),
+  supportedPlatforms: fc.constant(['gemini-cli'] as PlatformId[]),
+  instructions: fc.array(arbitraryText, { minLength: 1, maxLength: 3 }).map(p => p.join('\n\n')),
+  parameters: fc.constant([]),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Any string value round-trips through formatToml/parseToml', () => {
+  it('parses back the exact strings that were written', () => {
+    fc.assert(
+      fc.property(arbitraryTomlValue, arbitraryTomlValue, (description, prompt) => {
+        const fields = parseToml(formatToml({ description, prompt, 'odd key': 'x' }));
+        expect(Object.fromEntries(fields)).toEqual({ description, prompt, 'odd key': 'x' });
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: formatSkill/parseSkill round trip through a TOML custom command', () => {
+  it('writes description and prompt and parses back to the same skill', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        const formatted = adapter.formatSkill(skill);
+        expect(isSingleFileSkill(formatted)).toBe(true);
+        if (!isSingleFileSkill(formatted)) return;
+
+        expect(formatted.filename).toBe(`${skill.name}.toml`);
+        expect(formatted.format).toBe('toml');
+        expect(parseToml(formatted.content).get('description')).toBe(skill.description);
+
+        const parsed = adapter.parseSkill(formatted.content);
+        expect(parsed.title).toBe(skill.title);
+        expect(parsed.description).toBe(skill.description);
+        expect(parsed.instructions).toBe(skill.instructions);
+        expect(parsed.supportedPlatforms).toEqual(['gemini-cli']);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('parseToml', () => {
+  it('reads comments, literal strings and raw scalars', () => {
+    const fields = parseToml([
+      '# Gemini command',
+      "description = 'C:\\path' # trailing comment",
+      "prompt = '''",
+      'Use {{args}}\\n literally',
+      "'''",
+      'enabled = true',
+    ].join('\n'));
+
+    expect(Object.fromEntries(fields)).toEqual({
+      description: 'C:\\path',
+      prompt: 'Use {{args}}\\n literally\n',
+      enabled: 'true',
+    });
+  });
+
+  it('reports the line of syntax errors', () => {
+    expect(() => parseToml('description = "ok"\nprompt = "unterminated')).toThrow('line 2: unterminated string');
+    expect(() => parseToml('[table]')).toThrow('tables are not supported');
+    expect(() => parseToml('a = "1"\na = "2"')).toThrow("line 2: duplicate key 'a'");
+    expect(() => parseToml('a = "\\q"')).toThrow('unknown escape');
+  });
+});
+
+describe('GeminiCliAdapter', () => {
+  it('keeps the TOML valid when the transformer appends CLI instructions', () => {
+    const registry = new SkillRegistry();
+    registry.register(runTaskSkill);
+    const adapters = new Map<PlatformId, PlatformAdapter>([['gemini-cli', adapter]]);
+
+    const skill = new SkillTransformer(registry, adapters).transformForPlatform('run-task', 'gemini-cli');
+    if (!isSingleFileSkill(skill)) throw new Error('expected a single file');
+
+    const fields = parseToml(skill.content);
+    expect([...fields.keys()]).toEqual(['description', 'prompt']);
+    expect(fields.get('prompt')).toMatch(/CLI Invocation/i);
+    expect(skill.format).toBe('toml');
+  });
+
+  it('rejects commands without a prompt', () => {
+    expect(() => adapter.parseSkill('description = "x"')).toThrow('missing prompt');
+  });
+});
+
+describe('Gemini CLI detection and verification', () => {
+  const workspace = new WorkspaceAdapter(new Map());
+  const root = '/workspace';
+
+  it('detects .gemini/ and GEMINI.md', async () => {
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({}, ['.gemini/']))).toBe('gemini-cli');
+    expect(await workspace.detectCurrentPlatform(new InMemoryFS({ 'GEMINI.md': '' }))).toBe('gemini-cli');
+  });
+
+  it('SkillVerifier checks the prompt of each .toml command', async () => {
+    const fs = new InMemoryFS({
+      [`${root}/.gemini/commands/run-task.toml`]: formatToml({ description: 'Run', prompt: '## CLI Invocation\n' }),
+      [`${root}/.gemini/commands/create-spec.toml`]: 'prompt = """never closed',
+    });
+
+    const checks = await new SkillVerifier(fs).verify('gemini-cli', ['run-task', 'create-spec'], root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['Skill run-task exists', true],
+      ['Skill run-task TOML valid', true],
+      ['Skill run-task non-empty', true],
+      ['Skill run-task CLI invocation section', true],
+      ['Skill create-spec exists', true],
+      ['Skill create-spec TOML valid', false],
+      ['Skill create-spec non-empty', false],
+      ['Skill create-spec CLI invocation section', false],
+    ]);
+    expect(checks[5].actual).toBe('Invalid TOML at line 1: unterminated string');
+  });
+
+  it('PlatformVerifier checks GEMINI.md', async () => {
+    const fs = new InMemoryFS({ [`${root}/GEMINI.md`]: adapter.generateInstructionsContent([]) }, [`${root}/.kiro/specs`]);
+
+    const checks = await new PlatformVerifier(fs).verify('gemini-cli', root);
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['.kiro/specs/ exists', true],
+      ['GEMINI.md exists', true],
+      ['GEMINI.md references .kiro/specs/', true],
+    ]);
+  });
+});
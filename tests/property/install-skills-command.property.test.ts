@@ -50,15 +50,19 @@ function createRegistry(): SkillRegistry {
 function createMockFs(existingPaths: Set<string> = new Set()): InstallSkillsFileSystem & {
   written: Map<string, string>;
   createdDirs: string[];
+  removed: string[];
 } {
   const written = new Map<string, string>();
   const createdDirs: string[] = [];
+  const removed: string[] = [];
   return {
     written,
     createdDirs,
+    removed,
     exists: async (p: string) => existingPaths.has(p),
     mkdir: async (p: string) => { createdDirs.push(p); },
     writeFile: async (p: string, content: string) => { written.set(p, content); },
+    remove: async (p: string) => { removed.push(p); },
   };
 }
 
@@ -80,10 +84,14 @@ describe('Property 13: Skill Installation Location', () => {
         expect(result.data!.platform).toBe(platform);
         expect(result.data!.installed.length).toBeGreaterThan(0);
 
-        // All written files should be under the target path
+        // All written files should be under the target path, be Claude Code slash commands or in .sdd/
         const targetPath = result.data!.targetPath;
         for (const [filePath] of mockFs.written) {
-          expect(filePath.startsWith(targetPath)).toBe(true);
+          expect(
+            filePath.startsWith(targetPath) ||
+            filePath.startsWith('/workspace/.claude/commands/') ||
+            filePath.startsWith('/workspace/.sdd/')
+          ).toBe(true);
         }
       }),
       { numRuns: 100 }
@@ -0,0 +1,210 @@
+/**
+ * Property-Based Tests for managed regions in instructions files
+ *
+ * Feature: instructions-managed-region
+ * Property 1: Text outside the sdd markers is preserved
+ * Property 2: Re-generating replaces only the region
+ * Unit tests: frontmatter, unmatched markers, files from release 0.1.0, WorkspaceInitCommand, WorkspaceAdapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as nodeFs from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  mergeManagedRegion,
+  hasStaleInstructions,
+  MANAGED_REGION_BEGIN,
+  MANAGED_REGION_END,
+} from '../../src/workspace/managed-region';
+import { WorkspaceInitCommand } from '../../src/commands/workspace-init-command';
+import { WorkspaceAdapter } from '../../src/workspace/workspace-adapter';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryLine = fc.stringOf(fc.constantFrom(...'abcdefghij #-*`<>!'.split('')), { maxLength: 30 });
+
+const arbitraryText = fc.array(arbitraryLine, { maxLength: 5 }).map(lines => lines.join('\n'));
+
+const arbitraryGenerated = fc.array(arbitraryLine, { minLength: 1, maxLength: 5 })
+  .map(lines => `# SDD Framework\n\n${lines.join('\n')}\n`);
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Text outside the sdd markers is preserved', () => {
+  it('keeps the text before and after the region byte for byte', () => {
+    fc.assert(
+      fc.property(arbitraryText, arbitraryText, arbitraryGenerated, (before, after, generated) => {
+        const prefix = before.trim() ? `${before.trim()}\n\n` : '';
+        const existing = `${prefix}${MANAGED_REGION_BEGIN}\nold\n${MANAGED_REGION_END}\n${after}`;
+
+        const merged = mergeManagedRegion(existing, generated);
+
+        expect(merged.startsWith(`${prefix}${MANAGED_REGION_BEGIN}\n`)).toBe(true);
+        expect(merged.endsWith(`${MANAGED_REGION_END}\n${after}`)).toBe(true);
+        expect(merged).toContain(generated.trim());
+        expect(merged).not.toContain('\nold\n');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('appends a region to files without markers', () => {
+    fc.assert(
+      fc.property(arbitraryText, arbitraryGenerated, (userText, generated) => {
+        const merged = mergeManagedRegion(userText, generated);
+
+        expect(merged.startsWith(userText.trimEnd())).toBe(true);
+        expect(merged.endsWith(`${MANAGED_REGION_BEGIN}\n${generated.trim()}\n${MANAGED_REGION_END}\n`)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Re-generating replaces only the region', () => {
+  it('merging again gives the same file as merging the latest content once', () => {
+    fc.assert(
+      fc.property(arbitraryText, arbitraryGenerated, arbitraryGenerated, (userText, first, second) => {
+        const once = mergeManagedRegion(userText, first);
+
+        expect(mergeManagedRegion(once, first)).toBe(once);
+        expect(mergeManagedRegion(once, second)).toBe(mergeManagedRegion(userText, second));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('mergeManagedRegion', () => {
+  it('wraps generated content in a new file', () => {
+    expect(mergeManagedRegion(undefined, '# SDD Framework\n')).toBe(
+      `${MANAGED_REGION_BEGIN}\n# SDD Framework\n${MANAGED_REGION_END}\n`
+    );
+  });
+
+  it('keeps generated frontmatter at the top of the file', () => {
+    const generated = '---\nalwaysApply: true\n---\n\n# Specs\n';
+    const once = mergeManagedRegion('Team notes\n', generated);
+
+    expect(once).toBe(`---\nalwaysApply: true\n---\n\nTeam notes\n\n${MANAGED_REGION_BEGIN}\n# Specs\n${MANAGED_REGION_END}\n`);
+    expect(mergeManagedRegion(once, generated)).toBe(once);
+  });
+
+  it('replaces a file without markers that holds only the generated content', () => {
+    const generated = '# SDD Framework\n\nSpecs\n';
+
+    expect(mergeManagedRegion(`${generated}\n`, generated)).toBe(mergeManagedRegion(undefined, generated));
+    expect(hasStaleInstructions(generated, generated)).toBe(false);
+  });
+
+  it('flags generated instructions kept next to other text', () => {
+    const generated = '# SDD Framework\n\nSpecs\n';
+
+    expect(hasStaleInstructions('# SDD Framework\n\nOld specs\n\nTeam notes\n', generated)).toBe(true);
+    expect(hasStaleInstructions('Team notes\n', generated)).toBe(false);
+    expect(hasStaleInstructions(mergeManagedRegion('Team notes\n', generated), generated)).toBe(false);
+    expect(hasStaleInstructions(undefined, generated)).toBe(false);
+  });
+
+  it('rejects unmatched markers', () => {
+    expect(() => mergeManagedRegion(`${MANAGED_REGION_BEGIN}\nnotes`, '# Specs')).toThrow(/Unmatched <!-- sdd:begin -->/);
+    expect(() => mergeManagedRegion(`${MANAGED_REGION_END}\n${MANAGED_REGION_BEGIN}`, '# Specs')).toThrow(/Unmatched/);
+  });
+});
+
+describe('Instructions file writers', () => {
+  it('WorkspaceInitCommand keeps hand-written CLAUDE.md text', async () => {
+    const fs = new InMemoryFS({ [`${root}/CLAUDE.md`]: '# My Project\n\nUse pnpm.\n' });
+    const command = new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+
+    await command.execute({ platform: 'claude-code', workspaceRoot: root });
+    await command.execute({ platform: 'claude-code', workspaceRoot: root });
+
+    const content = fs.getFile(`${root}/CLAUDE.md`)!;
+    expect(content.startsWith('# My Project\n\nUse pnpm.\n\n<!-- sdd:begin -->\n# ')).toBe(true);
+    expect(content.split(MANAGED_REGION_BEGIN)).toHaveLength(2);
+  });
+
+  // CLAUDE.md as release 0.1.0 generated it, without markers
+  const releasedClaudeMd = nodeFs.readFileSync(
+    fileURLToPath(new URL('../fixtures/release-0.1.0/claude-code/CLAUDE.md', import.meta.url)),
+    'utf-8'
+  );
+
+  it('WorkspaceInitCommand replaces a CLAUDE.md generated by release 0.1.0', async () => {
+    const fs = new InMemoryFS({ [`${root}/CLAUDE.md`]: releasedClaudeMd });
+    const command = new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+
+    const result = await command.execute({ platform: 'claude-code', workspaceRoot: root });
+
+    expect(result.warnings).toBeUndefined();
+    const content = fs.getFile(`${root}/CLAUDE.md`)!;
+    expect(content).toBe(`${MANAGED_REGION_BEGIN}\n${releasedClaudeMd.trim()}\n${MANAGED_REGION_END}\n`);
+  });
+
+  it('WorkspaceInitCommand warns about release 0.1.0 instructions kept next to hand-written text', async () => {
+    const fs = new InMemoryFS({ [`${root}/CLAUDE.md`]: `${releasedClaudeMd}\nUse pnpm.\n` });
+    const command = new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+
+    const result = await command.execute({ platform: 'claude-code', workspaceRoot: root });
+
+    expect(result.warnings).toEqual([
+      'CLAUDE.md holds stale generated instructions outside the sdd markers; remove them, the current ones are in the sdd region',
+    ]);
+    expect(fs.getFile(`${root}/CLAUDE.md`)!.startsWith(`${releasedClaudeMd}\nUse pnpm.\n\n${MANAGED_REGION_BEGIN}`)).toBe(true);
+  });
+
+  it('WorkspaceInitCommand reports unmatched markers without writing', async () => {
+    const fs = new InMemoryFS({ [`${root}/AGENTS.md`]: `${MANAGED_REGION_BEGIN}\nnotes\n` });
+    const command = new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+
+    const result = await command.execute({ platform: 'codex', workspaceRoot: root });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.message).toContain('AGENTS.md: Unmatched <!-- sdd:begin --> marker');
+    expect(fs.getFile(`${root}/AGENTS.md`)).toBe(`${MANAGED_REGION_BEGIN}\nnotes\n`);
+  });
+
+  it('WorkspaceAdapter.transformWorkspace replaces only the region of AGENTS.md', async () => {
+    const fs = new InMemoryFS({
+      '.kiro/specs/auth/requirements.md': '# Requirements',
+      'AGENTS.md': `Intro\n\n${MANAGED_REGION_BEGIN}\nstale\n${MANAGED_REGION_END}\n\nOutro\n`,
+    });
+    const adapter = new WorkspaceAdapter(platformRegistry.createAdapters());
+
+    const result = await adapter.transformWorkspace('kiro', 'codex', fs);
+
+    expect(result.errors).toEqual([]);
+    const content = fs.getFile('AGENTS.md')!;
+    expect(content.startsWith(`Intro\n\n${MANAGED_REGION_BEGIN}\n# `)).toBe(true);
+    expect(content.endsWith(`${MANAGED_REGION_END}\n\nOutro\n`)).toBe(true);
+    expect(content).toContain('auth');
+    expect(content).not.toContain('stale');
+  });
+
+  it('WorkspaceAdapter.transformWorkspace warns about stale generated AGENTS.md instructions', async () => {
+    const adapters = platformRegistry.createAdapters();
+    const fs = new InMemoryFS({
+      '.kiro/specs/auth/requirements.md': '# Requirements',
+      'AGENTS.md': `${adapters.get('codex')!.generateInstructionsContent([])}\nTeam notes\n`,
+    });
+
+    const result = await new WorkspaceAdapter(adapters).transformWorkspace('kiro', 'codex', fs);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      'AGENTS.md holds stale generated instructions outside the sdd markers; remove them, the current ones are in the sdd region',
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Property-Based Tests for multi-platform init and install
+ *
+ * Feature: multi-platform-init
+ * Property 1: runForPlatforms reports one outcome per platform and runs every platform
+ * Property 2: parsePlatformSelection keeps list order and drops duplicates
+ * Unit tests: WorkspaceInitCommand and InstallSkillsCommand across platforms
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ALL_PLATFORMS,
+  isPlatformSelection,
+  parsePlatformSelection,
+  runForPlatforms,
+} from '../../src/commands/multi-platform';
+import { ErrorCode, errorResult, successResult } from '../../src/commands/command-result';
+import { WorkspaceInitCommand } from '../../src/commands/workspace-init-command';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills } from '../../src/skills/index';
+import type { PlatformId } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryPlatforms = fc.uniqueArray(fc.constantFrom(...platformRegistry.ids()), { minLength: 1 });
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: runForPlatforms reports one outcome per platform and runs every platform', () => {
+  it('succeeds only when every platform does, keeping going after failures', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryPlatforms, fc.func(fc.boolean()), async (platforms, fails) => {
+        const ran: PlatformId[] = [];
+        const result = await runForPlatforms('workspace-init', platforms, async platform => {
+          ran.push(platform);
+          return fails(platform)
+            ? errorResult('workspace-init', ErrorCode.WRITE_FAILED, `disk full for ${platform}`)
+            : successResult('workspace-init', { platform });
+        });
+
+        const failed = platforms.filter(p => fails(p));
+        expect(ran).toEqual(platforms);
+        expect(result.data!.platforms.map(o => o.platform)).toEqual(platforms);
+        expect(result.data!.failed).toEqual(failed);
+        expect(result.data!.succeeded).toEqual(platforms.filter(p => !fails(p)));
+        expect(result.success).toBe(failed.length === 0);
+        if (failed.length > 0) {
+          expect(result.error!.code).toBe(ErrorCode.WRITE_FAILED);
+          for (const platform of failed) {
+            expect(result.error!.message).toContain(`${platform} (disk full for ${platform})`);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: parsePlatformSelection keeps list order and drops duplicates', () => {
+  it('parses comma lists', () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom(...platformRegistry.ids()), { minLength: 2 }), (ids) => {
+        const value = ids.join(' , ');
+
+        expect(isPlatformSelection(value)).toBe(true);
+        expect(parsePlatformSelection(value)).toEqual([...new Set(ids)]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('parsePlatformSelection', () => {
+  it('expands all to every registered platform', () => {
+    expect(isPlatformSelection(ALL_PLATFORMS)).toBe(true);
+    expect(parsePlatformSelection(ALL_PLATFORMS)).toEqual(platformRegistry.ids());
+  });
+
+  it('leaves single platforms to the single-platform path', () => {
+    expect(isPlatformSelection('kiro')).toBe(false);
+    expect(parsePlatformSelection('kiro,,')).toEqual(['kiro']);
+  });
+});
+
+describe('Commands across platforms', () => {
+  it('initializes every selected platform and reports the unknown one', async () => {
+    const fs = new InMemoryFS();
+    const command = new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+
+    const result = await runForPlatforms('workspace-init', ['kiro', 'vscode', 'claude-code', 'codex'], platform =>
+      command.execute({ platform, workspaceRoot: root })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe(ErrorCode.INVALID_PLATFORM);
+    expect(result.data!.succeeded).toEqual(['kiro', 'claude-code', 'codex']);
+    expect(result.data!.failed).toEqual(['vscode']);
+    expect(fs.hasFile(`${root}/CLAUDE.md`)).toBe(true);
+    expect(fs.hasFile(`${root}/AGENTS.md`)).toBe(true);
+  });
+
+  it('installs skills for all platforms', async () => {
+    const registry = new SkillRegistry();
+    allSkills.forEach(skill => registry.register(skill));
+    const fs = new InMemoryFS();
+    const command = new InstallSkillsCommand(registry, platformRegistry.createAdapters(), fs);
+
+    const result = await runForPlatforms('install-skills', parsePlatformSelection(ALL_PLATFORMS), platform =>
+      command.execute({ platform, skills: ['run-task'], workspaceRoot: root })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.succeeded).toEqual(platformRegistry.ids());
+    expect(fs.hasFile(`${root}/.claude/skills/run-task/SKILL.md`)).toBe(true);
+    expect(fs.hasFile(`${root}/.kiro/skills/run-task.md`)).toBe(true);
+  });
+
+  it('prefixes warnings with their platform', async () => {
+    const result = await runForPlatforms('workspace-init', ['kiro', 'codex'], async platform =>
+      successResult('workspace-init', {}, platform === 'codex' ? ['--hooks was ignored'] : [])
+    );
+
+    expect(result.warnings).toEqual(['codex: --hooks was ignored']);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Property-Based Tests for platform detection
+ *
+ * Feature: platform-detection
+ * Property 1: Every platform with installed skills is detected with high confidence
+ * Property 2: SDD_PLATFORM takes precedence over agent variables
+ * Unit tests: evidence, skill counts, default platform, DetectCommand, detection.env validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  detectPlatforms,
+  detectRunningPlatform,
+  SDD_PLATFORM_ENV,
+  type DetectedPlatform,
+} from '../../src/workspace/platform-detector';
+import { DetectCommand, renderDetection, selectDefaultPlatform } from '../../src/commands/detect-command';
+import { ErrorCode } from '../../src/commands/command-result';
+import { getBuiltinPlatform } from '../../src/adapters/builtin-platforms';
+import { validatePlatformDefinition } from '../../src/adapters/platform-definition';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryPlatforms = fc.uniqueArray(fc.constantFrom(...platformRegistry.ids()), { minLength: 1 });
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * In-memory workspace holding `entries`; a path ending in `/` is an empty directory.
+ */
+function memoryFs(entries: string[]): InMemoryFS {
+  return new InMemoryFS(
+    Object.fromEntries(entries.filter(e => !e.endsWith('/')).map(e => [e, ''])),
+    entries.filter(e => e.endsWith('/'))
+  );
+}
+
+/**
+ * Paths of one installed skill for a platform
+ */
+function installedSkill(platformId: string): string {
+  const { skillsPath, skill } = platformRegistry.get(platformId)!;
+  return skill.layout === 'directory'
+    ? `${skillsPath}run-task/${skill.fileName ?? 'SKILL.md'}`
+    : `${skillsPath}run-task${skill.extension ?? '.md'}`;
+}
+
+function detected(platform: string, confidence: DetectedPlatform['confidence']): DetectedPlatform {
+  return { platform, confidence, skillCount: 0, evidence: [] };
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Every platform with installed skills is detected with high confidence', () => {
+  it('reports each platform once, skills first', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryPlatforms, async (platforms) => {
+        const fs = memoryFs(['.kiro/specs/auth/requirements.md', ...platforms.map(installedSkill)]);
+
+        const result = await detectPlatforms(fs);
+
+        const high = result.filter(d => d.confidence === 'high');
+        expect(high.map(d => d.platform).sort()).toEqual([...platforms].sort());
+        expect(high.every(d => d.skillCount === 1)).toBe(true);
+        expect(new Set(result.map(d => d.platform)).size).toBe(result.length);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: SDD_PLATFORM takes precedence over agent variables', () => {
+  it('names the running platform regardless of other variables', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...platformRegistry.ids()), fc.boolean(), (platform, claude) => {
+        const env = { [SDD_PLATFORM_ENV]: platform, ...(claude ? { CLAUDECODE: '1' } : {}) };
+
+        expect(detectRunningPlatform(env)).toEqual({ platform, variable: `SDD_PLATFORM=${platform}` });
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('detectPlatforms', () => {
+  it('does not take the shared .kiro/specs directory for Kiro', async () => {
+    const fs = memoryFs(['.kiro/specs/auth/requirements.md', 'CLAUDE.md', '.claude/skills/run-task/SKILL.md']);
+
+    const result = await detectPlatforms(fs);
+
+    expect(result.map(d => d.platform)).toEqual(['claude-code']);
+    expect(result[0].evidence).toEqual([
+      { kind: 'skills', source: '.claude/skills/' },
+      { kind: 'instructions', source: 'CLAUDE.md' },
+      { kind: 'marker', source: '.claude/' },
+      { kind: 'marker', source: 'CLAUDE.md' },
+    ]);
+  });
+
+  it('counts skills by layout and skips the instructions file', async () => {
+    const fs = memoryFs([
+      '.cursor/rules/specs.mdc',
+      '.cursor/rules/run-task.mdc',
+      '.cursor/rules/notes.txt',
+      '.codex/skills/run-task/SKILL.md',
+      '.codex/skills/empty/',
+    ]);
+
+    const result = await detectPlatforms(fs);
+
+    expect(result.find(d => d.platform === 'cursor')!.skillCount).toBe(1);
+    expect(result.find(d => d.platform === 'codex')!.skillCount).toBe(1);
+  });
+
+  it('rates a platform without skills as medium when it has other evidence', async () => {
+    const fs = memoryFs(['.gemini/commands/', 'AGENTS.md']);
+
+    const result = await detectPlatforms(fs);
+
+    expect(result.map(d => [d.platform, d.confidence])).toEqual([['codex', 'medium'], ['gemini-cli', 'medium']]);
+    expect((await detectPlatforms(memoryFs(['.amazonq/rules/'])))[0].confidence).toBe('medium');
+  });
+
+  it('adds the running agent as evidence only when an environment is given', async () => {
+    const fs = memoryFs([]);
+
+    expect(await detectPlatforms(fs)).toEqual([]);
+    expect(await detectPlatforms(fs, { env: { CLAUDECODE: '1' } })).toEqual([
+      { platform: 'claude-code', confidence: 'high', skillCount: 0, evidence: [{ kind: 'env', source: 'CLAUDECODE' }] },
+    ]);
+  });
+});
+
+describe('detectRunningPlatform', () => {
+  it('matches NAME on any value and NAME=value exactly', () => {
+    expect(detectRunningPlatform({ CLAUDECODE: '1' })?.platform).toBe('claude-code');
+    expect(detectRunningPlatform({ CLAUDECODE: '' })).toBeNull();
+    expect(detectRunningPlatform({ TERM_PROGRAM: 'kiro' })?.platform).toBe('kiro');
+    expect(detectRunningPlatform({ TERM_PROGRAM: 'vscode' })).toBeNull();
+  });
+
+  it('ignores SDD_PLATFORM naming an unknown platform', () => {
+    expect(detectRunningPlatform({ SDD_PLATFORM: 'vscode', GEMINI_CLI: '1' })).toEqual({
+      platform: 'gemini-cli',
+      variable: 'GEMINI_CLI',
+    });
+  });
+});
+
+describe('selectDefaultPlatform', () => {
+  it('prefers the running agent, then a single most confident platform', () => {
+    const running = { platform: 'codex', variable: 'SDD_PLATFORM=codex' };
+
+    expect(selectDefaultPlatform([detected('kiro', 'high')], running)).toBe('codex');
+    expect(selectDefaultPlatform([detected('kiro', 'high'), detected('codex', 'medium')], null)).toBe('kiro');
+    expect(selectDefaultPlatform([detected('kiro', 'high'), detected('codex', 'high')], null)).toBeNull();
+    expect(selectDefaultPlatform([], null)).toBeNull();
+  });
+});
+
+describe('DetectCommand', () => {
+  const root = '/workspace';
+
+  it('detects relative to the workspace root', async () => {
+    const fs = memoryFs([`${root}/AGENTS.md`, `${root}/.codex/skills/run-task/SKILL.md`]);
+    const command = new DetectCommand(fs);
+
+    const result = await command.execute({ workspaceRoot: root, env: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.defaultPlatform).toBe('codex');
+    expect(result.data!.running).toBeNull();
+    expect(renderDetection(result.data!)).toContain('codex  [high]  1 skill  skills .codex/skills/');
+  });
+
+  it('reports file system failures', async () => {
+    const command = new DetectCommand({
+      exists: async () => false,
+      readdir: async () => [],
+      isDirectory: async () => { throw new Error('EACCES'); },
+    });
+
+    const result = await command.execute({ workspaceRoot: root });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe(ErrorCode.READ_FAILED);
+    expect(result.error!.message).toContain('EACCES');
+  });
+
+  it('renders an empty workspace', async () => {
+    const result = await new DetectCommand(memoryFs([])).execute({ workspaceRoot: root });
+
+    expect(renderDetection(result.data!)).toBe('Default platform: none (pass --platform)\n\nNo platforms detected');
+  });
+});
+
+describe('detection.env validation', () => {
+  it('rejects non-string entries', () => {
+    const definition = getBuiltinPlatform('claude-code');
+    const invalid = validatePlatformDefinition({ ...definition, detection: { markers: [], env: [1] } });
+
+    expect(invalid.errors.map(e => e.path)).toEqual(['detection.env']);
+  });
+});
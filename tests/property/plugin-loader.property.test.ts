@@ -0,0 +1,285 @@
+/**
+ * Property-Based Tests for the Plugin Loader
+ *
+ * Feature: plugin-loader
+ * Property 1: Plugin modules outside the workspace are never imported
+ * Property 2: Valid plugins load in config order, each exactly once
+ * Unit tests: config errors, export shapes, registration, plugin verifiers
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PluginLoader, registerPlugins, collectPluginVerifiers } from '../../src/plugins/plugin-loader';
+import type { LoadedPlugin, SddPlugin } from '../../src/plugins/plugin-loader';
+import { PlatformRegistry } from '../../src/registry/platform-registry';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { DeclarativeAdapter } from '../../src/adapters/declarative-adapter';
+import { getBuiltinPlatform } from '../../src/adapters/builtin-platforms';
+import { composeSkillInstruction } from '../../src/instructions/instruction-composer';
+import { VerifyCommand } from '../../src/commands/verify-command';
+import type { CanonicalSkill } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitrarySegment = fc.stringOf(fc.constantFrom(...'abcdefghijklmnopqrstuvwxyz-'.split('')), { minLength: 1, maxLength: 10 });
+
+const arbitraryEscapingPath = fc.oneof(
+  fc.array(arbitrarySegment, { minLength: 1, maxLength: 3 }).map(parts => `../${parts.join('/')}.js`),
+  fc.array(arbitrarySegment, { minLength: 1, maxLength: 3 }).map(parts => `/${parts.join('/')}.js`),
+  fc.tuple(arbitrarySegment, arbitrarySegment).map(([a, b]) => `${a}/../../${b}.js`)
+);
+
+const arbitraryPluginNames = fc.uniqueArray(arbitrarySegment, { minLength: 1, maxLength: 5 });
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const ROOT = '/workspace';
+
+function configFs(config: unknown) {
+  const files: Record<string, string> = {
+    [`${ROOT}/sdd.config.json`]: typeof config === 'string' ? config : JSON.stringify(config),
+  };
+  return {
+    exists: async (p: string) => p in files,
+    readFile: async (p: string) => files[p],
+  };
+}
+
+/** Importer serving modules by workspace-relative path, recording what was imported */
+function mockImporter(modules: Record<string, Record<string, unknown>>) {
+  const imported: string[] = [];
+  const importModule = async (url: string) => {
+    imported.push(url);
+    const key = Object.keys(modules).find(m => url === `file://${ROOT}/${m}`);
+    if (!key) throw new Error(`Cannot find module ${url}`);
+    return modules[key];
+  };
+  return { importModule, imported };
+}
+
+function skill(overrides: Partial<CanonicalSkill> = {}): CanonicalSkill {
+  return {
+    name: 'lint-spec',
+    title: 'Lint Spec',
+    description: 'Check a spec for style problems',
+    version: '1.0.0',
+    supportedPlatforms: ['claude-code'],
+    instructions: 'Read the spec and report problems.',
+    parameters: [],
+    ...overrides,
+  };
+}
+
+function loaded(plugin: SddPlugin, name = 'pack'): LoadedPlugin {
+  return { manifest: { name, module: `./${name}.js` }, plugin };
+}
+
+function mockVerifyFs() {
+  return {
+    exists: async () => false,
+    readFile: async () => '',
+    isDirectory: async () => false,
+    listFiles: async () => [],
+  };
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Plugin modules outside the workspace are never imported', () => {
+  it('reports an error for every escaping module path without importing it', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryEscapingPath, async (module) => {
+        const { importModule, imported } = mockImporter({});
+        const loader = new PluginLoader(configFs({ plugins: [{ name: 'evil', module }] }), importModule);
+
+        const result = await loader.load(ROOT);
+
+        expect(imported).toEqual([]);
+        expect(result.plugins).toEqual([]);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatchObject({ code: 'INVALID_PLUGIN', path: 'plugins[0]' });
+        expect(result.errors[0].message).toContain('inside the workspace');
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Valid plugins load in config order, each exactly once', () => {
+  it('returns one loaded plugin per manifest entry, in order', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryPluginNames, fc.boolean(), async (names, asDefault) => {
+        const modules = Object.fromEntries(names.map(name => {
+          const plugin = { skills: [skill({ name })] };
+          return [`plugins/${name}.js`, asDefault ? { default: plugin } : plugin];
+        }));
+        const { importModule } = mockImporter(modules);
+        const plugins = names.map(name => ({ name, module: `plugins/${name}.js` }));
+        const loader = new PluginLoader(configFs({ plugins }), importModule);
+
+        const result = await loader.load(ROOT);
+
+        expect(result.errors).toEqual([]);
+        expect(result.plugins.map(p => p.manifest.name)).toEqual(names);
+        expect(result.plugins.map(p => p.plugin.skills![0].name)).toEqual(names);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('PluginLoader', () => {
+  it('loads nothing when there is no sdd.config.json or no plugins key', async () => {
+    const { importModule } = mockImporter({});
+    const missing = { exists: async () => false, readFile: async () => '' };
+    expect(await new PluginLoader(missing, importModule).load(ROOT)).toEqual({ plugins: [], errors: [] });
+    expect(await new PluginLoader(configFs({}), importModule).load(ROOT)).toEqual({ plugins: [], errors: [] });
+  });
+
+  it('reports unreadable config and malformed entries', async () => {
+    const { importModule } = mockImporter({});
+
+    const badJson = await new PluginLoader(configFs('{ not json'), importModule).load(ROOT);
+    expect(badJson.errors[0]).toMatchObject({ code: 'INVALID_PLUGIN', path: 'sdd.config.json' });
+
+    const notArray = await new PluginLoader(configFs({ plugins: 'x' }), importModule).load(ROOT);
+    expect(notArray.errors[0].message).toContain('plugins must be an array');
+
+    const noModule = await new PluginLoader(configFs({ plugins: [{ name: 'x' }] }), importModule).load(ROOT);
+    expect(noModule.errors[0]).toMatchObject({ path: 'plugins[0]' });
+  });
+
+  it('reports import failures and modules exporting nothing usable, and keeps loading', async () => {
+    const { importModule } = mockImporter({
+      'empty.js': { helper: () => 1 },
+      'good.js': { skills: [skill()] },
+    });
+    const loader = new PluginLoader(configFs({
+      plugins: [
+        { name: 'missing', module: 'missing.js' },
+        { name: 'empty', module: 'empty.js' },
+        { name: 'good', module: 'good.js' },
+      ],
+    }), importModule);
+
+    const result = await loader.load(ROOT);
+
+    expect(result.plugins.map(p => p.manifest.name)).toEqual(['good']);
+    expect(result.errors.map(e => e.path)).toEqual(['plugins[0]', 'plugins[1]']);
+    expect(result.errors[0].message).toContain('failed to import');
+    expect(result.errors[1].message).toContain('exports none of');
+  });
+
+  it('rejects adapters, templates and verifiers of the wrong shape', async () => {
+    const { importModule } = mockImporter({
+      'bad.js': {
+        adapters: [{ platformId: 'x', skillsPath: '.x/', specsPath: '.kiro/specs/', instructionsFile: null, formatSkill: () => ({}) }],
+        instructionTemplates: [{ skillName: 'x' }],
+        verifiers: [{ name: 'v' }],
+      },
+      'notarray.js': { skills: {} },
+    });
+    const loader = new PluginLoader(configFs({
+      plugins: [{ name: 'bad', module: 'bad.js' }, { name: 'notarray', module: 'notarray.js' }],
+    }), importModule);
+
+    const result = await loader.load(ROOT);
+
+    expect(result.plugins).toEqual([]);
+    expect(result.errors[0].message).toContain('adapters[0] is missing');
+    expect(result.errors[0].message).toContain('instructionTemplates[0]');
+    expect(result.errors[0].message).toContain('verifiers[0]');
+    expect(result.errors[1].message).toContain('skills must be an array');
+  });
+});
+
+describe('registerPlugins', () => {
+  it('registers platforms, skills and instruction templates', () => {
+    const platforms = new PlatformRegistry();
+    const skills = new SkillRegistry();
+    const errors = registerPlugins([loaded({
+      platforms: [{ id: 'claude-web', extends: 'claude-code', skillsPath: '.claude-web/skills/', detection: { markers: ['.claude-web/'] } }],
+      skills: [skill()],
+      instructionTemplates: [{ skillName: 'lint-spec', template: 'Lint {spec} now.' }],
+    })], { skills, platforms });
+
+    expect(errors).toEqual([]);
+    expect(platforms.has('claude-web')).toBe(true);
+    expect(skills.get('lint-spec')).toBeDefined();
+    expect(platforms.supports(skills.get('lint-spec')!, 'claude-web')).toBe(true);
+    expect(composeSkillInstruction('lint-spec', { spec: 'auth' })).toBe('Lint auth now.');
+  });
+
+  it('uses plugin adapters in place of declarative ones', () => {
+    const platforms = new PlatformRegistry();
+    const adapter = new DeclarativeAdapter({ ...getBuiltinPlatform('claude-code'), id: 'zed', skillsPath: '.zed/skills/' });
+    registerPlugins([loaded({ adapters: [adapter] })], { skills: new SkillRegistry(), platforms });
+
+    expect(platforms.createAdapter('zed')).toBe(adapter);
+    expect(platforms.get('zed')).toMatchObject({ skillsPath: '.zed/skills/', skill: { layout: 'file' } });
+  });
+
+  it('keeps the rest of a definition when an adapter replaces a registered platform', () => {
+    const platforms = new PlatformRegistry();
+    const adapter = new DeclarativeAdapter({ ...getBuiltinPlatform('codex'), skillsPath: '.agents/skills/' });
+    registerPlugins([loaded({ adapters: [adapter] })], { skills: new SkillRegistry(), platforms });
+
+    expect(platforms.ids().indexOf('codex')).toBe(2);
+    expect(platforms.get('codex')).toMatchObject({ skillsPath: '.agents/skills/', skill: { layout: 'directory' } });
+    expect(platforms.createAdapter('codex')).toBe(adapter);
+  });
+
+  it('reports rejected contributions and registers the rest', () => {
+    const platforms = new PlatformRegistry();
+    const skills = new SkillRegistry();
+    const errors = registerPlugins([loaded({
+      platforms: [{ id: 'orphan', extends: 'nowhere' }],
+      skills: [skill({ name: 'broken', supportedPlatforms: [] }), skill()],
+    }, 'mixed')], { skills, platforms });
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0].message).toContain('Plugin mixed: platform orphan');
+    expect(errors[1].message).toContain('Plugin mixed: skill broken');
+    expect(errors.every(e => e.code === 'INVALID_PLUGIN' && e.path === './mixed.js')).toBe(true);
+    expect(skills.get('lint-spec')).toBeDefined();
+  });
+});
+
+describe('VerifyCommand with plugin verifiers', () => {
+  it('runs plugin verifiers with the verify options and reports their checks', async () => {
+    const seen: unknown[] = [];
+    const verifiers = collectPluginVerifiers([loaded({
+      verifiers: [{
+        name: 'changelog',
+        verify: async (ctx) => {
+          seen.push({ spec: ctx.spec, workspaceRoot: ctx.workspaceRoot });
+          return [{ name: 'CHANGELOG.md mentions spec', passed: false, message: 'not mentioned' }];
+        },
+      }],
+    })]);
+    const command = new VerifyCommand(mockVerifyFs(), verifiers);
+
+    const result = await command.execute({ platform: 'kiro', workspaceRoot: ROOT });
+
+    expect(seen).toEqual([{ spec: undefined, workspaceRoot: ROOT }]);
+    expect(result.success).toBe(false);
+    const checks = (result.error!.details!.verification as { checks: { name: string }[] }).checks;
+    expect(checks.map(c => c.name)).toContain('CHANGELOG.md mentions spec');
+  });
+
+  it('turns a throwing verifier into a failed check', async () => {
+    const command = new VerifyCommand(mockVerifyFs(), [{
+      name: 'flaky',
+      verify: async () => { throw new Error('boom'); },
+    }]);
+
+    const result = await command.execute({ platform: 'kiro', workspaceRoot: ROOT });
+
+    const checks = (result.error!.details!.verification as { checks: { name: string; actual?: string }[] }).checks;
+    expect(checks.find(c => c.name === 'Plugin verifier flaky')).toMatchObject({ passed: false, actual: 'error: boom' });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Property-Based Tests for the requirements.md model
+ *
+ * Feature: requirements-document
+ * Property 1: Generated requirements parse back with their IDs, titles and EARS patterns
+ * Property 2: Numbering problems are reported exactly where they occur
+ * Unit tests: EARS classification, document sections, SpecVerifier checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  parseRequirementsDocument,
+  classifyEarsCriterion,
+  validateRequirementsDocument,
+  type EarsPattern,
+} from '../../src/documents/requirements-document';
+import { SpecVerifier } from '../../src/verification/spec-verifier';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const CRITERIA: Record<EarsPattern, string> = {
+  'ubiquitous': 'THE system SHALL log every request',
+  'event-driven': 'WHEN a user submits the form THEN THE system SHALL save it',
+  'state-driven': 'WHILE offline, THE client SHALL queue writes',
+  'unwanted-behavior': 'IF the token expires, THEN THE system SHALL ask to log in again',
+  'optional-feature': 'WHERE audit mode is enabled, THE system SHALL keep history',
+  'complex': 'WHILE offline, WHEN the user saves, THE client SHALL queue the write',
+};
+
+const arbitraryPattern = fc.constantFrom(...(Object.keys(CRITERIA) as EarsPattern[]));
+
+const arbitraryRequirements = fc.array(
+  fc.tuple(fc.constantFrom('Login', 'Logout', 'Audit trail'), fc.array(arbitraryPattern, { maxLength: 4 })),
+  { minLength: 1, maxLength: 5 }
+);
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function buildDocument(requirements: Array<[string, EarsPattern[]]>, numbers?: number[]): string {
+  const lines = ['# Requirements Document', '', '## Introduction', '', 'Auth for the app.', '', '## Requirements'];
+  requirements.forEach(([title, patterns], i) => {
+    lines.push('', `### Requirement ${numbers?.[i] ?? i + 1}: ${title}`, '');
+    lines.push(`**User Story:** As a user, I want ${title.toLowerCase()}, so that I stay safe`, '');
+    lines.push('#### Acceptance Criteria', '');
+    patterns.forEach((p, j) => lines.push(`${j + 1}. ${CRITERIA[p]}`));
+  });
+  lines.push('', '## Glossary', '', '1. Session: a logged-in period');
+  return lines.join('\n');
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Generated requirements parse back with their IDs, titles and EARS patterns', () => {
+  it('round-trips the scaffolded structure', () => {
+    fc.assert(
+      fc.property(arbitraryRequirements, (requirements) => {
+        const document = parseRequirementsDocument(buildDocument(requirements));
+
+        expect(document.title).toBe('Requirements Document');
+        expect(document.introduction).toBe('Auth for the app.');
+        expect(document.requirements.map(r => [r.id, r.title])).toEqual(
+          requirements.map(([title], i) => [String(i + 1), title])
+        );
+        document.requirements.forEach((r, i) => {
+          expect(r.userStory).toMatch(/^As a user/);
+          expect(r.criteria.map(c => c.id)).toEqual(requirements[i][1].map((_, j) => `${i + 1}.${j + 1}`));
+          expect(r.criteria.map(c => c.pattern)).toEqual(requirements[i][1]);
+        });
+        expect(validateRequirementsDocument(document)).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Numbering problems are reported exactly where they occur', () => {
+  it('flags skipped requirement numbers as gaps and repeats as duplicates', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 1, max: 6 }), { minLength: 1, maxLength: 6 }), (numbers) => {
+        const document = parseRequirementsDocument(buildDocument(numbers.map(() => ['Login', []]), numbers));
+        const issues = validateRequirementsDocument(document);
+
+        const seen = new Set<number>();
+        let expected = 1;
+        const expectedIssues: string[] = [];
+        for (const n of numbers) {
+          if (seen.has(n)) {
+            expectedIssues.push(`duplicate-id:${n}`);
+            continue;
+          }
+          seen.add(n);
+          if (n !== expected) expectedIssues.push(`numbering-gap:${n}`);
+          expected = n + 1;
+        }
+        expect(issues.map(i => `${i.kind}:${i.id}`)).toEqual(expectedIssues);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('classifyEarsCriterion', () => {
+  it('rejects criteria without SHALL or with a misplaced keyword', () => {
+    expect(classifyEarsCriterion('The system must log requests')).toBeNull();
+    expect(classifyEarsCriterion('Users SHALL be able to log in')).toBeNull();
+    expect(classifyEarsCriterion('Eventually WHEN ready THE system SHALL start')).toBeNull();
+    expect(classifyEarsCriterion('**WHEN** saved **THEN** THE system **SHALL** notify')).toBe('event-driven');
+  });
+});
+
+describe('validateRequirementsDocument', () => {
+  it('reports malformed and misnumbered criteria with their lines', () => {
+    const document = parseRequirementsDocument([
+      '### Requirement 1: Login',
+      '1. THE system SHALL log in',
+      '3. The system should log out',
+      '3. WHEN idle THE system SHALL log out',
+    ].join('\n'));
+
+    expect(validateRequirementsDocument(document).map(i => [i.kind, i.id, i.line])).toEqual([
+      ['numbering-gap', '1.3', 3],
+      ['malformed-criterion', '1.3', 3],
+      ['duplicate-id', '1.3', 4],
+    ]);
+  });
+});
+
+describe('SpecVerifier requirements checks', () => {
+  const root = '/workspace';
+  const specPath = `${root}/.kiro/specs/auth`;
+
+  async function allChecks(requirements?: string) {
+    const files: Record<string, string> = {
+      [`${specPath}/design.md`]: '# Design',
+      [`${specPath}/tasks.md`]: '- [ ] 1 Group',
+    };
+    if (requirements !== undefined) files[`${specPath}/requirements.md`] = requirements;
+    const { checks } = await new SpecVerifier(new InMemoryFS(files, [specPath])).verify('auth', root);
+    return checks;
+  }
+
+  async function verify(requirements?: string) {
+    return (await allChecks(requirements)).filter(c => c.name.startsWith('requirements.md ') && c.name !== 'requirements.md exists');
+  }
+
+  it('passes a well-formed document', async () => {
+    const checks = await verify(buildDocument([['Login', ['event-driven', 'ubiquitous']]]));
+    expect(checks.map(c => c.passed)).toEqual([true, true, true]);
+  });
+
+  it('fails each check with the offending lines', async () => {
+    const checks = await verify([
+      '### Requirement 1: Login',
+      '1. Users log in',
+      '### Requirement 1: Duplicate',
+      '### Requirement 4: Skipped',
+    ].join('\n'));
+
+    expect(checks.map(c => [c.name, c.passed])).toEqual([
+      ['requirements.md acceptance criteria well-formed', false],
+      ['requirements.md IDs unique', false],
+      ['requirements.md numbering sequential', false],
+    ]);
+    expect(checks[2].actual).toBe('line 4: Expected Requirement 2, found 4');
+  });
+
+  it('reports a missing requirements.md once, without the content checks', async () => {
+    expect(await verify()).toEqual([]);
+    const failed = (await allChecks()).filter(c => !c.passed && c.name.startsWith('requirements.md'));
+    expect(failed.map(c => c.name)).toEqual(['requirements.md exists']);
+  });
+});
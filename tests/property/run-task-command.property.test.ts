@@ -5,6 +5,7 @@
  * Property 8: Task Status Update Correctness
  * Property 9: Task Update Status Round-Trip
  * Property 10: Non-Existent Task Preservation
+ * Unit tests: single leaf task IDs
  * 
  * Validates: Requirements 3.1, 3.3, 3.4, 3.6
  */
@@ -250,3 +251,47 @@ describe('Property 10: Non-Existent Task Preservation (via RunTaskCommand)', ()
     );
   });
 });
+
+describe('Single leaf task IDs (via RunTaskCommand)', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'run-task-leaf-'));
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('updates one depth-3 task on its own', async () => {
+    const specDir = nodePath.join(tempDir, '.kiro', 'specs', 'leaf');
+    await fs.mkdir(specDir, { recursive: true });
+    const tasksPath = nodePath.join(specDir, 'tasks.md');
+    await fs.writeFile(tasksPath, [
+      '- [ ] 1. Group',
+      '  - [ ] 1.1 Subgroup',
+      '    - [ ] 1.1.1 First',
+      '    - [ ] 1.1.2 Second',
+    ].join('\n'), 'utf-8');
+
+    const realFs: RunTaskFileSystem = {
+      exists: async (p: string) => {
+        try { await fs.access(p); return true; } catch { return false; }
+      },
+      readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+    };
+    const tracker = new TaskTracker({ recordHistory: false });
+    const result = await new RunTaskCommand(realFs, tracker).execute({
+      spec: 'leaf',
+      taskId: '1.1.1',
+      status: 'in_progress',
+      workspaceRoot: tempDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.taskId).toBe('1.1.1');
+    const updatedContent = await fs.readFile(tasksPath, 'utf-8');
+    expect(['1.1', '1.1.1', '1.1.2'].map(id => tracker.parseTaskStatus(updatedContent, id)))
+      .toEqual(['not_started', 'in_progress', 'not_started']);
+  });
+});
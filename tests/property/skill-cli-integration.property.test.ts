@@ -12,6 +12,7 @@ import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { SkillCLIGenerator } from '../../src/transformer/skill-cli-generator';
 import { SkillTransformer } from '../../src/transformer/skill-transformer';
+import { resolvePartials } from '../../src/transformer/skill-partials';
 import { SkillRegistry } from '../../src/registry/skill-registry';
 import { allSkills } from '../../src/skills/index';
 import { isDirectorySkill, isSingleFileSkill } from '../../src/types';
@@ -128,9 +129,9 @@ describe('Property 20: Skill Backward Compatibility', () => {
 
         const adapters = createAdapters();
 
-        // Get skill without CLI injection (raw adapter output)
+        // Get skill without CLI injection (raw adapter output, partials resolved)
         const adapter = adapters.get(platform)!;
-        const rawSkill = adapter.formatSkill(skill);
+        const rawSkill = adapter.formatSkill(resolvePartials(skill, platform, registry.getPartials()));
         const rawContent = getSkillContent(rawSkill);
 
         // Get skill with CLI injection (via transformer)
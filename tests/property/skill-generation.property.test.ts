@@ -126,35 +126,35 @@ describe('Property 14: Platform-Specific Skill Format Generation', () => {
   /**
    * **Validates: Requirements 7.4**
    * 
-   * Property: Claude Code adapter produces markdown file in correct format
+   * Property: Claude Code adapter produces a {name}/SKILL.md directory in correct format
    */
-  it('Claude Code adapter produces markdown file with Usage section', () => {
+  it('Claude Code adapter produces SKILL.md with name frontmatter and Usage section', () => {
     const adapter = new ClaudeCodeAdapter();
 
     fc.assert(
       fc.property(arbitraryCanonicalSkill, (skill) => {
         const result = adapter.formatSkill(skill);
 
-        // Should be a single file skill
-        expect(isSingleFileSkill(result)).toBe(true);
+        // Should be a directory skill
+        expect(isDirectorySkill(result)).toBe(true);
 
-        if (isSingleFileSkill(result)) {
-          // Filename should be skill name with .md extension
-          expect(result.filename).toBe(`${skill.name}.md`);
+        if (isDirectorySkill(result)) {
+          expect(result.directory).toBe(skill.name);
+          expect(result.files[0].filename).toBe('SKILL.md');
+          const content = result.files[0].content;
 
-          // Content should NOT have front-matter (unlike Kiro)
-          const frontMatterMatch = result.content.match(/^---\n/);
-          expect(frontMatterMatch).toBeNull();
+          // Front-matter names the skill so Claude Code can discover it
+          expect(content).toMatch(new RegExp(`^---\\nname: ${skill.name}\\ndescription: `));
 
           // Content should contain the skill title
-          expect(result.content).toContain(`# ${skill.title}`);
+          expect(content).toContain(`# ${skill.title}`);
 
           // Content should contain the description
-          expect(result.content).toContain(skill.description);
+          expect(content).toContain(skill.description);
 
           // Content should contain Usage section (Claude Code specific)
-          expect(result.content).toContain('## Usage');
-          expect(result.content).toContain(skill.instructions);
+          expect(content).toContain('## Usage');
+          expect(content).toContain(skill.instructions);
         }
       }),
       { numRuns: 100 }
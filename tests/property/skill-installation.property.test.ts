@@ -174,9 +174,9 @@ describe('Property 15: Skill Installation to Platform-Appropriate Directory', ()
   /**
    * **Validates: Requirements 8.4**
    * 
-   * Property: Installing on Claude Code places skills in .claude/skills/
+   * Property: Installing on Claude Code places skills in .claude/skills/ with SKILL.md
    */
-  it('installs to .claude/skills/ for Claude Code platform', async () => {
+  it('installs to .claude/skills/ with SKILL.md for Claude Code platform', async () => {
     await fc.assert(
       fc.asyncProperty(arbitraryCanonicalSkill, async (skill) => {
         const registry = new SkillRegistry();
@@ -189,7 +189,7 @@ describe('Property 15: Skill Installation to Platform-Appropriate Directory', ()
 
         expect(result.success).toBe(true);
         expect(result.targetPath).toContain('.claude/skills/');
-        expect(fs.files.has(`.claude/skills/${skill.name}.md`)).toBe(true);
+        expect(fs.files.has(`.claude/skills/${skill.name}/SKILL.md`)).toBe(true);
       }),
       { numRuns: 100 }
     );
@@ -328,8 +328,8 @@ describe('Property 16: Skills Directory Created If Missing', () => {
 
           expect(result.success).toBe(true);
           // For single-file skills, directoryCreated should be false
-          // For directory skills (Codex, Antigravity), it may be true for the skill subdirectory
-          if (platformId !== 'codex' && platformId !== 'antigravity') {
+          // For directory skills (Claude Code, Codex, Antigravity), it may be true for the skill subdirectory
+          if (platformId !== 'claude-code' && platformId !== 'codex' && platformId !== 'antigravity') {
             expect(result.directoryCreated).toBe(false);
           }
         }
@@ -386,8 +386,8 @@ describe('Property 16: Skills Directory Created If Missing', () => {
             expect(content).toBeDefined();
             expect(content).toContain(skill.title);
             expect(content).toContain(skill.instructions);
-          } else if (platformId === 'antigravity') {
-            const content = fs.files.get(`.agent/skills/${skill.name}/SKILL.md`);
+          } else if (platformId === 'antigravity' || platformId === 'claude-code') {
+            const content = fs.files.get(`${adapter.skillsPath}${skill.name}/SKILL.md`);
             expect(content).toBeDefined();
             expect(content).toContain(skill.title);
             expect(content).toContain(skill.instructions);
@@ -0,0 +1,248 @@
+/**
+ * Property-Based Tests for markdown skill files
+ *
+ * Feature: skill-loader
+ * Property 1: A skill written as a markdown file parses back to itself
+ * Property 2: Errors name the file and the offending line
+ * Unit tests: override sections, directory layouts, workspace replacements, package skills
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as nodeFs from 'fs';
+import { parseSkillFile, loadSkillFiles, SKILL_FILES_DIR, PACKAGE_SKILLS_DIR } from '../../src/registry/skill-loader';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills, builtinPartials } from '../../src/skills/index';
+import type { CanonicalSkill, SkillParameter } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryName = fc.stringMatching(/^[a-z][a-z0-9-]{0,15}$/);
+
+const arbitraryText = fc.stringMatching(/^[A-Za-z][A-Za-z0-9 .,]{0,30}[A-Za-z0-9.]$/);
+
+const arbitraryParameter: fc.Arbitrary<SkillParameter> = fc.record({
+  name: arbitraryName,
+  type: fc.constantFrom('string' as const, 'boolean' as const, 'number' as const),
+  required: fc.boolean(),
+  description: arbitraryText,
+});
+
+// Instructions end in a newline, as the body of a skill file does
+const arbitraryInstructions = fc.array(arbitraryText, { minLength: 1, maxLength: 6 }).map(lines => `${lines.join('\n\n')}\n`);
+
+const arbitrarySkill: fc.Arbitrary<CanonicalSkill> = fc.record({
+  name: arbitraryName,
+  title: arbitraryText,
+  description: arbitraryText,
+  version: fc.tuple(fc.nat(9), fc.nat(9), fc.nat(9)).map(v => v.join('.')),
+  supportedPlatforms: fc.uniqueArray(fc.constantFrom(...platformRegistry.ids()), { minLength: 1 }),
+  parameters: fc.uniqueArray(arbitraryParameter, { maxLength: 3, selector: p => p.name }),
+  instructions: arbitraryInstructions,
+  platformOverrides: fc.dictionary(
+    fc.constantFrom(...platformRegistry.ids()),
+    fc.record({ instructions: arbitraryInstructions, additionalContent: arbitraryInstructions.map(t => `\n${t}`) }, { requiredKeys: [] })
+      .filter(overrides => Object.keys(overrides).length > 0),
+    { maxKeys: 2 }
+  ),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Write a skill the way an author would
+ */
+function toSkillFile(skill: CanonicalSkill): string {
+  const lines = [
+    '---',
+    `name: ${skill.name}`,
+    `title: ${skill.title}`,
+    `description: "${skill.description}"`,
+    `version: ${skill.version}`,
+    `supportedPlatforms: [${skill.supportedPlatforms.join(', ')}]`,
+    'parameters:',
+    ...skill.parameters.flatMap(p => [
+      `  - name: ${p.name}`,
+      `    type: ${p.type}`,
+      `    required: ${p.required}`,
+      `    description: ${p.description}`,
+    ]),
+    '---',
+    '',
+  ];
+  let file = `${lines.join('\n')}${skill.instructions}`;
+  for (const [platform, overrides] of Object.entries(skill.platformOverrides ?? {})) {
+    for (const [field, content] of Object.entries(overrides ?? {})) {
+      file += `\n\`\`\`override ${platform} ${field}\n${content.replace(/^\n/, '')}\`\`\`\n`;
+    }
+  }
+  return file;
+}
+
+const reviewSpec = `---
+name: review-spec
+title: Review Spec
+description: Review a spec for gaps
+version: 1.0.0
+supportedPlatforms: [kiro, claude-code]
+parameters:
+  - name: spec
+    type: string
+    required: true
+    description: Spec folder name
+---
+
+Read requirements.md and list what is missing.
+
+\`\`\`\`override claude-code
+## Claude Code Specific
+
+\`\`\`bash
+npx sdd status --spec {spec}
+\`\`\`
+\`\`\`\`
+`;
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: A skill written as a markdown file parses back to itself', () => {
+  it('round-trips metadata, parameters, instructions and overrides', () => {
+    fc.assert(
+      fc.property(arbitrarySkill, (skill) => {
+        expect(parseSkillFile(toSkillFile(skill))).toEqual(skill);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Errors name the file and the offending line', () => {
+  it('reports the line of a malformed frontmatter entry', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitrarySkill, fc.nat(), async (skill, n) => {
+        const lines = toSkillFile(skill).split('\n');
+        // Any of the top-level metadata lines (2-6)
+        const line = 2 + (n % 5);
+        lines[line - 1] = 'not a field';
+        const registry = new SkillRegistry();
+
+        const result = await loadSkillFiles(new InMemoryFS({ [`${SKILL_FILES_DIR}bad.md`]: lines.join('\n') }), SKILL_FILES_DIR, registry);
+
+        expect(result.loaded).toEqual([]);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].message).toBe(`.sdd/skills/bad.md:${line}: expected "key: value", got "not a field"`);
+        expect(registry.listAll()).toEqual([]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('parseSkillFile', () => {
+  it('keeps code blocks inside a longer override fence', () => {
+    const skill = parseSkillFile(reviewSpec);
+
+    expect(skill.instructions).toBe('Read requirements.md and list what is missing.\n');
+    expect(skill.parameters).toEqual([{ name: 'spec', type: 'string', required: true, description: 'Spec folder name' }]);
+    expect(skill.platformOverrides).toEqual({
+      'claude-code': { additionalContent: '\n## Claude Code Specific\n\n```bash\nnpx sdd status --spec {spec}\n```\n' },
+    });
+  });
+
+  it('keeps the body as written after the blank line that follows the frontmatter', () => {
+    const skill = parseSkillFile(reviewSpec.replace(/\nRead requirements[\s\S]*$/, '\n  Indented step\n\nLast line\n\n'));
+
+    expect(skill.instructions).toBe('  Indented step\n\nLast line\n\n');
+  });
+
+  it.each([
+    [`${reviewSpec}\nMore instructions\n`, 'line 24: instructions must come before the override sections'],
+    [reviewSpec.replace('[kiro, claude-code]', '[kiro, vim]'), 'line 6: unknown platforms vim'],
+    [reviewSpec.replace('version: 1.0.0\n', ''), 'line 1: frontmatter is missing "version"'],
+    [reviewSpec.replace('    type: string', '    type: text'), 'line 9: parameter type must be one of string, boolean, number, got "text"'],
+    [reviewSpec.replace('title:', 'owner: me\ntitle:'), 'line 3: unknown key "owner"'],
+    [reviewSpec.replace('````override claude-code', '````override claude-code notes'), 'line 16: override field must be instructions, additionalContent or partial:<name>'],
+    [reviewSpec.replace(/````\n$/, ''), 'line 16: override for claude-code is not closed with ````'],
+    [reviewSpec.replace(/Read requirements[\s\S]*$/, ''), 'line 12: skill has no instructions'],
+    ['# Review\n', 'line 1: skill files must start with a "---" frontmatter block'],
+  ])('rejects a broken file (%#)', (content, message) => {
+    expect(() => parseSkillFile(content)).toThrow(message);
+  });
+});
+
+describe('loadSkillFiles', () => {
+  it('loads <name>.md files and <name>/SKILL.md folders in name order', async () => {
+    const registry = new SkillRegistry();
+    const fs = new InMemoryFS({
+      [`${SKILL_FILES_DIR}review-spec/SKILL.md`]: reviewSpec,
+      [`${SKILL_FILES_DIR}notes.txt`]: 'ignored',
+      [`${SKILL_FILES_DIR}deploy.md`]: reviewSpec.replace('name: review-spec', 'name: deploy'),
+    });
+
+    const result = await loadSkillFiles(fs, SKILL_FILES_DIR, registry);
+
+    expect(result).toEqual({ loaded: ['deploy', 'review-spec'], partials: [], errors: [] });
+    expect(registry.listForPlatform('kiro').map(s => s.name)).toEqual(['deploy', 'review-spec']);
+  });
+
+  it('replaces a built-in skill of the same name', async () => {
+    const registry = new SkillRegistry();
+    allSkills.forEach(skill => registry.register(skill));
+    const fs = new InMemoryFS({ [`${SKILL_FILES_DIR}run-task.md`]: reviewSpec.replace('name: review-spec', 'name: run-task') });
+
+    await loadSkillFiles(fs, SKILL_FILES_DIR, registry);
+
+    expect(registry.get('run-task')!.instructions).toBe('Read requirements.md and list what is missing.\n');
+    expect(registry.listAll()).toHaveLength(allSkills.length);
+  });
+
+  it('skips broken files and loads the rest', async () => {
+    const registry = new SkillRegistry();
+    const fs = new InMemoryFS({
+      [`${SKILL_FILES_DIR}a.md`]: 'no frontmatter',
+      [`${SKILL_FILES_DIR}b.md`]: reviewSpec,
+    });
+
+    const result = await loadSkillFiles(fs, SKILL_FILES_DIR, registry);
+
+    expect(result.loaded).toEqual(['review-spec']);
+    expect(result.errors).toEqual([{
+      code: 'INVALID_SKILL_FILE',
+      message: '.sdd/skills/a.md:1: skill files must start with a "---" frontmatter block',
+      path: '.sdd/skills/a.md',
+    }]);
+  });
+
+  it('returns nothing for a missing directory', async () => {
+    expect(await loadSkillFiles(new InMemoryFS(), SKILL_FILES_DIR, new SkillRegistry())).toEqual({ loaded: [], partials: [], errors: [] });
+  });
+});
+
+describe('package skills', () => {
+  it('ship every built-in skill and partial as a skill file', async () => {
+    const registry = new SkillRegistry();
+    const result = await loadSkillFiles({
+      exists: async (p: string) => nodeFs.existsSync(p),
+      readdir: async (p: string) => nodeFs.readdirSync(p),
+      readFile: async (p: string) => nodeFs.readFileSync(p, 'utf-8'),
+    }, PACKAGE_SKILLS_DIR, registry);
+
+    expect(result.errors).toEqual([]);
+    expect(result.loaded).toEqual(allSkills.map(s => s.name).sort());
+    expect(result.partials).toEqual(Object.keys(builtinPartials).sort());
+    for (const skill of allSkills) {
+      expect(registry.get(skill.name)).toEqual(skill);
+    }
+  });
+
+  it('are published with the package', () => {
+    const pkg = JSON.parse(nodeFs.readFileSync(`${PACKAGE_SKILLS_DIR}../package.json`, 'utf-8')) as { files: string[] };
+    expect(pkg.files).toContain('skills');
+  });
+});
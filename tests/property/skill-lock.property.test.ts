@@ -0,0 +1,196 @@
+/**
+ * Property-Based Tests for the installed-skill lock file
+ *
+ * Feature: skill-lock
+ * Property 1: install-skills records a hash and base copy for every file it writes
+ * Property 2: Serializing and parsing a lock round-trips
+ * Unit tests: missing, modified and stale skills in sdd verify, invalid lock files
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  SKILL_LOCK_FILE,
+  baseCopyPath,
+  hashContent,
+  parseSkillLock,
+  serializeSkillLock,
+  updateSkillLock,
+  emptySkillLock,
+  type SkillLockEntry,
+} from '../../src/registry/skill-lock';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { VerifyCommand } from '../../src/commands/verify-command';
+import { SkillLockVerifier } from '../../src/verification/skill-lock-verifier';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills } from '../../src/skills/index';
+import type { CanonicalSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryPlatform = fc.constantFrom(...platformRegistry.ids());
+
+const arbitraryEntry: fc.Arbitrary<SkillLockEntry> = fc.record({
+  skill: fc.constantFrom('run-task', 'create-spec', 'refine-spec'),
+  version: fc.constantFrom('1.0.0', '1.1.0'),
+  platform: arbitraryPlatform,
+  path: fc.stringOf(fc.constantFrom(...'abc/.-'.split('')), { minLength: 1, maxLength: 20 }),
+  hash: fc.string().map(hashContent),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+function createRegistry(skills: CanonicalSkill[] = allSkills): SkillRegistry {
+  const registry = new SkillRegistry();
+  skills.forEach(skill => registry.register(skill));
+  return registry;
+}
+
+async function install(fs: InMemoryFS, platform: string, registry = createRegistry(), force = false) {
+  const command = new InstallSkillsCommand(registry, platformRegistry.createAdapters(), fs);
+  return command.execute({ platform, skills: ['run-task'], workspaceRoot: root, force, frameworkVersion: '0.1.0' });
+}
+
+function readLock(fs: InMemoryFS) {
+  return parseSkillLock(fs.getFile(`${root}/${SKILL_LOCK_FILE}`)!);
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: install-skills records a hash and base copy for every file it writes', () => {
+  it('locks each written skill file with the hash of its content', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryPlatform, async (platform) => {
+        const fs = new InMemoryFS();
+
+        const result = await install(fs, platform);
+
+        expect(result.success).toBe(true);
+        const lock = readLock(fs);
+        const written = [...fs.getAllFiles().keys()].filter(f => !f.startsWith(`${root}/.sdd/`));
+        expect(lock.skills.map(e => `${root}/${e.path}`).sort()).toEqual(written.sort());
+        for (const entry of lock.skills) {
+          expect(entry).toMatchObject({ skill: 'run-task', platform, frameworkVersion: '0.1.0' });
+          expect(entry.hash).toBe(hashContent(fs.getFile(`${root}/${entry.path}`)!));
+          expect(fs.getFile(`${root}/${baseCopyPath(entry.path)}`)).toBe(fs.getFile(`${root}/${entry.path}`));
+        }
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Serializing and parsing a lock round-trips', () => {
+  it('keeps every entry regardless of order', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(arbitraryEntry, { maxLength: 10, selector: e => `${e.platform}:${e.path}` }), (entries) => {
+        const lock = { lockfileVersion: 1, skills: entries };
+        const serialized = serializeSkillLock(lock);
+
+        expect(parseSkillLock(serialized).skills).toHaveLength(entries.length);
+        expect(serializeSkillLock({ ...lock, skills: [...entries].reverse() })).toBe(serialized);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('Lock file updates', () => {
+  it('replaces only the reinstalled skill on that platform', () => {
+    const entry = (skill: string, platform: string): SkillLockEntry =>
+      ({ skill, platform, version: '1.0.0', path: `${platform}/${skill}`, hash: 'sha256-0' });
+    const lock = { lockfileVersion: 1, skills: [entry('run-task', 'kiro'), entry('run-task', 'codex'), entry('create-spec', 'kiro')] };
+
+    const updated = updateSkillLock(lock, 'kiro', ['run-task'], [{ ...entry('run-task', 'kiro'), hash: 'sha256-1' }]);
+
+    expect(updated.skills.map(e => `${e.platform}/${e.skill}/${e.hash}`).sort()).toEqual(
+      ['codex/run-task/sha256-0', 'kiro/create-spec/sha256-0', 'kiro/run-task/sha256-1']
+    );
+  });
+
+  it('rewrites an invalid lock file with a warning', async () => {
+    const fs = new InMemoryFS({ [`${root}/${SKILL_LOCK_FILE}`]: '{ not json' });
+
+    const result = await install(fs, 'kiro');
+
+    expect(result.success).toBe(true);
+    expect(result.warnings![0]).toContain(`${SKILL_LOCK_FILE} was not a valid lock file`);
+    expect(readLock(fs).skills).toHaveLength(1);
+  });
+
+  it('rejects entries without a hash', () => {
+    expect(() => parseSkillLock('{"skills":[{"skill":"a","version":"1","platform":"kiro","path":"p"}]}'))
+      .toThrow('entry 0 is missing hash');
+    expect(emptySkillLock().skills).toEqual([]);
+  });
+});
+
+describe('SkillLockVerifier', () => {
+  it('passes right after install and ignores other platforms', async () => {
+    const fs = new InMemoryFS();
+    await install(fs, 'claude-code');
+
+    const verifier = new SkillLockVerifier(fs, createRegistry());
+
+    const checks = await verifier.verify('claude-code', root);
+    expect(checks).toHaveLength(1);
+    expect(checks[0].passed).toBe(true);
+    expect(await verifier.verify('kiro', root)).toEqual([]);
+  });
+
+  it('reports missing and locally modified files', async () => {
+    const fs = new InMemoryFS();
+    await install(fs, 'claude-code');
+    await fs.remove(`${root}/.claude/commands/run-task.md`);
+    await fs.writeFile(`${root}/.claude/skills/run-task/SKILL.md`, 'edited');
+
+    const [check] = await new SkillLockVerifier(fs, createRegistry()).verify('claude-code', root);
+
+    expect(check.passed).toBe(false);
+    expect(check.actual).toBe('missing .claude/commands/run-task.md; modified .claude/skills/run-task/SKILL.md');
+  });
+
+  it('reports stale skills when the canonical skill changed', async () => {
+    const fs = new InMemoryFS();
+    await install(fs, 'kiro');
+    const runTask = allSkills.find(s => s.name === 'run-task')!;
+    const updated = createRegistry([{ ...runTask, version: '9.0.0', instructions: `${runTask.instructions}\nNew step.` }]);
+
+    const [check] = await new SkillLockVerifier(fs, updated).verify('kiro', root);
+    expect(check.actual).toBe(`stale (${runTask.version} installed, 9.0.0 available)`);
+
+    await install(fs, 'kiro', updated, true);
+    const [after] = await new SkillLockVerifier(fs, updated).verify('kiro', root);
+    expect(after.passed).toBe(true);
+  });
+
+  it('fails sdd verify --platform on drift', async () => {
+    const fs = new InMemoryFS({ [`${root}/.kiro/specs/a/requirements.md`]: '# Requirements' });
+    await install(fs, 'kiro');
+    await fs.writeFile(`${root}/.kiro/skills/run-task.md`, 'edited');
+
+    const result = await new VerifyCommand(fs, [], createRegistry()).execute({ platform: 'kiro', workspaceRoot: root });
+
+    expect(result.success).toBe(false);
+    const failed = (result.error!.details!.verification as { checks: { name: string; passed: boolean }[] }).checks
+      .filter(c => !c.passed).map(c => c.name);
+    expect(failed).toContain(`Skill run-task matches ${SKILL_LOCK_FILE}`);
+  });
+
+  it('reports an unreadable lock file', async () => {
+    const fs = new InMemoryFS({ [`${root}/${SKILL_LOCK_FILE}`]: '[]' });
+
+    const [check] = await new SkillLockVerifier(fs).verify('kiro', root);
+
+    expect(check.passed).toBe(false);
+    expect(check.message).toContain('has no skills array');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Property-Based Tests for skill partials
+ *
+ * Feature: skill-partials
+ * Property 1: Nested includes resolve to the partials' content
+ * Property 2: Include cycles are reported with the cycle
+ * Property 3: A platform-only partial resolves for every platform
+ * Unit tests: built-in task-format partial, platform overrides, transformer, install, markdown partials, INVALID_PARTIAL
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { resolvePartials } from '../../src/transformer/skill-partials';
+import { SkillTransformer } from '../../src/transformer/skill-transformer';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { loadSkillFiles, SKILL_FILES_DIR } from '../../src/registry/skill-loader';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills } from '../../src/skills/index';
+import { builtinPartials, taskFormatPartial } from '../../src/skills/partials';
+import type { CanonicalSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryText = fc.stringMatching(/^[A-Za-z]([A-Za-z0-9 .,]{0,29}[A-Za-z0-9.])?$/);
+
+/** Distinct partial names with a text for each */
+const arbitraryChain = fc.uniqueArray(fc.stringMatching(/^[a-z][a-z0-9-]{0,10}$/), { minLength: 1, maxLength: 5 })
+  .chain(names => fc.tuple(fc.constant(names), fc.array(arbitraryText, { minLength: names.length, maxLength: names.length })));
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+function skillWith(instructions: string, platformOverrides: CanonicalSkill['platformOverrides'] = {}): CanonicalSkill {
+  return {
+    name: 'team-skill',
+    title: 'Team Skill',
+    description: 'A team skill',
+    version: '1.0.0',
+    supportedPlatforms: ['kiro', 'codex'],
+    parameters: [],
+    instructions,
+    platformOverrides,
+  };
+}
+
+function createRegistry(): SkillRegistry {
+  const registry = new SkillRegistry();
+  allSkills.forEach(skill => registry.register(skill));
+  return registry;
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Nested includes resolve to the partials\' content', () => {
+  it('expands a chain of partials, each including the next', () => {
+    fc.assert(
+      fc.property(arbitraryChain, ([names, texts]) => {
+        // partial i is its text followed by an include of partial i + 1
+        const partials = Object.fromEntries(names.map((name, i) =>
+          [name, i + 1 < names.length ? `${texts[i]}\n{{> ${names[i + 1]}}}` : texts[i]]
+        ));
+
+        const resolved = resolvePartials(skillWith(`Intro\n\n{{> ${names[0]}}}\n\nOutro`), 'kiro', partials);
+
+        expect(resolved.instructions).toBe(`Intro\n\n${texts.join('\n')}\n\nOutro`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Include cycles are reported with the cycle', () => {
+  it('throws naming every partial on the cycle', () => {
+    fc.assert(
+      fc.property(arbitraryChain, fc.nat(), ([names], n) => {
+        // The last partial includes an earlier one (or itself)
+        const back = n % names.length;
+        const partials = Object.fromEntries(names.map((name, i) =>
+          [name, `{{> ${i + 1 < names.length ? names[i + 1] : names[back]}}}`]
+        ));
+
+        expect(() => resolvePartials(skillWith(`{{> ${names[0]}}}`), 'kiro', partials)).toThrow(
+          `Partial include cycle in skill team-skill: ${[...names.slice(back), names[back]].join(' -> ')}`
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 3 ──────────────────────────────────────────────────────────────
+
+describe('Property 3: A platform-only partial resolves for every platform', () => {
+  it('expands an override that includes its platform\'s own partial only on that platform and those extending it', () => {
+    const platforms = platformRegistry.ids();
+    fc.assert(
+      fc.property(fc.constantFrom(...platforms), fc.constantFrom(...platforms), arbitraryChain, (owner, target, [[name], [text]]) => {
+        const skill = skillWith('Shared', {
+          [owner]: { instructions: `{{> ${name}}}`, partials: { [name]: text } },
+        });
+
+        const resolved = resolvePartials(skill, target, builtinPartials);
+
+        const inherits = platformRegistry.lineage(target).includes(owner);
+        expect(resolved.platformOverrides![owner]!.instructions).toBe(inherits ? text : `{{> ${name}}}`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('task-format partial', () => {
+  it('is the one copy of the task format in every skill that states it', () => {
+    for (const name of ['create-spec', 'refine-spec', 'start-task-group', 'analyze-task-failure']) {
+      const skill = allSkills.find(s => s.name === name)!;
+      expect(skill.instructions).toContain('{{> task-format}}');
+      expect(skill.instructions).not.toContain('exactly two depth-1 groups');
+      expect(resolvePartials(skill, 'kiro', builtinPartials).instructions).toContain(taskFormatPartial);
+    }
+  });
+
+  it('resolves in every built-in skill on every platform', () => {
+    for (const skill of allSkills) {
+      for (const platform of platformRegistry.ids().filter(id => platformRegistry.supports(skill, id))) {
+        expect(resolvePartials(skill, platform, builtinPartials).instructions).not.toContain('{{>');
+      }
+    }
+  });
+});
+
+describe('resolvePartials', () => {
+  it('uses a platform\'s override of a partial on that platform only', () => {
+    const skill = skillWith('{{> task-format}}', {
+      codex: { partials: { 'task-format': 'Codex task format' }, additionalContent: '\n{{> task-format}}\n' },
+    });
+
+    expect(resolvePartials(skill, 'codex', builtinPartials).instructions).toBe('Codex task format');
+    expect(resolvePartials(skill, 'codex', builtinPartials).platformOverrides!.codex!.additionalContent).toBe('\nCodex task format\n');
+    expect(resolvePartials(skill, 'kiro', builtinPartials).instructions).toBe(taskFormatPartial);
+  });
+
+  it('rejects unknown partials', () => {
+    expect(() => resolvePartials(skillWith('{{> nope}}'), 'kiro', builtinPartials))
+      .toThrow('Unknown partial "nope" in skill team-skill');
+  });
+
+  it('names the include chain that led to an unknown partial', () => {
+    const partials = { outer: '{{> inner}}', inner: '{{> missing}}' };
+
+    expect(() => resolvePartials(skillWith('{{> outer}}'), 'kiro', partials))
+      .toThrow('Unknown partial "missing" in skill team-skill: outer -> inner -> missing');
+  });
+
+  it('leaves skills without includes unchanged', () => {
+    const skill = allSkills.find(s => s.name === 'run-task')!;
+
+    expect(resolvePartials(skill, 'kiro', builtinPartials)).toEqual(skill);
+  });
+});
+
+describe('SkillTransformer and install-skills', () => {
+  it('format skills with their partials resolved', async () => {
+    const registry = createRegistry();
+    registry.registerPartial('task-format', 'Team task format');
+    const fs = new InMemoryFS();
+
+    const transformed = new SkillTransformer(registry, platformRegistry.createAdapters()).transformForPlatform('create-spec', 'kiro');
+    await new InstallSkillsCommand(registry, platformRegistry.createAdapters(), fs)
+      .execute({ platform: 'kiro', skills: ['create-spec'], workspaceRoot: root });
+
+    expect('content' in transformed && transformed.content).toContain('## Task Format\n\nTeam task format\n');
+    expect(fs.getFile(`${root}/.kiro/skills/create-spec.md`)).toContain('## Task Format\n\nTeam task format\n');
+  });
+});
+
+describe('markdown partials', () => {
+  const skillFile = (body: string) =>
+    `---\nname: team-skill\ntitle: Team Skill\ndescription: A team skill\nversion: 1.0.0\nsupportedPlatforms: [kiro, codex]\n---\n\n${body}\n`;
+
+  it('loads partials/ and partial overrides from skill files', async () => {
+    const registry = new SkillRegistry();
+    const fs = new InMemoryFS({
+      [`${SKILL_FILES_DIR}partials/review-checklist.md`]: '- Tests pass\n',
+      [`${SKILL_FILES_DIR}team-skill.md`]: skillFile('{{> review-checklist}}\n\n```override codex partial:review-checklist\n- Codex review\n```'),
+    });
+
+    const result = await loadSkillFiles(fs, SKILL_FILES_DIR, registry);
+
+    expect(result).toEqual({ loaded: ['team-skill'], partials: ['review-checklist'], errors: [] });
+    const skill = registry.get('team-skill')!;
+    expect(resolvePartials(skill, 'kiro', registry.getPartials()).instructions).toBe('- Tests pass\n');
+    expect(resolvePartials(skill, 'codex', registry.getPartials()).instructions).toBe('- Codex review\n');
+  });
+
+  it('fails install-skills with INVALID_PARTIAL when a partial includes itself', async () => {
+    const registry = createRegistry();
+    const fs = new InMemoryFS({
+      [`${SKILL_FILES_DIR}partials/team-rules.md`]: 'Rules\n{{> team-rules}}\n',
+      [`${SKILL_FILES_DIR}team-skill.md`]: skillFile('{{> team-rules}}'),
+    });
+
+    expect((await loadSkillFiles(fs, SKILL_FILES_DIR, registry)).errors).toEqual([]);
+    const result = await new InstallSkillsCommand(registry, platformRegistry.createAdapters(), fs)
+      .execute({ platform: 'kiro', skills: ['run-task', 'team-skill'], workspaceRoot: root });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({
+      code: 'INVALID_PARTIAL',
+      message: 'Partial include cycle in skill team-skill: team-rules -> team-rules',
+      details: { skill: 'team-skill', platform: 'kiro' },
+    });
+    expect([...fs.getAllFiles().keys()].filter(f => f.startsWith(root))).toEqual([]);
+  });
+
+});
@@ -0,0 +1,195 @@
+/**
+ * Property-Based Tests for sdd upgrade
+ *
+ * Feature: skill-upgrade
+ * Property 1: Edits to separate lines are both kept
+ * Property 2: An unedited side takes the other side's content
+ * Unit tests: conflict markers, UpgradeCommand outcomes and lock updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { mergeThreeWay } from '../../src/workspace/three-way-merge';
+import { UpgradeCommand } from '../../src/commands/upgrade-command';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { ErrorCode } from '../../src/commands/command-result';
+import { SKILL_LOCK_FILE, baseCopyPath, hashContent, parseSkillLock } from '../../src/registry/skill-lock';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills } from '../../src/skills/index';
+import type { CanonicalSkill } from '../../src/types';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryBase = fc.uniqueArray(fc.stringOf(fc.constantFrom(...'abcdefgh '.split('')), { minLength: 1, maxLength: 12 }), {
+  minLength: 5,
+  maxLength: 20,
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+const runTask = allSkills.find(s => s.name === 'run-task')!;
+
+function createRegistry(skills: CanonicalSkill[] = allSkills): SkillRegistry {
+  const registry = new SkillRegistry();
+  skills.forEach(skill => registry.register(skill));
+  return registry;
+}
+
+/**
+ * run-task with one more instruction line, as a later package version would ship it
+ */
+function newerRegistry(): SkillRegistry {
+  return createRegistry([{ ...runTask, version: '2.0.0', instructions: `${runTask.instructions}\n\nAlways run the tests.` }]);
+}
+
+async function installRunTask(fs: InMemoryFS, platform = 'kiro') {
+  const command = new InstallSkillsCommand(createRegistry(), platformRegistry.createAdapters(), fs);
+  await command.execute({ platform, skills: ['run-task'], workspaceRoot: root });
+}
+
+function upgrade(fs: InMemoryFS, registry = newerRegistry(), platform = 'kiro') {
+  return new UpgradeCommand(registry, platformRegistry.createAdapters(), fs).execute({ platform, workspaceRoot: root });
+}
+
+const skillPath = `${root}/.kiro/skills/run-task.md`;
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Edits to separate lines are both kept', () => {
+  it('merges without conflicts when the edited lines are apart', () => {
+    fc.assert(
+      fc.property(arbitraryBase, fc.nat(), fc.nat(), (base, a, b) => {
+        const i = a % (base.length - 2);
+        const j = i + 2 + (b % (base.length - i - 2));
+        const ours = base.map((line, k) => (k === i ? `${line} (ours)` : line));
+        const theirs = base.map((line, k) => (k === j ? `${line} (theirs)` : line));
+
+        const result = mergeThreeWay(base.join('\n'), ours.join('\n'), theirs.join('\n'));
+
+        expect(result.conflicts).toBe(0);
+        expect(result.content).toBe(base.map((line, k) =>
+          k === i ? `${line} (ours)` : k === j ? `${line} (theirs)` : line
+        ).join('\n'));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: An unedited side takes the other side\'s content', () => {
+  it('returns the edited side unchanged', () => {
+    fc.assert(
+      fc.property(arbitraryBase, arbitraryBase, (base, edited) => {
+        const baseText = base.join('\n');
+        const editedText = edited.join('\n');
+
+        expect(mergeThreeWay(baseText, baseText, editedText)).toEqual({ content: editedText, conflicts: 0 });
+        expect(mergeThreeWay(baseText, editedText, baseText)).toEqual({ content: editedText, conflicts: 0 });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('mergeThreeWay', () => {
+  it('writes conflict markers when both sides change the same line differently', () => {
+    const result = mergeThreeWay('a\nb\nc', 'a\nB1\nc', 'a\nB2\nc', { ours: 'local', theirs: 'run-task 2.0.0' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe('a\n<<<<<<< local\nB1\n=======\nB2\n>>>>>>> run-task 2.0.0\nc');
+  });
+
+  it('takes an identical change once', () => {
+    expect(mergeThreeWay('a\nb\nc', 'a\nX\nc\nd', 'a\nX\nc')).toEqual({ content: 'a\nX\nc\nd', conflicts: 0 });
+  });
+});
+
+describe('UpgradeCommand', () => {
+  it('replaces unedited files and records the new version', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs);
+
+    const result = await upgrade(fs);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.upgraded).toEqual(['run-task']);
+    expect(result.data!.skills[0]).toMatchObject({ fromVersion: runTask.version, toVersion: '2.0.0', conflicts: [] });
+    expect(fs.getFile(skillPath)).toContain('Always run the tests.');
+    const [entry] = parseSkillLock(fs.getFile(`${root}/${SKILL_LOCK_FILE}`)!).skills;
+    expect(entry).toMatchObject({ version: '2.0.0', hash: hashContent(fs.getFile(skillPath)!) });
+    expect(fs.getFile(`${root}/${baseCopyPath(entry.path)}`)).toBe(fs.getFile(skillPath));
+  });
+
+  it('merges local edits with the new version', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs);
+    await fs.writeFile(skillPath, fs.getFile(skillPath)!.replace('\n', '\nTeam note: use pnpm.\n'));
+
+    const result = await upgrade(fs);
+
+    expect(result.data!.merged).toEqual(['run-task']);
+    expect(fs.getFile(skillPath)).toContain('Team note: use pnpm.');
+    expect(fs.getFile(skillPath)).toContain('Always run the tests.');
+  });
+
+  it('reports conflicts when local edits overlap the new version', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs);
+    await fs.writeFile(skillPath, fs.getFile(skillPath)!.replace('- Any errors or warnings', '- Any errors, with stack traces'));
+    const registry = createRegistry([{
+      ...runTask,
+      version: '2.0.0',
+      instructions: runTask.instructions.replace('- Any errors or warnings', '- Any errors, warnings and timings'),
+    }]);
+
+    const result = await upgrade(fs, registry);
+
+    expect(result.data!.conflicted).toEqual(['run-task']);
+    expect(result.data!.skills[0].conflicts).toEqual(['.kiro/skills/run-task.md']);
+    expect(result.warnings).toContain('run-task has conflicts in .kiro/skills/run-task.md; resolve the <<<<<<< markers');
+    expect(fs.getFile(skillPath)).toContain(
+      '<<<<<<< local\n- Any errors, with stack traces\n=======\n- Any errors, warnings and timings\n>>>>>>> run-task 2.0.0'
+    );
+  });
+
+  it('keeps local edits when the skill did not change', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs);
+    await fs.writeFile(skillPath, 'my own version');
+
+    const result = await upgrade(fs, createRegistry());
+
+    expect(result.data!.unchanged).toEqual(['run-task']);
+    expect(fs.getFile(skillPath)).toBe('my own version');
+  });
+
+  it('upgrades every file of a directory skill', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs, 'claude-code');
+
+    const result = await upgrade(fs, newerRegistry(), 'claude-code');
+
+    expect(result.data!.upgraded).toEqual(['run-task']);
+    expect(fs.getFile(`${root}/.claude/skills/run-task/SKILL.md`)).toContain('Always run the tests.');
+  });
+
+  it('fails without installed skills', async () => {
+    const fs = new InMemoryFS();
+    await installRunTask(fs);
+
+    const none = await upgrade(fs, newerRegistry(), 'codex');
+    expect(none.error!.code).toBe(ErrorCode.SKILL_NOT_FOUND);
+    expect(none.error!.message).toContain('run install-skills first');
+
+    const unknown = await new UpgradeCommand(newerRegistry(), platformRegistry.createAdapters(), fs)
+      .execute({ platform: 'kiro', skills: ['create-spec'], workspaceRoot: root });
+    expect(unknown.error!.message).toBe('Skills not installed on kiro: create-spec');
+  });
+});
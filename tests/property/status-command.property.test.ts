@@ -0,0 +1,147 @@
+/**
+ * Property-Based Tests for StatusCommand
+ *
+ * Feature: sdd-status-dashboard
+ * Property 1: Spec totals equal the sum of group totals
+ * Unit tests: StatusCommand spec listing, blocking, next task and errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import * as nodePath from 'path';
+import { StatusCommand, renderStatusDashboard } from '../../src/commands/status-command';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const ROOT = '/workspace';
+
+/** In-memory workspace holding `files`, keyed by path relative to ROOT */
+function createMemoryFs(files: Record<string, string>): InMemoryFS {
+  return new InMemoryFS(Object.fromEntries(Object.entries(files).map(([p, c]) => [nodePath.join(ROOT, p), c])));
+}
+
+const SAMPLE_TASKS = [
+  '# Tasks',
+  '',
+  '- [-] 1 Mandatory — Core',
+  '  - [x] 1.1 Foundation',
+  '    - [x] 1.1.1 Create module',
+  '    - [x] 1.1.2 Barrel export',
+  '  - [ ] 1.2 CLI',
+  '    - [!] 1.2.1 Create helper',
+  '    - [ ] 1.2.2 Create command',
+  '  - [ ] 1.3 Checkpoint',
+  '  - [ ] 1.4 Docs',
+  '    - [ ] 1.4.1 Update README',
+  '',
+  '- [ ]* 2 Optional — Tests',
+  '  - [ ]* 2.1 Property tests',
+  '    - [ ]* 2.1.1 Round-trip',
+].join('\n');
+
+// ── Property 1: Spec totals equal the sum of group totals ───────────────────
+
+describe('Property 1: Spec totals equal the sum of group totals', () => {
+  const arbitraryChar = fc.constantFrom(' ', 'x', '-', '!', '~');
+
+  it('percentComplete and totals are consistent for any leaf statuses', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.array(arbitraryChar, { minLength: 1, maxLength: 4 }), { minLength: 1, maxLength: 4 }),
+        async (subgroups) => {
+          const lines = ['- [ ] 1 Group'];
+          subgroups.forEach((leaves, i) => {
+            lines.push(`  - [ ] 1.${i + 1} Subgroup ${i + 1}`);
+            leaves.forEach((ch, j) => lines.push(`    - [${ch}] 1.${i + 1}.${j + 1} Leaf`));
+          });
+
+          const cmd = new StatusCommand(createMemoryFs({ '.kiro/specs/prop/tasks.md': lines.join('\n') }));
+          const result = await cmd.execute({ workspaceRoot: ROOT });
+          expect(result.success).toBe(true);
+
+          const spec = result.data!.specs[0];
+          const leaves = subgroups.flat();
+          expect(spec.totalTasks).toBe(leaves.length);
+          expect(spec.completedTasks).toBe(leaves.filter(c => c === 'x').length);
+          expect(spec.totalTasks).toBe(spec.groups.reduce((n, g) => n + g.totalTasks, 0));
+          expect(spec.percentComplete).toBe(Math.round((spec.completedTasks / spec.totalTasks) * 100));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Unit tests: StatusCommand ───────────────────────────────────────────────
+
+describe('StatusCommand', () => {
+  it('lists every spec under .kiro/specs/ in name order', async () => {
+    const cmd = new StatusCommand(createMemoryFs({
+      '.kiro/specs/zeta/tasks.md': SAMPLE_TASKS,
+      '.kiro/specs/alpha/tasks.md': SAMPLE_TASKS,
+      '.kiro/specs/empty/requirements.md': '',
+    }));
+    const result = await cmd.execute({ workspaceRoot: ROOT });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.specs.map(s => s.name)).toEqual(['alpha', 'empty', 'zeta']);
+    expect(result.data!.specs[1].hasTasks).toBe(false);
+  });
+
+  it('reports per-group progress, blocked tasks and the next executable task', async () => {
+    const cmd = new StatusCommand(createMemoryFs({ '.kiro/specs/feature/tasks.md': SAMPLE_TASKS }));
+    const result = await cmd.execute({ spec: 'feature', workspaceRoot: ROOT });
+
+    const spec = result.data!.specs[0];
+    const group1 = spec.groups[0];
+
+    // 1.1 → 2 leaves, 1.2 → 2 leaves, 1.3 → itself, 1.4 → 1 leaf
+    expect(group1.totalTasks).toBe(6);
+    expect(group1.completedTasks).toBe(2);
+    expect(group1.failedTasks).toBe(1);
+    expect(group1.subgroups.map(sg => sg.status)).toEqual(['completed', 'failed', 'not_started', 'not_started']);
+    expect(spec.blockedTasks.map(t => t.id)).toEqual(['1.2.2']);
+    expect(spec.nextTask).toEqual({ id: '1.4.1', text: 'Update README', groupId: '1' });
+    expect(spec.groups[1].isOptional).toBe(true);
+    expect(spec.totalTasks).toBe(7);
+    expect(spec.percentComplete).toBe(29);
+  });
+
+  it('returns SPEC_NOT_FOUND for an unknown spec', async () => {
+    const cmd = new StatusCommand(createMemoryFs({}));
+    const result = await cmd.execute({ spec: 'missing', workspaceRoot: ROOT });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('SPEC_NOT_FOUND');
+  });
+
+  it('returns INVALID_SPEC_NAME for a non-kebab-case spec', async () => {
+    const cmd = new StatusCommand(createMemoryFs({}));
+    const result = await cmd.execute({ spec: 'Bad Name', workspaceRoot: ROOT });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('INVALID_SPEC_NAME');
+  });
+
+  it('returns an empty list when .kiro/specs/ does not exist', async () => {
+    const cmd = new StatusCommand(createMemoryFs({}));
+    const result = await cmd.execute({ workspaceRoot: ROOT });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.specs).toEqual([]);
+    expect(renderStatusDashboard(result.data!)).toBe('No specs found in .kiro/specs/');
+  });
+
+  it('renders a dashboard with groups, blocked and next lines', async () => {
+    const cmd = new StatusCommand(createMemoryFs({ '.kiro/specs/feature/tasks.md': SAMPLE_TASKS }));
+    const result = await cmd.execute({ workspaceRoot: ROOT });
+    const text = renderStatusDashboard(result.data!);
+
+    expect(text).toContain('feature');
+    expect(text).toContain('29% (2/7 tasks)');
+    expect(text).toContain('1.2 CLI  0/2 [failed]');
+    expect(text).toContain('Blocked: 1.2.2');
+    expect(text).toContain('Next: 1.4.1 Update README');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Property-Based Tests for explicit task dependencies
+ *
+ * Feature: task-dependencies
+ * Property 1: A task is executable only when every dependency is completed
+ * Property 2: Dependency chains that loop back are reported as cycles
+ * Unit tests: inherited dependencies, dangling references, SpecVerifier checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { TaskGroupResolver } from '../../src/tasks/task-group-resolver';
+import { SpecVerifier } from '../../src/verification/spec-verifier';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryCheckboxChar = fc.constantFrom(' ', 'x', '-', '!');
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Group 1 holds the dependent task; the optional group 2 holds its prerequisites */
+function buildContent(prereqChars: string[]): string {
+  const lines = [
+    '# Tasks',
+    '',
+    '- [ ] 1 Main',
+    '  - [ ] 1.1 Feature',
+    '    - [ ] 1.1.1 Uses helpers',
+    `      - _Depends: ${prereqChars.map((_, i) => `2.1.${i + 1}`).join(', ')}_`,
+    '- [ ]* 2 Optional',
+    '  - [ ] 2.1 Helpers',
+  ];
+  prereqChars.forEach((c, i) => lines.push(`    - [${c}] 2.1.${i + 1} Helper ${i + 1}`));
+  return lines.join('\n');
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: A task is executable only when every dependency is completed', () => {
+  it('cross-group dependencies drive isBlocked and findNextExecutableTask', () => {
+    fc.assert(
+      fc.property(fc.array(arbitraryCheckboxChar, { minLength: 1, maxLength: 5 }), (chars) => {
+        const resolver = new TaskGroupResolver();
+        const groups = resolver.parseGroups(buildContent(chars));
+        const task = groups[0].tasks.find(t => t.id === '1.1.1')!;
+        const satisfied = chars.every(c => c === 'x');
+
+        expect(task.dependsOn).toEqual(chars.map((_, i) => `2.1.${i + 1}`));
+        expect(task.isBlocked).toBe(!satisfied);
+        expect(resolver.findNextExecutableTask(groups[0])?.id).toBe(satisfied ? '1.1.1' : undefined);
+        expect(resolver.isGroupExecutable(groups[0])).toBe(satisfied);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Dependency chains that loop back are reported as cycles', () => {
+  it('a chain of n leaf tasks is a cycle exactly when the last depends on the first', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 6 }), fc.boolean(), (n, closed) => {
+        const lines = ['- [ ] 1 Group', '  - [ ] 1.1 Chain'];
+        for (let i = 1; i <= n; i++) {
+          lines.push(`    - [ ] 1.1.${i} Step ${i}`);
+          if (i < n) lines.push(`      - _Depends: 1.1.${i + 1}_`);
+          else if (closed) lines.push('      - _Depends: 1.1.1_');
+        }
+
+        const resolver = new TaskGroupResolver();
+        const result = resolver.validateDependencies(resolver.parseGroups(lines.join('\n')));
+
+        expect(result.danglingReferences).toEqual([]);
+        expect(result.cycles.length).toBe(closed ? 1 : 0);
+        if (closed) {
+          const cycle = result.cycles[0];
+          expect(cycle[0]).toBe(cycle[cycle.length - 1]);
+          expect(new Set(cycle).size).toBe(n);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('Task dependency resolution', () => {
+  const resolver = new TaskGroupResolver();
+
+  it('applies subgroup dependencies to every child task', () => {
+    const groups = resolver.parseGroups([
+      '- [ ] 1 Main',
+      '  - [ ] 1.1 Setup',
+      '    - [ ] 1.1.1 Install',
+      '  - [ ] 1.2 Feature',
+      '    - _Depends: 1.1_',
+      '    - [ ] 1.2.1 Build',
+      '    - [ ] 1.2.2 Test',
+    ].join('\n'));
+
+    const blocked = groups[0].tasks.filter(t => t.isBlocked).map(t => t.id);
+    expect(blocked).toEqual(['1.2', '1.2.1', '1.2.2']);
+    expect(resolver.findNextExecutableTask(groups[0])?.id).toBe('1.1.1');
+  });
+
+  it('treats a subgroup as satisfied once all of its leaves are completed', () => {
+    const groups = resolver.parseGroups([
+      '- [ ] 1 Main',
+      '  - [ ] 1.1 Setup',
+      '    - [x] 1.1.1 Install',
+      '  - [ ] 1.2 Feature',
+      '    - [ ] 1.2.1 Build',
+      '      - _Depends: 1.1_',
+    ].join('\n'));
+
+    expect(resolver.findNextExecutableTask(groups[0])?.id).toBe('1.2.1');
+  });
+
+  it('reports unknown IDs and blocks on them', () => {
+    const groups = resolver.parseGroups([
+      '- [ ] 1 Main',
+      '  - [ ] 1.1 Setup',
+      '    - [ ] 1.1.1 Install',
+      '      - _Depends: 9.9, 1.1.2._',
+      '    - [x] 1.1.2 Prepare',
+    ].join('\n'));
+
+    expect(groups[0].tasks[2].isBlocked).toBe(true);
+    expect(resolver.validateDependencies(groups)).toEqual({
+      valid: false,
+      danglingReferences: [{ taskId: '1.1.1', dependencyIds: ['9.9'] }],
+      cycles: [],
+    });
+  });
+
+  it('reports a task depending on its own subgroup as a cycle', () => {
+    const groups = resolver.parseGroups([
+      '- [ ] 1 Main',
+      '  - [ ] 1.1 Setup',
+      '    - [ ] 1.1.1 Install',
+      '      - _Depends: 1.1_',
+    ].join('\n'));
+
+    expect(resolver.validateDependencies(groups).cycles).toEqual([['1.1', '1.1.1', '1.1']]);
+  });
+});
+
+describe('SpecVerifier dependency checks', () => {
+  const root = '/workspace';
+  const specPath = `${root}/.kiro/specs/deps`;
+
+  async function verify(tasksContent: string) {
+    const fs = new InMemoryFS({
+      [`${specPath}/requirements.md`]: '# Requirements',
+      [`${specPath}/design.md`]: '# Design',
+      [`${specPath}/tasks.md`]: tasksContent,
+    }, [specPath]);
+    const { checks } = await new SpecVerifier(fs).verify('deps', root);
+    return {
+      resolve: checks.find(c => c.name === 'tasks.md dependencies resolve')!,
+      acyclic: checks.find(c => c.name === 'tasks.md dependencies acyclic')!,
+    };
+  }
+
+  it('passes when every dependency exists and there are no cycles', async () => {
+    const { resolve, acyclic } = await verify(buildContent(['x', ' ']));
+    expect(resolve.passed).toBe(true);
+    expect(acyclic.passed).toBe(true);
+  });
+
+  it('fails on dangling references and cycles', async () => {
+    const { resolve, acyclic } = await verify([
+      '- [ ] 1 Main',
+      '  - [ ] 1.1 A',
+      '    - _Depends: 1.2, 3.1_',
+      '  - [ ] 1.2 B',
+      '    - _Depends: 1.1_',
+    ].join('\n'));
+
+    expect(resolve.passed).toBe(false);
+    expect(resolve.actual).toBe('unknown IDs: 1.1 → 3.1');
+    expect(acyclic.passed).toBe(false);
+    expect(acyclic.actual).toBe('cycles: 1.1 → 1.2 → 1.1');
+  });
+});
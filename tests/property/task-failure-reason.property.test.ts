@@ -0,0 +1,174 @@
+/**
+ * Property-Based Tests for inline task failure reasons
+ *
+ * Feature: task-failure-reasons
+ * Property 1: A recorded reason is parsed back onto the failed task
+ * Property 2: Leaving failed removes the reason and nothing else
+ * Unit tests: RunTaskCommand --reason handling
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import * as os from 'os';
+import { TaskTracker } from '../../src/tasks/task-tracker';
+import { TaskGroupResolver } from '../../src/tasks/task-group-resolver';
+import { RunTaskCommand } from '../../src/commands/run-task-command';
+import type { RunTaskFileSystem } from '../../src/commands/run-task-command';
+import type { TaskStatus } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+/** Single-line reasons without leading/trailing whitespace */
+const arbitraryReason = fc.string({ minLength: 1, maxLength: 40 })
+  .map(s => s.replace(/\s+/g, ' ').trim())
+  .filter(s => s.length > 0);
+
+const arbitraryTaskId = fc.constantFrom('1.1.1', '1.1.2', '1.2.1');
+
+const arbitraryNonFailed: fc.Arbitrary<TaskStatus> = fc.constantFrom(
+  'not_started', 'queued', 'in_progress', 'completed'
+);
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const CONTENT = [
+  '# Tasks',
+  '',
+  '- [ ] 1 Group',
+  '  - [ ] 1.1 Foundation',
+  '    - [ ] 1.1.1 One',
+  '      - _Requirements: 1.1_',
+  '    - [ ] 1.1.2 Two',
+  '  - [ ] 1.2 CLI',
+  '    - [ ] 1.2.1 Helper',
+  '      - Write the helper',
+  '      - _Requirements: 2.1_',
+  '',
+].join('\n');
+
+function findTask(content: string, taskId: string) {
+  return new TaskGroupResolver().parseGroups(content)[0].tasks.find(t => t.id === taskId)!;
+}
+
+// ── Property 1 & 2 ──────────────────────────────────────────────────────────
+
+describe('Failure reason detail lines', () => {
+  const tracker = new TaskTracker();
+
+  it('Property 1: a recorded reason is parsed back onto the failed task', () => {
+    fc.assert(
+      fc.property(arbitraryTaskId, arbitraryReason, (taskId, reason) => {
+        let content = tracker.replaceTaskStatus(CONTENT, taskId, 'failed');
+        content = tracker.setFailureReason(content, taskId, reason);
+
+        expect(findTask(content, taskId).failureReason).toBe(reason);
+        expect(tracker.parseTaskStatus(content, taskId)).toBe('failed');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 2: clearing a reason restores the original document', () => {
+    fc.assert(
+      fc.property(arbitraryTaskId, arbitraryReason, arbitraryReason, (taskId, first, second) => {
+        let content = tracker.setFailureReason(CONTENT, taskId, first);
+        content = tracker.setFailureReason(content, taskId, second);
+        expect(content.split('_Failure:').length - 1).toBe(1);
+
+        expect(tracker.setFailureReason(content, taskId, null)).toBe(CONTENT);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('writes the reason as the first detail line, indented under the task', () => {
+    const content = tracker.setFailureReason(CONTENT, '1.2.1', 'lint\nerrors');
+    expect(content).toContain([
+      '    - [ ] 1.2.1 Helper',
+      '      - _Failure: lint errors_',
+      '      - Write the helper',
+    ].join('\n'));
+  });
+
+  it('leaves content unchanged for unknown tasks', () => {
+    expect(tracker.setFailureReason(CONTENT, '9.9', 'nope')).toBe(CONTENT);
+  });
+});
+
+// ── TaskTracker and RunTaskCommand integration ──────────────────────────────
+
+describe('Failure reasons through status updates', () => {
+  let tempDir: string;
+  let tasksPath: string;
+
+  const realFs: RunTaskFileSystem = {
+    exists: async (p: string) => {
+      try { await fs.access(p); return true; } catch { return false; }
+    },
+    readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'failure-reason-'));
+    const specDir = nodePath.join(tempDir, '.kiro', 'specs', 'reasons');
+    await fs.mkdir(specDir, { recursive: true });
+    tasksPath = nodePath.join(specDir, 'tasks.md');
+    await fs.writeFile(tasksPath, CONTENT, 'utf-8');
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('clears the reason when the task moves out of failed', { timeout: 30000 }, async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryTaskId, arbitraryReason, arbitraryNonFailed, async (taskId, reason, next) => {
+        await fs.writeFile(tasksPath, CONTENT, 'utf-8');
+        const tracker = new TaskTracker({ recordHistory: false });
+
+        await tracker.updateTaskStatus(tasksPath, taskId, 'failed', reason);
+        expect(findTask(await fs.readFile(tasksPath, 'utf-8'), taskId).failureReason).toBe(reason);
+
+        await tracker.updateTaskStatus(tasksPath, taskId, next);
+        const after = await fs.readFile(tasksPath, 'utf-8');
+        expect(findTask(after, taskId).failureReason).toBeUndefined();
+        expect(after).toBe(tracker.replaceTaskStatus(CONTENT, taskId, next));
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('keeps the previous reason when a task fails again without one', async () => {
+    const tracker = new TaskTracker({ recordHistory: false });
+    await tracker.updateTaskStatus(tasksPath, '1.1.2', 'failed', 'timeout');
+    await tracker.updateTaskStatus(tasksPath, '1.1.2', 'failed');
+
+    expect(findTask(await fs.readFile(tasksPath, 'utf-8'), '1.1.2').failureReason).toBe('timeout');
+  });
+
+  it('run-task --reason writes the reason for every failed task', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker({ recordHistory: false }));
+    const result = await command.execute({
+      spec: 'reasons', taskId: '1.1.*', status: 'failed', reason: 'build broke', workspaceRoot: tempDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.updates.every(u => u.error === 'build broke')).toBe(true);
+    const after = await fs.readFile(tasksPath, 'utf-8');
+    expect(findTask(after, '1.1.1').failureReason).toBe('build broke');
+    expect(findTask(after, '1.1.2').failureReason).toBe('build broke');
+  });
+
+  it('run-task warns that --reason is ignored for other statuses', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker({ recordHistory: false }));
+    const result = await command.execute({
+      spec: 'reasons', taskId: '1.1', status: 'in_progress', reason: 'n/a', workspaceRoot: tempDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['--reason is only recorded when --status is failed']);
+    expect(await fs.readFile(tasksPath, 'utf-8')).not.toContain('_Failure:');
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Property-Based Tests for the per-spec task history log
+ *
+ * Feature: task-history
+ * Property 1: Serialised entries parse back unchanged
+ * Property 2: Every status update appends exactly one entry per task
+ * Unit tests: group operations, HistoryCommand filtering and errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import * as os from 'os';
+import {
+  TASK_HISTORY_FILE,
+  parseTaskHistory,
+  filterTaskHistory,
+  type TaskHistoryEntry,
+} from '../../src/tasks/task-history';
+import { TaskTracker } from '../../src/tasks/task-tracker';
+import { HistoryCommand, renderHistory } from '../../src/commands/history-command';
+import type { HistoryFileSystem } from '../../src/commands/history-command';
+import type { PlatformId, TaskStatus } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryStatus: fc.Arbitrary<TaskStatus> = fc.constantFrom(
+  'not_started', 'queued', 'in_progress', 'completed', 'failed'
+);
+
+const arbitraryPlatform: fc.Arbitrary<PlatformId | null> = fc.constantFrom(
+  'kiro', 'claude-code', 'codex', 'antigravity', 'amazonq', null
+);
+
+const arbitraryEntry: fc.Arbitrary<TaskHistoryEntry> = fc.record({
+  taskId: fc.array(fc.integer({ min: 1, max: 9 }), { minLength: 1, maxLength: 3 }).map(p => p.join('.')),
+  oldStatus: arbitraryStatus,
+  newStatus: arbitraryStatus,
+  timestamp: fc.date({ min: new Date('2020-01-01'), max: new Date('2030-01-01') }).map(d => d.toISOString()),
+  platform: arbitraryPlatform,
+  source: fc.constantFrom('update', 'failure-cascade', 'queue-group', 'group-status') as fc.Arbitrary<TaskHistoryEntry['source']>,
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const realFs: HistoryFileSystem = {
+  exists: async (p: string) => {
+    try { await fs.access(p); return true; } catch { return false; }
+  },
+  readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+};
+
+const GROUP_CONTENT = [
+  '# Tasks',
+  '',
+  '- [ ] 1 Group',
+  '  - [ ] 1.1 Foundation',
+  '    - [ ] 1.1.1 One',
+  '    - [ ] 1.1.2 Two',
+  '    - [ ] 1.1.3 Three',
+].join('\n');
+
+// ── Property 1: Serialised entries parse back unchanged ─────────────────────
+
+describe('Property 1: Serialised entries parse back unchanged', () => {
+  it('JSONL round-trips and skips malformed lines', () => {
+    fc.assert(
+      fc.property(fc.array(arbitraryEntry, { maxLength: 10 }), (entries) => {
+        const lines = entries.map(e => JSON.stringify(e));
+        const content = ['{ partial', ...lines, ''].join('\n');
+        expect(parseTaskHistory(content)).toEqual(entries);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 and TaskTracker integration ──────────────────────────────────
+
+describe('TaskTracker history recording', () => {
+  let tempDir: string;
+  let tasksPath: string;
+  let historyPath: string;
+
+  const readHistory = async (): Promise<TaskHistoryEntry[]> => {
+    try {
+      return parseTaskHistory(await fs.readFile(historyPath, 'utf-8'));
+    } catch {
+      return [];
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'task-history-'));
+    tasksPath = nodePath.join(tempDir, 'tasks.md');
+    historyPath = nodePath.join(tempDir, TASK_HISTORY_FILE);
+    await fs.writeFile(tasksPath, GROUP_CONTENT, 'utf-8');
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('Property 2: every status update appends exactly one entry per task whose status changes', { timeout: 30000 }, async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(fc.constantFrom('1.1.1', '1.1.2', '1.1.3'), arbitraryStatus), { minLength: 1, maxLength: 6 }),
+        arbitraryPlatform,
+        async (changes, platform) => {
+          await fs.writeFile(tasksPath, GROUP_CONTENT, 'utf-8');
+          await fs.rm(historyPath, { force: true });
+          const tracker = new TaskTracker({ platform });
+
+          for (const [taskId, status] of changes) {
+            await tracker.updateTaskStatus(tasksPath, taskId, status);
+          }
+
+          const history = await readHistory();
+          const current = new Map<string, TaskStatus>();
+          expect(history.map(e => [e.taskId, e.newStatus])).toEqual(changes.filter(([taskId, status]) => {
+            const changed = (current.get(taskId) ?? 'not_started') !== status;
+            current.set(taskId, status);
+            return changed;
+          }));
+          expect(history.every(e => e.platform === platform && e.source === 'update')).toBe(true);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('skips tasks whose status does not change, in single and bulk updates', async () => {
+    const tracker = new TaskTracker();
+    await tracker.updateTaskStatus(tasksPath, '1.1.1', 'in_progress');
+    await tracker.updateTaskStatus(tasksPath, '1.1.1', 'in_progress');
+    await tracker.updateTaskStatuses(tasksPath, ['1.1.1', '1.1.2'], 'in_progress');
+
+    expect((await readHistory()).map(e => [e.taskId, e.oldStatus, e.newStatus])).toEqual([
+      ['1.1.1', 'not_started', 'in_progress'],
+      ['1.1.2', 'not_started', 'in_progress'],
+    ]);
+  });
+
+  it('records the error message of failed updates', async () => {
+    await new TaskTracker({ platform: 'codex' }).updateTaskStatus(tasksPath, '1.1.2', 'failed', 'tests failed');
+
+    expect(await readHistory()).toMatchObject([
+      { taskId: '1.1.2', oldStatus: 'not_started', newStatus: 'failed', platform: 'codex', error: 'tests failed' },
+    ]);
+  });
+
+  it('records queueing, failure cascades and group aggregation', async () => {
+    const tracker = new TaskTracker();
+    await tracker.queueGroupTasks(tasksPath, '1');
+    await tracker.updateTaskStatus(tasksPath, '1.1.1', 'failed');
+    await tracker.handleTaskFailure(tasksPath, '1', '1.1.1');
+
+    const history = await readHistory();
+    expect(history.filter(e => e.source === 'queue-group').map(e => e.taskId)).toEqual(['1.1.1', '1.1.2', '1.1.3']);
+    expect(history.filter(e => e.source === 'failure-cascade').map(e => [e.taskId, e.newStatus])).toEqual([
+      ['1', 'failed'],
+      ['1.1.2', 'not_started'],
+      ['1.1.3', 'not_started'],
+    ]);
+  });
+
+  it('only records group aggregation when the group checkbox changes', async () => {
+    const tracker = new TaskTracker();
+    await tracker.updateGroupStatus(tasksPath, '1');
+    expect(await readHistory()).toEqual([]);
+
+    await tracker.updateTaskStatus(tasksPath, '1.1.1', 'completed');
+    await tracker.updateGroupStatus(tasksPath, '1');
+    expect((await readHistory()).filter(e => e.source === 'group-status')).toMatchObject([
+      { taskId: '1', oldStatus: 'not_started', newStatus: 'in_progress' },
+    ]);
+  });
+
+  it('does not write a log when history is disabled', async () => {
+    await new TaskTracker({ recordHistory: false }).updateTaskStatus(tasksPath, '1.1.1', 'completed');
+    expect(await realFs.exists(historyPath)).toBe(false);
+  });
+});
+
+// ── Unit tests: HistoryCommand ──────────────────────────────────────────────
+
+describe('HistoryCommand', () => {
+  let tempDir: string;
+  let specDir: string;
+
+  const entries: TaskHistoryEntry[] = [
+    { taskId: '1.1', oldStatus: 'not_started', newStatus: 'in_progress', timestamp: '2026-01-01T00:00:00.000Z', platform: 'kiro', source: 'update' },
+    { taskId: '1.10', oldStatus: 'not_started', newStatus: 'completed', timestamp: '2026-01-01T00:01:00.000Z', platform: null, source: 'update' },
+    { taskId: '1.1.2', oldStatus: 'in_progress', newStatus: 'failed', timestamp: '2026-01-01T00:02:00.000Z', platform: 'codex', source: 'update', error: 'boom' },
+  ];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'history-command-'));
+    specDir = nodePath.join(tempDir, '.kiro', 'specs', 'audit');
+    await fs.mkdir(specDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('returns an empty list for a spec without history', async () => {
+    const result = await new HistoryCommand(realFs).execute({ spec: 'audit', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.entries).toEqual([]);
+    expect(renderHistory(result.data!)).toBe('No history recorded for spec "audit"');
+  });
+
+  it('filters to a task and its subtasks', async () => {
+    await fs.writeFile(nodePath.join(specDir, TASK_HISTORY_FILE), entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+    const result = await new HistoryCommand(realFs).execute({ spec: 'audit', taskId: '1.1', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.entries.map(e => e.taskId)).toEqual(['1.1', '1.1.2']);
+    expect(filterTaskHistory(entries, '1.1')).toEqual(result.data!.entries);
+    expect(renderHistory(result.data!)).toContain('1.1.2  in_progress → failed  [codex, update]  (boom)');
+  });
+
+  it('rejects unknown specs and malformed task IDs', async () => {
+    const command = new HistoryCommand(realFs);
+
+    const missing = await command.execute({ spec: 'nope', workspaceRoot: tempDir });
+    expect(missing.error!.code).toBe('SPEC_NOT_FOUND');
+
+    const badTask = await command.execute({ spec: 'audit', taskId: '1.*', workspaceRoot: tempDir });
+    expect(badTask.error!.code).toBe('INVALID_TASK_ID');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Property-Based Tests for bulk task selectors
+ *
+ * Feature: bulk-task-transitions
+ * Property 1: Wildcard selects exactly the descendants of its prefix
+ * Property 2: Range selects exactly the siblings within its bounds
+ * Unit tests: selector parsing and RunTaskCommand bulk updates
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import * as os from 'os';
+import { expandTaskSelector, parseTaskSelector, isBulkSelector } from '../../src/tasks/task-selector';
+import { RunTaskCommand } from '../../src/commands/run-task-command';
+import type { RunTaskFileSystem } from '../../src/commands/run-task-command';
+import { TaskTracker } from '../../src/tasks/task-tracker';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+/** A three-level ID tree: [subgroupCount, leafCounts...] flattened to document order */
+const arbitraryDocumentIds = fc.array(fc.integer({ min: 1, max: 6 }), { minLength: 1, maxLength: 5 })
+  .map(leafCounts => {
+    const ids: string[] = ['1'];
+    leafCounts.forEach((count, i) => {
+      ids.push(`1.${i + 1}`);
+      for (let j = 1; j <= count; j++) ids.push(`1.${i + 1}.${j}`);
+    });
+    return ids;
+  });
+
+// ── Property 1: Wildcard selects exactly the descendants of its prefix ──────
+
+describe('Property 1: Wildcard selects exactly the descendants of its prefix', () => {
+  it('1.N.* matches every 1.N.x and nothing else', () => {
+    fc.assert(
+      fc.property(arbitraryDocumentIds, fc.integer({ min: 1, max: 5 }), (ids, n) => {
+        const { taskIds, unmatched } = expandTaskSelector(`1.${n}.*`, ids);
+        const expected = ids.filter(id => id.startsWith(`1.${n}.`));
+
+        expect(taskIds).toEqual(expected);
+        expect(unmatched).toEqual(expected.length === 0 ? [`1.${n}.*`] : []);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2: Range selects exactly the siblings within its bounds ────────
+
+describe('Property 2: Range selects exactly the siblings within its bounds', () => {
+  it('1.1.a..1.1.b matches leaves a through b of subgroup 1.1', () => {
+    fc.assert(
+      fc.property(
+        arbitraryDocumentIds,
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 0, max: 5 }),
+        (ids, from, span) => {
+          const to = from + span;
+          const { taskIds } = expandTaskSelector(`1.1.${from}..1.1.${to}`, ids);
+          const expected = ids.filter(id => {
+            const parts = id.split('.');
+            return parts.length === 3 && parts[1] === '1' && Number(parts[2]) >= from && Number(parts[2]) <= to;
+          });
+
+          expect(taskIds).toEqual(expected);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests: selector parsing ────────────────────────────────────────────
+
+describe('Task selector parsing', () => {
+  it('detects bulk syntax', () => {
+    expect(isBulkSelector('1.1')).toBe(false);
+    expect(isBulkSelector('1.2.*')).toBe(true);
+    expect(isBulkSelector('1.1.1..1.1.4')).toBe(true);
+    expect(isBulkSelector('1.1,1.2')).toBe(true);
+  });
+
+  it('rejects ranges across different parents', () => {
+    expect(() => parseTaskSelector('1.1.1..1.2.3')).toThrow(/same parent/);
+  });
+
+  it('rejects reversed ranges', () => {
+    expect(() => parseTaskSelector('1.1.4..1.1.1')).toThrow(/ends before it starts/);
+  });
+
+  it('rejects malformed terms', () => {
+    expect(() => parseTaskSelector('1.1,abc')).toThrow(/Invalid task selector term "abc"/);
+  });
+
+  it('deduplicates overlapping terms and keeps document order', () => {
+    const ids = ['1', '1.1', '1.1.1', '1.1.2', '1.2', '1.2.1'];
+    expect(expandTaskSelector('1.2.1,1.1.*,1.1.1', ids).taskIds).toEqual(['1.1.1', '1.1.2', '1.2.1']);
+  });
+});
+
+// ── Unit tests: RunTaskCommand bulk updates ─────────────────────────────────
+
+describe('RunTaskCommand bulk updates', () => {
+  let tempDir: string;
+  let tasksPath: string;
+
+  const realFs: RunTaskFileSystem = {
+    exists: async (p: string) => {
+      try { await fs.access(p); return true; } catch { return false; }
+    },
+    readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+  };
+
+  const content = [
+    '# Tasks',
+    '',
+    '- [ ] 1. Mandatory',
+    '  - [ ] 1.1 Foundation',
+    '    - [x] 1.1.1 One',
+    '    - [ ] 1.1.2 Two',
+    '    - [!] 1.1.3 Three',
+    '    - [ ] 1.1.4 Four',
+    '  - [ ] 1.2 CLI',
+    '    - [ ] 1.2.1 Helper',
+  ].join('\n');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'run-task-bulk-'));
+    const specDir = nodePath.join(tempDir, '.kiro', 'specs', 'bulk');
+    await fs.mkdir(specDir, { recursive: true });
+    tasksPath = nodePath.join(specDir, 'tasks.md');
+    await fs.writeFile(tasksPath, content, 'utf-8');
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('updates every task matched by a wildcard and returns one update per task', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'bulk', taskId: '1.1.*', status: 'completed', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.updates.map(u => [u.taskId, u.oldStatus])).toEqual([
+      ['1.1.1', 'completed'],
+      ['1.1.2', 'not_started'],
+      ['1.1.3', 'failed'],
+      ['1.1.4', 'not_started'],
+    ]);
+
+    const tracker = new TaskTracker();
+    const after = await fs.readFile(tasksPath, 'utf-8');
+    for (const id of ['1.1.1', '1.1.2', '1.1.3', '1.1.4']) {
+      expect(tracker.parseTaskStatus(after, id)).toBe('completed');
+    }
+    expect(tracker.parseTaskStatus(after, '1.2.1')).toBe('not_started');
+  });
+
+  it('applies ranges and comma lists together', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({
+      spec: 'bulk', taskId: '1.1.2..1.1.3,1.2.1', status: 'not_started', workspaceRoot: tempDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.updates.map(u => u.taskId)).toEqual(['1.1.2', '1.1.3', '1.2.1']);
+  });
+
+  it('fails without writing when any term matches nothing', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'bulk', taskId: '1.1.*,1.9.*', status: 'completed', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('TASK_NOT_FOUND');
+    expect(result.error!.details!.unmatched).toEqual(['1.9.*']);
+    expect(await fs.readFile(tasksPath, 'utf-8')).toBe(content);
+  });
+
+  it('rejects malformed selectors with INVALID_TASK_ID', async () => {
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'bulk', taskId: '1.1.4..1.1.1', status: 'completed', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('INVALID_TASK_ID');
+  });
+});
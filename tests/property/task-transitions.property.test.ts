@@ -0,0 +1,254 @@
+/**
+ * Property-Based Tests for task status transition policies
+ *
+ * Feature: task-transition-rules
+ * Property 1: Specs are strict unless they opt out with "any"
+ * Property 2: Strict specs never reopen completed tasks without --force
+ * Unit tests: policy resolution, force override, config validation,
+ *   documented run-task examples under the default policy
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import * as os from 'os';
+import {
+  DEFAULT_TASK_TRANSITIONS,
+  resolveTransitionPolicy,
+  isTransitionAllowed,
+} from '../../src/tasks/task-transitions';
+import { RunTaskCommand } from '../../src/commands/run-task-command';
+import type { RunTaskFileSystem } from '../../src/commands/run-task-command';
+import { TaskTracker } from '../../src/tasks/task-tracker';
+import { validateSpecConfig } from '../../src/workspace/spec-schema';
+import type { TaskStatus } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryStatus: fc.Arbitrary<TaskStatus> = fc.constantFrom(
+  'not_started', 'queued', 'in_progress', 'completed', 'failed'
+);
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const realFs: RunTaskFileSystem = {
+  exists: async (p: string) => {
+    try { await fs.access(p); return true; } catch { return false; }
+  },
+  readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+};
+
+const STATUS_CHARS: Record<TaskStatus, string> = {
+  not_started: ' ', queued: '~', in_progress: '-', completed: 'x', failed: '!',
+};
+
+// ── Property 1 & 2 ──────────────────────────────────────────────────────────
+
+describe('Transition policy resolution', () => {
+  it('Property 1: an absent policy is strict and only "any" lifts restrictions', () => {
+    expect(resolveTransitionPolicy({ generationMode: 'requirements-first' })).toEqual(DEFAULT_TASK_TRANSITIONS);
+    expect(resolveTransitionPolicy({ taskTransitions: 'any' })).toBeNull();
+  });
+
+  it('Property 2: strict policy never allows leaving completed', () => {
+    fc.assert(
+      fc.property(arbitraryStatus, (to) => {
+        const policy = resolveTransitionPolicy({ taskTransitions: 'strict' })!;
+        expect(isTransitionAllowed(policy, 'completed', to)).toBe(to === 'completed');
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('re-applying the current status is always allowed', () => {
+    fc.assert(
+      fc.property(arbitraryStatus, (status) => {
+        expect(isTransitionAllowed(DEFAULT_TASK_TRANSITIONS, status, status)).toBe(true);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('custom maps override only the listed statuses', () => {
+    const policy = resolveTransitionPolicy({ taskTransitions: { completed: ['in_progress'] } })!;
+    expect(isTransitionAllowed(policy, 'completed', 'in_progress')).toBe(true);
+    expect(isTransitionAllowed(policy, 'not_started', 'completed')).toBe(false);
+  });
+
+  it('rejects malformed policies', () => {
+    expect(() => resolveTransitionPolicy({ taskTransitions: 'loose' })).toThrow();
+    expect(() => resolveTransitionPolicy({ taskTransitions: { done: [] } })).toThrow(/unknown status "done"/);
+    expect(() => resolveTransitionPolicy({ taskTransitions: { completed: ['reopened'] } })).toThrow();
+  });
+
+  it('validateSpecConfig reports malformed taskTransitions', () => {
+    const result = validateSpecConfig({ generationMode: 'design-first', taskTransitions: { done: [] } });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.code)).toContain('INVALID_TASK_TRANSITIONS');
+  });
+});
+
+// ── RunTaskCommand enforcement ──────────────────────────────────────────────
+
+describe('RunTaskCommand transition enforcement', () => {
+  let tempDir: string;
+  let specDir: string;
+
+  async function setup(fromStatus: TaskStatus, config?: Record<string, unknown>): Promise<string> {
+    specDir = nodePath.join(tempDir, '.kiro', 'specs', 'policy');
+    await fs.mkdir(specDir, { recursive: true });
+    const tasksPath = nodePath.join(specDir, 'tasks.md');
+    await fs.writeFile(tasksPath, `- [${STATUS_CHARS[fromStatus]}] 1.1 Task\n`, 'utf-8');
+    if (config) {
+      await fs.writeFile(nodePath.join(specDir, '.config.kiro'), JSON.stringify(config), 'utf-8');
+    }
+    return tasksPath;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'run-task-policy-'));
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('agrees with isTransitionAllowed for every strict transition', { timeout: 30000 }, async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryStatus, arbitraryStatus, async (from, to) => {
+        const tasksPath = await setup(from, { generationMode: 'requirements-first', taskTransitions: 'strict' });
+        const command = new RunTaskCommand(realFs, new TaskTracker());
+        const result = await command.execute({ spec: 'policy', taskId: '1.1', status: to, workspaceRoot: tempDir });
+
+        const allowed = isTransitionAllowed(DEFAULT_TASK_TRANSITIONS, from, to);
+        expect(result.success).toBe(allowed);
+        if (!allowed) {
+          expect(result.error!.code).toBe('INVALID_TRANSITION');
+          expect(new TaskTracker().parseTaskStatus(await fs.readFile(tasksPath, 'utf-8'), '1.1')).toBe(from);
+        }
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('--force applies a rejected transition and reports a warning', async () => {
+    const tasksPath = await setup('completed', { generationMode: 'requirements-first', taskTransitions: 'strict' });
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({
+      spec: 'policy', taskId: '1.1', status: 'queued', force: true, workspaceRoot: tempDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Forced disallowed transition for 1.1: completed → queued']);
+    expect(new TaskTracker().parseTaskStatus(await fs.readFile(tasksPath, 'utf-8'), '1.1')).toBe('queued');
+  });
+
+  it('enforces the default policy when the config has no policy', async () => {
+    const tasksPath = await setup('completed', { generationMode: 'requirements-first' });
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'policy', taskId: '1.1', status: 'not_started', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('INVALID_TRANSITION');
+    expect(new TaskTracker().parseTaskStatus(await fs.readFile(tasksPath, 'utf-8'), '1.1')).toBe('completed');
+  });
+
+  it('does not enforce anything when the config opts out with "any"', async () => {
+    await setup('completed', { generationMode: 'requirements-first', taskTransitions: 'any' });
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'policy', taskId: '1.1', status: 'not_started', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('warns about disallowed transitions in specs without .config.kiro', async () => {
+    const tasksPath = await setup('completed');
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'policy', taskId: '1.1', status: 'not_started', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Transition 1.1 completed → not_started would be rejected by the default transition policy']);
+    expect(new TaskTracker().parseTaskStatus(await fs.readFile(tasksPath, 'utf-8'), '1.1')).toBe('not_started');
+  });
+
+  it('warns instead of failing when .config.kiro is not valid JSON', async () => {
+    await setup('completed');
+    await fs.writeFile(nodePath.join(specDir, '.config.kiro'), '{ not json', 'utf-8');
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'policy', taskId: '1.1', status: 'not_started', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings![0]).toContain('transition policy not enforced');
+  });
+
+  it.each(['null', '42', '[]'])('warns instead of failing when .config.kiro holds %s', async (config) => {
+    const tasksPath = await setup('completed');
+    await fs.writeFile(nodePath.join(specDir, '.config.kiro'), config, 'utf-8');
+    const command = new RunTaskCommand(realFs, new TaskTracker());
+    const result = await command.execute({ spec: 'policy', taskId: '1.1', status: 'not_started', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings![0]).toBe('.config.kiro could not be parsed; transition policy not enforced');
+    expect(new TaskTracker().parseTaskStatus(await fs.readFile(tasksPath, 'utf-8'), '1.1')).toBe('not_started');
+  });
+});
+
+// ── Documented examples ─────────────────────────────────────────────────────
+
+describe('Documented run-task examples', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'run-task-docs-'));
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  // The documented steps for a group: `--task "1.2.*" --status in_progress`, then `--status completed`
+  const documentedSteps: TaskStatus[] = ['in_progress', 'completed'];
+
+  async function setupSpec(): Promise<string> {
+    const specDir = nodePath.join(tempDir, '.kiro', 'specs', 'my-feature');
+    await fs.mkdir(specDir, { recursive: true });
+    // A config without taskTransitions, so the default policy is enforced
+    await fs.writeFile(nodePath.join(specDir, '.config.kiro'), JSON.stringify({ generationMode: 'requirements-first' }), 'utf-8');
+    const tasksPath = nodePath.join(specDir, 'tasks.md');
+    await fs.writeFile(tasksPath, [
+      '- [ ] 1. Group',
+      '  - [ ] 1.2 Subgroup',
+      '    - [ ] 1.2.1 First',
+      '    - [ ] 1.2.2 Second',
+      '',
+    ].join('\n'), 'utf-8');
+    return tasksPath;
+  }
+
+  it('the bulk example in the run-task help succeeds under the default policy', async () => {
+    const tasksPath = await setupSpec();
+    const command = new RunTaskCommand(realFs, new TaskTracker({ recordHistory: false }));
+
+    for (const status of documentedSteps) {
+      const result = await command.execute({ spec: 'my-feature', taskId: '1.2.*', status, workspaceRoot: tempDir });
+      expect(result.error).toBeUndefined();
+      expect(result.warnings).toBeUndefined();
+    }
+
+    const content = await fs.readFile(tasksPath, 'utf-8');
+    for (const id of ['1.2.1', '1.2.2']) {
+      expect(new TaskTracker().parseTaskStatus(content, id)).toBe('completed');
+    }
+  });
+
+  it('skipping the in_progress step is rejected under the default policy', async () => {
+    await setupSpec();
+    const command = new RunTaskCommand(realFs, new TaskTracker({ recordHistory: false }));
+
+    const result = await command.execute({ spec: 'my-feature', taskId: '1.2.*', status: 'completed', workspaceRoot: tempDir });
+
+    expect(result.error?.code).toBe('INVALID_TRANSITION');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Property-Based Tests for the shared tasks.md document model
+ *
+ * Feature: tasks-markdown
+ * Property 1: Parsing then serialising reproduces the input byte for byte
+ * Property 2: A status change rewrites only the marker of the target task
+ * Property 3: Generated tasks.md parses back to the same IDs and statuses
+ * Unit tests: ID matching, `1.` IDs, detail ownership, consumers agreeing
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { TasksMarkdown, STATUS_MARKERS } from '../../src/tasks/tasks-markdown';
+import { TaskTracker } from '../../src/tasks/task-tracker';
+import { TaskGroupResolver } from '../../src/tasks/task-group-resolver';
+import { TasksGenerator } from '../../src/documents/tasks-generator';
+import type { TaskStatus } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryStatus: fc.Arbitrary<TaskStatus> = fc.constantFrom(
+  'not_started', 'queued', 'in_progress', 'completed', 'failed'
+);
+
+const arbitraryId = fc.array(fc.integer({ min: 1, max: 12 }), { minLength: 1, maxLength: 4 }).map(p => p.join('.'));
+
+const arbitraryTaskLine = fc.tuple(
+  fc.constantFrom('', '  ', '    ', '\t'),
+  fc.constantFrom(' ', 'x', '-', '!', '~', 'X', '', '??'),
+  fc.constantFrom('', '*', '\\*'),
+  fc.constantFrom(' ', '  ', ''),
+  arbitraryId,
+  fc.constantFrom('', '.'),
+  fc.constantFrom(' Title', ' Title with  spaces ', '', ' _Requirements: 1.1_', ' trailing\r'),
+).map(parts => `${parts[0]}- [${parts[1]}]${parts.slice(2).join('')}`);
+
+const arbitraryOtherLine = fc.constantFrom(
+  '', '# Tasks', '## Overview', 'Free text', '  - Detail note', '      - _Requirements: 1.1, 2.3_',
+  '    - _Depends: 1.2_', '    - _Failure: tests failed_', '```', '- [ ] 1.1 inside a fence?', '\r', '- plain bullet',
+);
+
+const arbitraryContent = fc.array(fc.oneof(arbitraryTaskLine, arbitraryOtherLine), { maxLength: 25 })
+  .chain(lines => fc.constantFrom('', '\n').map(end => lines.join('\n') + end));
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const CONTENT = [
+  '# Tasks',
+  '',
+  '- [ ] 1. Group',
+  '  - [-] 1.1 Foundation',
+  '    - [x] 1.1.1 One',
+  '      - _Requirements: 1.1_',
+  '',
+  '      - Note after a blank line',
+  '    - [~]* 1.1.10 Ten',
+  '- [ ] 2 Next',
+].join('\n');
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Parsing then serialising reproduces the input byte for byte', () => {
+  it('round-trips arbitrary tasks.md content', () => {
+    fc.assert(
+      fc.property(arbitraryContent, (content) => {
+        expect(TasksMarkdown.parse(content).toString()).toBe(content);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: A status change rewrites only the marker of the target task', () => {
+  it('changes exactly one line, and only its marker', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('1', '1.1', '1.1.1', '1.1.10', '2'), arbitraryStatus, (taskId, status) => {
+        const document = TasksMarkdown.parse(CONTENT);
+        expect(document.setStatus(taskId, status)).toBe(true);
+
+        const before = CONTENT.split('\n');
+        const after = document.toString().split('\n');
+        expect(after.length).toBe(before.length);
+
+        const changed = after.map((line, i) => line !== before[i] ? i : -1).filter(i => i >= 0);
+        expect(changed.length).toBeLessThanOrEqual(1);
+        for (const i of changed) {
+          expect(after[i].replace(/\[.\]/, '[?]')).toBe(before[i].replace(/\[.\]/, '[?]'));
+        }
+        expect(TasksMarkdown.parse(document.toString()).findTask(taskId)!.status).toBe(status);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 3 ──────────────────────────────────────────────────────────────
+
+describe('Property 3: Generated tasks.md parses back to the same IDs and statuses', () => {
+  it('TasksGenerator output is read back by the shared model', () => {
+    fc.assert(
+      fc.property(fc.array(arbitraryStatus, { minLength: 1, maxLength: 6 }), (statuses) => {
+        const generator = new TasksGenerator();
+        const content = generator.generate([{
+          id: '1',
+          text: 'Group',
+          subtasks: statuses.map((status, i) => ({ id: `1.${i + 1}`, text: `Task ${i + 1}`, status, details: ['Do it'] })),
+        }]);
+
+        const tasks = TasksMarkdown.parse(content).tasks();
+        expect(tasks.map(t => t.id)).toEqual(['1', ...statuses.map((_, i) => `1.${i + 1}`)]);
+        expect(tasks.slice(1).map(t => t.status)).toEqual(statuses);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('TasksMarkdown', () => {
+  it('matches task IDs exactly', () => {
+    const document = TasksMarkdown.parse(CONTENT);
+    expect(document.findTask('1.1.1')!.status).toBe('completed');
+    expect(document.findTask('1.1.10')!.status).toBe('queued');
+    expect(document.findTask('1.1.1')!.isOptional).toBe(false);
+    expect(document.findTask('1.1.10')!.isOptional).toBe(true);
+    expect(document.findTask('1.1.2')).toBeUndefined();
+  });
+
+  it('accepts `1. Title` IDs', () => {
+    const group = new TaskGroupResolver().parseGroups(CONTENT)[0];
+    expect(group.id).toBe('1');
+    expect(group.title).toBe('Group');
+  });
+
+  it('keeps details across blank lines and stops at the next task', () => {
+    const document = TasksMarkdown.parse(CONTENT);
+    const details = document.detailsOf(document.findTask('1.1.1')!);
+    expect(details.map(d => d.raw.trim())).toEqual(['- _Requirements: 1.1_', '- Note after a blank line']);
+    expect(details[0].requirements).toEqual(['1.1']);
+    expect(document.detailsOf(document.findTask('1.1.10')!)).toEqual([]);
+  });
+
+  it('reports unknown markers and ignores checkboxes in code fences', () => {
+    const document = TasksMarkdown.parse(['- [ ] 1 Ok', '- [?] 2 Bad', '```', '- [?] 3 Example', '```', '- [] note'].join('\n'));
+    expect(document.invalidCheckboxLines()).toEqual([2, 6]);
+    expect(document.tasks().map(t => t.id)).toEqual(['1']);
+  });
+
+  it('gives TaskTracker and TaskGroupResolver the same view of every task', () => {
+    const tracker = new TaskTracker({ recordHistory: false });
+    const tasks = new TaskGroupResolver().parseGroups(CONTENT).flatMap(g => g.tasks);
+
+    expect(tracker.listTaskIds(CONTENT)).toEqual(tasks.map(t => t.id));
+    for (const task of tasks) {
+      expect(tracker.parseTaskStatus(CONTENT, task.id)).toBe(task.status);
+    }
+    expect(tracker.statusToChar('queued')).toBe(STATUS_MARKERS.queued);
+  });
+
+  it('does not touch a task whose ID only prefixes another', () => {
+    const tracker = new TaskTracker({ recordHistory: false });
+    const content = '- [ ] 1.10 Ten\n- [ ] 1.1 One';
+    expect(tracker.replaceTaskStatus(content, '1.1', 'completed')).toBe('- [ ] 1.10 Ten\n- [x] 1.1 One');
+  });
+});
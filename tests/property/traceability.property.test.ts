@@ -0,0 +1,225 @@
+/**
+ * Property-Based Tests for the requirements traceability matrix
+ *
+ * Feature: traceability
+ * Property 1: Every requirement is classified by the statuses of the tasks citing it
+ * Property 2: Every work item is either traced to a requirement or flagged
+ * Unit tests: design mentions, inherited requirements, TraceCommand
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as fs from 'fs/promises';
+import * as nodePath from 'path';
+import * as os from 'os';
+import { buildTraceabilityMatrix } from '../../src/documents/traceability';
+import { TraceCommand, renderTraceabilityMatrix } from '../../src/commands/trace-command';
+import type { TraceFileSystem } from '../../src/commands/trace-command';
+import type { TaskStatus } from '../../src/types';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryStatus: fc.Arbitrary<TaskStatus> = fc.constantFrom(
+  'not_started', 'queued', 'in_progress', 'completed', 'failed'
+);
+
+const CHAR: Record<TaskStatus, string> = {
+  not_started: ' ', queued: '~', in_progress: '-', completed: 'x', failed: '!',
+};
+
+/** Per task: its status and which of requirements 1..3 it cites (empty = none) */
+const arbitraryTasks = fc.array(
+  fc.tuple(arbitraryStatus, fc.subarray([1, 2, 3])),
+  { minLength: 1, maxLength: 6 }
+);
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const REQUIREMENTS = [
+  '# Requirements Document',
+  '',
+  '## Requirements',
+  '',
+  '### Requirement 1: Login',
+  '',
+  '**User Story:** As a user, I want to log in.',
+  '',
+  '#### Acceptance Criteria',
+  '',
+  '1. WHEN credentials are valid THEN the system SHALL create a session',
+  '2. IF credentials are invalid THEN the system SHALL show an error',
+  '',
+  '### Requirement 2: Logout',
+  '',
+  '#### Acceptance Criteria',
+  '',
+  '1. WHEN the user logs out THEN the system SHALL end the session',
+  '',
+  '### Requirement 3: Audit',
+  '',
+  '## Glossary',
+  '',
+  '1. Session: a logged-in period',
+].join('\n');
+
+const DESIGN = [
+  '# Design Document',
+  '',
+  '## Sessions',
+  '',
+  'Covers Requirements 1.1 and 2.1.',
+  '',
+  '## Errors',
+  '',
+  '**Validates: Requirement 1.2**',
+  '',
+  '## Storage',
+  '',
+  'Uses version 3 of the schema.',
+].join('\n');
+
+function buildTasks(tasks: Array<[TaskStatus, number[]]>): string {
+  const lines = ['- [ ] 1 Group', '  - [ ] 1.1 Work'];
+  tasks.forEach(([status, reqs], i) => {
+    lines.push(`    - [${CHAR[status]}] 1.1.${i + 1} Task ${i + 1}`);
+    if (reqs.length > 0) lines.push(`      - _Requirements: ${reqs.map(r => `${r}.1`).join(', ')}_`);
+  });
+  return lines.join('\n');
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: Every requirement is classified by the statuses of the tasks citing it', () => {
+  it('uncovered, complete and pending follow the citing tasks', () => {
+    fc.assert(
+      fc.property(arbitraryTasks, (tasks) => {
+        const matrix = buildTraceabilityMatrix(REQUIREMENTS, DESIGN, buildTasks(tasks));
+
+        for (const req of [1, 2, 3]) {
+          const citing = tasks.map(([status, reqs], i) => ({ id: `1.1.${i + 1}`, status, reqs }))
+            .filter(t => t.reqs.includes(req));
+          const row = matrix.requirements.find(r => r.id === String(req))!;
+
+          expect(row.tasks.map(t => [t.id, t.status])).toEqual(citing.map(t => [t.id, t.status]));
+          const expected = citing.length === 0 ? 'uncovered'
+            : citing.every(t => t.status === 'completed') ? 'complete' : 'pending';
+          expect(row.coverage).toBe(expected);
+          expect(matrix.uncoveredRequirements.includes(String(req))).toBe(expected === 'uncovered');
+          expect(matrix.completedRequirements.includes(String(req))).toBe(expected === 'complete');
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Every work item is either traced to a requirement or flagged', () => {
+  it('untracedTasks lists exactly the tasks citing nothing', () => {
+    fc.assert(
+      fc.property(arbitraryTasks, (tasks) => {
+        const matrix = buildTraceabilityMatrix(REQUIREMENTS, DESIGN, buildTasks(tasks));
+
+        const expected = tasks.map(([, reqs], i) => ({ id: `1.1.${i + 1}`, reqs }))
+          .filter(t => t.reqs.length === 0)
+          .map(t => t.id);
+        expect(matrix.untracedTasks.map(t => t.id)).toEqual(expected);
+        // Requirement 3 has no criteria, so its "3.1" citations are unknown
+        expect(matrix.unknownReferences.every(u => u.requirementIds.every(id => id === '3.1'))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('buildTraceabilityMatrix', () => {
+  it('parses requirements, their criteria and the design sections mentioning them', () => {
+    const matrix = buildTraceabilityMatrix(REQUIREMENTS, DESIGN, '');
+
+    expect(matrix.requirements.map(r => [r.id, r.title, r.criteria])).toEqual([
+      ['1', 'Login', ['1.1', '1.2']],
+      ['2', 'Logout', ['2.1']],
+      ['3', 'Audit', []],
+    ]);
+    expect(matrix.requirements[0].designSections).toEqual([
+      { heading: 'Sessions', line: 3 },
+      { heading: 'Errors', line: 7 },
+    ]);
+    expect(matrix.requirements[2].designSections).toEqual([]);
+  });
+
+  it('applies requirements cited on a subgroup to its tasks', () => {
+    const matrix = buildTraceabilityMatrix(REQUIREMENTS, '', [
+      '- [ ] 1 Group',
+      '  - [ ] 1.1 Auth',
+      '    - _Requirements: 1_',
+      '    - [x] 1.1.1 Login form',
+      '    - [x] 1.1.2 Session store',
+      '  - [ ] 1.2 Docs',
+    ].join('\n'));
+
+    expect(matrix.requirements[0].tasks.map(t => t.id)).toEqual(['1.1.1', '1.1.2']);
+    expect(matrix.completedRequirements).toEqual(['1']);
+    expect(matrix.untracedTasks).toEqual([{ id: '1.2', text: 'Docs' }]);
+  });
+});
+
+describe('TraceCommand', () => {
+  let tempDir: string;
+  let specDir: string;
+
+  const realFs: TraceFileSystem = {
+    exists: async (p: string) => {
+      try { await fs.access(p); return true; } catch { return false; }
+    },
+    readFile: async (p: string) => fs.readFile(p, 'utf-8'),
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'trace-command-'));
+    specDir = nodePath.join(tempDir, '.kiro', 'specs', 'auth');
+    await fs.mkdir(specDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('renders a markdown table with the flagged items', async () => {
+    await fs.writeFile(nodePath.join(specDir, 'requirements.md'), REQUIREMENTS);
+    await fs.writeFile(nodePath.join(specDir, 'design.md'), DESIGN);
+    await fs.writeFile(nodePath.join(specDir, 'tasks.md'), buildTasks([['completed', [2]], ['in_progress', [1]], ['not_started', []]]));
+
+    const result = await new TraceCommand(realFs).execute({ spec: 'auth', workspaceRoot: tempDir });
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+
+    const output = renderTraceabilityMatrix(result.data!);
+    expect(output).toContain('| Requirement | Title | Design | Tasks | Coverage |');
+    expect(output).toContain('| 1 | Login | Sessions, Errors | 1.1.2 (in_progress) | pending |');
+    expect(output).toContain('| 2 | Logout | Sessions | 1.1.1 (completed) | complete |');
+    expect(output).toContain('| 3 | Audit | — | — | uncovered |');
+    expect(output).toContain('- Requirements with no tasks: 3');
+    expect(output).toContain('- Tasks with no requirements: 1.1.3');
+  });
+
+  it('treats missing documents as empty and warns', async () => {
+    const result = await new TraceCommand(realFs).execute({ spec: 'auth', workspaceRoot: tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      'requirements.md not found; treated as empty',
+      'design.md not found; treated as empty',
+      'tasks.md not found; treated as empty',
+    ]);
+    expect(renderTraceabilityMatrix(result.data!)).toBe('No requirements or tasks found for spec "auth"');
+  });
+
+  it('rejects unknown specs', async () => {
+    const result = await new TraceCommand(realFs).execute({ spec: 'missing', workspaceRoot: tempDir });
+    expect(result.error!.code).toBe('SPEC_NOT_FOUND');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Property-Based Tests for uninstall-skills
+ *
+ * Feature: uninstall-skills
+ * Property 1: init, install and uninstall leave only the specs behind
+ * Property 2: Removing the managed region gives back the hand-written text
+ * Unit tests: dry run, edited files, fingerprinting, hooks, --skills, unsafe lock paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { UninstallSkillsCommand } from '../../src/commands/uninstall-skills-command';
+import { InstallSkillsCommand } from '../../src/commands/install-skills-command';
+import { WorkspaceInitCommand, mergeSettings, unmergeSettings } from '../../src/commands/workspace-init-command';
+import { ErrorCode } from '../../src/commands/command-result';
+import { mergeManagedRegion, removeManagedRegion } from '../../src/workspace/managed-region';
+import { SKILL_LOCK_FILE } from '../../src/registry/skill-lock';
+import { SkillLockVerifier } from '../../src/verification/skill-lock-verifier';
+import { SkillRegistry } from '../../src/registry/skill-registry';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { allSkills } from '../../src/skills/index';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryPlatform = fc.constantFrom(...platformRegistry.ids());
+
+const arbitraryNotes = fc.array(fc.stringOf(fc.constantFrom(...'abc #-'.split('')), { maxLength: 20 }), { maxLength: 4 })
+  .map(lines => lines.join('\n'));
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+const spec = `${root}/.kiro/specs/auth/requirements.md`;
+
+function createRegistry(): SkillRegistry {
+  const registry = new SkillRegistry();
+  allSkills.forEach(skill => registry.register(skill));
+  return registry;
+}
+
+/**
+ * A workspace holding one spec
+ */
+function workspaceFs(): InMemoryFS {
+  return new InMemoryFS({ [spec]: '# Requirements' });
+}
+
+async function setUp(fs: InMemoryFS, platform: string, hooks = false) {
+  const adapters = platformRegistry.createAdapters();
+  await new WorkspaceInitCommand(fs, adapters).execute({ platform, workspaceRoot: root, hooks });
+  await new InstallSkillsCommand(createRegistry(), adapters, fs).execute({ platform, workspaceRoot: root });
+}
+
+function uninstall(fs: InMemoryFS, options: { platform: string; skills?: string[]; dryRun?: boolean; force?: boolean }) {
+  return new UninstallSkillsCommand(createRegistry(), platformRegistry.createAdapters(), fs)
+    .execute({ ...options, workspaceRoot: root });
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: init, install and uninstall leave only the specs behind', () => {
+  it('removes every generated file and keeps .kiro/specs/', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbitraryPlatform, fc.boolean(), async (platform, hooks) => {
+        const fs = workspaceFs();
+        await setUp(fs, platform, hooks);
+
+        const result = await uninstall(fs, { platform });
+
+        expect(result.success).toBe(true);
+        expect([...fs.getAllFiles().keys()]).toEqual([spec]);
+        expect(result.data!.uninstalled.sort()).toEqual(createRegistry().listForPlatform(platform).map(s => s.name).sort());
+        expect(fs.hasDir(`${root}/.kiro/specs/auth`)).toBe(true);
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: Removing the managed region gives back the hand-written text', () => {
+  it('round-trips mergeManagedRegion', () => {
+    fc.assert(
+      fc.property(arbitraryNotes, (notes) => {
+        const merged = mergeManagedRegion(notes, '# SDD Framework\n\nSpecs live in .kiro/specs/\n');
+
+        expect(removeManagedRegion(merged)).toBe(notes.trim() ? `${notes.trim()}\n` : '');
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('UninstallSkillsCommand', () => {
+  it('changes nothing on a dry run', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'codex');
+    const before = fs.getAllFiles();
+
+    const result = await uninstall(fs, { platform: 'codex', dryRun: true });
+
+    expect(result.data!.dryRun).toBe(true);
+    expect(result.data!.removed).toContain('.codex/skills/run-task/SKILL.md');
+    expect(result.data!.removed).toContain('.codex/skills/run-task');
+    expect(result.data!.removed).toContain('AGENTS.md');
+    expect(fs.getAllFiles()).toEqual(before);
+  });
+
+  it('keeps edited skill files unless forced', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'kiro');
+    await fs.writeFile(`${root}/.kiro/skills/run-task.md`, 'my edits');
+
+    const kept = await uninstall(fs, { platform: 'kiro' });
+    expect(kept.data!.kept).toEqual(['.kiro/skills/run-task.md']);
+    expect(kept.data!.keptSkills).toEqual(['run-task']);
+    expect(kept.warnings![0]).toBe('Kept skills with files edited since install: run-task; use --force to remove them');
+    expect(fs.getFile(`${root}/.kiro/skills/run-task.md`)).toBe('my edits');
+
+    expect(kept.data!.uninstalled).not.toContain('run-task');
+    expect(fs.getFile(`${root}/${SKILL_LOCK_FILE}`)).toContain('"run-task"');
+
+    const forced = await uninstall(fs, { platform: 'kiro', force: true });
+    expect(forced.data!.uninstalled).toEqual(['run-task']);
+    expect([...fs.getAllFiles().keys()]).toEqual([spec]);
+  });
+
+  it('keeps every file of a skill with one edited file, so verify still passes', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'claude-code');
+    const skillFile = `${root}/.claude/skills/run-task/SKILL.md`;
+    const command = `${root}/.claude/commands/run-task.md`;
+    const original = fs.getFile(command);
+    await fs.writeFile(skillFile, 'my edits');
+
+    const result = await uninstall(fs, { platform: 'claude-code' });
+
+    expect(result.data!.kept).toEqual(['.claude/skills/run-task/SKILL.md']);
+    expect(result.data!.keptSkills).toEqual(['run-task']);
+    expect(fs.getFile(command)).toBe(original);
+    expect(fs.hasFile(`${root}/.sdd/base/.claude/commands/run-task.md`)).toBe(true);
+    const checks = await new SkillLockVerifier(fs, createRegistry()).verify('claude-code', root);
+    expect(checks.map(c => [c.name, c.actual])).toEqual([
+      ['Skill run-task matches .sdd/lock.json', 'modified .claude/skills/run-task/SKILL.md'],
+    ]);
+  });
+
+  it('recognises skills installed before the lock file by their content', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'gemini-cli');
+    for (const file of [...fs.getAllFiles().keys()].filter(f => f.startsWith(`${root}/.sdd/`))) await fs.remove(file);
+    await fs.writeFile(`${root}/.gemini/commands/notes.toml`, 'prompt = "mine"');
+
+    const result = await uninstall(fs, { platform: 'gemini-cli' });
+
+    expect(result.data!.uninstalled.length).toBeGreaterThan(0);
+    expect([...fs.getAllFiles().keys()].sort()).toEqual([`${root}/.gemini/commands/notes.toml`, spec]);
+  });
+
+  it('takes the sdd hooks out of settings the user also edited', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'claude-code', true);
+    const settingsPath = `${root}/.claude/settings.json`;
+    const settings = JSON.parse(fs.getFile(settingsPath)!);
+    await fs.writeFile(settingsPath, JSON.stringify({ ...settings, permissions: { allow: ['Bash(npm test)'] } }));
+    await fs.writeFile(`${root}/CLAUDE.md`, `# My Project\n\n${fs.getFile(`${root}/CLAUDE.md`)}`);
+
+    const result = await uninstall(fs, { platform: 'claude-code' });
+
+    expect(result.data!.updated.sort()).toEqual(['.claude/settings.json', 'CLAUDE.md']);
+    expect(JSON.parse(fs.getFile(settingsPath)!)).toEqual({ permissions: { allow: ['Bash(npm test)'] } });
+    expect(fs.getFile(`${root}/CLAUDE.md`)).toBe('# My Project\n');
+  });
+
+  it('removes only the listed skills and keeps the instructions file', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'codex');
+
+    const result = await uninstall(fs, { platform: 'codex', skills: ['run-task'] });
+
+    expect(result.data!.uninstalled).toEqual(['run-task']);
+    expect(fs.hasFile(`${root}/.codex/skills/run-task/SKILL.md`)).toBe(false);
+    expect(fs.hasFile(`${root}/.codex/skills/create-spec/SKILL.md`)).toBe(true);
+    expect(fs.hasFile(`${root}/AGENTS.md`)).toBe(true);
+    expect(fs.getFile(`${root}/${SKILL_LOCK_FILE}`)).not.toContain('"run-task"');
+  });
+
+  it('warns once about a lock entry outside the workspace', async () => {
+    const fs = workspaceFs();
+    await setUp(fs, 'kiro');
+    const lockPath = `${root}/${SKILL_LOCK_FILE}`;
+    await fs.writeFile(lockPath, fs.getFile(lockPath)!.replace('".kiro/skills/run-task.md"', '"../run-task.md"'));
+
+    const result = await uninstall(fs, { platform: 'kiro', skills: ['run-task'] });
+
+    expect(result.warnings).toEqual(['../run-task.md is outside the workspace and was skipped']);
+  });
+
+  it('rejects unknown skills', async () => {
+    const result = await uninstall(workspaceFs(), { platform: 'kiro', skills: ['nope'] });
+
+    expect(result.error!.code).toBe(ErrorCode.SKILL_NOT_FOUND);
+  });
+});
+
+describe('unmergeSettings', () => {
+  it('undoes mergeSettings', () => {
+    const user = { hooks: { Stop: [{ hooks: [{ type: 'command', command: 'make lint' }] }] }, model: 'opus' };
+    const generated = { hooks: { Stop: [{ hooks: [{ type: 'command', command: 'npx sdd verify' }] }], SessionStart: [] } };
+
+    expect(unmergeSettings(mergeSettings(user, generated), generated)).toEqual(user);
+    expect(unmergeSettings(generated, generated)).toBeUndefined();
+  });
+});
@@ -64,10 +64,8 @@ const arbitraryInvalidTaskStatus = fc.oneof(
 );
 
 /** Valid task IDs */
-const arbitraryTaskId = fc.tuple(
-  fc.integer({ min: 1, max: 99 }),
-  fc.integer({ min: 1, max: 99 })
-).map(([major, minor]) => `${major}.${minor}`);
+const arbitraryTaskId = fc.array(fc.integer({ min: 1, max: 99 }), { minLength: 2, maxLength: 4 })
+  .map(segments => segments.join('.'));
 
 /** Invalid task IDs */
 const arbitraryInvalidTaskId = fc.oneof(
@@ -76,7 +74,8 @@ const arbitraryInvalidTaskId = fc.oneof(
   fc.constant('1'),
   fc.constant('1.'),
   fc.constant('.1'),
-  fc.constant('1.2.3'),
+  fc.constant('1.2.'),
+  fc.constant('1..2'),
   fc.constant('a.b')
 );
 
@@ -267,9 +267,10 @@ describe('Feature: 003-post-operation-verification, Property 2: No short-circuit
    * **Validates: Requirements 3.7**
    *
    * For any file system state where N checks are expected, the verifier SHALL always
-   * return exactly N check results, regardless of how many checks fail.
+   * return exactly N check results, regardless of how many checks fail. Content checks
+   * of a missing file are the exception: "<file> exists" already reports it.
    */
-  it('always returns the same number of checks regardless of failures', async () => {
+  it('always returns the same checks regardless of failures', async () => {
     await fc.assert(
       fc.asyncProperty(
         arbSpecName,
@@ -281,7 +282,9 @@ describe('Feature: 003-post-operation-verification, Property 2: No short-circuit
           });
           const verifier = new SpecVerifier(validFs);
           const validResult = await verifier.verify(specName, '/workspace');
-          const expectedCheckCount = validResult.checks.length;
+          const expectedChecks = validResult.checks
+            .map(c => c.name)
+            .filter(name => !name.startsWith('requirements.md ') || name === 'requirements.md exists');
 
           // Now build a spec where the folder exists but first file is missing
           const brokenFs = buildSpecFS(specName, {
@@ -291,8 +294,8 @@ describe('Feature: 003-post-operation-verification, Property 2: No short-circuit
           const brokenVerifier = new SpecVerifier(brokenFs);
           const brokenResult = await brokenVerifier.verify(specName, '/workspace');
 
-          // Same number of checks despite the failure
-          expect(brokenResult.checks.length).toBe(expectedCheckCount);
+          // Every other check still runs despite the failure
+          expect(brokenResult.checks.map(c => c.name)).toEqual(expectedChecks);
           // At least one check should have failed
           expect(brokenResult.checks.some(c => !c.passed)).toBe(true);
         }
@@ -513,7 +516,7 @@ describe('Feature: 003-post-operation-verification, Property 7: Skill verificati
    * CLI invocation section. When a --skills filter is provided, only the filtered
    * skills SHALL be checked.
    */
-  it('checks existence, non-empty, CLI invocation section, and Codex directory structure', async () => {
+  it('checks existence, non-empty, CLI invocation section, and skill directory structure', async () => {
     await fc.assert(
       fc.asyncProperty(
         arbPlatformId,
@@ -525,7 +528,8 @@ describe('Feature: 003-post-operation-verification, Property 7: Skill verificati
           const fs = new MockVerifyFS();
           const root = '/workspace';
           const skillsBase = `${root}/${PLATFORM_SKILLS_PATH[platform]}`;
-          const isCodex = platform === 'codex';
+          // Claude Code, Codex and Antigravity install each skill as a directory with SKILL.md
+          const isDirectory = platform === 'claude-code' || platform === 'codex' || platform === 'antigravity';
 
           for (let i = 0; i < skillNames.length; i++) {
             const name = skillNames[i];
@@ -533,7 +537,7 @@ describe('Feature: 003-post-operation-verification, Property 7: Skill verificati
             const hasCli = cliFlags[i % cliFlags.length];
 
             if (exists) {
-              const skillPath = isCodex
+              const skillPath = isDirectory
                 ? `${skillsBase}${name}/SKILL.md`
                 : `${skillsBase}${name}.md`;
               const content = hasCli
@@ -541,7 +545,7 @@ describe('Feature: 003-post-operation-verification, Property 7: Skill verificati
                 : `# Skill\n\nNo CLI section here.`;
               fs.addFile(skillPath, content);
 
-              if (isCodex) {
+              if (isDirectory) {
                 fs.addDir(`${skillsBase}${name}`);
               }
             }
@@ -571,8 +575,8 @@ describe('Feature: 003-post-operation-verification, Property 7: Skill verificati
               expect(cliCheck).toBeDefined();
               expect(cliCheck!.passed).toBe(hasCli);
 
-              // Codex directory structure check
-              if (isCodex) {
+              // Directory structure check
+              if (isDirectory) {
                 const dirCheck = checks.find(c => c.name === `Skill ${name} directory structure`);
                 expect(dirCheck).toBeDefined();
                 expect(dirCheck!.passed).toBe(true);
@@ -806,12 +810,15 @@ describe('Feature: 003-post-operation-verification, Property 4: Command-then-ver
             amazonq: '.amazonq/rules/',
           };
           const skillsBase = `${root}/${skillsPaths[platform]}`;
-          const isCodex = platform === 'codex';
+          // Claude Code, Codex and Antigravity install each skill as a directory with SKILL.md
+          const isDirectory = platform === 'claude-code' || platform === 'codex' || platform === 'antigravity';
 
           // Simulate what install-skills produces
           for (const name of skillNames) {
-            const content = `# ${name}\n\n## CLI Invocation\n\nnpx sdd run-task`;
-            if (isCodex) {
+            const body = `# ${name}\n\n## CLI Invocation\n\nnpx sdd run-task`;
+            // Claude Code discovers skills by their frontmatter name
+            const content = platform === 'claude-code' ? `---\nname: ${name}\n---\n\n${body}` : body;
+            if (isDirectory) {
               fs.addDir(`${skillsBase}${name}`);
               fs.addFile(`${skillsBase}${name}/SKILL.md`, content);
             } else {
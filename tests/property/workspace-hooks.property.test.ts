@@ -0,0 +1,177 @@
+/**
+ * Property-Based Tests for agent hooks written by workspace-init
+ *
+ * Feature: agent-hooks
+ * Property 1: mergeSettings keeps every existing setting
+ * Property 2: mergeSettings is idempotent
+ * Unit tests: workspace-init --hooks for Claude Code and Kiro, definition validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { WorkspaceInitCommand, mergeSettings } from '../../src/commands/workspace-init-command';
+import { getBuiltinPlatform } from '../../src/adapters/builtin-platforms';
+import { validatePlatformDefinition } from '../../src/adapters/platform-definition';
+import { platformRegistry } from '../../src/registry/platform-registry';
+import { InMemoryFS } from '../helpers/in-memory-fs';
+
+// ── Generators ──────────────────────────────────────────────────────────────
+
+const arbitraryKey = fc.constantFrom('hooks', 'Stop', 'SessionStart', 'permissions', 'model', 'env');
+
+const arbitrarySettings: fc.Arbitrary<unknown> = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small' },
+    fc.string({ maxLength: 8 }),
+    fc.integer(),
+    fc.boolean(),
+    fc.array(tie('value'), { maxLength: 3 }),
+    tie('object')
+  ),
+  object: fc.dictionary(arbitraryKey, tie('value'), { maxKeys: 4 }),
+})).object;
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const root = '/workspace';
+
+function initCommand(fs: InMemoryFS): WorkspaceInitCommand {
+  return new WorkspaceInitCommand(fs, platformRegistry.createAdapters());
+}
+
+/**
+ * Whether every value in `subset` is present, unchanged, in `superset`.
+ */
+function keepsAll(subset: unknown, superset: unknown): boolean {
+  if (Array.isArray(subset)) {
+    return Array.isArray(superset) && subset.every((entry, i) => JSON.stringify(entry) === JSON.stringify(superset[i]));
+  }
+  if (typeof subset === 'object' && subset !== null) {
+    const target = superset as Record<string, unknown>;
+    return Object.entries(subset).every(([key, value]) => key in target && keepsAll(value, target[key]));
+  }
+  return subset === superset;
+}
+
+// ── Property 1 ──────────────────────────────────────────────────────────────
+
+describe('Property 1: mergeSettings keeps every existing setting', () => {
+  it('never removes or changes a user value', () => {
+    fc.assert(
+      fc.property(arbitrarySettings, arbitrarySettings, (existing, generated) => {
+        expect(keepsAll(existing, mergeSettings(existing, generated))).toBe(true);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ── Property 2 ──────────────────────────────────────────────────────────────
+
+describe('Property 2: mergeSettings is idempotent', () => {
+  it('merging the same settings twice equals merging them once', () => {
+    fc.assert(
+      fc.property(arbitrarySettings, arbitrarySettings, (existing, generated) => {
+        const once = mergeSettings(existing, generated);
+        expect(mergeSettings(once, generated)).toEqual(once);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+// ── Unit tests ──────────────────────────────────────────────────────────────
+
+describe('workspace-init --hooks for Claude Code', () => {
+  const settingsPath = `${root}/.claude/settings.json`;
+
+  it('writes SessionStart and Stop hooks into .claude/settings.json', async () => {
+    const fs = new InMemoryFS();
+
+    const result = await initCommand(fs).execute({ platform: 'claude-code', hooks: true, workspaceRoot: root });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.hooksFiles).toEqual([settingsPath]);
+    const settings = JSON.parse(fs.getFile(settingsPath)!);
+    expect(settings.hooks.SessionStart[0].hooks[0].command).toBe('npx sdd status');
+    expect(settings.hooks.Stop[0].hooks[0].command).toBe('npx sdd verify --platform claude-code');
+  });
+
+  it('merges into existing settings and hooks', async () => {
+    const userStop = { matcher: '', hooks: [{ type: 'command', command: 'npm test' }] };
+    const fs = new InMemoryFS({
+      [settingsPath]: JSON.stringify({ permissions: { allow: ['Bash(npm:*)'] }, hooks: { Stop: [userStop] } }),
+    });
+
+    await initCommand(fs).execute({ platform: 'claude-code', hooks: true, workspaceRoot: root });
+    const settings = JSON.parse(fs.getFile(settingsPath)!);
+
+    expect(settings.permissions).toEqual({ allow: ['Bash(npm:*)'] });
+    expect(settings.hooks.Stop).toHaveLength(2);
+    expect(settings.hooks.Stop[0]).toEqual(userStop);
+    expect(settings.hooks.SessionStart).toHaveLength(1);
+  });
+
+  it('leaves the file untouched when run again', async () => {
+    const fs = new InMemoryFS();
+    await initCommand(fs).execute({ platform: 'claude-code', hooks: true, workspaceRoot: root });
+    const first = fs.getFile(settingsPath);
+    await fs.writeFile(settingsPath, `${first}  `);
+
+    const result = await initCommand(fs).execute({ platform: 'claude-code', hooks: true, workspaceRoot: root });
+
+    expect(result.data!.hooksFiles).toEqual([settingsPath]);
+    expect(fs.getFile(settingsPath)).toBe(`${first}  `);
+  });
+
+  it('skips settings that are not valid JSON with a warning', async () => {
+    const fs = new InMemoryFS({ [settingsPath]: '{ "permissions": ' });
+
+    const result = await initCommand(fs).execute({ platform: 'claude-code', hooks: true, workspaceRoot: root });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.hooksFiles).toEqual([]);
+    expect(result.warnings).toEqual(['.claude/settings.json is not a JSON object; add the sdd hooks to it by hand']);
+    expect(fs.getFile(settingsPath)).toBe('{ "permissions": ');
+  });
+
+  it('writes no hooks without the option', async () => {
+    const fs = new InMemoryFS();
+
+    const result = await initCommand(fs).execute({ platform: 'claude-code', workspaceRoot: root });
+
+    expect(result.data!.hooksFiles).toBeUndefined();
+    expect(fs.hasFile(settingsPath)).toBe(false);
+  });
+});
+
+describe('workspace-init --hooks for other platforms', () => {
+  it('writes Kiro agent hooks', async () => {
+    const fs = new InMemoryFS();
+
+    const result = await initCommand(fs).execute({ platform: 'kiro', hooks: true, workspaceRoot: root });
+
+    expect(result.data!.hooksFiles).toEqual([
+      `${root}/.kiro/hooks/sdd-task-status.kiro.hook`,
+      `${root}/.kiro/hooks/sdd-verify.kiro.hook`,
+    ]);
+    const verify = JSON.parse(fs.getFile(`${root}/.kiro/hooks/sdd-verify.kiro.hook`)!);
+    expect(verify).toMatchObject({ when: { type: 'agentStop' }, then: { command: 'npx sdd verify --platform kiro' } });
+  });
+
+  it('warns when the platform has no hooks', async () => {
+    const result = await initCommand(new InMemoryFS()).execute({ platform: 'codex', hooks: true, workspaceRoot: root });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.hooksFiles).toEqual([]);
+    expect(result.warnings).toEqual(['codex has no agent hooks; --hooks was ignored']);
+  });
+
+  it('validates hook definitions', () => {
+    const definition = getBuiltinPlatform('claude-code');
+    expect(validatePlatformDefinition(definition).valid).toBe(true);
+
+    const invalid = validatePlatformDefinition({ ...definition, hooks: [{ path: '.claude/settings.json', content: [] }] });
+    expect(invalid.errors.map(e => e.path)).toEqual(['hooks']);
+  });
+});
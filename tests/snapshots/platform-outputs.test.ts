@@ -12,12 +12,16 @@ import { ClaudeCodeAdapter } from '../../src/adapters/claude-code-adapter';
 import { CodexAdapter } from '../../src/adapters/codex-adapter';
 import { AntigravityAdapter } from '../../src/adapters/antigravity-adapter';
 import { AmazonQAdapter } from '../../src/adapters/amazonq-adapter';
+import { CursorAdapter } from '../../src/adapters/cursor-adapter';
+import { CopilotAdapter } from '../../src/adapters/copilot-adapter';
+import { GeminiCliAdapter } from '../../src/adapters/gemini-cli-adapter';
 import {
   createSpecSkill,
   workspaceInitSkill,
   runTaskSkill,
   installSkillsSkill,
 } from '../../src/skills';
+import { SkillRegistry } from '../../src/registry/skill-registry';
 import type { CanonicalSkill } from '../../src/types';
 
 // All canonical skills to test
@@ -28,13 +32,16 @@ const allSkills: CanonicalSkill[] = [
   installSkillsSkill,
 ];
 
+// Renders through the same path as install, resolving partials per platform
+const registry = new SkillRegistry();
+
 describe('Kiro Adapter Skill Output', () => {
   const adapter = new KiroAdapter();
 
   it.each(allSkills.map(s => [s.name, s]))(
     'formats %s skill correctly',
     (name, skill) => {
-      const output = adapter.formatSkill(skill);
+      const output = registry.render(skill, adapter);
       expect(output).toMatchSnapshot();
     }
   );
@@ -55,7 +62,7 @@ describe('Claude Code Adapter Skill Output', () => {
   it.each(allSkills.map(s => [s.name, s]))(
     'formats %s skill correctly',
     (name, skill) => {
-      const output = adapter.formatSkill(skill);
+      const output = registry.render(skill, adapter);
       expect(output).toMatchSnapshot();
     }
   );
@@ -81,7 +88,7 @@ describe('Codex Adapter Skill Output', () => {
   it.each(allSkills.map(s => [s.name, s]))(
     'formats %s skill correctly',
     (name, skill) => {
-      const output = adapter.formatSkill(skill);
+      const output = registry.render(skill, adapter);
       expect(output).toMatchSnapshot();
     }
   );
@@ -107,7 +114,7 @@ describe('Antigravity Adapter Skill Output', () => {
   it.each(allSkills.map(s => [s.name, s]))(
     'formats %s skill correctly',
     (name, skill) => {
-      const output = adapter.formatSkill(skill);
+      const output = registry.render(skill, adapter);
       expect(output).toMatchSnapshot();
     }
   );
@@ -133,7 +140,7 @@ describe('Amazon Q Adapter Skill Output', () => {
   it.each(allSkills.map(s => [s.name, s]))(
     'formats %s skill correctly',
     (name, skill) => {
-      const output = adapter.formatSkill(skill);
+      const output = registry.render(skill, adapter);
       expect(output).toMatchSnapshot();
     }
   );
@@ -153,6 +160,84 @@ describe('Amazon Q Adapter Skill Output', () => {
   });
 });
 
+describe('Cursor Adapter Skill Output', () => {
+  const adapter = new CursorAdapter();
+
+  it.each(allSkills.map(s => [s.name, s]))(
+    'formats %s skill correctly',
+    (name, skill) => {
+      const output = registry.render(skill, adapter);
+      expect(output).toMatchSnapshot();
+    }
+  );
+
+  it('generates .cursor/rules/specs.mdc instructions content', () => {
+    const specs = [
+      { name: 'user-auth', description: 'User authentication feature', path: '.kiro/specs/user-auth/' },
+      { name: 'payments', description: 'Payment processing', path: '.kiro/specs/payments/' },
+    ];
+    const output = adapter.generateInstructionsContent(specs);
+    expect(output).toMatchSnapshot();
+  });
+
+  it('generates .cursor/rules/specs.mdc with no specs', () => {
+    const output = adapter.generateInstructionsContent([]);
+    expect(output).toMatchSnapshot();
+  });
+});
+
+describe('Copilot Adapter Skill Output', () => {
+  const adapter = new CopilotAdapter();
+
+  it.each(allSkills.map(s => [s.name, s]))(
+    'formats %s skill correctly',
+    (name, skill) => {
+      const output = registry.render(skill, adapter);
+      expect(output).toMatchSnapshot();
+    }
+  );
+
+  it('generates .github/copilot-instructions.md content', () => {
+    const specs = [
+      { name: 'user-auth', description: 'User authentication feature', path: '.kiro/specs/user-auth/' },
+      { name: 'payments', description: 'Payment processing', path: '.kiro/specs/payments/' },
+    ];
+    const output = adapter.generateInstructionsContent(specs);
+    expect(output).toMatchSnapshot();
+  });
+
+  it('generates .github/copilot-instructions.md with no specs', () => {
+    const output = adapter.generateInstructionsContent([]);
+    expect(output).toMatchSnapshot();
+  });
+});
+
+describe('Gemini CLI Adapter Skill Output', () => {
+  const adapter = new GeminiCliAdapter();
+
+  it.each(allSkills.map(s => [s.name, s]))(
+    'formats %s skill correctly',
+    (name, skill) => {
+      const output = registry.render(skill, adapter);
+      expect(output).toMatchSnapshot();
+    }
+  );
+
+  it('generates GEMINI.md instructions content', () => {
+    const specs = [
+      { name: 'user-auth', description: 'User authentication feature', path: '.kiro/specs/user-auth/' },
+      { name: 'payments', description: 'Payment processing', path: '.kiro/specs/payments/' },
+    ];
+    const output = adapter.generateInstructionsContent(specs);
+    expect(output).toMatchSnapshot();
+  });
+
+  it('generates GEMINI.md with no specs', () => {
+    const output = adapter.generateInstructionsContent([]);
+    expect(output).toMatchSnapshot();
+  });
+});
+
 describe('Cross-Platform Output Consistency', () => {
   const adapters = [
     { name: 'kiro', adapter: new KiroAdapter() },
@@ -160,12 +245,15 @@ describe('Cross-Platform Output Consistency', () => {
     { name: 'codex', adapter: new CodexAdapter() },
     { name: 'antigravity', adapter: new AntigravityAdapter() },
     { name: 'amazonq', adapter: new AmazonQAdapter() },
+    { name: 'cursor', adapter: new CursorAdapter() },
+    { name: 'copilot', adapter: new CopilotAdapter() },
+    { name: 'gemini-cli', adapter: new GeminiCliAdapter() },
   ];
 
   it('all adapters produce output for all skills', () => {
     for (const { name, adapter } of adapters) {
       for (const skill of allSkills) {
-        const output = adapter.formatSkill(skill);
+        const output = registry.render(skill, adapter);
         expect(output, `${name} should format ${skill.name}`).toBeDefined();
       }
     }
@@ -174,7 +262,7 @@ describe('Cross-Platform Output Consistency', () => {
   it('all adapters include skill title in output', () => {
     for (const { name, adapter } of adapters) {
       for (const skill of allSkills) {
-        const output = adapter.formatSkill(skill);
+        const output = registry.render(skill, adapter);
         
         if ('content' in output) {
           expect(output.content, `${name}/${skill.name} should include title`).toContain(skill.title);
@@ -189,7 +277,7 @@ describe('Cross-Platform Output Consistency', () => {
   it('all adapters include skill description in output', () => {
     for (const { name, adapter } of adapters) {
       for (const skill of allSkills) {
-        const output = adapter.formatSkill(skill);
+        const output = registry.render(skill, adapter);
         
         if ('content' in output) {
           expect(output.content, `${name}/${skill.name} should include description`).toContain(skill.description);